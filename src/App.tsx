@@ -1,16 +1,31 @@
 import { Routes, Route, Navigate } from 'react-router-dom'
 import { AuthProvider } from './contexts/AuthContext'
 import { ThemeProvider } from './contexts/ThemeContext'
+import { PreferencesProvider } from './contexts/PreferencesContext'
+import { DataSourcesProvider } from './contexts/DataSourcesContext'
 import { DataProvider } from './contexts/DataContext'
+import { RatesProvider } from './contexts/RatesContext'
+import { RealtimeProvider } from './contexts/RealtimeContext'
+import { ExportProvider } from './contexts/ExportContext'
 import Layout from './components/Layout'
 import LoginPage from './pages/LoginPage'
 import DashboardPage from './pages/DashboardPage'
 import AreaCodesPage from './pages/AreaCodesPage'
 import CallLogsPage from './pages/CallLogsPage'
+import CallDetailDrawer from './components/CallDetailDrawer'
 import RawDataPage from './pages/RawDataPage'
 import ExtensionsPage from './pages/ExtensionsPage'
+import ExtensionDetailPage from './pages/ExtensionDetailPage'
+import AreaCodeDetailPage from './pages/AreaCodeDetailPage'
+import CompareSourcesPage from './pages/CompareSourcesPage'
+import RatedCostPage from './pages/RatedCostPage'
+import RatesPage from './pages/RatesPage'
+import ReconciliationPage from './pages/ReconciliationPage'
 import UsersPage from './pages/UsersPage'
 import SettingsPage from './pages/SettingsPage'
+import SchedulesPage from './pages/SchedulesPage'
+import DataHealthPage from './pages/DataHealthPage'
+import AccountPage from './pages/AccountPage'
 import NotFoundPage from './pages/NotFoundPage'
 import ProtectedRoute from './components/ProtectedRoute'
 import { Toaster } from './components/ui/toaster'
@@ -19,7 +34,12 @@ function App() {
   return (
     <ThemeProvider>
       <AuthProvider>
+        <DataSourcesProvider>
         <DataProvider>
+          <RatesProvider>
+          <PreferencesProvider>
+          <RealtimeProvider>
+          <ExportProvider>
             <div className="min-h-screen bg-background">
             <Routes>
               {/* Public routes */}
@@ -41,9 +61,17 @@ function App() {
                 {/* Reports */}
                 <Route path="reports">
                   <Route path="area-codes" element={<AreaCodesPage />} />
-                  <Route path="call-logs" element={<CallLogsPage />} />
+                  <Route path="area-codes/:code" element={<AreaCodeDetailPage scope="areaCode" />} />
+                  <Route path="area-codes/state/:state" element={<AreaCodeDetailPage scope="state" />} />
+                  <Route path="call-logs" element={<CallLogsPage />}>
+                    <Route path=":id" element={<CallDetailDrawer />} />
+                  </Route>
                   <Route path="raw-data" element={<RawDataPage />} />
                   <Route path="extensions" element={<ExtensionsPage />} />
+                  <Route path="extensions/:extension" element={<ExtensionDetailPage />} />
+                  <Route path="compare" element={<CompareSourcesPage />} />
+                  <Route path="rated-cost" element={<RatedCostPage />} />
+                  <Route path="reconciliation" element={<ReconciliationPage />} />
                 </Route>
                 
                 {/* System */}
@@ -56,8 +84,21 @@ function App() {
                       </ProtectedRoute>
                     } 
                   />
+                  <Route
+                    path="schedules"
+                    element={
+                      <ProtectedRoute requiredPermission="exportData">
+                        <SchedulesPage />
+                      </ProtectedRoute>
+                    }
+                  />
                   <Route path="settings" element={<SettingsPage />} />
+                  <Route path="rates" element={<RatesPage />} />
+                  <Route path="health" element={<DataHealthPage />} />
                 </Route>
+
+                {/* Signed-in user's own account */}
+                <Route path="account" element={<AccountPage />} />
               </Route>
               
               {/* 404 page */}
@@ -67,7 +108,12 @@ function App() {
             {/* Global toast notifications */}
             <Toaster />
             </div>
+          </ExportProvider>
+          </RealtimeProvider>
+          </PreferencesProvider>
+          </RatesProvider>
           </DataProvider>
+        </DataSourcesProvider>
         </AuthProvider>
       </ThemeProvider>
   )
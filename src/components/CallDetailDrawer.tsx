@@ -0,0 +1,373 @@
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { useLocation, useNavigate, useParams } from 'react-router-dom'
+import { Dialog, Transition } from '@headlessui/react'
+import {
+  XMarkIcon,
+  PhoneArrowUpRightIcon,
+  PhoneArrowDownLeftIcon,
+  ArrowsRightLeftIcon,
+  ClipboardDocumentIcon
+} from '@heroicons/react/24/outline'
+import { useData } from '../contexts/DataContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { useRates } from '../contexts/RatesContext'
+import { toast } from './ui/use-toast'
+import { dataService } from '../services/dataService'
+import type { CallLog } from '../services/dataService'
+import { getErrorMessage } from '../services/apiClient'
+import { CALL_SOURCE_PARAM, withCallSource } from '../lib/callLogsView'
+import { DEFAULT_INCREMENT, billableSeconds, parseIncrement } from '../lib/rating'
+
+type HopKind = 'trunk' | 'queue' | 'ringGroup' | 'ivr' | 'extension' | 'voicemail' | 'external' | 'other'
+
+interface ChainHop {
+  kind: HopKind
+  label: string
+}
+
+const HOP_STYLES: Record<HopKind, { name: string; badge: string }> = {
+  trunk: { name: 'Trunk', badge: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200' },
+  queue: { name: 'Queue', badge: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300' },
+  ringGroup: { name: 'Ring group', badge: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300' },
+  ivr: { name: 'IVR', badge: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300' },
+  extension: { name: 'Extension', badge: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300' },
+  voicemail: { name: 'Voicemail', badge: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+  external: { name: 'External', badge: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  other: { name: 'Hop', badge: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200' }
+}
+
+// Friendlier wording for the 3CX termination reason codes we see most often
+const TERMINATION_REASONS: Record<string, string> = {
+  src_participant_terminated: 'Caller hung up',
+  dst_participant_terminated: 'Callee hung up',
+  cancelled: 'Caller hung up before answer',
+  completed_elsewhere: 'Answered by another device',
+  no_answer: 'No answer',
+  busy: 'Busy',
+  redirected: 'Redirected',
+  forwarded: 'Forwarded',
+  terminated_by_rule: 'Terminated by a routing rule',
+  failed: 'Failed',
+  failed_cancelled: 'Failed / cancelled'
+}
+
+const classifyHop = (raw: string): HopKind => {
+  const value = raw.toLowerCase()
+  if (/voice ?mail|^vm|\bvm\d*/.test(value)) return 'voicemail'
+  if (/queue/.test(value)) return 'queue'
+  if (/ring ?group|^rg\b/.test(value)) return 'ringGroup'
+  if (/ivr|receptionist|^dr\b/.test(value)) return 'ivr'
+  if (/trunk|line|provider|sip/.test(value)) return 'trunk'
+  if (/^ext\.?/.test(value) || /^\d{2,5}$/.test(value)) return 'extension'
+  if (/^\+?\d{7,}$/.test(value.replace(/[\s()-]/g, ''))) return 'external'
+  return 'other'
+}
+
+// `chain` is a delimited list of the parties the call passed through, e.g.
+// "Chain: +15551234567;Queue 800;Ext.101;Ext.VM101"
+const parseChain = (chain?: string): ChainHop[] => {
+  if (!chain) return []
+  return String(chain)
+    .replace(/^\s*chain:\s*/i, '')
+    .split(/\s*(?:;|->|→|\|)\s*/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(label => ({ kind: classifyHop(label), label }))
+}
+
+// Raw stream is JSON for newer records and a CSV line for older ones
+const formatRawStream = (raw?: string): string => {
+  if (!raw) return ''
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2)
+  } catch {
+    return String(raw)
+      .split(',')
+      .map((field, index) => `${String(index).padStart(3, ' ')}  ${field}`)
+      .join('\n')
+  }
+}
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = Math.floor(seconds % 60)
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`
+}
+
+export default function CallDetailDrawer() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { selectedDataSource } = useData()
+  // Set when the call was opened from the combined view, which isn't a collection to look it up in
+  const collection = new URLSearchParams(location.search).get(CALL_SOURCE_PARAM) || selectedDataSource
+  const { formatDateTime } = usePreferences()
+  const { rate } = useRates()
+  const [call, setCall] = useState<CallLog | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [open, setOpen] = useState(true)
+
+  // Call times in the user's timezone
+  const formatTimestamp = (value?: string) => value ? formatDateTime(value) : '-'
+
+  useEffect(() => {
+    if (!id) return
+    let cancelled = false
+
+    const fetchCall = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+        const result = await dataService.getCallLog(id, collection)
+        if (!cancelled) setCall(result)
+      } catch (err: any) {
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to load call'))
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    fetchCall()
+    return () => { cancelled = true }
+  }, [id, collection])
+
+  // Keep the list's query string so closing returns to the same view
+  const handleClose = () => setOpen(false)
+  const handleAfterLeave = () => navigate(`/reports/call-logs${withCallSource(location.search)}`)
+
+  const hops = useMemo(() => parseChain(call?.chain), [call?.chain])
+  const rawStream = useMemo(() => formatRawStream(call?.rawStream), [call?.rawStream])
+
+  const durationSeconds = call?.durationSeconds || 0
+  // Billing blocks come from the rate deck entry that prices the call; without one, whole minutes are assumed
+  const rated = call ? rate(call) : null
+  const increment = rated?.entry?.increment || DEFAULT_INCREMENT
+  const billedSeconds = rated?.entry ? rated.billableSeconds : billableSeconds(durationSeconds, parseIncrement(DEFAULT_INCREMENT)!)
+  const billedMinutes = billedSeconds / 60
+  const cost = call?.cost || 0
+
+  const callTypeIcon = call?.callType === 'incoming'
+    ? <PhoneArrowDownLeftIcon className="h-5 w-5 text-green-600" />
+    : call?.callType === 'outgoing'
+    ? <PhoneArrowUpRightIcon className="h-5 w-5 text-blue-600" />
+    : <ArrowsRightLeftIcon className="h-5 w-5 text-gray-500" />
+
+  return (
+    <Transition.Root show={open} as={Fragment} afterLeave={handleAfterLeave} appear>
+      <Dialog as="div" className="relative z-50" onClose={handleClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="transition-opacity ease-linear duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="transition-opacity ease-linear duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-900/50" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-hidden">
+          <div className="pointer-events-none fixed inset-y-0 right-0 flex max-w-full pl-10">
+            <Transition.Child
+              as={Fragment}
+              enter="transform transition ease-in-out duration-300"
+              enterFrom="translate-x-full"
+              enterTo="translate-x-0"
+              leave="transform transition ease-in-out duration-300"
+              leaveFrom="translate-x-0"
+              leaveTo="translate-x-full"
+            >
+              <Dialog.Panel className="pointer-events-auto w-screen max-w-2xl">
+                <div className="flex h-full flex-col overflow-y-auto bg-white dark:bg-gray-900 shadow-xl">
+                  {/* Header */}
+                  <div className="flex items-start justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                    <div className="flex items-center gap-3 min-w-0">
+                      {callTypeIcon}
+                      <div className="min-w-0">
+                        <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-white truncate">
+                          {call ? `${call.fromDispname || call.fromNumber} → ${call.finalDispname || call.toDispname || call.toNumber}` : 'Call details'}
+                        </Dialog.Title>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          {call ? `${formatTimestamp(call.startTime)} · History ID ${call.historyId}` : id}
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleClose}
+                      className="rounded-md p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                    >
+                      <span className="sr-only">Close panel</span>
+                      <XMarkIcon className="h-6 w-6" />
+                    </button>
+                  </div>
+
+                  {isLoading ? (
+                    <div className="p-6 space-y-4 animate-pulse">
+                      {[...Array(4)].map((_, i) => (
+                        <div key={i} className="h-16 bg-gray-200 dark:bg-gray-700 rounded" />
+                      ))}
+                    </div>
+                  ) : error || !call ? (
+                    <div className="p-6 text-sm text-red-600 dark:text-red-400">{error || 'Call not found'}</div>
+                  ) : (
+                    <div className="p-6 space-y-8">
+                      {/* Summary */}
+                      <dl className="grid grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <dt className="text-gray-500 dark:text-gray-400">Type</dt>
+                          <dd className="capitalize text-gray-900 dark:text-gray-100">{call.callType}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-gray-500 dark:text-gray-400">Status</dt>
+                          <dd className="capitalize text-gray-900 dark:text-gray-100">{call.status}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-gray-500 dark:text-gray-400">From</dt>
+                          <dd className="text-gray-900 dark:text-gray-100">
+                            {call.fromNumber}
+                            {call.fromDispname && <span className="text-gray-500 dark:text-gray-400"> ({call.fromDispname})</span>}
+                            {call.fromType && <span className="block text-xs text-gray-500 dark:text-gray-400">{call.fromType}</span>}
+                          </dd>
+                        </div>
+                        <div>
+                          <dt className="text-gray-500 dark:text-gray-400">To</dt>
+                          <dd className="text-gray-900 dark:text-gray-100">
+                            {call.toNumber}
+                            {call.toDispname && <span className="text-gray-500 dark:text-gray-400"> ({call.toDispname})</span>}
+                          </dd>
+                        </div>
+                        <div>
+                          <dt className="text-gray-500 dark:text-gray-400">Started</dt>
+                          <dd className="text-gray-900 dark:text-gray-100">{formatTimestamp(call.startTime)}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-gray-500 dark:text-gray-400">Ended</dt>
+                          <dd className="text-gray-900 dark:text-gray-100">{formatTimestamp(call.endTime)}</dd>
+                        </div>
+                        {call.trunkNumber && (
+                          <div>
+                            <dt className="text-gray-500 dark:text-gray-400">Trunk</dt>
+                            <dd className="text-gray-900 dark:text-gray-100">{call.trunkNumber}</dd>
+                          </div>
+                        )}
+                        {call.missedQueueCalls !== undefined && call.missedQueueCalls !== '' && (
+                          <div>
+                            <dt className="text-gray-500 dark:text-gray-400">Missed Queue Calls</dt>
+                            <dd className="text-gray-900 dark:text-gray-100">{call.missedQueueCalls}</dd>
+                          </div>
+                        )}
+                      </dl>
+
+                      {/* Timeline */}
+                      <section>
+                        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Call path</h3>
+                        {hops.length === 0 ? (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">No chain recorded for this call.</p>
+                        ) : (
+                          <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2">
+                            {hops.map((hop, index) => {
+                              const isFinal = index === hops.length - 1
+                              return (
+                                <li key={`${hop.label}-${index}`} className="mb-4 ml-4 last:mb-0">
+                                  <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-gray-900 ${isFinal ? 'bg-indigo-600' : 'bg-gray-300 dark:bg-gray-600'}`} />
+                                  <div className="flex items-center gap-2">
+                                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${HOP_STYLES[hop.kind].badge}`}>
+                                      {HOP_STYLES[hop.kind].name}
+                                    </span>
+                                    <span className="text-sm text-gray-900 dark:text-gray-100">{hop.label}</span>
+                                  </div>
+                                  {isFinal && (call.finalDispname || call.finalType) && (
+                                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                      Ended at {call.finalDispname || hop.label}{call.finalType ? ` (${call.finalType})` : ''}
+                                    </p>
+                                  )}
+                                </li>
+                              )
+                            })}
+                          </ol>
+                        )}
+                      </section>
+
+                      {/* Termination */}
+                      <section>
+                        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Termination</h3>
+                        <p className="text-sm text-gray-900 dark:text-gray-100">
+                          {TERMINATION_REASONS[call.terminationReason] || call.terminationReason || 'Unknown'}
+                        </p>
+                        {TERMINATION_REASONS[call.terminationReason] && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">{call.terminationReason}</p>
+                        )}
+                      </section>
+
+                      {/* Cost breakdown */}
+                      <section>
+                        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Cost breakdown</h3>
+                        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                          <div>
+                            <dt className="text-gray-500 dark:text-gray-400">Duration</dt>
+                            <dd className="text-gray-900 dark:text-gray-100">{formatDuration(durationSeconds)}</dd>
+                          </div>
+                          <div>
+                            <dt className="text-gray-500 dark:text-gray-400" title={rated?.entry ? `Billed in ${increment} blocks per the ${rated.deck?.name} rate deck` : 'No rate deck prices this call, so 60/60 billing is assumed'}>
+                              Billed minutes ({increment}{rated?.entry ? '' : ', assumed'})
+                            </dt>
+                            <dd className="text-gray-900 dark:text-gray-100">{Number.isInteger(billedMinutes) ? billedMinutes : billedMinutes.toFixed(2)}</dd>
+                          </div>
+                          <div>
+                            <dt className="text-gray-500 dark:text-gray-400">Rate / min</dt>
+                            <dd className="text-gray-900 dark:text-gray-100">
+                              {billedMinutes > 0 ? `$${(cost / billedMinutes).toFixed(4)}` : '-'}
+                            </dd>
+                          </div>
+                          <div>
+                            <dt className="text-gray-500 dark:text-gray-400">Total cost</dt>
+                            <dd className="font-semibold text-gray-900 dark:text-gray-100">${cost.toFixed(2)}</dd>
+                          </div>
+                        </dl>
+                      </section>
+
+                      {/* Raw stream */}
+                      <section>
+                        <div className="flex items-center justify-between mb-2">
+                          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Raw stream</h3>
+                          {call.rawStream && (
+                            <button
+                              type="button"
+                              onClick={() => {
+                                const copy = navigator.clipboard?.writeText(String(call.rawStream)) ?? Promise.reject(new Error('Clipboard unavailable'))
+                                copy.catch(err => {
+                                  console.error('Copy raw stream error:', err)
+                                  toast({ variant: 'destructive', title: 'Could not copy the raw stream', description: 'Select the text and copy it instead.' })
+                                })
+                              }}
+                              className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                            >
+                              <ClipboardDocumentIcon className="h-4 w-4" />
+                              Copy
+                            </button>
+                          )}
+                        </div>
+                        {rawStream ? (
+                          <pre className="text-xs font-mono bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-md p-3 overflow-x-auto max-h-96">{rawStream}</pre>
+                        ) : (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">No raw stream stored for this call.</p>
+                        )}
+                      </section>
+                    </div>
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  )
+}
@@ -0,0 +1,53 @@
+import type { HeatmapCell } from '../services/dataService'
+import { WEEK_START } from '../lib/dateRanges'
+
+interface CallHeatmapProps {
+  cells: HeatmapCell[]
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+// Weekday rows in the same order as the date picker's weeks
+const WEEKDAYS = Array.from({ length: 7 }, (_, i) => (i + WEEK_START) % 7)
+
+// Busy hours by weekday, shaded relative to the busiest hour
+export default function CallHeatmap({ cells }: CallHeatmapProps) {
+  const counts = new Map(cells.map(cell => [`${cell.weekday}-${cell.hour}`, cell.totalCalls]))
+  const max = Math.max(0, ...cells.map(cell => cell.totalCalls))
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate border-spacing-0.5 text-[10px] text-gray-500 dark:text-gray-400">
+        <thead>
+          <tr>
+            <th />
+            {HOURS.map(hour => (
+              <th key={hour} className="font-normal w-6">{hour % 3 === 0 ? hour : ''}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {WEEKDAYS.map(weekday => (
+            <tr key={weekday}>
+              <th className="font-normal text-right pr-1">{WEEKDAY_LABELS[weekday]}</th>
+              {HOURS.map(hour => {
+                const count = counts.get(`${weekday}-${hour}`) || 0
+                // Floor the opacity so quiet-but-nonzero hours still show up
+                const opacity = count > 0 && max > 0 ? 0.15 + 0.85 * (count / max) : 0
+                return (
+                  <td
+                    key={hour}
+                    title={`${WEEKDAY_LABELS[weekday]} ${hour.toString().padStart(2, '0')}:00 – ${count.toLocaleString()} calls`}
+                    className="h-5 w-6 rounded-sm bg-gray-100 dark:bg-gray-700"
+                    style={count > 0 ? { backgroundColor: `rgba(79, 70, 229, ${opacity})` } : undefined}
+                  />
+                )
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+import { useState, useEffect, useMemo } from 'react'
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Brush, ResponsiveContainer } from 'recharts'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faChartLine, faSearchPlus, faSync } from '@fortawesome/free-solid-svg-icons'
+import { dataService } from '../services/dataService'
+import type { CallTrend, TrendInterval } from '../services/dataService'
+import { getErrorMessage } from '../services/apiClient'
+import { bucketEnd, defaultIntervalFor } from '../lib/periods'
+import { formatInTimeZone } from '../lib/datetime'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { useData } from '../contexts/DataContext'
+import type { DataFilters } from '../contexts/DataContext'
+import { ALL_DATA_SOURCES, SOURCE_COLORS, useDataSources } from '../contexts/DataSourcesContext'
+import { toFilterParams } from '../lib/callLogsView'
+
+interface CallTrendsPanelProps {
+  collection: string
+  filters: DataFilters
+  // Called with ISO strings when the user zooms into a brushed range
+  onRangeSelect: (dateFrom: string, dateTo: string) => void
+}
+
+const INTERVALS: Array<{ value: TrendInterval; label: string }> = [
+  { value: 'hour', label: 'Hourly' },
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' }
+]
+
+const SERIES = [
+  { key: 'incomingCalls', label: 'Incoming', color: '#10B981' },
+  { key: 'outgoingCalls', label: 'Outgoing', color: '#F97316' },
+  { key: 'internalCalls', label: 'Internal', color: '#6366F1' }
+]
+
+// One series per source in the combined view
+// Bucket totals with, in the combined view, total calls per source
+type TrendRow = CallTrend & { bySource?: Record<string, number> }
+
+// Sum per-source trends into one row per period
+const mergeSourceTrends = (sources: string[], results: CallTrend[][]): TrendRow[] => {
+  const rows = new Map<string, TrendRow>()
+  results.forEach((trends, index) => {
+    trends.forEach(trend => {
+      const row = rows.get(trend.period) || { period: trend.period, totalCalls: 0, incomingCalls: 0, outgoingCalls: 0, internalCalls: 0, bySource: {} }
+      row.totalCalls += trend.totalCalls
+      row.incomingCalls += trend.incomingCalls
+      row.outgoingCalls += trend.outgoingCalls
+      row.internalCalls += trend.internalCalls
+      row.bySource![sources[index]] = trend.totalCalls
+      rows.set(trend.period, row)
+    })
+  })
+  return Array.from(rows.values()).sort((a, b) => new Date(a.period).getTime() - new Date(b.period).getTime())
+}
+
+// Bucket label in the zone the server grouped by
+const formatPeriod = (period: string, interval: TrendInterval, timeZone: string) => {
+  const d = new Date(period)
+  if (isNaN(d.getTime())) return period
+  switch (interval) {
+    case 'hour': return formatInTimeZone(d, 'MMM d HH:mm', timeZone)
+    case 'month': return formatInTimeZone(d, 'MMM yyyy', timeZone)
+    default: return formatInTimeZone(d, 'MMM d', timeZone)
+  }
+}
+
+export default function CallTrendsPanel({ collection, filters, onRangeSelect }: CallTrendsPanelProps) {
+  const { timeZone } = usePreferences()
+  const { permittedDataSources } = useData()
+  const { getLabel } = useDataSources()
+  // The combined view charts each source separately
+  const sources = collection === ALL_DATA_SOURCES ? permittedDataSources : []
+  const suggestedInterval = defaultIntervalFor(filters.dateFrom, filters.dateTo)
+  const [interval, setTrendInterval] = useState<TrendInterval>(suggestedInterval)
+  const [trends, setTrends] = useState<TrendRow[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selection, setSelection] = useState<{ startIndex: number; endIndex: number } | null>(null)
+
+  // Re-derive the bucket size whenever the dashboard date range changes
+  useEffect(() => {
+    setTrendInterval(suggestedInterval)
+  }, [suggestedInterval])
+
+  useEffect(() => {
+    if (!collection) return
+    let cancelled = false
+
+    const fetchTrends = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+        const params = { interval, timezone: timeZone, ...toFilterParams(filters) }
+        let rows: TrendRow[]
+        if (sources.length > 0) {
+          const responses = await Promise.all(sources.map(source => dataService.getCallTrends({ ...params, collection: source })))
+          rows = mergeSourceTrends(sources, responses.map(response => response.trends || []))
+        } else {
+          const response = await dataService.getCallTrends({ ...params, collection })
+          rows = response.trends || []
+        }
+        if (!cancelled) {
+          setTrends(rows)
+          setSelection(null)
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to load call trends'))
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    fetchTrends()
+    return () => { cancelled = true }
+  }, [collection, sources.join(','), interval, timeZone, JSON.stringify(filters)])
+
+  const chartData = useMemo(() => trends.map(({ bySource, ...t }) => ({
+    ...t,
+    ...Object.fromEntries(sources.map((source, index) => [`source${index}`, bySource?.[source] || 0])),
+    label: formatPeriod(t.period, interval, timeZone)
+  })), [trends, interval, timeZone, sources.join(',')])
+
+  const series = sources.length > 0
+    ? sources.map((source, index) => ({ key: `source${index}`, label: getLabel(source), color: SOURCE_COLORS[index % SOURCE_COLORS.length] }))
+    : SERIES
+
+  const hasSelection = !!selection && (selection.startIndex > 0 || selection.endIndex < chartData.length - 1)
+
+  const handleZoom = () => {
+    if (!selection || chartData.length === 0) return
+    const start = new Date(chartData[selection.startIndex].period)
+    const end = bucketEnd(new Date(chartData[selection.endIndex].period), interval, timeZone)
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) return
+    onRangeSelect(start.toISOString(), new Date(end.getTime() - 1).toISOString())
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center gap-3">
+            <FontAwesomeIcon icon={faChartLine} className="text-blue-600" />
+            Call Trends
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {sources.length > 0 ? 'Call volume per source over time' : 'Incoming, outgoing and internal volume over time'} - drag the handles below the chart to select a range
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {hasSelection && (
+            <button
+              onClick={handleZoom}
+              className="inline-flex items-center px-3 py-1.5 text-xs rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
+            >
+              <FontAwesomeIcon icon={faSearchPlus} className="h-3 w-3 mr-2" />
+              Zoom to selection
+            </button>
+          )}
+          <div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+            {INTERVALS.map(opt => (
+              <button
+                key={opt.value}
+                onClick={() => setTrendInterval(opt.value)}
+                className={`px-2.5 py-1 text-xs ${
+                  interval === opt.value
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="h-96 relative">
+        {error ? (
+          <div className="flex items-center justify-center h-full text-sm text-red-500 dark:text-red-400">{error}</div>
+        ) : chartData.length === 0 && !isLoading ? (
+          <div className="flex items-center justify-center h-full text-sm text-gray-500 dark:text-gray-400">No calls in the selected range</div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis dataKey="label" fontSize={12} tick={{ fill: 'currentColor' }} minTickGap={16} />
+              <YAxis fontSize={12} tick={{ fill: 'currentColor' }} allowDecimals={false} />
+              <Tooltip wrapperStyle={{ zIndex: 9999 }} />
+              <Legend />
+              {series.map(s => (
+                <Area
+                  key={s.key}
+                  type="monotone"
+                  dataKey={s.key}
+                  name={s.label}
+                  stackId="calls"
+                  stroke={s.color}
+                  fill={s.color}
+                  fillOpacity={0.35}
+                />
+              ))}
+              {chartData.length > 1 && (
+                <Brush
+                  key={`${interval}-${chartData.length}`}
+                  dataKey="label"
+                  height={24}
+                  stroke="#6366F1"
+                  onChange={(range) => {
+                    if (typeof range.startIndex === 'number' && typeof range.endIndex === 'number') {
+                      setSelection({ startIndex: range.startIndex, endIndex: range.endIndex })
+                    }
+                  }}
+                />
+              )}
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/60 dark:bg-gray-800/60">
+            <FontAwesomeIcon icon={faSync} className="h-6 w-6 text-blue-600 animate-spin" />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
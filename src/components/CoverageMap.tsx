@@ -0,0 +1,147 @@
+import { useMemo } from 'react'
+import type { AreaCode } from '../services/dataService'
+import { REGIONS, findRegion } from '../lib/regions'
+import type { Region } from '../lib/regions'
+import { CANADA_MAP, US_MAP } from '../lib/mapGeometry'
+import type { MapShape } from '../lib/mapGeometry'
+
+type MapMode = 'state' | 'areaCode'
+type MapMetric = 'totalCalls' | 'totalCost'
+
+interface CoverageMapProps {
+  areaCodes: AreaCode[]
+  mode: MapMode
+  metric: MapMetric
+  onRegionClick: (region: Region) => void
+  onAreaCodeClick: (areaCode: string) => void
+}
+
+// Area code marks are sized per map so they come out about the same on screen
+const PANELS = [
+  { title: 'United States', map: US_MAP, mark: 9, className: 'lg:col-span-3' },
+  { title: 'Canada', map: CANADA_MAP, mark: 11, className: 'lg:col-span-2' }
+]
+const PLACED = new Set(PANELS.flatMap(panel => panel.map.shapes.map(shape => shape.code)))
+
+const formatMetric = (value: number, metric: MapMetric) =>
+  metric === 'totalCost' ? `$${value.toFixed(2)}` : `${value.toLocaleString()} calls`
+
+// Square-root scale so a few very busy regions don't wash out the rest
+const shade = (value: number, max: number) => `rgba(79, 70, 229, ${0.12 + 0.88 * Math.sqrt(value / max)})`
+
+// Choropleth of calls or cost on state and province outlines. Area codes have no bundled
+// boundaries, so in area code mode each one is a shaded mark grouped on its state.
+export default function CoverageMap({ areaCodes, mode, metric, onRegionClick, onAreaCodeClick }: CoverageMapProps) {
+  const { byRegion, unplaced } = useMemo(() => {
+    const grouped = new Map<string, AreaCode[]>()
+    const missing: AreaCode[] = []
+    for (const code of areaCodes) {
+      const region = findRegion(code.state)
+      if (!region || !PLACED.has(region.code)) {
+        missing.push(code)
+        continue
+      }
+      grouped.set(region.code, [...(grouped.get(region.code) || []), code])
+    }
+    return { byRegion: grouped, unplaced: missing }
+  }, [areaCodes])
+
+  const regionTotal = (region: Region) => (byRegion.get(region.code) || []).reduce((sum, code) => sum + (code[metric] || 0), 0)
+  const max = mode === 'state'
+    ? Math.max(0, ...REGIONS.map(regionTotal))
+    : Math.max(0, ...areaCodes.map(code => code[metric] || 0))
+
+  const renderShape = (shape: MapShape) => {
+    const region = findRegion(shape.code)!
+    const codes = byRegion.get(region.code) || []
+    const total = regionTotal(region)
+
+    if (mode === 'areaCode') {
+      return (
+        <path key={shape.code} d={shape.d} className="fill-gray-100 dark:fill-gray-700 stroke-white dark:stroke-gray-800" strokeWidth={0.75}>
+          <title>{`${region.name} – ${codes.length} area code${codes.length === 1 ? '' : 's'}`}</title>
+        </path>
+      )
+    }
+
+    return (
+      <path
+        key={shape.code}
+        d={shape.d}
+        fill={max > 0 && total > 0 ? shade(total, max) : undefined}
+        strokeWidth={0.75}
+        className={`cursor-pointer stroke-white dark:stroke-gray-800 hover:stroke-gray-900 dark:hover:stroke-white ${total > 0 ? '' : 'fill-gray-100 dark:fill-gray-700'}`}
+        onClick={() => onRegionClick(region)}
+      >
+        <title>{`${region.name} – ${formatMetric(total, metric)}${codes.length ? `, ${codes.length} area codes` : ''}`}</title>
+      </path>
+    )
+  }
+
+  // A small grid of squares centred on the region, one per area code
+  const renderMarks = (shape: MapShape, mark: number) => {
+    const region = findRegion(shape.code)!
+    const codes = (byRegion.get(region.code) || []).slice().sort((a, b) => a.areaCode.localeCompare(b.areaCode))
+    if (codes.length === 0) return null
+    const perRow = Math.ceil(Math.sqrt(codes.length))
+    const left = shape.anchor[0] - (perRow * mark) / 2
+    const top = shape.anchor[1] - (Math.ceil(codes.length / perRow) * mark) / 2
+    return (
+      <g key={shape.code}>
+        {codes.map((code, index) => (
+          <rect
+            key={code.areaCode}
+            x={left + (index % perRow) * mark}
+            y={top + Math.floor(index / perRow) * mark}
+            width={mark - 1}
+            height={mark - 1}
+            rx={1}
+            fill={max > 0 && code[metric] > 0 ? shade(code[metric], max) : undefined}
+            className={`cursor-pointer stroke-white dark:stroke-gray-800 hover:stroke-gray-900 dark:hover:stroke-white ${code[metric] > 0 ? '' : 'fill-gray-300 dark:fill-gray-500'}`}
+            strokeWidth={0.5}
+            onClick={() => onAreaCodeClick(code.areaCode)}
+          >
+            <title>{`${code.areaCode} (${region.name}) – ${formatMetric(code[metric] || 0, metric)}`}</title>
+          </rect>
+        ))}
+      </g>
+    )
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-4 items-start">
+        {PANELS.map(({ title, map, mark, className }) => (
+          <figure key={title} className={className}>
+            <svg viewBox={`0 0 ${map.width} ${map.height}`} className="w-full" role="img" aria-label={`Coverage map, ${title}`}>
+              {map.insets.map(inset => (
+                <rect key={`${inset.x},${inset.y}`} {...inset} rx={4} fill="none" className="stroke-gray-300 dark:stroke-gray-600" />
+              ))}
+              {map.shapes.map(renderShape)}
+              {mode === 'areaCode' && map.shapes.map(shape => renderMarks(shape, mark))}
+            </svg>
+            <figcaption className="mt-1 text-center text-xs text-gray-500 dark:text-gray-400">{title}</figcaption>
+          </figure>
+        ))}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <div className="flex items-center gap-2">
+          <span>{formatMetric(0, metric)}</span>
+          <div className="h-2 w-32 rounded" style={{ background: `linear-gradient(to right, ${shade(0, 1)}, ${shade(1, 1)})` }} />
+          <span>{formatMetric(max, metric)}</span>
+          <span className="ml-2">per {mode === 'state' ? 'state or province' : 'area code'}</span>
+        </div>
+        {unplaced.length > 0 && (
+          <span title={unplaced.map(code => code.areaCode).join(', ')}>
+            {unplaced.length} area code{unplaced.length === 1 ? '' : 's'} without a known state not shown
+          </span>
+        )}
+        {mode === 'areaCode' && <span>Area code boundaries aren't bundled; squares are grouped by state, not drawn where each area code lies</span>}
+        <span>Boundaries: U.S. Census Bureau; Canada: svg-maps, CC BY 4.0</span>
+      </div>
+    </div>
+  )
+}
+
+export type { MapMode, MapMetric }
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react'
+import { DayPicker } from 'react-day-picker'
+import type { DateRange as DayRange } from 'react-day-picker'
+import 'react-day-picker/dist/style.css'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { formatInTimeZone, zonedParts } from '../lib/datetime'
+import { QUICK_RANGES, endOfDayInZone, fromZonedInput, resolveQuickRange, startOfDayInZone } from '../lib/dateRanges'
+import type { DateSelection, QuickRange } from '../lib/dateRanges'
+
+interface DateRangePickerProps {
+  value: DateSelection
+  onChange: (value: DateSelection) => void
+  // Rolling presets and "All time"; off where only a fixed range makes sense
+  presets?: boolean
+}
+
+type Edge = 'start' | 'end'
+
+// Calendar day (browser-local midnight) showing the date of `iso` in `timeZone`, for DayPicker
+function toCalendarDay(iso: string | undefined, timeZone: string): Date | undefined {
+  if (!iso) return undefined
+  const date = new Date(iso)
+  if (isNaN(date.getTime())) return undefined
+  const { year, month, day } = zonedParts(date, timeZone)
+  return new Date(year, month, day)
+}
+
+// Typed value for an input: whole-day bounds show as a bare date
+function toText(iso: string | undefined, timeZone: string, edge: Edge): string {
+  if (!iso) return ''
+  const time = formatInTimeZone(iso, 'HH:mm:ss', timeZone)
+  const isWholeDay = edge === 'start' ? time === '00:00:00' : time === '23:59:59'
+  return formatInTimeZone(iso, isWholeDay ? 'yyyy-MM-dd' : 'yyyy-MM-dd HH:mm', timeZone)
+}
+
+// Presets, a two-month calendar and typed bounds, all in the active timezone.
+// Picking a preset keeps it as a rolling range; any manual change makes the range fixed.
+export default function DateRangePicker({ value, onChange, presets = true }: DateRangePickerProps) {
+  const { timeZone, timeZoneLabel } = usePreferences()
+  const from = toCalendarDay(value.dateFrom, timeZone)
+  const to = toCalendarDay(value.dateTo, timeZone)
+
+  // First day clicked while picking a range on the calendar
+  const [anchor, setAnchor] = useState<Date | null>(null)
+  // Show the selection in the right-hand month, with the month before it on the left
+  const [month, setMonth] = useState(() => {
+    const last = to || from || new Date()
+    return new Date(last.getFullYear(), last.getMonth() - 1, 1)
+  })
+  const [text, setText] = useState({ from: '', to: '' })
+  const [inputError, setInputError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setText({ from: toText(value.dateFrom, timeZone, 'start'), to: toText(value.dateTo, timeZone, 'end') })
+    setInputError(null)
+  }, [value.dateFrom, value.dateTo, timeZone])
+
+  const showMonthOf = (day?: Date) => {
+    if (day) setMonth(new Date(day.getFullYear(), day.getMonth() - 1, 1))
+  }
+
+  const selectPreset = (range: QuickRange) => {
+    const resolved = resolveQuickRange(range, timeZone)
+    setAnchor(null)
+    showMonthOf(toCalendarDay(resolved.dateTo, timeZone))
+    onChange({ ...resolved, dateRange: range })
+  }
+
+  const clear = () => {
+    setAnchor(null)
+    onChange({ dateFrom: undefined, dateTo: undefined, dateRange: undefined })
+  }
+
+  // First click selects a single day, the second extends it to a range in either direction
+  const selectDay = (_range: DayRange | undefined, day: Date) => {
+    const [start, end] = anchor && anchor <= day ? [anchor, day] : anchor ? [day, anchor] : [day, day]
+    setAnchor(anchor ? null : day)
+    onChange({
+      dateFrom: startOfDayInZone(timeZone, start.getFullYear(), start.getMonth(), start.getDate()).toISOString(),
+      dateTo: endOfDayInZone(timeZone, end.getFullYear(), end.getMonth(), end.getDate()).toISOString(),
+      dateRange: undefined
+    })
+  }
+
+  const commitText = () => {
+    const nextFrom = text.from.trim() ? fromZonedInput(text.from, timeZone) : undefined
+    const nextTo = text.to.trim() ? fromZonedInput(text.to, timeZone, 'end') : undefined
+    if ((text.from.trim() && !nextFrom) || (text.to.trim() && !nextTo)) {
+      setInputError('Use YYYY-MM-DD or YYYY-MM-DD HH:mm')
+      return
+    }
+    if (nextFrom && nextTo && nextFrom > nextTo) {
+      setInputError('The start must be before the end')
+      return
+    }
+    setInputError(null)
+    if (nextFrom === value.dateFrom && nextTo === value.dateTo) return
+    setAnchor(null)
+    showMonthOf(toCalendarDay(nextTo || nextFrom, timeZone))
+    onChange({ dateFrom: nextFrom, dateTo: nextTo, dateRange: undefined })
+  }
+
+  const onTextKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      commitText()
+    }
+  }
+
+  const presetClass = (active: boolean) =>
+    `w-full text-left px-2 py-1 text-xs rounded ${active ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700'}`
+
+  return (
+    <div className="flex gap-3">
+      {presets && (
+        <div className="w-40 shrink-0 space-y-0.5" role="group" aria-label="Date presets">
+          {QUICK_RANGES.map(({ value: range, label }) => (
+            <button
+              key={range}
+              type="button"
+              aria-pressed={value.dateRange === range}
+              onClick={() => selectPreset(range)}
+              className={presetClass(value.dateRange === range)}
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            type="button"
+            aria-pressed={!value.dateFrom && !value.dateTo}
+            onClick={clear}
+            className={presetClass(!value.dateFrom && !value.dateTo)}
+          >
+            All time
+          </button>
+        </div>
+      )}
+      <div className="min-w-0">
+        <DayPicker
+          mode="range"
+          numberOfMonths={2}
+          weekStartsOn={1}
+          showOutsideDays={false}
+          month={month}
+          onMonthChange={setMonth}
+          selected={from ? { from, to } : undefined}
+          onSelect={selectDay}
+          className="date-range-picker"
+        />
+        <div className="grid grid-cols-2 gap-3 px-1">
+          <div>
+            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">From ({timeZoneLabel})</label>
+            <input
+              type="text"
+              value={text.from}
+              placeholder="YYYY-MM-DD HH:mm"
+              onChange={(e) => setText(prev => ({ ...prev, from: e.target.value }))}
+              onBlur={commitText}
+              onKeyDown={onTextKeyDown}
+              className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">To ({timeZoneLabel})</label>
+            <input
+              type="text"
+              value={text.to}
+              placeholder="YYYY-MM-DD HH:mm"
+              onChange={(e) => setText(prev => ({ ...prev, to: e.target.value }))}
+              onBlur={commitText}
+              onKeyDown={onTextKeyDown}
+              className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
+            />
+          </div>
+        </div>
+        {inputError && <p className="mt-1 px-1 text-xs text-red-600 dark:text-red-400">{inputError}</p>}
+      </div>
+    </div>
+  )
+}
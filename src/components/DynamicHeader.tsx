@@ -1,5 +1,7 @@
 import { ReactNode } from 'react'
 import { MagnifyingGlassIcon } from '@heroicons/react/24/outline'
+import FilterBar from './FilterBar'
+import SourceHealthBadge from './SourceHealthBadge'
 
 interface DynamicHeaderProps {
   title: string;
@@ -11,6 +13,8 @@ interface DynamicHeaderProps {
   onMenuClick: () => void;
   isSidebarCollapsed?: boolean;
   onToggleSidebar?: () => void;
+  // Report pages show the global filter bar under the title row
+  showFilterBar?: boolean;
 }
 
 export default function DynamicHeader({
@@ -22,7 +26,8 @@ export default function DynamicHeader({
   actions,
   onMenuClick,
   isSidebarCollapsed,
-  onToggleSidebar
+  onToggleSidebar,
+  showFilterBar = false
 }: DynamicHeaderProps) {
   return (
     <header className="sticky top-0 z-40 bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
@@ -98,14 +103,14 @@ export default function DynamicHeader({
             </div>
           )}
 
-          {/* Right side - Actions */}
-          {actions && (
-            <div className="flex items-center gap-4">
-              {actions}
-            </div>
-          )}
+          {/* Right side - Quiet source warning and actions */}
+          <div className="flex items-center gap-4">
+            <SourceHealthBadge />
+            {actions}
+          </div>
         </div>
       </div>
+      {showFilterBar && <FilterBar />}
     </header>
   )
 }
\ No newline at end of file
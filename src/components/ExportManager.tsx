@@ -0,0 +1,113 @@
+import { useState } from 'react'
+import {
+  ArrowDownTrayIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+import { useExports } from '../contexts/ExportContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { formatInTimeZone } from '../lib/datetime'
+import type { ExportJob } from '../contexts/ExportContext'
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const STATUS_STYLES: Record<ExportJob['status'], string> = {
+  running: 'text-indigo-600 dark:text-indigo-400',
+  done: 'text-green-600 dark:text-green-400',
+  error: 'text-red-600 dark:text-red-400',
+  cancelled: 'text-gray-500 dark:text-gray-400'
+}
+
+// Floating panel listing running exports and this session's finished ones
+export default function ExportManager() {
+  const { jobs, cancelExport, removeExport, downloadExport } = useExports()
+  const { timeZone } = usePreferences()
+  const [isCollapsed, setIsCollapsed] = useState(false)
+
+  if (jobs.length === 0) return null
+
+  const running = jobs.filter(job => job.status === 'running').length
+
+  return (
+    <div className="fixed bottom-16 right-4 z-40 w-80 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+      <button
+        type="button"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm font-medium text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700"
+      >
+        <span className="flex items-center gap-2">
+          <ArrowDownTrayIcon className="h-4 w-4" />
+          {running > 0 ? `Exporting (${running})` : 'Exports'}
+        </span>
+        {isCollapsed ? <ChevronUpIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />}
+      </button>
+
+      {!isCollapsed && (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+          {jobs.map(job => {
+            const percent = job.totalRows ? Math.min(100, Math.round((job.rows / job.totalRows) * 100)) : null
+            return (
+              <li key={job.id} className="px-4 py-3 text-xs">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium text-gray-900 dark:text-gray-100" title={job.fileName}>{job.fileName}</p>
+                    <p className={STATUS_STYLES[job.status]}>
+                      {job.status === 'running' && `${job.rows.toLocaleString()}${job.totalRows ? ` of ${job.totalRows.toLocaleString()}` : ''} rows · ${formatBytes(job.bytes)}${job.mode === 'paged' ? ' · paged' : ''}`}
+                      {job.status === 'done' && `${job.rows.toLocaleString()} rows · ${formatBytes(job.bytes)} · ${formatInTimeZone(job.finishedAt || job.startedAt, 'HH:mm', timeZone)}`}
+                      {job.status === 'cancelled' && 'Cancelled'}
+                      {job.status === 'error' && (job.error || 'Export failed')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {job.status === 'done' && (
+                      <button
+                        type="button"
+                        onClick={() => downloadExport(job.id)}
+                        className="p-1 text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400"
+                        title="Download again"
+                      >
+                        <ArrowDownTrayIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                    {job.status === 'running' ? (
+                      <button
+                        type="button"
+                        onClick={() => cancelExport(job.id)}
+                        className="px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        Cancel
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => removeExport(job.id)}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                        title="Remove from list"
+                      >
+                        <XMarkIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {job.status === 'running' && (
+                  <div className="mt-2 h-1.5 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                    {percent !== null ? (
+                      <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }} />
+                    ) : (
+                      <div className="h-full w-1/3 bg-indigo-600 animate-pulse" />
+                    )}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react'
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline'
+import { EXPORT_FORMATS } from '../lib/exporters'
+import type { ExportFormat } from '../lib/exporters'
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void
+  // Show the "Export" label next to the icon
+  label?: string
+  disabled?: boolean
+}
+
+// Download button with a format picker
+export default function ExportMenu({ onExport, label, disabled }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  // Close with Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('keydown', onKey)
+    return () => document.removeEventListener('keydown', onKey)
+  }, [isOpen])
+
+  const handleSelect = (format: ExportFormat) => {
+    setIsOpen(false)
+    onExport(format)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`inline-flex items-center ${label ? 'px-3 py-2' : 'p-2'} border border-gray-300 dark:border-gray-600 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+        title="Export visible columns"
+      >
+        <ArrowDownTrayIcon className={`h-4 w-4 ${label ? 'mr-2' : ''}`} />
+        {label}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <ul className="absolute right-0 top-full mt-2 w-56 py-1 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+            {EXPORT_FORMATS.map(option => (
+              <li key={option.value}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(option.value)}
+                  className="w-full flex items-center justify-between px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  {option.label}
+                  <span className="text-xs text-gray-400">.{option.extension}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,370 @@
+import { useEffect, useState } from 'react'
+import { FunnelIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { useData } from '../contexts/DataContext'
+import type { DataFilters } from '../contexts/DataContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import DateRangePicker from './DateRangePicker'
+import MultiValueSelect from './MultiValueSelect'
+import type { MultiValueOption } from './MultiValueSelect'
+import { dataService } from '../services/dataService'
+import { toFilterUpdate } from '../lib/callLogsView'
+import { formatInTimeZone } from '../lib/datetime'
+import { quickRangeLabel } from '../lib/dateRanges'
+import type { DateSelection } from '../lib/dateRanges'
+import { MULTI_VALUE_FILTERS, describeValues, normalizeExtensionToken, validateExtensionToken } from '../lib/filterValues'
+import type { FilterMode, MultiValueKey } from '../lib/filterValues'
+
+interface FilterChip {
+  key: string
+  label: string
+  // Filter keys cleared when the chip is removed
+  clears: Array<keyof DataFilters>
+}
+
+// Editable fields of the Filters panel; numbers are kept as typed until Apply
+type FilterDraft = DateSelection & Pick<DataFilters, MultiValueKey | `${MultiValueKey}Mode`> & {
+  callType: string
+  status: string
+  terminationReason: string
+  minDurationSec: string
+  maxDurationSec: string
+  minCost: string
+  maxCost: string
+}
+
+const CALL_TYPE_LABELS: Record<string, string> = {
+  incoming: 'Incoming',
+  outgoing: 'Outgoing',
+  internal: 'Internal'
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  answered: 'Answered',
+  unanswered: 'Unanswered',
+  redirected: 'Redirected',
+  waiting: 'Waiting'
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1'
+const labelClass = 'block text-xs text-gray-600 dark:text-gray-400 mb-1'
+
+const text = (value: unknown) => (value === undefined || value === null ? '' : String(value))
+const numberOrUndefined = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value))
+
+function toDraft(filters: DataFilters): FilterDraft {
+  return {
+    dateFrom: filters.dateFrom,
+    dateTo: filters.dateTo,
+    dateRange: filters.dateRange,
+    callType: text(filters.callType),
+    status: text(filters.status),
+    terminationReason: text(filters.terminationReason),
+    areaCode: filters.areaCode,
+    areaCodeMode: filters.areaCodeMode,
+    trunkNumber: filters.trunkNumber,
+    trunkNumberMode: filters.trunkNumberMode,
+    extension: filters.extension,
+    extensionMode: filters.extensionMode,
+    stateCode: filters.stateCode,
+    stateCodeMode: filters.stateCodeMode,
+    minDurationSec: text(filters.minDurationSec),
+    maxDurationSec: text(filters.maxDurationSec),
+    minCost: text(filters.minCost),
+    maxCost: text(filters.maxCost)
+  }
+}
+
+function fromDraft(draft: FilterDraft): DataFilters {
+  return {
+    dateFrom: draft.dateFrom,
+    dateTo: draft.dateTo,
+    dateRange: draft.dateRange,
+    callType: (draft.callType || undefined) as DataFilters['callType'],
+    status: (draft.status || undefined) as DataFilters['status'],
+    terminationReason: draft.terminationReason.trim() || undefined,
+    areaCode: draft.areaCode,
+    areaCodeMode: draft.areaCodeMode,
+    trunkNumber: draft.trunkNumber,
+    trunkNumberMode: draft.trunkNumberMode,
+    extension: draft.extension,
+    extensionMode: draft.extensionMode,
+    stateCode: draft.stateCode,
+    stateCodeMode: draft.stateCodeMode,
+    minDurationSec: numberOrUndefined(draft.minDurationSec),
+    maxDurationSec: numberOrUndefined(draft.maxDurationSec),
+    minCost: numberOrUndefined(draft.minCost),
+    maxCost: numberOrUndefined(draft.maxCost)
+  }
+}
+
+// "30s–60s", "≥ 30s" or "≤ 60s"
+function describeBounds(min: number | undefined, max: number | undefined, format: (value: number) => string): string {
+  if (min !== undefined && max !== undefined) return `${format(min)}–${format(max)}`
+  return min !== undefined ? `≥ ${format(min)}` : `≤ ${format(max!)}`
+}
+
+interface FilterBarProps {
+  // Replaces the default padding and divider used inside DynamicHeader
+  className?: string
+}
+
+// Active global filters as removable chips, with the panel that edits them. Shown under the
+// header of every report page, so a filter set on one page follows the user to the next.
+export default function FilterBar({ className = 'px-4 sm:px-6 lg:px-8 py-2 border-t border-gray-200 dark:border-gray-700' }: FilterBarProps) {
+  const { filters, setFilters, selectedDataSource } = useData()
+  const { timeZone, formatDate, formatDateTime } = usePreferences()
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState<FilterDraft>(() => toDraft(filters))
+
+  // Start from the applied filters whenever the panel opens
+  useEffect(() => {
+    if (isOpen) setDraft(toDraft(filters))
+  }, [isOpen])
+
+  // Close with Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('keydown', onKey)
+    return () => document.removeEventListener('keydown', onKey)
+  }, [isOpen])
+
+  // Whole-day bounds read as dates, anything else with its time
+  const formatBound = (iso: string, edge: 'start' | 'end') => {
+    const time = formatInTimeZone(iso, 'HH:mm:ss', timeZone)
+    const isWholeDay = edge === 'start' ? time === '00:00:00' : time === '23:59:59'
+    return isWholeDay ? formatDate(iso) : formatDateTime(iso)
+  }
+
+  const chips: FilterChip[] = []
+  if (filters.dateRange) {
+    chips.push({ key: 'date', label: quickRangeLabel(filters.dateRange), clears: ['dateFrom', 'dateTo', 'dateRange'] })
+  } else if (filters.dateFrom || filters.dateTo) {
+    const label = filters.dateFrom && filters.dateTo
+      ? `${formatBound(filters.dateFrom, 'start')} – ${formatBound(filters.dateTo, 'end')}`
+      : filters.dateFrom ? `From ${formatBound(filters.dateFrom, 'start')}` : `Until ${formatBound(filters.dateTo!, 'end')}`
+    chips.push({ key: 'date', label, clears: ['dateFrom', 'dateTo', 'dateRange'] })
+  }
+  if (filters.callType) chips.push({ key: 'callType', label: `Type: ${CALL_TYPE_LABELS[filters.callType] || filters.callType}`, clears: ['callType'] })
+  if (filters.status) chips.push({ key: 'status', label: `Status: ${STATUS_LABELS[filters.status] || filters.status}`, clears: ['status'] })
+  for (const { key, modeKey, label } of MULTI_VALUE_FILTERS) {
+    const values = filters[key]
+    if (!values || values.length === 0) continue
+    const prefix = filters[modeKey] === 'exclude' ? `Not ${label.toLowerCase()}` : label
+    chips.push({ key, label: `${prefix}: ${describeValues(values)}`, clears: [key, modeKey] })
+  }
+  if (filters.terminationReason) chips.push({ key: 'terminationReason', label: `Reason: ${filters.terminationReason}`, clears: ['terminationReason'] })
+  if (filters.minDurationSec !== undefined || filters.maxDurationSec !== undefined) {
+    chips.push({
+      key: 'duration',
+      label: `Duration: ${describeBounds(filters.minDurationSec, filters.maxDurationSec, value => `${value}s`)}`,
+      clears: ['minDurationSec', 'maxDurationSec']
+    })
+  }
+  if (filters.minCost !== undefined || filters.maxCost !== undefined) {
+    chips.push({
+      key: 'cost',
+      label: `Cost: ${describeBounds(filters.minCost, filters.maxCost, value => `$${value.toFixed(2)}`)}`,
+      clears: ['minCost', 'maxCost']
+    })
+  }
+
+  const removeChip = (chip: FilterChip) => {
+    setFilters(Object.fromEntries(chip.clears.map(key => [key, undefined])) as Partial<DataFilters>)
+  }
+
+  const clearAll = () => {
+    setFilters(toFilterUpdate({}))
+    setIsOpen(false)
+  }
+
+  const apply = () => {
+    setFilters(toFilterUpdate(fromDraft(draft)))
+    setIsOpen(false)
+  }
+
+  // Suggestions from the report endpoints, limited to the selected data source
+  const loadExtensions = async (search: string): Promise<MultiValueOption[]> => {
+    const response = await dataService.getExtensions({ collection: selectedDataSource || undefined, search, limit: 20, sortBy: 'totalCalls', sortOrder: 'desc' })
+    return (response.data?.extensions || []).map(ext => ({ value: ext.extension, hint: `${ext.totalCalls.toLocaleString()} calls` }))
+  }
+
+  const loadAreaCodes = async (search: string): Promise<MultiValueOption[]> => {
+    const response = await dataService.getAreaCodes({ collection: selectedDataSource || undefined, search, limit: 20, sortBy: 'totalCalls', sortOrder: 'desc' })
+    return (response.data || []).map(code => ({ value: code.areaCode, hint: code.state }))
+  }
+
+  // States come from the area code report, which tags each area code with its state
+  const loadStates = async (search: string): Promise<MultiValueOption[]> => {
+    const response = await dataService.getAreaCodes({ collection: selectedDataSource || undefined, limit: 500 })
+    const query = search.toLowerCase()
+    const states = new Set((response.data || []).map(code => code.state).filter((state): state is string => Boolean(state)))
+    return Array.from(states)
+      .filter(state => state.toLowerCase().includes(query))
+      .sort()
+      .slice(0, 20)
+      .map(state => ({ value: state }))
+  }
+
+  const multiField = (key: MultiValueKey) => {
+    const modeKey = `${key}Mode` as const
+    return {
+      values: draft[key] || [],
+      mode: (draft[modeKey] || 'include') as FilterMode,
+      onChange: (values: string[], mode: FilterMode) =>
+        setDraft(prev => ({ ...prev, [key]: values.length > 0 ? values : undefined, [modeKey]: mode === 'exclude' ? mode : undefined }))
+    }
+  }
+
+  const field = (key: Exclude<keyof FilterDraft, keyof DateSelection | MultiValueKey | `${MultiValueKey}Mode`>) => ({
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setDraft(prev => ({ ...prev, [key]: e.target.value }))
+  })
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      <div className="relative">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          className={`inline-flex items-center px-2.5 py-1 border text-xs font-medium rounded-md ${
+            isOpen
+              ? 'border-indigo-500 text-indigo-700 bg-indigo-50 dark:bg-indigo-900 dark:text-indigo-200 dark:border-indigo-400'
+              : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600'
+          }`}
+        >
+          <FunnelIcon className="h-4 w-4 mr-1.5" />
+          Filters
+        </button>
+        {isOpen && (
+          <div
+            className="absolute left-0 mt-2 w-[44rem] max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50 max-h-[80vh] overflow-auto p-4"
+            role="dialog"
+            aria-label="Filters"
+          >
+            <div className="mb-4">
+              <DateRangePicker
+                value={{ dateFrom: draft.dateFrom, dateTo: draft.dateTo, dateRange: draft.dateRange }}
+                onChange={(range) => setDraft(prev => ({ ...prev, ...range }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Call Type</label>
+                <select {...field('callType')} className={inputClass}>
+                  <option value="">All</option>
+                  {Object.entries(CALL_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Status</label>
+                <select {...field('status')} className={inputClass}>
+                  <option value="">All</option>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <MultiValueSelect
+                label="Extensions"
+                {...multiField('extension')}
+                loadOptions={loadExtensions}
+                validate={validateExtensionToken}
+                normalize={normalizeExtensionToken}
+                placeholder="e.g. 101, 200-215"
+              />
+              <MultiValueSelect label="Area Codes" {...multiField('areaCode')} loadOptions={loadAreaCodes} placeholder="e.g. 323" />
+              <MultiValueSelect label="States" {...multiField('stateCode')} loadOptions={loadStates} placeholder="Search states" />
+              <MultiValueSelect label="Trunks" {...multiField('trunkNumber')} placeholder="Trunk number" />
+              <div>
+                <label className={labelClass}>Min Duration (sec)</label>
+                <input type="number" min={0} {...field('minDurationSec')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Max Duration (sec)</label>
+                <input type="number" min={0} {...field('maxDurationSec')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Min Cost</label>
+                <input type="number" min={0} step="0.01" {...field('minCost')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Max Cost</label>
+                <input type="number" min={0} step="0.01" {...field('maxCost')} className={inputClass} />
+              </div>
+              <div className="col-span-2">
+                <label className={labelClass}>Termination Reason</label>
+                <input type="text" {...field('terminationReason')} className={inputClass} />
+              </div>
+            </div>
+            <div className="mt-4 flex justify-between">
+              <button
+                type="button"
+                onClick={clearAll}
+                className="px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Clear All
+              </button>
+              <div className="space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setIsOpen(false)}
+                  className="px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={apply}
+                  className="px-3 py-1.5 text-xs rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
+                >
+                  Apply
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {chips.length === 0 ? (
+        <span className="text-xs text-gray-500 dark:text-gray-400">No filters: showing all calls</span>
+      ) : (
+        <>
+          {chips.map(chip => (
+            <span
+              key={chip.key}
+              className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full text-xs font-medium bg-indigo-50 text-indigo-700 border border-indigo-200 dark:bg-indigo-900/40 dark:text-indigo-200 dark:border-indigo-700"
+            >
+              {chip.label}
+              <button
+                type="button"
+                onClick={() => removeChip(chip)}
+                aria-label={`Remove filter ${chip.label}`}
+                className="p-0.5 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-800"
+              >
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          {chips.length > 1 && (
+            <button
+              type="button"
+              onClick={clearAll}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 underline"
+            >
+              Clear all
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,7 @@
+import { Link } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import { useTheme } from '../contexts/ThemeContext'
+import { usePreferences } from '../contexts/PreferencesContext'
 
 interface HeaderProps {
   onMenuClick: () => void
@@ -7,7 +9,8 @@ interface HeaderProps {
 
 export default function Header({ onMenuClick }: HeaderProps) {
   const { user, logout } = useAuth()
-  const { theme, setTheme } = useTheme()
+  const { theme } = useTheme()
+  const { setThemePreference } = usePreferences()
 
   return (
     <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
@@ -44,7 +47,7 @@ export default function Header({ onMenuClick }: HeaderProps) {
           <div className="flex items-center gap-4">
             {/* Theme toggle */}
             <button
-              onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
+              onClick={() => setThemePreference(theme === 'dark' ? 'light' : 'dark')}
               className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
             >
               {theme === 'dark' ? (
@@ -70,9 +73,12 @@ export default function Header({ onMenuClick }: HeaderProps) {
 
             {/* User menu */}
             <div className="flex items-center gap-3">
-              <span className="text-sm text-gray-700 dark:text-gray-300">
+              <Link
+                to="/account"
+                className="text-sm text-gray-700 hover:text-indigo-600 dark:text-gray-300 dark:hover:text-indigo-400"
+              >
                 {user?.fullName || user?.email}
-              </span>
+              </Link>
               <button
                 onClick={logout}
                 className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
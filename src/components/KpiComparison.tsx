@@ -0,0 +1,55 @@
+import { LineChart, Line, ResponsiveContainer } from 'recharts'
+import { percentChange } from '../lib/periods'
+
+interface KpiDeltaProps {
+  current: number
+  baseline?: number
+  format: (value: number) => string
+  // Set for metrics where an increase is bad news (e.g. cost)
+  invert?: boolean
+}
+
+export function KpiDelta({ current, baseline, format, invert = false }: KpiDeltaProps) {
+  if (baseline === undefined) return null
+
+  const delta = current - baseline
+  const pct = percentChange(current, baseline)
+  const isUp = delta > 0
+  const isFlat = delta === 0
+  const isGood = invert ? !isUp : isUp
+
+  const color = isFlat
+    ? 'text-gray-500 dark:text-gray-400'
+    : isGood
+    ? 'text-green-600 dark:text-green-400'
+    : 'text-red-600 dark:text-red-400'
+
+  return (
+    <p className={`text-xs font-medium truncate ${color}`} title={`Baseline: ${format(baseline)}`}>
+      {isFlat ? '■' : isUp ? '▲' : '▼'}{' '}
+      {pct === null ? 'new' : `${Math.abs(pct).toFixed(1)}%`}
+      <span className="ml-1 font-normal opacity-80">
+        ({delta >= 0 ? '+' : '-'}{format(Math.abs(delta))})
+      </span>
+    </p>
+  )
+}
+
+interface KpiSparklineProps {
+  data: Array<Record<string, any>>
+  dataKey: string
+  color: string
+}
+
+export function KpiSparkline({ data, dataKey, color }: KpiSparklineProps) {
+  if (data.length < 2) return null
+  return (
+    <div className="h-8 w-full mt-1">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 2, right: 0, left: 0, bottom: 2 }}>
+          <Line type="monotone" dataKey={dataKey} stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { Outlet } from 'react-router-dom'
 import { useState } from 'react'
 import Sidebar from './Sidebar'
+import ExportManager from './ExportManager'
 
 export default function Layout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -27,6 +28,9 @@ export default function Layout() {
           }} />
         </main>
       </div>
+
+      {/* Running and recent exports */}
+      <ExportManager />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import type { FilterMode } from '../lib/filterValues'
+
+interface MultiValueOption {
+  value: string
+  // Secondary text, e.g. the state of an area code
+  hint?: string
+}
+
+interface MultiValueSelectProps {
+  label: string
+  values: string[]
+  mode: FilterMode
+  onChange: (values: string[], mode: FilterMode) => void
+  // Suggestions for the typed text; fields without one take free text only
+  loadOptions?: (query: string) => Promise<MultiValueOption[]>
+  // Error message for a typed value, or null when it's acceptable
+  validate?: (value: string) => string | null
+  // Applied to typed values before they are added, e.g. to tidy up ranges
+  normalize?: (value: string) => string
+  placeholder?: string
+}
+
+const SEARCH_DELAY_MS = 250
+
+// Chips for the chosen values, a search box that suggests more, and an include/exclude toggle.
+// Typed values are added on Enter or comma, so values missing from the suggestions still work.
+export default function MultiValueSelect({ label, values, mode, onChange, loadOptions, validate, normalize, placeholder }: MultiValueSelectProps) {
+  const [query, setQuery] = useState('')
+  const [options, setOptions] = useState<MultiValueOption[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(-1)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // Debounced suggestions; a stale response never replaces a newer one
+  useEffect(() => {
+    if (!loadOptions || !isOpen) return
+    let cancelled = false
+    const timer = setTimeout(() => {
+      loadOptions(query.trim())
+        .then(next => {
+          if (!cancelled) {
+            setOptions(next)
+            setHighlighted(-1)
+          }
+        })
+        .catch(err => console.error(`Failed to load ${label.toLowerCase()}:`, err))
+    }, SEARCH_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, isOpen])
+
+  const suggestions = options.filter(option => !values.includes(option.value))
+
+  const addValues = (tokens: string[]) => {
+    const cleaned = tokens.map(token => (normalize ? normalize(token) : token.trim())).filter(Boolean)
+    const invalid = validate ? cleaned.map(validate).find(Boolean) : null
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+    setError(null)
+    setQuery('')
+    const next = Array.from(new Set([...values, ...cleaned]))
+    if (next.length !== values.length) onChange(next, mode)
+  }
+
+  const removeValue = (value: string) => onChange(values.filter(v => v !== value), mode)
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault()
+      setIsOpen(true)
+      setHighlighted(prev => (prev + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault()
+      setHighlighted(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1))
+    } else if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      if (highlighted >= 0 && suggestions[highlighted]) addValues([suggestions[highlighted].value])
+      else if (query.trim()) addValues([query])
+    } else if (e.key === 'Backspace' && !query && values.length > 0) {
+      removeValue(values[values.length - 1])
+    } else if (e.key === 'Escape' && isOpen) {
+      // Close the suggestions without closing the surrounding panel
+      e.stopPropagation()
+      setIsOpen(false)
+    }
+  }
+
+  // Pasting "101, 105-110" adds each value
+  const onPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const pasted = e.clipboardData.getData('text')
+    if (!/[,\n]/.test(pasted)) return
+    e.preventDefault()
+    addValues(pasted.split(/[,\n]/).filter(token => token.trim()))
+  }
+
+  const modeClass = (active: boolean) =>
+    `px-1.5 py-0.5 ${active ? 'bg-indigo-600 text-white' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-xs text-gray-600 dark:text-gray-400" onClick={() => inputRef.current?.focus()}>{label}</label>
+        <div className="inline-flex rounded border border-gray-300 dark:border-gray-600 overflow-hidden text-[11px]" role="group" aria-label={`${label} mode`}>
+          <button type="button" aria-pressed={mode === 'include'} onClick={() => onChange(values, 'include')} className={modeClass(mode === 'include')}>
+            Include
+          </button>
+          <button type="button" aria-pressed={mode === 'exclude'} onClick={() => onChange(values, 'exclude')} className={modeClass(mode === 'exclude')}>
+            Exclude
+          </button>
+        </div>
+      </div>
+      <div className="relative">
+        <div
+          className="flex flex-wrap items-center gap-1 min-h-[2rem] rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-1.5 py-1 cursor-text"
+          onClick={() => inputRef.current?.focus()}
+        >
+          {values.map(value => (
+            <span
+              key={value}
+              className={`inline-flex items-center gap-0.5 pl-1.5 pr-0.5 rounded text-xs ${
+                mode === 'exclude'
+                  ? 'bg-red-50 text-red-700 dark:bg-red-900/40 dark:text-red-200 line-through decoration-red-400/60'
+                  : 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-200'
+              }`}
+            >
+              {value}
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  removeValue(value)
+                }}
+                aria-label={`Remove ${value}`}
+                className="p-0.5 rounded hover:bg-black/5 dark:hover:bg-white/10"
+              >
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            placeholder={values.length === 0 ? placeholder : undefined}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setError(null)
+              setIsOpen(true)
+            }}
+            onFocus={() => setIsOpen(true)}
+            onBlur={() => {
+              setIsOpen(false)
+              if (query.trim()) addValues([query])
+            }}
+            onKeyDown={onKeyDown}
+            onPaste={onPaste}
+            role="combobox"
+            aria-expanded={isOpen && suggestions.length > 0}
+            aria-label={label}
+            className="flex-1 min-w-[5rem] bg-transparent border-0 p-0 text-sm focus:ring-0 focus:outline-none"
+          />
+        </div>
+        {isOpen && suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute left-0 right-0 mt-1 max-h-48 overflow-auto rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg z-10 py-1"
+          >
+            {suggestions.map((option, index) => (
+              <li
+                key={option.value}
+                role="option"
+                aria-selected={index === highlighted}
+                // Keep focus in the input so blur doesn't close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addValues([option.value])}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`flex justify-between px-2 py-1 text-sm cursor-pointer ${
+                  index === highlighted ? 'bg-indigo-50 dark:bg-indigo-900/40' : ''
+                } text-gray-800 dark:text-gray-100`}
+              >
+                <span>{option.value}</span>
+                {option.hint && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{option.hint}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
+
+export type { MultiValueOption }
@@ -1,4 +1,4 @@
-import { Navigate } from 'react-router-dom'
+import { Navigate, useLocation } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 
 interface ProtectedRouteProps {
@@ -13,6 +13,7 @@ export default function ProtectedRoute({
   requiredRole 
 }: ProtectedRouteProps) {
   const { isAuthenticated, isLoading, hasPermission, hasRole } = useAuth()
+  const location = useLocation()
 
   // Show loading spinner while checking authentication
   if (isLoading) {
@@ -26,9 +27,9 @@ export default function ProtectedRoute({
     )
   }
 
-  // Redirect to login if not authenticated
+  // Redirect to login if not authenticated, remembering where to come back to
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />
+    return <Navigate to="/login" replace state={{ from: location }} />
   }
 
   // Check required permission
@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react'
+import { AdjustmentsHorizontalIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { usePreferences } from '../contexts/PreferencesContext'
+import {
+  MAX_GROUP_DEPTH,
+  OPERATORS_BY_TYPE,
+  OPERATOR_LABELS,
+  countConditions,
+  emptyGroup,
+  newCondition,
+  removeRule,
+  updateRule,
+  validateCondition,
+  validateQuery
+} from '../lib/rawQuery'
+import type { FieldType, QueryCombinator, QueryCondition, QueryGroup, QueryOperator } from '../lib/rawQuery'
+
+interface QueryBuilderProps {
+  // Fields discovered in the data, with the type each was inferred as
+  fields: string[]
+  fieldTypes: Record<string, FieldType>
+  value?: QueryGroup
+  onChange: (query: QueryGroup | undefined) => void
+}
+
+const inputClass = 'rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-xs px-2 py-1'
+
+const VALUE_PLACEHOLDERS: Record<FieldType, string> = {
+  string: 'Value',
+  number: 'Number',
+  boolean: '',
+  date: 'YYYY-MM-DD HH:mm'
+}
+
+// Edits the query in a draft; nothing is sent until Apply
+export default function QueryBuilder({ fields, fieldTypes, value, onChange }: QueryBuilderProps) {
+  const { timeZoneLabel, timeZone } = usePreferences()
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState<QueryGroup>(() => value || emptyGroup())
+  const conditionCount = value ? countConditions(value) : 0
+
+  useEffect(() => {
+    if (isOpen) setDraft(value || emptyGroup())
+  }, [isOpen])
+
+  // Close with Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('keydown', onKey)
+    return () => document.removeEventListener('keydown', onKey)
+  }, [isOpen])
+
+  const typeOf = (field: string): FieldType => fieldTypes[field] || 'string'
+  const draftError = validateQuery(draft, timeZone)
+
+  const edit = (id: string, changes: Partial<QueryCondition> | Partial<QueryGroup>) =>
+    setDraft(prev => updateRule(prev, id, rule => ({ ...rule, ...changes }) as typeof rule))
+
+  const addCondition = (groupId: string) =>
+    setDraft(prev => updateRule(prev, groupId, rule => {
+      const group = rule as QueryGroup
+      const field = fields[0] || ''
+      return { ...group, rules: [...group.rules, newCondition(field, typeOf(field))] }
+    }))
+
+  // A new group starts with the opposite combinator, since that's why it's being nested
+  const addGroup = (parent: QueryGroup) =>
+    setDraft(prev => updateRule(prev, parent.id, rule => {
+      const group = rule as QueryGroup
+      const child = emptyGroup(group.combinator === 'and' ? 'or' : 'and')
+      const field = fields[0] || ''
+      child.rules = [newCondition(field, typeOf(field))]
+      return { ...group, rules: [...group.rules, child] }
+    }))
+
+  // Changing the field resets the operator when the new type doesn't offer it
+  const changeField = (condition: QueryCondition, field: string) => {
+    const fieldType = typeOf(field)
+    const operator = OPERATORS_BY_TYPE[fieldType].includes(condition.operator) ? condition.operator : OPERATORS_BY_TYPE[fieldType][0]
+    edit(condition.id, { field, fieldType, operator, value: fieldType === condition.fieldType ? condition.value : '', valueTo: undefined })
+  }
+
+  const apply = () => {
+    if (draftError) return
+    onChange(countConditions(draft) > 0 ? draft : undefined)
+    setIsOpen(false)
+  }
+
+  const clear = () => {
+    onChange(undefined)
+    setIsOpen(false)
+  }
+
+  const renderCondition = (condition: QueryCondition) => {
+    const error = validateCondition(condition, timeZone)
+    const { operator, fieldType } = condition
+    // Keep a field from a saved query selectable even when this page of data doesn't have it
+    const fieldOptions = condition.field && !fields.includes(condition.field) ? [condition.field, ...fields] : fields
+    return (
+      <div key={condition.id}>
+        <div className="flex flex-wrap items-center gap-1.5">
+          <select
+            value={condition.field}
+            onChange={(e) => changeField(condition, e.target.value)}
+            className={`${inputClass} font-mono max-w-[12rem]`}
+            aria-label="Field"
+          >
+            {fieldOptions.map(field => (
+              <option key={field} value={field}>{field}</option>
+            ))}
+          </select>
+          <select
+            value={operator}
+            onChange={(e) => edit(condition.id, { operator: e.target.value as QueryOperator })}
+            className={inputClass}
+            aria-label="Operator"
+          >
+            {OPERATORS_BY_TYPE[fieldType].map(op => (
+              <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+            ))}
+          </select>
+          {operator === 'exists' ? (
+            <select
+              value={condition.exists === false ? 'false' : 'true'}
+              onChange={(e) => edit(condition.id, { exists: e.target.value === 'true' })}
+              className={inputClass}
+              aria-label="Exists"
+            >
+              <option value="true">yes</option>
+              <option value="false">no (field missing)</option>
+            </select>
+          ) : fieldType === 'boolean' ? (
+            <select
+              value={condition.value}
+              onChange={(e) => edit(condition.id, { value: e.target.value })}
+              className={inputClass}
+              aria-label="Value"
+            >
+              <option value="">Choose…</option>
+              <option value="true">true</option>
+              <option value="false">false</option>
+            </select>
+          ) : operator === 'between' ? (
+            <>
+              <input
+                type="text"
+                value={condition.value}
+                onChange={(e) => edit(condition.id, { value: e.target.value })}
+                placeholder={fieldType === 'date' ? `From (${timeZoneLabel})` : 'Min'}
+                className={`${inputClass} w-36`}
+                aria-label="From"
+              />
+              <span className="text-xs text-gray-500 dark:text-gray-400">and</span>
+              <input
+                type="text"
+                value={condition.valueTo || ''}
+                onChange={(e) => edit(condition.id, { valueTo: e.target.value })}
+                placeholder={fieldType === 'date' ? `To (${timeZoneLabel})` : 'Max'}
+                className={`${inputClass} w-36`}
+                aria-label="To"
+              />
+            </>
+          ) : (
+            <input
+              type="text"
+              value={condition.value}
+              onChange={(e) => edit(condition.id, { value: e.target.value })}
+              placeholder={operator === 'in' ? 'Comma-separated values' : operator === 'regex' ? 'Pattern, e.g. ^10[0-9]$' : VALUE_PLACEHOLDERS[fieldType]}
+              className={`${inputClass} flex-1 min-w-[8rem] ${operator === 'regex' ? 'font-mono' : ''}`}
+              aria-label="Value"
+            />
+          )}
+          <button
+            type="button"
+            onClick={() => setDraft(prev => removeRule(prev, condition.id))}
+            className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+            aria-label="Remove condition"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+        {error && <p className="mt-0.5 text-[11px] text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    )
+  }
+
+  const renderGroup = (group: QueryGroup, depth: number) => (
+    <div
+      key={group.id}
+      className={depth > 0 ? 'border-l-2 border-indigo-200 dark:border-indigo-800 pl-3 py-1 space-y-2' : 'space-y-2'}
+    >
+      <div className="flex items-center gap-2">
+        <div className="inline-flex rounded border border-gray-300 dark:border-gray-600 overflow-hidden text-[11px]" role="group" aria-label="Match">
+          {(['and', 'or'] as QueryCombinator[]).map(combinator => (
+            <button
+              key={combinator}
+              type="button"
+              aria-pressed={group.combinator === combinator}
+              onClick={() => edit(group.id, { combinator })}
+              className={`px-2 py-0.5 font-medium ${
+                group.combinator === combinator
+                  ? 'bg-indigo-600 text-white'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {combinator.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {group.combinator === 'and' ? 'All of these match' : 'Any of these match'}
+        </span>
+        {depth > 0 && (
+          <button
+            type="button"
+            onClick={() => setDraft(prev => removeRule(prev, group.id))}
+            className="ml-auto p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+            aria-label="Remove group"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      {group.rules.map(rule => rule.kind === 'group' ? renderGroup(rule, depth + 1) : renderCondition(rule))}
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => addCondition(group.id)}
+          disabled={fields.length === 0}
+          className="inline-flex items-center text-xs text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+        >
+          <PlusIcon className="h-3.5 w-3.5 mr-0.5" />
+          Condition
+        </button>
+        {depth + 1 < MAX_GROUP_DEPTH && (
+          <button
+            type="button"
+            onClick={() => addGroup(group)}
+            disabled={fields.length === 0}
+            className="inline-flex items-center text-xs text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+          >
+            <PlusIcon className="h-3.5 w-3.5 mr-0.5" />
+            Group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className={`inline-flex items-center px-3 py-2 border shadow-sm text-sm leading-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+          conditionCount > 0
+            ? 'border-indigo-500 text-indigo-700 bg-indigo-50 dark:bg-indigo-900 dark:text-indigo-200 dark:border-indigo-400'
+            : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600'
+        }`}
+      >
+        <AdjustmentsHorizontalIcon className="h-4 w-4 mr-2" />
+        Query
+        {conditionCount > 0 && (
+          <span className="ml-1.5 inline-flex items-center justify-center px-1.5 rounded-full text-xs bg-indigo-600 text-white">{conditionCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-[40rem] max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50 max-h-[80vh] overflow-auto p-4"
+          role="dialog"
+          aria-label="Query builder"
+        >
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-1">Query</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Match records on any field, on top of the filter bar and search. Dates are in {timeZoneLabel}.
+          </p>
+          {renderGroup(draft, 0)}
+          <div className="mt-4 flex items-center justify-between gap-3">
+            <button
+              type="button"
+              onClick={clear}
+              className="px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Clear
+            </button>
+            <div className="space-x-2">
+              <button
+                type="button"
+                onClick={() => setIsOpen(false)}
+                className="px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={apply}
+                disabled={Boolean(draftError)}
+                title={draftError || undefined}
+                className="px-3 py-1.5 text-xs rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
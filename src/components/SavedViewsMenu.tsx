@@ -0,0 +1,262 @@
+import { useState, useEffect, useCallback } from 'react'
+import { BookmarkIcon, ChevronDownIcon, ExclamationTriangleIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { useAuth } from '../contexts/AuthContext'
+import { useData } from '../contexts/DataContext'
+import { savedViewService } from '../services/savedViewService'
+import type { SavedView, SavedViewPage, SavedViewState, UserRole } from '../services/savedViewService'
+import { useDataSources } from '../contexts/DataSourcesContext'
+import { getErrorMessage } from '../services/apiClient'
+
+interface SavedViewsMenuProps {
+  page: SavedViewPage
+  currentView: SavedViewState
+  // Columns the current data source offers; view columns outside this list are dropped
+  availableColumns: string[]
+  onApply: (view: SavedViewState) => void
+}
+
+const SHARE_OPTIONS: Array<{ value: UserRole | ''; label: string }> = [
+  { value: '', label: 'Only me' },
+  { value: 'viewer', label: 'Viewers' },
+  { value: 'user', label: 'Users' },
+  { value: 'manager', label: 'Managers' },
+  { value: 'admin', label: 'Admins' }
+]
+
+export default function SavedViewsMenu({ page, currentView, availableColumns, onApply }: SavedViewsMenuProps) {
+  const { user } = useAuth()
+  const { selectedDataSource } = useData()
+  const { getLabel } = useDataSources()
+  const dataSourceLabel = (value?: string) => value ? getLabel(value) : 'another data source'
+  const [isOpen, setIsOpen] = useState(false)
+  const [views, setViews] = useState<SavedView[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [activeView, setActiveView] = useState<SavedView | null>(null)
+  const [missingColumns, setMissingColumns] = useState<string[]>([])
+  const [showWarning, setShowWarning] = useState(false)
+
+  // Save form
+  const [isSaving, setIsSaving] = useState(false)
+  const [name, setName] = useState('')
+  const [shareWith, setShareWith] = useState<UserRole | ''>('')
+
+  const loadViews = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await savedViewService.getViews(page)
+      setViews(response.views || [])
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load saved views'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [page])
+
+  useEffect(() => {
+    if (isOpen) loadViews()
+  }, [isOpen, loadViews])
+
+  // Close with Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('keydown', onKey)
+    return () => document.removeEventListener('keydown', onKey)
+  }, [isOpen])
+
+  // Re-check the active view when the data source (and so its columns) changes
+  useEffect(() => {
+    if (!activeView?.view.columns || availableColumns.length === 0) {
+      setMissingColumns([])
+      return
+    }
+    const missing = activeView.view.columns.filter(col => !availableColumns.includes(col))
+    setMissingColumns(missing)
+    if (missing.length > 0) setShowWarning(true)
+  }, [activeView, availableColumns.join(','), selectedDataSource])
+
+  const applyView = (view: SavedView) => {
+    const columns = view.view.columns && availableColumns.length > 0
+      ? view.view.columns.filter(col => availableColumns.includes(col))
+      : view.view.columns
+    onApply({ ...view.view, columns: columns && columns.length > 0 ? columns : undefined })
+    setActiveView(view)
+    setIsOpen(false)
+  }
+
+  const handleSave = async () => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    try {
+      setIsSaving(true)
+      setError(null)
+      const response = await savedViewService.createView({
+        name: trimmed,
+        page,
+        dataSource: selectedDataSource,
+        sharedWithRole: shareWith || null,
+        view: currentView
+      })
+      setViews(prev => [...prev, response.view])
+      setActiveView(response.view)
+      setName('')
+      setShareWith('')
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to save view'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (view: SavedView) => {
+    if (!window.confirm(`Delete saved view "${view.name}"?`)) return
+    try {
+      await savedViewService.deleteView(view._id)
+      setViews(prev => prev.filter(v => v._id !== view._id))
+      if (activeView?._id === view._id) setActiveView(null)
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to delete view'))
+    }
+  }
+
+  const myViews = views.filter(v => v.owner?._id === user?.id)
+  const sharedViews = views.filter(v => v.owner?._id !== user?.id)
+
+  const renderViewRow = (view: SavedView, canDelete: boolean) => (
+    <li key={view._id} className="group flex items-center justify-between px-3 py-1.5 hover:bg-gray-50 dark:hover:bg-gray-700">
+      <button
+        type="button"
+        onClick={() => applyView(view)}
+        className="flex-1 min-w-0 text-left"
+      >
+        <span className={`block truncate text-sm ${activeView?._id === view._id ? 'font-semibold text-indigo-600 dark:text-indigo-400' : 'text-gray-800 dark:text-gray-200'}`}>
+          {view.name}
+        </span>
+        <span className="block truncate text-xs text-gray-500 dark:text-gray-400">
+          {canDelete
+            ? (view.sharedWithRole ? `Shared with ${view.sharedWithRole}s` : 'Private')
+            : `By ${view.owner?.fullName || 'another user'}`}
+          {view.dataSource && view.dataSource !== selectedDataSource && ` · ${dataSourceLabel(view.dataSource)}`}
+        </span>
+      </button>
+      {canDelete && (
+        <button
+          type="button"
+          onClick={() => handleDelete(view)}
+          className="ml-2 p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+          title="Delete view"
+        >
+          <TrashIcon className="h-4 w-4" />
+        </button>
+      )}
+    </li>
+  )
+
+  return (
+    <div className="relative flex items-center gap-1">
+      {missingColumns.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowWarning(!showWarning)}
+          className="p-2 text-amber-500 hover:text-amber-600"
+          title="Some fields of this view are not available on the current data source"
+        >
+          <ExclamationTriangleIcon className="h-5 w-5" />
+        </button>
+      )}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`inline-flex items-center px-3 py-2 border shadow-sm text-sm leading-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
+          isOpen
+            ? 'border-indigo-500 text-indigo-700 bg-indigo-50 dark:bg-indigo-900 dark:text-indigo-200 dark:border-indigo-400'
+            : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600'
+        }`}
+      >
+        <BookmarkIcon className="h-4 w-4 mr-2" />
+        <span className="max-w-[10rem] truncate">{activeView?.name || 'Views'}</span>
+        <ChevronDownIcon className="h-4 w-4 ml-1" />
+      </button>
+
+      {showWarning && missingColumns.length > 0 && !isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 rounded-md border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/40 p-3 text-xs text-amber-800 dark:text-amber-200 shadow-lg z-50">
+          <p className="font-medium mb-1">"{activeView?.name}" doesn't fully apply here</p>
+          <p>
+            {dataSourceLabel(selectedDataSource)} has no {missingColumns.join(', ')} {missingColumns.length === 1 ? 'column' : 'columns'}, so {missingColumns.length === 1 ? 'it is' : 'they are'} hidden.
+          </p>
+          <button
+            type="button"
+            onClick={() => setShowWarning(false)}
+            className="mt-2 underline"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+          <div className="max-h-80 overflow-y-auto py-2">
+            {isLoading ? (
+              <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">Loading views…</p>
+            ) : (
+              <>
+                <p className="px-3 pt-1 pb-1 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">My views</p>
+                {myViews.length === 0 ? (
+                  <p className="px-3 py-1 text-sm text-gray-500 dark:text-gray-400">No saved views yet</p>
+                ) : (
+                  <ul>{myViews.map(view => renderViewRow(view, true))}</ul>
+                )}
+                {sharedViews.length > 0 && (
+                  <>
+                    <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">Shared with me</p>
+                    <ul>{sharedViews.map(view => renderViewRow(view, false))}</ul>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="border-t border-gray-200 dark:border-gray-700 p-3 space-y-2">
+            <p className="text-xs font-medium text-gray-700 dark:text-gray-300">Save current view</p>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave() }}
+              placeholder="e.g. Outbound > 10 min, cost > $1"
+              className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
+            />
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-600 dark:text-gray-400">Share with</label>
+              <select
+                value={shareWith}
+                onChange={(e) => setShareWith(e.target.value as UserRole | '')}
+                className="flex-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
+              >
+                {SHARE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving || !name.trim()}
+                className="px-3 py-1.5 text-xs rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving…' : 'Save'}
+              </button>
+            </div>
+            {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,7 +4,8 @@ import { Link, useLocation } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import { useData } from '../contexts/DataContext'
 import { useTheme } from '../contexts/ThemeContext'
-import { getDataSourceOptions } from '../services/settingsService'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { ALL_DATA_SOURCES, useDataSources } from '../contexts/DataSourcesContext'
 import { ChevronDownIcon } from '@heroicons/react/20/solid'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import {
@@ -18,7 +19,14 @@ import {
   faSignOutAlt,
   faTachometerAlt,
   faChartLine,
-  faDatabase
+  faDatabase,
+  faCalendarAlt,
+  faUserCircle,
+  faColumns,
+  faHeartbeat,
+  faReceipt,
+  faFileInvoiceDollar,
+  faBalanceScale
 } from '@fortawesome/free-solid-svg-icons'
 
 interface SidebarProps {
@@ -34,7 +42,13 @@ const navigation = [
   { name: 'Raw Data', href: '/reports/raw-data', icon: faDatabase },
   { name: 'Area Codes', href: '/reports/area-codes', icon: faMapMarkerAlt },
   { name: 'Extensions', href: '/reports/extensions', icon: faUsers },
+  { name: 'Compare Sources', href: '/reports/compare', icon: faColumns },
+  { name: 'Rated Cost', href: '/reports/rated-cost', icon: faReceipt },
+  { name: 'Reconciliation', href: '/reports/reconciliation', icon: faBalanceScale },
   { name: 'Users', href: '/system/users', icon: faUserShield },
+  { name: 'Schedules', href: '/system/schedules', icon: faCalendarAlt },
+  { name: 'Data Health', href: '/system/health', icon: faHeartbeat },
+  { name: 'Rate Decks', href: '/system/rates', icon: faFileInvoiceDollar },
   { name: 'Settings', href: '/system/settings', icon: faCog },
 ]
 
@@ -42,7 +56,8 @@ export default function Sidebar({ open, setOpen, isCollapsed }: SidebarProps) {
   const location = useLocation()
   const { hasPermission, hasRole, user, logout } = useAuth()
   const { selectedDataSource, setDataSource } = useData()
-  const { theme, setTheme } = useTheme()
+  const { theme } = useTheme()
+  const { setThemePreference } = usePreferences()
   const [dropdownOpen, setDropdownOpen] = useState(false)
 
   // Collapsed (icon-only) desktop dropdown needs to render outside the sidebar to avoid clipping
@@ -67,8 +82,8 @@ export default function Sidebar({ open, setOpen, isCollapsed }: SidebarProps) {
     return () => document.removeEventListener('mousedown', onDocClick)
   }, [dropdownOpen])
 
-  // All configured data sources
-  const dataSourceOptions = getDataSourceOptions()
+  // Enabled sources from the registry
+  const { options: dataSourceOptions } = useDataSources()
   // Limit by user database permissions (if any)
   const allowedValues = user?.databasePermissions || []
   const allowedOptions = (allowedValues.length > 0)
@@ -77,16 +92,21 @@ export default function Sidebar({ open, setOpen, isCollapsed }: SidebarProps) {
 
   const canSelectDataSource = allowedOptions.length > 0
 
+  // Users with several sources can also view them merged
+  const selectorOptions = allowedOptions.length > 1
+    ? [...allowedOptions, { value: ALL_DATA_SOURCES, label: 'All permitted sources' }]
+    : allowedOptions
+
   // If current selection is not permitted, auto-select first permitted when available
   useEffect(() => {
     if (!canSelectDataSource) return
-    const isCurrentAllowed = allowedOptions.some(opt => opt.value === selectedDataSource)
+    const isCurrentAllowed = selectorOptions.some(opt => opt.value === selectedDataSource)
     if (!isCurrentAllowed) {
       setDataSource(allowedOptions[0].value)
     }
-  }, [canSelectDataSource, allowedOptions, selectedDataSource, setDataSource])
+  }, [canSelectDataSource, allowedOptions, selectorOptions, selectedDataSource, setDataSource])
 
-  const currentOption = allowedOptions.find(option => option.value === selectedDataSource)
+  const currentOption = selectorOptions.find(option => option.value === selectedDataSource)
 
   const isActive = (href: string) => {
     return location.pathname === href || location.pathname.startsWith(href + '/')
@@ -96,7 +116,13 @@ export default function Sidebar({ open, setOpen, isCollapsed }: SidebarProps) {
     if (item.name === 'Users' && !hasPermission('manageUsers')) {
       return false
     }
-    if (item.name === 'Settings' && !(hasRole('admin') || hasPermission('systemSettings'))) {
+    if (item.name === 'Schedules' && !hasPermission('exportData')) {
+      return false
+    }
+    if ((item.name === 'Settings' || item.name === 'Rate Decks') && !(hasRole('admin') || hasPermission('systemSettings'))) {
+      return false
+    }
+    if (item.name === 'Compare Sources' && allowedOptions.length < 2) {
       return false
     }
     return true
@@ -154,7 +180,7 @@ export default function Sidebar({ open, setOpen, isCollapsed }: SidebarProps) {
 
                     {dropdownOpen && canSelectDataSource && (
                       <div className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white dark:bg-gray-800 py-1 text-base shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none sm:text-sm">
-                        {allowedOptions.map((option) => (
+                        {selectorOptions.map((option) => (
                           <div
                             key={option.value}
                             className={`relative cursor-pointer select-none py-2 pl-3 pr-9 ${
@@ -209,12 +235,26 @@ export default function Sidebar({ open, setOpen, isCollapsed }: SidebarProps) {
                   <div className={`border-t border-gray-200 dark:border-gray-700 pt-4 ${isCollapsed ? 'hidden' : 'block'}`}>
                     {/* Theme toggle */}
                     <button
-                      onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
+                      onClick={() => setThemePreference(theme === 'dark' ? 'light' : 'dark')}
                       className="flex items-center gap-x-3 rounded-md p-2 text-sm leading-6 font-semibold text-gray-700 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-gray-50 dark:hover:bg-gray-800 w-full"
                     >
                       <FontAwesomeIcon icon={theme === 'dark' ? faSun : faMoon} className="w-5 h-5" />
                       {theme === 'dark' ? 'Light Mode' : 'Dark Mode'}
                     </button>
+
+                    {/* Account */}
+                    <Link
+                      to="/account"
+                      onClick={() => setOpen(false)}
+                      className={`flex items-center gap-x-3 rounded-md p-2 text-sm leading-6 font-semibold w-full ${
+                        isActive('/account')
+                          ? 'bg-gray-50 dark:bg-gray-800 text-indigo-600 dark:text-indigo-400'
+                          : 'text-gray-700 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+                      }`}
+                    >
+                      <FontAwesomeIcon icon={faUserCircle} className="w-5 h-5" />
+                      Account
+                    </Link>
                     
                     {/* Logout only */}
                     <div className="mt-2 p-2 rounded-md bg-gray-50 dark:bg-gray-800">
@@ -286,7 +326,7 @@ export default function Sidebar({ open, setOpen, isCollapsed }: SidebarProps) {
                   className="fixed z-[9999] max-h-60 w-60 overflow-auto rounded-md bg-white dark:bg-gray-800 py-1 text-base shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none sm:text-sm"
                   style={{ top: (collapsedDropdownPos?.top ?? 64), left: (collapsedDropdownPos?.left ?? 88) }}
                 >
-                  {allowedOptions.map((option) => (
+                  {selectorOptions.map((option) => (
                     <div
                       key={option.value}
                       className={`relative cursor-pointer select-none py-2 pl-3 pr-9 ${
@@ -312,7 +352,7 @@ export default function Sidebar({ open, setOpen, isCollapsed }: SidebarProps) {
                 </div>
               ) : (
                 <div className="absolute z-50 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white dark:bg-gray-800 py-1 text-base shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none sm:text-sm">
-                  {allowedOptions.map((option) => (
+                  {selectorOptions.map((option) => (
                     <div
                       key={option.value}
                       className={`relative cursor-pointer select-none py-2 pl-3 pr-9 ${
@@ -367,7 +407,7 @@ export default function Sidebar({ open, setOpen, isCollapsed }: SidebarProps) {
           <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
             {/* Theme toggle - Always visible */}
             <button
-              onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
+              onClick={() => setThemePreference(theme === 'dark' ? 'light' : 'dark')}
               className={`flex items-center rounded-md p-2 text-sm leading-6 font-semibold text-gray-700 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-gray-50 dark:hover:bg-gray-800 w-full mb-2 ${isCollapsed ? 'justify-center' : 'gap-x-3'}`}
               title={theme === 'dark' ? 'Switch to Light Mode' : 'Switch to Dark Mode'}
             >
@@ -376,6 +416,20 @@ export default function Sidebar({ open, setOpen, isCollapsed }: SidebarProps) {
                 {theme === 'dark' ? 'Light Mode' : 'Dark Mode'}
               </span>
             </button>
+
+            {/* Account */}
+            <Link
+              to="/account"
+              className={`flex items-center rounded-md p-2 text-sm leading-6 font-semibold w-full ${isCollapsed ? 'justify-center' : 'gap-x-3'} ${
+                isActive('/account')
+                  ? 'bg-gray-50 dark:bg-gray-800 text-indigo-600 dark:text-indigo-400'
+                  : 'text-gray-700 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+              }`}
+              title="Account"
+            >
+              <FontAwesomeIcon icon={faUserCircle} className="w-5 h-5" />
+              <span className={`${isCollapsed ? 'hidden' : 'block'}`}>Account</span>
+            </Link>
             
             {/* Logout (always visible) */}
             {!isCollapsed && (
@@ -0,0 +1,21 @@
+import { Link } from 'react-router-dom'
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { useDataSources } from '../contexts/DataSourcesContext'
+
+// Header warning while any permitted source has stopped receiving call records
+export default function SourceHealthBadge() {
+  const { quietSources } = useDataSources()
+  if (quietSources.length === 0) return null
+
+  const names = quietSources.map(source => source.name).join(', ')
+  return (
+    <Link
+      to="/system/health"
+      title={`No new call records from ${names}`}
+      className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300 hover:bg-amber-200 dark:hover:bg-amber-900/60 whitespace-nowrap"
+    >
+      <ExclamationTriangleIcon className="h-4 w-4" />
+      {quietSources.length === 1 ? `${quietSources[0].name} is quiet` : `${quietSources.length} sources quiet`}
+    </Link>
+  )
+}
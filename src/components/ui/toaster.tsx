@@ -4,6 +4,7 @@ import { cva, type VariantProps } from "class-variance-authority"
 import { X } from "lucide-react"
 
 import { cn } from "../../lib/utils"
+import { useToast } from "./use-toast"
 
 const ToastProvider = ToastPrimitives.Provider
 
@@ -127,8 +128,20 @@ export {
 }
 
 export function Toaster() {
+  const { toasts } = useToast()
+
   return (
     <ToastProvider>
+      {toasts.map(({ id, title, description, action, ...props }) => (
+        <Toast key={id} {...props}>
+          <div className="grid gap-1">
+            {title && <ToastTitle>{title}</ToastTitle>}
+            {description && <ToastDescription>{description}</ToastDescription>}
+          </div>
+          {action}
+          <ToastClose />
+        </Toast>
+      ))}
       <ToastViewport />
     </ToastProvider>
   )
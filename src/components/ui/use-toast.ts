@@ -0,0 +1,76 @@
+import * as React from "react"
+
+import type { ToastActionElement, ToastProps } from "./toaster"
+
+// Most toasts visible at once; older ones are dropped
+const TOAST_LIMIT = 3
+// Time the close animation gets before a dismissed toast is removed
+const TOAST_REMOVE_DELAY = 300
+
+type ToasterToast = ToastProps & {
+  id: string
+  title?: React.ReactNode
+  description?: React.ReactNode
+  action?: ToastActionElement
+}
+
+type ToastInput = Omit<ToasterToast, "id">
+
+let count = 0
+let memoryState: ToasterToast[] = []
+const listeners = new Set<(toasts: ToasterToast[]) => void>()
+
+function setToasts(next: ToasterToast[]) {
+  memoryState = next
+  listeners.forEach((listener) => listener(memoryState))
+}
+
+function dismiss(toastId?: string) {
+  setToasts(
+    memoryState.map((t) =>
+      toastId === undefined || t.id === toastId ? { ...t, open: false } : t
+    )
+  )
+  setTimeout(() => {
+    setToasts(memoryState.filter((t) => t.open !== false))
+  }, TOAST_REMOVE_DELAY)
+}
+
+function toast(props: ToastInput) {
+  const id = String(++count)
+
+  const update = (next: Partial<ToastInput>) =>
+    setToasts(memoryState.map((t) => (t.id === id ? { ...t, ...next } : t)))
+
+  setToasts(
+    [
+      {
+        ...props,
+        id,
+        open: true,
+        onOpenChange: (open: boolean) => {
+          if (!open) dismiss(id)
+        },
+      },
+      ...memoryState,
+    ].slice(0, TOAST_LIMIT)
+  )
+
+  return { id, dismiss: () => dismiss(id), update }
+}
+
+function useToast() {
+  const [toasts, setState] = React.useState<ToasterToast[]>(memoryState)
+
+  React.useEffect(() => {
+    listeners.add(setState)
+    return () => {
+      listeners.delete(setState)
+    }
+  }, [])
+
+  return { toasts, toast, dismiss }
+}
+
+export { useToast, toast, dismiss }
+export type { ToasterToast }
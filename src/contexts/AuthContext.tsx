@@ -1,6 +1,9 @@
 import React, { createContext, useContext, useReducer, useEffect } from 'react'
 import { Navigate } from 'react-router-dom'
 import { authService } from '../services/authService'
+import { getErrorMessage, onAuthFailure, onSessionRefreshed } from '../services/apiClient'
+import { toast } from '../components/ui/use-toast'
+import { browserTimeZone, formatInTimeZone } from '../lib/datetime'
 
 // Types
 interface User {
@@ -44,6 +47,7 @@ type AuthAction =
   | { type: 'AUTH_FAILURE'; payload: string }
   | { type: 'LOGOUT' }
   | { type: 'UPDATE_USER'; payload: Partial<User> }
+  | { type: 'TOKEN_REFRESHED'; payload: string }
   | { type: 'CLEAR_ERROR' }
 
 interface AuthContextType extends AuthState {
@@ -56,6 +60,9 @@ interface AuthContextType extends AuthState {
   hasRole: (roles: string | string[]) => boolean
 }
 
+// How long before the access token expires to warn the user
+const EXPIRY_WARNING_LEAD = 5 * 60 * 1000
+
 // Initial state
 const initialState: AuthState = {
   user: null,
@@ -111,6 +118,12 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         user: state.user ? { ...state.user, ...action.payload } : null
       }
     
+    case 'TOKEN_REFRESHED':
+      return {
+        ...state,
+        token: action.payload
+      }
+    
     case 'CLEAR_ERROR':
       return {
         ...state,
@@ -137,10 +150,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         try {
           dispatch({ type: 'AUTH_START' })
           const user = await authService.getCurrentUser()
-          dispatch({ type: 'AUTH_SUCCESS', payload: { user, token } })
+          // The stored token may have been refreshed while loading the user
+          dispatch({ type: 'AUTH_SUCCESS', payload: { user, token: authService.getToken() || token } })
         } catch (error) {
           console.error('Failed to initialize auth:', error)
-          localStorage.removeItem('token')
+          authService.clearToken()
           dispatch({ type: 'AUTH_FAILURE', payload: 'Session expired' })
         }
       } else {
@@ -152,14 +166,53 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     initializeAuth()
   }, [])
 
+  // A 401 that a token refresh couldn't fix ends the session; ProtectedRoute then sends the user to /login
+  useEffect(() => {
+    const unsubscribeFailure = onAuthFailure(() => {
+      authService.clearToken()
+      dispatch({ type: 'AUTH_FAILURE', payload: 'Your session has expired. Please sign in again.' })
+    })
+    const unsubscribeRefresh = onSessionRefreshed(token => {
+      dispatch({ type: 'TOKEN_REFRESHED', payload: token })
+    })
+    return () => {
+      unsubscribeFailure()
+      unsubscribeRefresh()
+    }
+  }, [])
+
+  // Warn a few minutes before the access token expires. With a refresh token the next request
+  // renews the session on its own, so there is nothing to warn about.
+  useEffect(() => {
+    if (!state.isAuthenticated || authService.getRefreshToken()) return
+    const expiresAt = authService.getTokenExpiry(state.token)
+    if (!expiresAt || expiresAt <= Date.now()) return
+
+    let warning: ReturnType<typeof toast> | null = null
+    const signOutAt = formatInTimeZone(expiresAt, 'HH:mm', state.user?.preferences?.timezone || browserTimeZone())
+
+    const timer = setTimeout(() => {
+      warning = toast({
+        title: 'Your session is about to expire',
+        description: `You will be signed out at ${signOutAt}. Save your work and sign in again.`,
+        duration: Infinity
+      })
+    }, Math.max(expiresAt - EXPIRY_WARNING_LEAD - Date.now(), 0))
+
+    return () => {
+      clearTimeout(timer)
+      warning?.dismiss()
+    }
+  }, [state.isAuthenticated, state.token])
+
   // Login function
   const login = async (credentials: { login: string; password: string }) => {
     try {
       dispatch({ type: 'AUTH_START' })
       const response = await authService.login(credentials)
       
-      // Store token in localStorage
-      localStorage.setItem('token', response.token)
+      // Store access and refresh tokens
+      authService.storeSession(response)
       
       dispatch({
         type: 'AUTH_SUCCESS',
@@ -169,7 +222,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
       })
     } catch (error: any) {
-      const errorMessage = error.response?.data?.error || 'Login failed'
+      const errorMessage = getErrorMessage(error, 'Login failed')
       dispatch({ type: 'AUTH_FAILURE', payload: errorMessage })
       throw error
     }
@@ -181,8 +234,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       dispatch({ type: 'AUTH_START' })
       const response = await authService.googleLogin(token)
       
-      // Store token in localStorage
-      localStorage.setItem('token', response.token)
+      // Store access and refresh tokens
+      authService.storeSession(response)
       
       dispatch({
         type: 'AUTH_SUCCESS',
@@ -192,7 +245,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
       })
     } catch (error: any) {
-      const errorMessage = error.response?.data?.error || 'Google login failed'
+      const errorMessage = getErrorMessage(error, 'Google login failed')
       dispatch({ type: 'AUTH_FAILURE', payload: errorMessage })
       throw error
     }
@@ -200,8 +253,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   // Logout function
   const logout = () => {
-    localStorage.removeItem('token')
+    // Sends the current tokens before they are cleared, so the server can revoke the refresh token
     authService.logout()
+    authService.clearToken()
     dispatch({ type: 'LOGOUT' })
   }
 
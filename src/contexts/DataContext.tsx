@@ -1,18 +1,28 @@
-import React, { createContext, useContext, useReducer, useCallback, useEffect } from 'react'
-import { getDataSourceOptions } from '../services/settingsService'
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useMemo } from 'react'
 import { useAuth } from './AuthContext'
+import { ALL_DATA_SOURCES, useDataSources } from './DataSourcesContext'
+import type { QuickRange } from '../lib/dateRanges'
+import type { FilterMode } from '../lib/filterValues'
 
 // Types
 interface DataFilters {
   dateFrom?: string
   dateTo?: string
+  // Rolling preset the dates were resolved from, so saved views stay relative
+  dateRange?: QuickRange
   callType?: 'incoming' | 'outgoing' | 'internal'
   status?: 'answered' | 'unanswered' | 'redirected' | 'waiting'
   terminationReason?: string
-  areaCode?: string
-  trunkNumber?: string
-  extension?: string
-  stateCode?: string
+  // Multi-value filters, each with an include/exclude mode (include when unset).
+  // Extensions also take ranges such as "101-115".
+  areaCode?: string[]
+  areaCodeMode?: FilterMode
+  trunkNumber?: string[]
+  trunkNumberMode?: FilterMode
+  extension?: string[]
+  extensionMode?: FilterMode
+  stateCode?: string[]
+  stateCodeMode?: FilterMode
   minDurationSec?: number
   maxDurationSec?: number
   minCost?: number
@@ -80,6 +90,10 @@ interface DataContextType extends DataState {
   // Computed values
   hasActiveFilters: boolean
   isDataStale: boolean
+  // Enabled sources the user may read, in registry order
+  permittedDataSources: string[]
+  // True when every permitted source is selected at once
+  isAllSources: boolean
 }
 
 // Helpers to initialize and persist the data source
@@ -118,11 +132,17 @@ const initialState: DataState = {
 // Reducer
 function dataReducer(state: DataState, action: DataAction): DataState {
   switch (action.type) {
-    case 'SET_FILTERS':
+    case 'SET_FILTERS': {
+      const filters = { ...state.filters, ...action.payload }
+      // Setting explicit dates without a preset turns the range into a fixed one
+      if (!('dateRange' in action.payload) && ('dateFrom' in action.payload || 'dateTo' in action.payload)) {
+        filters.dateRange = undefined
+      }
       return {
         ...state,
-        filters: { ...state.filters, ...action.payload }
+        filters
       }
+    }
     
     case 'CLEAR_FILTERS':
       return {
@@ -222,24 +242,28 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
 
   // Enforce allowed data source based on authenticated user's permissions
   const { user } = useAuth()
+  const { options: dataSourceOptions } = useDataSources()
+  // Only enabled registry sources that are permitted
+  const permittedDataSources = useMemo(() => {
+    const perms = user?.databasePermissions || []
+    return dataSourceOptions.map(o => o.value).filter(value => perms.includes(value))
+  }, [user, dataSourceOptions])
+
   useEffect(() => {
     if (!user) return
-    const perms = user.databasePermissions || []
-    if (perms.length === 0) return
-
-    // Only keep configured sources that are permitted
-    const configured = getDataSourceOptions().map(o => o.value)
-    const allowed = perms.filter(v => configured.includes(v as any))
+    const allowed = permittedDataSources
     if (allowed.length === 0) return
 
-    // Prefer stored selection if still allowed; otherwise pick first allowed
+    // Prefer stored selection if still allowed; otherwise pick first allowed.
+    // The combined view needs at least two sources to mean anything.
     const stored = localStorage.getItem(DS_STORAGE_KEY) || ''
-    const next = (stored && allowed.includes(stored as any)) ? stored : (allowed[0] as string)
+    const storedAllowed = stored === ALL_DATA_SOURCES ? allowed.length > 1 : allowed.includes(stored)
+    const next = storedAllowed ? stored : allowed[0]
 
     if (state.selectedDataSource !== next) {
       dispatch({ type: 'SET_DATA_SOURCE', payload: next })
     }
-  }, [user, state.selectedDataSource])
+  }, [user, permittedDataSources, state.selectedDataSource])
 
   // Computed values
   const hasActiveFilters = Object.keys(state.filters).some(key => {
@@ -264,7 +288,9 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     setViewPreferences,
     resetState,
     hasActiveFilters,
-    isDataStale
+    isDataStale,
+    permittedDataSources,
+    isAllSources: state.selectedDataSource === ALL_DATA_SOURCES
   }
 
   return (
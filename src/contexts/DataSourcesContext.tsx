@@ -0,0 +1,125 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { dataSourceService } from '../services/dataSourceService'
+import type { DataSource, DataSourceHealthSummary } from '../services/dataSourceService'
+import { getErrorMessage } from '../services/apiClient'
+import { DEFAULT_GAP_THRESHOLD_MINUTES, isQuiet } from '../lib/ingestion'
+import { useAuth } from './AuthContext'
+
+interface DataSourceOption {
+  value: string
+  label: string
+}
+
+interface DataSourcesContextType {
+  // Every registered source, enabled or not
+  dataSources: DataSource[]
+  // Enabled sources, for selectors
+  options: DataSourceOption[]
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+  getDataSource: (id: string) => DataSource | undefined
+  // "Name (host)", or the id itself for sources no longer in the registry
+  getLabel: (id: string) => string
+  // Newest record per permitted source, re-checked every few minutes
+  health: DataSourceHealthSummary[]
+  // Enabled permitted sources with no record for longer than their gap threshold
+  quietSources: DataSource[]
+}
+
+const DataSourcesContext = createContext<DataSourcesContextType | undefined>(undefined)
+
+// Selector value for "All permitted sources". It is sent as the collection; the server
+// merges the caller's permitted sources and tags each record with its `source`.
+export const ALL_DATA_SOURCES = 'all'
+
+// Series colours for charts that split the combined view by source
+export const SOURCE_COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#EC4899', '#8B5CF6', '#06B6D4']
+
+// How often to re-check whether sources are still receiving call records
+const HEALTH_POLL_MS = 5 * 60 * 1000
+
+const dataSourceLabel = (source: DataSource) => source.host ? `${source.name} (${source.host})` : source.name
+
+// Loads the admin-managed data source registry once the user is signed in
+export function DataSourcesProvider({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated } = useAuth()
+  const [dataSources, setDataSources] = useState<DataSource[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [health, setHealth] = useState<DataSourceHealthSummary[]>([])
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await dataSourceService.getDataSources()
+      setDataSources(response.dataSources || [])
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load data sources'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAuthenticated) refresh()
+    else setDataSources([])
+  }, [isAuthenticated, refresh])
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setHealth([])
+      return
+    }
+    const checkHealth = () => {
+      dataSourceService.getHealthSummary()
+        .then(response => setHealth(response.sources || []))
+        .catch(() => {
+          // The badge is best effort; the health page reports errors
+        })
+    }
+    checkHealth()
+    const timer = setInterval(checkHealth, HEALTH_POLL_MS)
+    return () => clearInterval(timer)
+  }, [isAuthenticated])
+
+  const value = useMemo<DataSourcesContextType>(() => {
+    const byId = new Map(dataSources.map(source => [source.id, source]))
+    const quietSources = health
+      .map(entry => ({ entry, source: byId.get(entry.id) }))
+      .filter(({ entry, source }) => source?.enabled && isQuiet(entry.newestRecordAt, source.gapThresholdMinutes || DEFAULT_GAP_THRESHOLD_MINUTES))
+      .map(({ source }) => source!)
+    return {
+      dataSources,
+      options: dataSources.filter(source => source.enabled).map(source => ({ value: source.id, label: dataSourceLabel(source) })),
+      isLoading,
+      error,
+      refresh,
+      getDataSource: (id: string) => byId.get(id),
+      getLabel: (id: string) => {
+        if (id === ALL_DATA_SOURCES) return 'All permitted sources'
+        const source = byId.get(id)
+        return source ? dataSourceLabel(source) : id
+      },
+      health,
+      quietSources
+    }
+  }, [dataSources, isLoading, error, refresh, health])
+
+  return (
+    <DataSourcesContext.Provider value={value}>
+      {children}
+    </DataSourcesContext.Provider>
+  )
+}
+
+export function useDataSources() {
+  const context = useContext(DataSourcesContext)
+  if (context === undefined) {
+    throw new Error('useDataSources must be used within a DataSourcesProvider')
+  }
+  return context
+}
+
+export type { DataSourceOption }
@@ -0,0 +1,146 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { exportService } from '../services/exportService'
+import { getErrorMessage, isCancelled } from '../services/apiClient'
+import type { ExportKind, ExportParams } from '../services/exportService'
+import { downloadBlob } from '../lib/exporters'
+import type { ExportColumn, ExportFormat } from '../lib/exporters'
+
+type ExportStatus = 'running' | 'done' | 'error' | 'cancelled'
+
+interface ExportJob {
+  id: string
+  kind: ExportKind
+  format: ExportFormat
+  fileName: string
+  status: ExportStatus
+  mode: 'stream' | 'paged'
+  rows: number
+  totalRows?: number
+  bytes: number
+  startedAt: string
+  finishedAt?: string
+  error?: string
+  // File of a finished export, kept for re-downloading
+  blob?: Blob
+}
+
+interface StartExportOptions {
+  kind: ExportKind
+  params: ExportParams
+  fileName: string
+  format?: ExportFormat
+  // Visible columns of the page, written in this order
+  columns?: ExportColumn[]
+  // Zone XLSX times are written in
+  timeZone?: string
+}
+
+interface ExportContextType {
+  jobs: ExportJob[]
+  startExport: (options: StartExportOptions) => string
+  cancelExport: (id: string) => void
+  removeExport: (id: string) => void
+  downloadExport: (id: string) => void
+}
+
+// Finished exports kept for re-download during the session
+const MAX_HISTORY = 10
+
+const ExportContext = createContext<ExportContextType | undefined>(undefined)
+
+export function ExportProvider({ children }: { children: React.ReactNode }) {
+  const [jobs, setJobs] = useState<ExportJob[]>([])
+  const controllers = useRef(new Map<string, AbortController>())
+  const jobsRef = useRef<ExportJob[]>([])
+  jobsRef.current = jobs
+
+  const updateJob = useCallback((id: string, patch: Partial<ExportJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job))
+  }, [])
+
+  const startExport = useCallback(({ kind, params, fileName, format = 'csv', columns, timeZone }: StartExportOptions) => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    const controller = new AbortController()
+    controllers.current.set(id, controller)
+
+    setJobs(prev => {
+      const next = [{ id, kind, format, fileName, status: 'running' as const, mode: 'stream' as const, rows: 0, bytes: 0, startedAt: new Date().toISOString() }, ...prev]
+      // Drop the oldest finished exports beyond the history limit
+      const finished = next.filter(job => job.status !== 'running')
+      const dropped = new Set(finished.slice(MAX_HISTORY).map(job => job.id))
+      return next.filter(job => !dropped.has(job.id))
+    })
+
+    exportService
+      .runExport(kind, params, {
+        format,
+        columns,
+        timeZone,
+        signal: controller.signal,
+        onProgress: ({ rows, totalRows, bytes, mode }) => updateJob(id, { rows, totalRows, bytes, mode })
+      })
+      .then(blob => {
+        updateJob(id, { status: 'done', blob, bytes: blob.size, finishedAt: new Date().toISOString() })
+        downloadBlob(blob, fileName)
+      })
+      .catch(error => {
+        if (isCancelled(error)) {
+          updateJob(id, { status: 'cancelled', finishedAt: new Date().toISOString() })
+        } else {
+          console.error('Export error:', error)
+          updateJob(id, {
+            status: 'error',
+            error: getErrorMessage(error, 'Export failed'),
+            finishedAt: new Date().toISOString()
+          })
+        }
+      })
+      .finally(() => controllers.current.delete(id))
+
+    return id
+  }, [updateJob])
+
+  const cancelExport = useCallback((id: string) => {
+    controllers.current.get(id)?.abort()
+  }, [])
+
+  const removeExport = useCallback((id: string) => {
+    controllers.current.get(id)?.abort()
+    setJobs(prev => prev.filter(j => j.id !== id))
+  }, [])
+
+  const downloadExport = useCallback((id: string) => {
+    const job = jobsRef.current.find(j => j.id === id)
+    if (job?.blob) downloadBlob(job.blob, job.fileName)
+  }, [])
+
+  // Abort running exports when the app unmounts
+  useEffect(() => {
+    const active = controllers.current
+    return () => active.forEach(controller => controller.abort())
+  }, [])
+
+  const value: ExportContextType = {
+    jobs,
+    startExport,
+    cancelExport,
+    removeExport,
+    downloadExport
+  }
+
+  return (
+    <ExportContext.Provider value={value}>
+      {children}
+    </ExportContext.Provider>
+  )
+}
+
+export function useExports() {
+  const context = useContext(ExportContext)
+  if (context === undefined) {
+    throw new Error('useExports must be used within an ExportProvider')
+  }
+  return context
+}
+
+export type { ExportJob, ExportStatus, StartExportOptions, ExportContextType }
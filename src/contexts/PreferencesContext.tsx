@@ -0,0 +1,142 @@
+import React, { createContext, useContext, useEffect, useCallback, useMemo, useRef, useState } from 'react'
+import { useAuth } from './AuthContext'
+import type { User } from './AuthContext'
+import { useTheme } from './ThemeContext'
+import { useData } from './DataContext'
+import { userService } from '../services/userService'
+import { useDataSources } from './DataSourcesContext'
+import {
+  TIME_FORMAT,
+  browserTimeZone,
+  formatInTimeZone,
+  isValidTimeZone,
+  normalizeDateFormat,
+  timeZoneAbbreviation
+} from '../lib/datetime'
+
+// Types
+type Preferences = User['preferences']
+
+// Whose clock dates are shown and quick ranges are resolved in
+type TimeZoneSource = 'user' | 'pbx'
+
+interface PreferencesContextType {
+  // The signed-in user's preferences with defaults filled in
+  preferences: Preferences
+  // Active zone: the PBX's when chosen and configured for the data source, else the user's
+  timeZone: string
+  timeZoneSource: TimeZoneSource
+  setTimeZoneSource: (source: TimeZoneSource) => void
+  // Whether the selected data source has a PBX timezone configured
+  hasPbxTimeZone: boolean
+  // Short label for the active zone, e.g. "EST"
+  timeZoneLabel: string
+  formatDate: (value: Date | string | number) => string
+  formatTime: (value: Date | string | number) => string
+  formatDateTime: (value: Date | string | number) => string
+  // Preferred page size, or the page's own default when the user hasn't set one
+  pageSize: (fallback: number) => number
+  savePreferences: (changes: Partial<Preferences>) => Promise<void>
+  // Applies the theme right away and saves it in the background
+  setThemePreference: (theme: Preferences['theme']) => void
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined)
+
+// Per-browser, like the theme and data source, since it isn't part of the server-side preferences
+const TZ_SOURCE_STORAGE_KEY = 'timeZoneSource'
+
+// The theme is saved once toggling settles, so a burst of clicks is one request
+const THEME_SAVE_DELAY_MS = 1000
+
+export function PreferencesProvider({ children }: { children: React.ReactNode }) {
+  const { user, updateUser } = useAuth()
+  const { theme, setTheme } = useTheme()
+  const { selectedDataSource } = useData()
+  const { getDataSource } = useDataSources()
+  const stored = user?.preferences
+  const [timeZoneSource, setTimeZoneSourceState] = useState<TimeZoneSource>(() =>
+    localStorage.getItem(TZ_SOURCE_STORAGE_KEY) === 'pbx' ? 'pbx' : 'user'
+  )
+
+  const preferences = useMemo<Preferences>(() => ({
+    theme: stored?.theme || theme,
+    timezone: stored?.timezone && isValidTimeZone(stored.timezone) ? stored.timezone : browserTimeZone(),
+    dateFormat: normalizeDateFormat(stored?.dateFormat),
+    itemsPerPage: stored?.itemsPerPage || 0
+  }), [stored, theme])
+
+  // The saved theme wins over whatever this browser used last
+  useEffect(() => {
+    if (stored?.theme && stored.theme !== theme) {
+      setTheme(stored.theme)
+    }
+  }, [stored?.theme])
+
+  const savePreferences = useCallback(async (changes: Partial<Preferences>) => {
+    if (!user) return
+    const next = { ...user.preferences, ...changes }
+    await userService.updateUser(user.id, { preferences: next })
+    updateUser({ preferences: next })
+  }, [user, updateUser])
+
+  const themeSaveTimer = useRef<ReturnType<typeof setTimeout>>()
+  const latestSave = useRef({ savePreferences, storedTheme: stored?.theme })
+  latestSave.current = { savePreferences, storedTheme: stored?.theme }
+
+  const setThemePreference = useCallback((next: Preferences['theme']) => {
+    setTheme(next)
+    clearTimeout(themeSaveTimer.current)
+    themeSaveTimer.current = setTimeout(() => {
+      const { savePreferences, storedTheme } = latestSave.current
+      // Toggled back to the saved theme: nothing to send
+      if (next === storedTheme) return
+      savePreferences({ theme: next }).catch(error => {
+        console.error('Failed to save theme preference:', error)
+      })
+    }, THEME_SAVE_DELAY_MS)
+  }, [setTheme])
+
+  useEffect(() => () => clearTimeout(themeSaveTimer.current), [])
+
+  const setTimeZoneSource = useCallback((source: TimeZoneSource) => {
+    setTimeZoneSourceState(source)
+    localStorage.setItem(TZ_SOURCE_STORAGE_KEY, source)
+  }, [])
+
+  const pbxTimeZone = selectedDataSource ? getDataSource(selectedDataSource)?.timezone : undefined
+  const hasPbxTimeZone = Boolean(pbxTimeZone && isValidTimeZone(pbxTimeZone))
+  const timezone = timeZoneSource === 'pbx' && hasPbxTimeZone ? pbxTimeZone! : preferences.timezone
+  const { dateFormat, itemsPerPage } = preferences
+
+  const value = useMemo<PreferencesContextType>(() => ({
+    preferences,
+    timeZone: timezone,
+    timeZoneSource,
+    setTimeZoneSource,
+    hasPbxTimeZone,
+    timeZoneLabel: timeZoneAbbreviation(timezone),
+    formatDate: (date) => formatInTimeZone(date, dateFormat, timezone),
+    formatTime: (date) => formatInTimeZone(date, TIME_FORMAT, timezone),
+    formatDateTime: (date) => formatInTimeZone(date, `${dateFormat} ${TIME_FORMAT}`, timezone),
+    pageSize: (fallback) => itemsPerPage > 0 ? itemsPerPage : fallback,
+    savePreferences,
+    setThemePreference
+  }), [preferences, timezone, timeZoneSource, setTimeZoneSource, hasPbxTimeZone, dateFormat, itemsPerPage, savePreferences, setThemePreference])
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  )
+}
+
+export function usePreferences() {
+  const context = useContext(PreferencesContext)
+  if (context === undefined) {
+    throw new Error('usePreferences must be used within a PreferencesProvider')
+  }
+  return context
+}
+
+export type { Preferences, PreferencesContextType, TimeZoneSource }
@@ -0,0 +1,72 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { rateService } from '../services/rateService'
+import type { RateDeck } from '../services/rateService'
+import type { CallLog } from '../services/dataService'
+import { getErrorMessage } from '../services/apiClient'
+import { rateCall } from '../lib/rating'
+import type { RatedCall } from '../lib/rating'
+import { useAuth } from './AuthContext'
+import { useData } from './DataContext'
+
+interface RatesContextType {
+  rateDecks: RateDeck[]
+  // Whether any deck exists, so reports only offer rated cost once rates are set up
+  hasRates: boolean
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+  // Rated cost of a call in the selected data source
+  rate: (call: CallLog) => RatedCall
+}
+
+const RatesContext = createContext<RatesContextType | undefined>(undefined)
+
+// Loads the rate decks reports re-rate call costs with
+export function RatesProvider({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated } = useAuth()
+  const { selectedDataSource } = useData()
+  const [rateDecks, setRateDecks] = useState<RateDeck[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      const response = await rateService.getRateDecks()
+      setRateDecks(response.rateDecks || [])
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load rate decks'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAuthenticated) refresh()
+    else setRateDecks([])
+  }, [isAuthenticated, refresh])
+
+  const value = useMemo<RatesContextType>(() => ({
+    rateDecks,
+    hasRates: rateDecks.length > 0,
+    isLoading,
+    error,
+    refresh,
+    rate: (call: CallLog) => rateCall(call, rateDecks, selectedDataSource)
+  }), [rateDecks, isLoading, error, refresh, selectedDataSource])
+
+  return (
+    <RatesContext.Provider value={value}>
+      {children}
+    </RatesContext.Provider>
+  )
+}
+
+export function useRates() {
+  const context = useContext(RatesContext)
+  if (context === undefined) {
+    throw new Error('useRates must be used within a RatesProvider')
+  }
+  return context
+}
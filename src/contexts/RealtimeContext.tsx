@@ -79,6 +79,12 @@ export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({ children })
       return;
     }
 
+    // Drop data from a previous stream so it is never shown for the wrong collection
+    if (currentCollectionRef.current !== collection) {
+      setDashboardData(null);
+      setLastUpdate(null);
+    }
+
     // Disconnect existing connection
     disconnect();
 
@@ -225,4 +231,6 @@ export const useRealtime = (): RealtimeContextType => {
   return context;
 };
 
+export type { DashboardData, RealtimeContextType };
+
 export default RealtimeContext;
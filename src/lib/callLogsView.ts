@@ -0,0 +1,215 @@
+import type { DataFilters } from '../contexts/DataContext'
+import type { CallFilterParams } from '../services/dataService'
+import { isQuickRange } from './dateRanges'
+import { MULTI_VALUE_FILTERS, toValueList } from './filterValues'
+import type { FilterMode } from './filterValues'
+import { areaCodesForRegion, normalizeAreaCode } from './nanp'
+
+export interface CallLogsView {
+  filters: DataFilters
+  search: string
+  sortBy: string
+  sortOrder: 'asc' | 'desc'
+  pageSize: number
+  // Undefined means the page's default column set
+  columns?: string[]
+}
+
+export const CALL_LOGS_VIEW_DEFAULTS = {
+  sortBy: 'startTime',
+  sortOrder: 'desc' as const,
+  pageSize: 500
+}
+
+// URL parameter for each filter. `type`, `areaCode` and `extension` are already
+// linked to from the dashboard and report pages, so keep those names stable.
+const FILTER_PARAMS: Array<[keyof DataFilters, string]> = [
+  ['dateFrom', 'from'],
+  ['dateTo', 'to'],
+  ['dateRange', 'range'],
+  ['callType', 'type'],
+  ['status', 'status'],
+  ['terminationReason', 'reason'],
+  ['areaCode', 'areaCode'],
+  ['areaCodeMode', 'areaCodeMode'],
+  ['trunkNumber', 'trunk'],
+  ['trunkNumberMode', 'trunkMode'],
+  ['extension', 'extension'],
+  ['extensionMode', 'extensionMode'],
+  ['stateCode', 'state'],
+  ['stateCodeMode', 'stateMode'],
+  ['minDurationSec', 'minDur'],
+  ['maxDurationSec', 'maxDur'],
+  ['minCost', 'minCost'],
+  ['maxCost', 'maxCost']
+]
+
+const NUMERIC_FILTERS = new Set<keyof DataFilters>(['minDurationSec', 'maxDurationSec', 'minCost', 'maxCost'])
+
+// Comma-separated in the URL, so single-value links from before keep working
+const LIST_FILTERS = new Set<keyof DataFilters>(MULTI_VALUE_FILTERS.map(({ key }) => key))
+const MODE_FILTERS = new Set<keyof DataFilters>(MULTI_VALUE_FILTERS.map(({ modeKey }) => modeKey))
+
+const VIEW_PARAMS = ['q', 'sort', 'order', 'limit', 'cols', ...FILTER_PARAMS.map(([, param]) => param)]
+
+// True when the URL carries any part of a Call Logs view
+export function hasViewParams(params: URLSearchParams): boolean {
+  return VIEW_PARAMS.some(param => params.has(param))
+}
+
+// `defaultPageSize` is the user's preferred page size, if they have one
+export function parseCallLogsView(params: URLSearchParams, defaultPageSize: number = CALL_LOGS_VIEW_DEFAULTS.pageSize): CallLogsView {
+  const filters: DataFilters = {}
+  for (const [key, param] of FILTER_PARAMS) {
+    const raw = params.get(param)
+    if (!raw) continue
+    if (key === 'dateRange') {
+      if (isQuickRange(raw)) filters.dateRange = raw
+    } else if (NUMERIC_FILTERS.has(key)) {
+      const value = Number(raw)
+      if (!isNaN(value)) (filters as any)[key] = value
+    } else if (LIST_FILTERS.has(key)) {
+      (filters as any)[key] = toValueList(raw)
+    } else if (MODE_FILTERS.has(key)) {
+      // Include is the default, so only an exclude mode is meaningful
+      if (raw === 'exclude') (filters as any)[key] = raw
+    } else {
+      (filters as any)[key] = raw
+    }
+  }
+
+  // A rolling range is resolved when the view is applied, not frozen at the dates in the link
+  if (filters.dateRange) {
+    delete filters.dateFrom
+    delete filters.dateTo
+  }
+
+  const pageSize = parseInt(params.get('limit') || '', 10)
+  const cols = params.get('cols')
+
+  return {
+    filters,
+    search: params.get('q') || '',
+    sortBy: params.get('sort') || CALL_LOGS_VIEW_DEFAULTS.sortBy,
+    sortOrder: params.get('order') === 'asc' ? 'asc' : CALL_LOGS_VIEW_DEFAULTS.sortOrder,
+    pageSize: pageSize > 0 ? pageSize : defaultPageSize,
+    columns: cols ? cols.split(',').filter(Boolean) : undefined
+  }
+}
+
+// Serialize in a fixed order and omit defaults so equal views give equal strings
+export function serializeCallLogsView(view: CallLogsView, defaultPageSize: number = CALL_LOGS_VIEW_DEFAULTS.pageSize): URLSearchParams {
+  const params = new URLSearchParams()
+  const isRolling = Boolean(view.filters.dateRange)
+  for (const [key, param] of FILTER_PARAMS) {
+    if (isRolling && (key === 'dateFrom' || key === 'dateTo')) continue
+    const value = view.filters[key]
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(param, value.join(','))
+    } else if (value !== undefined && value !== null && value !== '') {
+      params.set(param, String(value))
+    }
+  }
+  if (view.search) params.set('q', view.search)
+  if (view.sortBy !== CALL_LOGS_VIEW_DEFAULTS.sortBy) params.set('sort', view.sortBy)
+  if (view.sortOrder !== CALL_LOGS_VIEW_DEFAULTS.sortOrder) params.set('order', view.sortOrder)
+  if (view.pageSize !== defaultPageSize) params.set('limit', String(view.pageSize))
+  if (view.columns && view.columns.length > 0) params.set('cols', view.columns.join(','))
+  return params
+}
+
+// Call Logs URL for `filters`, so drill-downs add to the active filters instead of replacing them.
+// With `callId` the link opens that call's detail drawer over the filtered list.
+export function callLogsLink(filters: DataFilters, callId?: string, source?: string): string {
+  const query = serializeCallLogsView({
+    filters,
+    search: '',
+    sortBy: CALL_LOGS_VIEW_DEFAULTS.sortBy,
+    sortOrder: CALL_LOGS_VIEW_DEFAULTS.sortOrder,
+    pageSize: CALL_LOGS_VIEW_DEFAULTS.pageSize
+  }).toString()
+  if (!callId) return query ? `/reports/call-logs?${query}` : '/reports/call-logs'
+  return `/reports/call-logs/${encodeURIComponent(callId)}${withCallSource(query, source)}`
+}
+
+export const CALL_SOURCE_PARAM = 'source'
+
+// Query string for a call's detail drawer. In the combined view a call belongs to one
+// collection, named by `source`, which the drawer fetches it from.
+export function withCallSource(search: string, source?: string): string {
+  const params = new URLSearchParams(search)
+  if (source) params.set(CALL_SOURCE_PARAM, source)
+  else params.delete(CALL_SOURCE_PARAM)
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+// Full filter set for DataContext.setFilters, which merges: absent keys are cleared.
+// Views saved before multi-value filters hold plain strings, which become one-item lists.
+export function toFilterUpdate(filters: DataFilters): DataFilters {
+  const update: DataFilters = {}
+  for (const [key] of FILTER_PARAMS) {
+    (update as any)[key] = LIST_FILTERS.has(key) ? toValueList(filters[key]) : filters[key]
+  }
+  return update
+}
+
+// Active filters as request params. The preset name stays client-side; its dates are what's queried.
+// Extension ranges go as typed, a mode is only sent alongside values it applies to, and states become area codes.
+export function toFilterParams(filters: DataFilters): CallFilterParams {
+  const params: CallFilterParams = {}
+  for (const [key] of FILTER_PARAMS) {
+    const value = filters[key]
+    if (key === 'dateRange' || key === 'stateCode' || MODE_FILTERS.has(key) || value === undefined || value === null || value === '') continue
+    (params as any)[key] = value
+  }
+  for (const { key } of MULTI_VALUE_FILTERS) {
+    if (key === 'stateCode') continue
+    const modeKey = `${key}Mode` as const
+    const values = toValueList(filters[key])
+    if (!values) {
+      delete params[key]
+      continue
+    }
+    params[key] = values
+    if (filters[modeKey] === 'exclude') params[modeKey] = 'exclude'
+  }
+  const states = toValueList(filters.stateCode)
+  return states ? restrictToStates(params, states, filters.stateCodeMode) : params
+}
+
+// No real area code looks like this, so it stands for "no area code matches"
+const NO_AREA_CODE = '000'
+
+// Narrow `params` to calls whose area code the shared lookup places in `states` (or, excluding, outside
+// them). States go to the server as area codes so its own area code table never decides membership.
+export function restrictToStates(params: CallFilterParams, states: string[], mode: FilterMode = 'include'): CallFilterParams {
+  const npas = new Set(states.flatMap(areaCodesForRegion))
+  const current = params.areaCode
+  const inStates = (value: string) => npas.has(normalizeAreaCode(value))
+  const next: CallFilterParams = { ...params, areaCode: undefined, areaCodeMode: undefined }
+
+  if (mode === 'exclude') {
+    if (current && params.areaCodeMode !== 'exclude') {
+      next.areaCode = current.filter(value => !inStates(value))
+      if (next.areaCode.length === 0) next.areaCode = [NO_AREA_CODE]
+    } else {
+      const excluded = Array.from(new Set([...(current || []), ...npas]))
+      if (excluded.length > 0) {
+        next.areaCode = excluded
+        next.areaCodeMode = 'exclude'
+      }
+    }
+  } else {
+    const included = !current
+      ? Array.from(npas)
+      : params.areaCodeMode === 'exclude'
+        ? Array.from(npas).filter(npa => !current.some(value => normalizeAreaCode(value) === npa))
+        : current.filter(inStates)
+    next.areaCode = included.length > 0 ? included : [NO_AREA_CODE]
+  }
+
+  if (!next.areaCode) delete next.areaCode
+  if (!next.areaCodeMode) delete next.areaCodeMode
+  return next
+}
@@ -0,0 +1,52 @@
+// Minimal RFC 4180 reader for files users upload (rate decks, carrier invoices)
+
+// Rows of cells; quoted cells may contain commas, quotes ("") and line breaks. Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.some(value => value.trim() !== '')) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  // Excel writes a byte order mark at the start of UTF-8 files
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow()
+  return rows
+}
+
+// Lower-cased header with spaces, dashes and punctuation folded to "_", so "Rate / Min" matches "rate_min"
+export const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+
+// Index of the first header matching any of the names, or -1
+export const findColumn = (headers: string[], names: string[]) =>
+  headers.findIndex(header => names.includes(normalizeHeader(header)))
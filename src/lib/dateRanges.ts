@@ -0,0 +1,140 @@
+import { fromZonedTime, zonedParts } from './datetime'
+import type { DateRange } from './periods'
+
+// Date ranges are resolved against the wall clock of a timezone (the user's or the PBX's),
+// never the browser's, so "today" means the same calls as in the 3CX console.
+
+export type QuickRange =
+  | 'today'
+  | 'yesterday'
+  | 'last7days'
+  | 'last30days'
+  | 'weekToDate'
+  | 'previousBusinessWeek'
+  | 'thisMonth'
+  | 'lastMonth'
+  | 'last3months'
+  | 'thisYear'
+
+export const QUICK_RANGES: Array<{ value: QuickRange; label: string }> = [
+  { value: 'today', label: 'Today' },
+  { value: 'yesterday', label: 'Yesterday' },
+  { value: 'last7days', label: 'Last 7 days' },
+  { value: 'last30days', label: 'Last 30 days' },
+  { value: 'weekToDate', label: 'Week to date' },
+  { value: 'previousBusinessWeek', label: 'Previous business week' },
+  { value: 'thisMonth', label: 'This Month' },
+  { value: 'lastMonth', label: 'Last Month' },
+  { value: 'last3months', label: 'Last 3 months' },
+  { value: 'thisYear', label: 'This year' }
+]
+
+// A date filter as stored in filters, saved views and schedules. When `dateRange` is set the
+// dates are just its last resolution; the preset is re-resolved whenever the filter is loaded.
+export interface DateSelection {
+  dateFrom?: string
+  dateTo?: string
+  dateRange?: QuickRange
+}
+
+// Weeks start on Monday, as in the 3CX reports
+export const WEEK_START = 1
+
+export function isQuickRange(value: unknown): value is QuickRange {
+  return QUICK_RANGES.some(range => range.value === value)
+}
+
+export function quickRangeLabel(range: QuickRange): string {
+  return QUICK_RANGES.find(r => r.value === range)?.label || range
+}
+
+// First instant of the calendar day in `timeZone`; days roll over like Date.UTC
+export function startOfDayInZone(timeZone: string, year: number, month: number, day: number): Date {
+  return fromZonedTime(timeZone, year, month, day)
+}
+
+// Last millisecond of the calendar day, so 23- and 25-hour DST days are covered exactly
+export function endOfDayInZone(timeZone: string, year: number, month: number, day: number): Date {
+  return new Date(fromZonedTime(timeZone, year, month, day + 1).getTime() - 1)
+}
+
+export function resolveQuickRange(range: QuickRange, timeZone: string, now: Date = new Date()): DateRange {
+  const { year, month, day } = zonedParts(now, timeZone)
+  const endOfToday = endOfDayInZone(timeZone, year, month, day)
+  // Days since the start of the week; the weekday of a calendar date doesn't depend on the zone
+  const weekday = (new Date(Date.UTC(year, month, day)).getUTCDay() - WEEK_START + 7) % 7
+  let from: Date
+  let to: Date = endOfToday
+
+  switch (range) {
+    case 'yesterday':
+      from = startOfDayInZone(timeZone, year, month, day - 1)
+      to = endOfDayInZone(timeZone, year, month, day - 1)
+      break
+    case 'last7days':
+      // Today plus the six days before it
+      from = startOfDayInZone(timeZone, year, month, day - 6)
+      break
+    case 'last30days':
+      from = startOfDayInZone(timeZone, year, month, day - 29)
+      break
+    case 'weekToDate':
+      from = startOfDayInZone(timeZone, year, month, day - weekday)
+      break
+    case 'previousBusinessWeek':
+      // Monday to Friday of the week before this one
+      from = startOfDayInZone(timeZone, year, month, day - weekday - 7)
+      to = endOfDayInZone(timeZone, year, month, day - weekday - 3)
+      break
+    case 'thisMonth':
+      from = startOfDayInZone(timeZone, year, month, 1)
+      break
+    case 'lastMonth':
+      from = startOfDayInZone(timeZone, year, month - 1, 1)
+      // Day 0 of this month = last day of the previous one
+      to = endOfDayInZone(timeZone, year, month, 0)
+      break
+    case 'last3months':
+      // Current month plus the two before it
+      from = startOfDayInZone(timeZone, year, month - 2, 1)
+      break
+    case 'thisYear':
+      from = startOfDayInZone(timeZone, year, 0, 1)
+      break
+    default:
+      from = startOfDayInZone(timeZone, year, month, day)
+  }
+
+  return { dateFrom: from.toISOString(), dateTo: to.toISOString() }
+}
+
+// Fill in the dates of a rolling preset as of now; other filters are returned unchanged
+export function resolveDateFilters<T extends DateSelection>(filters: T, timeZone: string, now: Date = new Date()): T {
+  if (!filters.dateRange) return filters
+  if (!isQuickRange(filters.dateRange)) return { ...filters, dateRange: undefined }
+  return { ...filters, ...resolveQuickRange(filters.dateRange, timeZone, now) }
+}
+
+// datetime-local value (or typed "yyyy-MM-dd[ HH:mm]") read in `timeZone` -> ISO instant.
+// Inputs only carry minutes, so an end bound covers the whole minute (23:59 -> 23:59:59.999)
+// and a bare date the whole day.
+export function fromZonedInput(value: string | undefined, timeZone: string, edge: 'start' | 'end' = 'start'): string | undefined {
+  if (!value) return undefined
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(value.trim())
+  const [, year, month, day, hour, minute, second] = (match || []).map(Number)
+  // Day 0 of the next month is the last day of this one
+  const daysInMonth = match ? new Date(Date.UTC(year, month, 0)).getUTCDate() : 0
+  if (!match || month < 1 || month > 12 || day < 1 || day > daysInMonth || hour > 23 || minute > 59 || second > 59) {
+    console.warn('Invalid date format:', value)
+    return undefined
+  }
+  let date: Date
+  if (match[4] === undefined) {
+    date = edge === 'end' ? endOfDayInZone(timeZone, year, month - 1, day) : startOfDayInZone(timeZone, year, month - 1, day)
+  } else if (edge === 'end' && match[6] === undefined) {
+    date = fromZonedTime(timeZone, year, month - 1, day, hour, minute, 59, 999)
+  } else {
+    date = fromZonedTime(timeZone, year, month - 1, day, hour, minute, second || 0)
+  }
+  return date.toISOString()
+}
@@ -0,0 +1,148 @@
+import { format } from 'date-fns'
+
+// Date display patterns offered on the Account page (date-fns tokens)
+export const DATE_FORMAT_OPTIONS = [
+  { value: 'yyyy-MM-dd', label: '2024-03-31' },
+  { value: 'MM/dd/yyyy', label: '03/31/2024' },
+  { value: 'dd/MM/yyyy', label: '31/03/2024' },
+  { value: 'dd.MM.yyyy', label: '31.03.2024' },
+  { value: 'MMM d, yyyy', label: 'Mar 31, 2024' }
+]
+
+export const DEFAULT_DATE_FORMAT = 'yyyy-MM-dd'
+
+export const TIME_FORMAT = 'HH:mm:ss'
+
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// IANA zones the browser knows about, for the timezone picker
+export function listTimeZones(): string[] {
+  const supportedValuesOf = (Intl as any).supportedValuesOf as ((key: string) => string[]) | undefined
+  if (supportedValuesOf) {
+    try {
+      return supportedValuesOf('timeZone')
+    } catch {
+      // Fall through to the short list
+    }
+  }
+  return ['UTC', 'America/New_York', 'America/Chicago', 'America/Denver', 'America/Phoenix', 'America/Los_Angeles', 'America/Anchorage', 'Pacific/Honolulu', 'Europe/London', 'Europe/Berlin', 'Asia/Manila', 'Asia/Kolkata', 'Australia/Sydney']
+}
+
+// Accept moment-style patterns ("MM/DD/YYYY") stored by older clients
+export function normalizeDateFormat(pattern?: string | null): string {
+  if (!pattern) return DEFAULT_DATE_FORMAT
+  return pattern.replace(/Y/g, 'y').replace(/D/g, 'd')
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    partsFormatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+interface ZonedParts {
+  year: number
+  // 0-based, like Date#getMonth
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+// Wall-clock fields of an instant in `timeZone`
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {}
+  for (const part of getPartsFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value)
+  }
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  }
+}
+
+// Offset of `timeZone` from UTC at the given instant, in ms (negative west of Greenwich)
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone)
+  const asUtc = Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second)
+  return asUtc - (date.getTime() - date.getMilliseconds())
+}
+
+// The instant at which the wall clock in `timeZone` reads the given time.
+// Out-of-range fields roll over like Date.UTC (day 0 = last day of the previous month).
+// A time skipped by a spring-forward jump lands the same distance past it (02:30 -> 03:30);
+// a repeated fall-back time resolves to its first occurrence.
+export function fromZonedTime(
+  timeZone: string,
+  year: number,
+  month: number,
+  day = 1,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  ms = 0
+): Date {
+  const wallClock = Date.UTC(year, month, day, hour, minute, second, ms)
+  if (!isValidTimeZone(timeZone)) return new Date(year, month, day, hour, minute, second, ms)
+  // The offset at the guess may differ from the offset at the answer when a DST change lies between them
+  const firstOffset = getTimeZoneOffset(new Date(wallClock), timeZone)
+  const secondOffset = getTimeZoneOffset(new Date(wallClock - firstOffset), timeZone)
+  return new Date(wallClock - (firstOffset === secondOffset ? firstOffset : Math.min(firstOffset, secondOffset)))
+}
+
+// A Date whose local fields show the wall-clock time in `timeZone`, for use with date-fns format()
+export function toZonedTime(value: Date | string | number, timeZone: string): Date {
+  const date = value instanceof Date ? value : new Date(value)
+  if (isNaN(date.getTime()) || !isValidTimeZone(timeZone)) return date
+  const p = zonedParts(date, timeZone)
+  return new Date(p.year, p.month, p.day, p.hour, p.minute, p.second, date.getMilliseconds())
+}
+
+// Format an instant as seen in `timeZone`; invalid input is returned as given
+export function formatInTimeZone(value: Date | string | number, pattern: string, timeZone: string): string {
+  const date = value instanceof Date ? value : new Date(value)
+  if (isNaN(date.getTime())) return String(value)
+  return format(toZonedTime(date, timeZone), pattern)
+}
+
+// Short zone name for labels, e.g. "EST" or "GMT+8"
+export function timeZoneAbbreviation(timeZone: string, at: Date = new Date()): string {
+  try {
+    const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(at)
+      .find(p => p.type === 'timeZoneName')
+    return part?.value || timeZone
+  } catch {
+    return timeZone
+  }
+}
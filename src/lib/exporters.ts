@@ -0,0 +1,174 @@
+// Shared file writers for every export path (CSV, XLSX, NDJSON, Parquet)
+
+import type { ColumnSource } from 'hyparquet-writer'
+import { browserTimeZone, isValidTimeZone, zonedParts } from './datetime'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson' | 'parquet'
+
+// How a column is typed in XLSX/Parquet; CSV and NDJSON only use it to normalize values
+export type ColumnKind = 'string' | 'number' | 'integer' | 'currency' | 'duration' | 'datetime'
+
+export interface ExportColumn {
+  // Record field to read
+  key: string
+  header: string
+  kind?: ColumnKind
+}
+
+export const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string; extension: string; mime: string }> = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv;charset=utf-8' },
+  { value: 'xlsx', label: 'Excel (XLSX)', extension: 'xlsx', mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { value: 'ndjson', label: 'JSON (newline-delimited)', extension: 'ndjson', mime: 'application/x-ndjson' },
+  { value: 'parquet', label: 'Parquet', extension: 'parquet', mime: 'application/vnd.apache.parquet' }
+]
+
+const formatInfo = (format: ExportFormat) => EXPORT_FORMATS.find(f => f.value === format)!
+
+export const exportFileName = (base: string, format: ExportFormat) =>
+  `${base}-${new Date().toISOString().slice(0, 10)}.${formatInfo(format).extension}`
+
+export const escapeCsv = (value: any) => {
+  if (value === null || value === undefined) return ''
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/
+
+// Guess column kinds from the first non-empty value of each field (used for Raw Data)
+export function inferColumns(rows: Array<Record<string, any>>, keys?: string[]): ExportColumn[] {
+  const fields = keys || Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+  return fields.map(key => {
+    const sample = rows.find(row => row[key] !== null && row[key] !== undefined && row[key] !== '')?.[key]
+    let kind: ColumnKind = 'string'
+    if (typeof sample === 'number') kind = 'number'
+    else if (typeof sample === 'string' && ISO_DATE.test(sample)) kind = 'datetime'
+    return { key, header: key, kind }
+  })
+}
+
+// Normalize a raw field to the JS type its column kind calls for
+const toTyped = (value: any, kind: ColumnKind = 'string'): string | number | Date | null => {
+  if (value === null || value === undefined || value === '') return null
+  switch (kind) {
+    case 'number':
+    case 'integer':
+    case 'currency':
+    case 'duration': {
+      const n = typeof value === 'number' ? value : Number(value)
+      return isNaN(n) ? null : n
+    }
+    case 'datetime': {
+      const d = value instanceof Date ? value : new Date(value)
+      return isNaN(d.getTime()) ? null : d
+    }
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+}
+
+function toCsv(rows: Array<Record<string, any>>, columns: ExportColumn[]): Blob {
+  const lines = [columns.map(col => escapeCsv(col.header)).join(',')]
+  rows.forEach(row => {
+    lines.push(columns.map(col => escapeCsv(toTyped(row[col.key], col.kind))).join(','))
+  })
+  return new Blob([lines.join('\n') + '\n'], { type: formatInfo('csv').mime })
+}
+
+function toNdjson(rows: Array<Record<string, any>>, columns: ExportColumn[]): Blob {
+  const lines = rows.map(row => {
+    const record: Record<string, any> = {}
+    columns.forEach(col => {
+      const value = toTyped(row[col.key], col.kind)
+      record[col.key] = value instanceof Date ? value.toISOString() : value
+    })
+    return JSON.stringify(record)
+  })
+  return new Blob([lines.join('\n') + '\n'], { type: formatInfo('ndjson').mime })
+}
+
+// Excel number formats per column kind; durations are stored as fractions of a day
+const XLSX_FORMATS: Partial<Record<ColumnKind, string>> = {
+  integer: '#,##0',
+  currency: '$#,##0.00',
+  duration: '[h]:mm:ss',
+  datetime: 'yyyy-mm-dd hh:mm:ss'
+}
+
+// Excel cells hold a wall-clock time with no zone, and the writer reads a Date's UTC fields,
+// so shift each instant to the UTC date that shows its time in `timeZone`
+const toWallClock = (date: Date, timeZone: string) => {
+  if (!isValidTimeZone(timeZone)) return date
+  const p = zonedParts(date, timeZone)
+  return new Date(Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second, date.getMilliseconds()))
+}
+
+async function toXlsx(rows: Array<Record<string, any>>, columns: ExportColumn[], timeZone: string): Promise<Blob> {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser')
+  const header = columns.map(col => ({ value: col.header, fontWeight: 'bold' as const }))
+  const body = rows.map(row => columns.map(col => {
+    const value = toTyped(row[col.key], col.kind)
+    if (value === null) return null
+    if (value instanceof Date) return { value: toWallClock(value, timeZone), type: Date, format: XLSX_FORMATS.datetime }
+    if (typeof value === 'number') {
+      return col.kind === 'duration'
+        ? { value: value / 86400, type: Number, format: XLSX_FORMATS.duration }
+        : { value, type: Number, format: XLSX_FORMATS[col.kind || 'number'] }
+    }
+    return { value, type: String }
+  }))
+  return writeXlsxFile([header, ...body], {
+    columns: columns.map(col => ({ width: Math.min(Math.max(col.header.length + 2, 12), 40) }))
+  }).toBlob()
+}
+
+async function toParquet(rows: Array<Record<string, any>>, columns: ExportColumn[]): Promise<Blob> {
+  const { parquetWriteBuffer } = await import('hyparquet-writer')
+  const columnData = columns.map((col): ColumnSource => {
+    const values = rows.map(row => toTyped(row[col.key], col.kind))
+    switch (col.kind) {
+      case 'integer':
+        // The writer only takes bigint values for INT64
+        return { name: col.key, data: values.map(v => v === null ? null : BigInt(Math.round(v as number))), type: 'INT64', nullable: true }
+      case 'number':
+      case 'currency':
+      case 'duration':
+        return { name: col.key, data: values, type: 'DOUBLE', nullable: true }
+      case 'datetime':
+        return { name: col.key, data: values, type: 'TIMESTAMP', nullable: true }
+      default:
+        return { name: col.key, data: values, type: 'STRING', nullable: true }
+    }
+  })
+  const buffer = parquetWriteBuffer({ columnData })
+  return new Blob([buffer], { type: formatInfo('parquet').mime })
+}
+
+// `timeZone` is the zone XLSX times are written in; the other formats keep unambiguous instants
+export async function buildExport(
+  rows: Array<Record<string, any>>,
+  columns: ExportColumn[],
+  format: ExportFormat,
+  timeZone: string = browserTimeZone()
+): Promise<Blob> {
+  switch (format) {
+    case 'xlsx': return toXlsx(rows, columns, timeZone)
+    case 'ndjson': return toNdjson(rows, columns)
+    case 'parquet': return toParquet(rows, columns)
+    default: return toCsv(rows, columns)
+  }
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  // Some browsers start the download after click() returns, so the URL has to outlive it
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
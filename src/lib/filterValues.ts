@@ -0,0 +1,42 @@
+// Multi-value filters: extensions, area codes, trunks and states each hold a list of values
+// plus whether calls matching them are included or excluded.
+
+export type FilterMode = 'include' | 'exclude'
+
+export type MultiValueKey = 'extension' | 'areaCode' | 'trunkNumber' | 'stateCode'
+
+export const MULTI_VALUE_FILTERS: Array<{ key: MultiValueKey; modeKey: `${MultiValueKey}Mode`; label: string }> = [
+  { key: 'extension', modeKey: 'extensionMode', label: 'Extensions' },
+  { key: 'areaCode', modeKey: 'areaCodeMode', label: 'Area codes' },
+  { key: 'stateCode', modeKey: 'stateCodeMode', label: 'States' },
+  { key: 'trunkNumber', modeKey: 'trunkNumberMode', label: 'Trunks' }
+]
+
+const RANGE_PATTERN = /^(\d+)\s*-\s*(\d+)$/
+
+// Older saved views and links carry a single string (possibly comma-separated)
+export function toValueList(value: unknown): string[] | undefined {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+  const values = Array.from(new Set(list.map(v => String(v).trim()).filter(Boolean)))
+  return values.length > 0 ? values : undefined
+}
+
+// Error message for a typed extension token, or null when it is a number or a valid range
+export function validateExtensionToken(token: string): string | null {
+  if (/^\d+$/.test(token)) return null
+  const match = RANGE_PATTERN.exec(token)
+  if (!match) return `"${token}" is not an extension or a range like 101-115`
+  const [from, to] = [Number(match[1]), Number(match[2])]
+  if (from > to) return `The range ${token} runs backwards`
+  return null
+}
+
+// "101 - 115" -> "101-115"; other tokens are returned trimmed
+export function normalizeExtensionToken(token: string): string {
+  const match = RANGE_PATTERN.exec(token.trim())
+  return match ? `${match[1]}-${match[2]}` : token.trim()
+}
+
+export function describeValues(values: string[], max = 3): string {
+  return values.length > max ? `${values.slice(0, max).join(', ')} +${values.length - max}` : values.join(', ')
+}
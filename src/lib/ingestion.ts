@@ -0,0 +1,80 @@
+import type { HourlyIngestion } from '../services/dataSourceService'
+
+// Used when a data source has no threshold of its own
+export const DEFAULT_GAP_THRESHOLD_MINUTES = 60
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface IngestionGap {
+  start: Date
+  end: Date
+  minutes: number
+  // Still going: no record has arrived since `start`
+  ongoing: boolean
+}
+
+const floorHour = (ms: number) => Math.floor(ms / HOUR_MS) * HOUR_MS
+
+// Minutes since the newest call record, or null when the source has none
+export function minutesSince(newestRecordAt: string | null | undefined, now = Date.now()): number | null {
+  if (!newestRecordAt) return null
+  const time = new Date(newestRecordAt).getTime()
+  return isNaN(time) ? null : Math.max(0, (now - time) / 60000)
+}
+
+// A source is quiet once its newest record is older than the threshold (or it has none)
+export function isQuiet(newestRecordAt: string | null | undefined, thresholdMinutes: number, now = Date.now()): boolean {
+  const minutes = minutesSince(newestRecordAt, now)
+  return minutes === null || minutes >= thresholdMinutes
+}
+
+// Stretches of `from`..`to` with no records lasting at least the threshold. Past gaps are
+// measured to the hour from the hourly counts; the current gap runs from the newest record.
+export function findGaps(
+  hourly: HourlyIngestion[],
+  { from, to, thresholdMinutes, newestRecordAt }: { from: Date; to: Date; thresholdMinutes: number; newestRecordAt?: string | null }
+): IngestionGap[] {
+  const counts = new Map<number, number>()
+  hourly.forEach(bucket => {
+    const time = new Date(bucket.hour).getTime()
+    if (!isNaN(time)) counts.set(floorHour(time), (counts.get(floorHour(time)) || 0) + bucket.records)
+  })
+
+  const end = to.getTime()
+  const gaps: IngestionGap[] = []
+  const push = (start: number, stop: number, ongoing: boolean) => {
+    const minutes = (stop - start) / 60000
+    if (minutes >= thresholdMinutes) gaps.push({ start: new Date(start), end: new Date(stop), minutes, ongoing })
+  }
+
+  let runStart: number | null = null
+  for (let hour = floorHour(from.getTime()); hour < end; hour += HOUR_MS) {
+    const empty = !(counts.get(hour)! > 0)
+    if (empty && runStart === null) runStart = Math.max(hour, from.getTime())
+    if (!empty && runStart !== null) {
+      push(runStart, hour, false)
+      runStart = null
+    }
+  }
+
+  const newest = newestRecordAt ? new Date(newestRecordAt).getTime() : NaN
+  if (runStart !== null) {
+    // The newest record places the start of the current gap more precisely than its hour
+    push(!isNaN(newest) && newest <= runStart ? newest : runStart, end, true)
+  } else if (!isNaN(newest)) {
+    push(newest, end, true)
+  }
+
+  return gaps.reverse()
+}
+
+// "45 min", "3 h 10 min", "2 d 4 h"
+export function formatGap(minutes: number): string {
+  const total = Math.round(minutes)
+  if (total < 60) return `${total} min`
+  const days = Math.floor(total / 1440)
+  const hours = Math.floor((total % 1440) / 60)
+  if (days > 0) return hours ? `${days} d ${hours} h` : `${days} d`
+  const mins = total % 60
+  return mins ? `${hours} h ${mins} min` : `${hours} h`
+}
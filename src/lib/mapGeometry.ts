@@ -0,0 +1,127 @@
+import { geoAlbersUsa, geoMercator, geoPath } from 'd3-geo'
+import type { GeoProjection } from 'd3-geo'
+import { feature } from 'topojson-client'
+import type { GeometryCollection, Topology } from 'topojson-specification'
+import type { Feature, Geometry } from 'geojson'
+import usStates from 'us-atlas/states-10m.json'
+import canadaProvinces from '@svg-maps/canada'
+import { findRegion } from './regions'
+
+// Simplified outlines for the coverage map, bundled so no tile server is needed.
+// US states: Census Bureau cartographic boundaries at 1:10m (us-atlas).
+// Canadian provinces: @svg-maps/canada by Victor Cazanave, CC BY 4.0.
+
+export interface MapShape {
+  // Region code, as in lib/regions
+  code: string
+  // SVG path data in the map's coordinates
+  d: string
+  // Point the area code marks of the region are grouped around
+  anchor: [number, number]
+}
+
+export interface Inset {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface OutlineMap {
+  width: number
+  height: number
+  shapes: MapShape[]
+  insets: Inset[]
+}
+
+interface SvgMap {
+  viewBox: string
+  locations: { id: string; name: string; path: string }[]
+}
+
+const US_WIDTH = 975
+const US_HEIGHT = 610
+// Albers USA leaves out Puerto Rico and the Virgin Islands, so they are drawn in their own inset
+const CARIBBEAN = ['PR', 'VI']
+const CARIBBEAN_INSET: Inset = { x: 850, y: 545, width: 115, height: 55 }
+
+type StateFeature = Feature<Geometry, { name: string }>
+
+function projectShapes(states: { state: StateFeature; code: string }[], projection: GeoProjection): MapShape[] {
+  const path = geoPath(projection).digits(1)
+  return states.map(({ state, code }) => ({ code, d: path(state) || '', anchor: path.centroid(state) }))
+}
+
+function buildUsMap(): OutlineMap {
+  const topology = usStates as unknown as Topology<{ states: GeometryCollection<{ name: string }> }>
+  const states = feature(topology, topology.objects.states).features.flatMap(state => {
+    // Guam, American Samoa and the Northern Mariana Islands are not regions we report on
+    const region = findRegion(state.properties.name)
+    return region ? [{ state, code: region.code }] : []
+  })
+  const mainland = states.filter(({ code }) => !CARIBBEAN.includes(code))
+  const islands = states.filter(({ code }) => CARIBBEAN.includes(code))
+  const collection = (list: typeof states) => ({ type: 'FeatureCollection' as const, features: list.map(({ state }) => state) })
+
+  const { x, y, width, height } = CARIBBEAN_INSET
+  const albers = geoAlbersUsa().fitExtent([[10, 10], [US_WIDTH - 10, US_HEIGHT - 10]], collection(mainland))
+  const mercator = geoMercator().fitExtent([[x + 5, y + 5], [x + width - 5, y + height - 5]], collection(islands))
+
+  return {
+    width: US_WIDTH,
+    height: US_HEIGHT,
+    shapes: [...projectShapes(mainland, albers), ...projectShapes(islands, mercator)],
+    insets: [CARIBBEAN_INSET]
+  }
+}
+
+// Centre of the bounding box of a path drawn with relative moves and lines only, as @svg-maps paths are
+function pathCenter(d: string): [number, number] {
+  const tokens = d.match(/[mz]|-?\d*\.?\d+(?:e-?\d+)?/gi) || []
+  let x = 0
+  let y = 0
+  let startX = 0
+  let startY = 0
+  let moving = false
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].toLowerCase()
+    if (token === 'm') {
+      moving = true
+      continue
+    }
+    if (token === 'z') {
+      x = startX
+      y = startY
+      continue
+    }
+    x += Number(token)
+    y += Number(tokens[++i])
+    if (moving) {
+      startX = x
+      startY = y
+      moving = false
+    }
+    minX = Math.min(minX, x)
+    minY = Math.min(minY, y)
+    maxX = Math.max(maxX, x)
+    maxY = Math.max(maxY, y)
+  }
+  return [(minX + maxX) / 2, (minY + maxY) / 2]
+}
+
+function buildCanadaMap(): OutlineMap {
+  const map = canadaProvinces as SvgMap
+  const [, , width, height] = map.viewBox.split(' ').map(Number)
+  const shapes = map.locations.flatMap(location => {
+    const region = findRegion(location.id)
+    return region ? [{ code: region.code, d: location.path, anchor: pathCenter(location.path) }] : []
+  })
+  return { width, height, shapes, insets: [] }
+}
+
+export const US_MAP = buildUsMap()
+export const CANADA_MAP = buildCanadaMap()
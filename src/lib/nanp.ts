@@ -0,0 +1,240 @@
+import { findRegion } from './regions'
+import type { Country } from './regions'
+
+// North American Numbering Plan geographic area codes for the US and Canada. Codes that
+// serve the same area (overlays) are listed together as one group; when new codes are
+// assigned, add them to their group here and every page and export picks them up.
+
+export interface AreaCodeInfo {
+  npa: string
+  // USPS or Canada Post abbreviation, matching `Region.code`
+  regionCode: string
+  // Full state or province name
+  state: string
+  country: Country
+  // IANA zone covering most of the area code
+  timeZone: string
+  // Every area code serving the same area, this one included
+  overlay: string[]
+}
+
+interface RegionPlan {
+  region: string
+  timeZone: string
+  groups: string[]
+  // Area codes in a different zone from the rest of the region
+  zoneOverrides?: Record<string, string>
+}
+
+const PLAN: RegionPlan[] = [
+  // United States
+  { region: 'AL', timeZone: 'America/Chicago', groups: ['205/659', '251', '256/938', '334/483'] },
+  { region: 'AK', timeZone: 'America/Anchorage', groups: ['907'] },
+  { region: 'AZ', timeZone: 'America/Phoenix', groups: ['480', '520', '602', '623', '928'] },
+  { region: 'AR', timeZone: 'America/Chicago', groups: ['479', '501', '870/327'] },
+  {
+    region: 'CA',
+    timeZone: 'America/Los_Angeles',
+    groups: [
+      '209/350', '213/323/738', '279/916', '310/424', '408/669', '415/628', '442/760', '510/341',
+      '530', '559', '562', '619/858', '626', '650', '657/714', '661', '707/369', '747/818', '805/820',
+      '831', '909/840', '925', '949', '951'
+    ]
+  },
+  { region: 'CO', timeZone: 'America/Denver', groups: ['303/720/983', '719/748', '970'] },
+  { region: 'CT', timeZone: 'America/New_York', groups: ['203/475', '860/959'] },
+  { region: 'DE', timeZone: 'America/New_York', groups: ['302'] },
+  { region: 'DC', timeZone: 'America/New_York', groups: ['202/771'] },
+  {
+    region: 'FL',
+    timeZone: 'America/New_York',
+    groups: [
+      '239', '305/786/645', '321/407/689', '352', '386', '561/728', '727', '754/954', '772', '813/656',
+      '850/448', '863', '904', '941'
+    ],
+    zoneOverrides: { '850': 'America/Chicago', '448': 'America/Chicago' }
+  },
+  { region: 'GA', timeZone: 'America/New_York', groups: ['229', '404/470/678/770/943', '478', '706/762', '912'] },
+  { region: 'HI', timeZone: 'Pacific/Honolulu', groups: ['808'] },
+  { region: 'ID', timeZone: 'America/Boise', groups: ['208/986'] },
+  {
+    region: 'IL',
+    timeZone: 'America/Chicago',
+    groups: ['217/447', '224/847', '309/861', '312/872', '331/630', '618/730', '708/464', '773', '779/815']
+  },
+  { region: 'IN', timeZone: 'America/Indiana/Indianapolis', groups: ['219', '260', '317/463', '574', '765', '812/930'] },
+  { region: 'IA', timeZone: 'America/Chicago', groups: ['319', '515', '563', '641', '712'] },
+  { region: 'KS', timeZone: 'America/Chicago', groups: ['316', '620', '785', '913'] },
+  {
+    region: 'KY',
+    timeZone: 'America/New_York',
+    groups: ['270/364', '502', '606', '859'],
+    zoneOverrides: { '270': 'America/Chicago', '364': 'America/Chicago' }
+  },
+  { region: 'LA', timeZone: 'America/Chicago', groups: ['225', '318', '337', '504', '985'] },
+  { region: 'ME', timeZone: 'America/New_York', groups: ['207'] },
+  { region: 'MD', timeZone: 'America/New_York', groups: ['240/301/227', '410/443/667'] },
+  { region: 'MA', timeZone: 'America/New_York', groups: ['339/781', '351/978', '413', '508/774', '617/857'] },
+  {
+    region: 'MI',
+    timeZone: 'America/Detroit',
+    groups: ['231', '248/947', '269', '313/679', '517', '586', '616', '734', '810', '906', '989']
+  },
+  { region: 'MN', timeZone: 'America/Chicago', groups: ['218', '320', '507', '612', '651', '763', '952'] },
+  { region: 'MS', timeZone: 'America/Chicago', groups: ['228', '601/769', '662'] },
+  { region: 'MO', timeZone: 'America/Chicago', groups: ['314/557', '417', '573/235', '636', '660', '816/975'] },
+  { region: 'MT', timeZone: 'America/Denver', groups: ['406'] },
+  { region: 'NE', timeZone: 'America/Chicago', groups: ['308', '402/531'] },
+  { region: 'NV', timeZone: 'America/Los_Angeles', groups: ['702/725', '775'] },
+  { region: 'NH', timeZone: 'America/New_York', groups: ['603'] },
+  { region: 'NJ', timeZone: 'America/New_York', groups: ['201/551', '609/640', '732/848', '856', '862/973', '908'] },
+  { region: 'NM', timeZone: 'America/Denver', groups: ['505', '575'] },
+  {
+    region: 'NY',
+    timeZone: 'America/New_York',
+    groups: [
+      '212/332/646/917', '315/680', '347/718/929', '516/363', '518/838', '585', '607', '631/934', '716',
+      '845/329', '914'
+    ]
+  },
+  { region: 'NC', timeZone: 'America/New_York', groups: ['252', '336/743', '704/980', '828', '910/472', '919/984'] },
+  { region: 'ND', timeZone: 'America/Chicago', groups: ['701'] },
+  {
+    region: 'OH',
+    timeZone: 'America/New_York',
+    groups: ['216', '220/740', '234/330', '283/513', '326/937', '380/614', '419/567', '436/440']
+  },
+  { region: 'OK', timeZone: 'America/Chicago', groups: ['405/572', '539/918', '580'] },
+  { region: 'OR', timeZone: 'America/Los_Angeles', groups: ['458/541', '503/971'] },
+  {
+    region: 'PA',
+    timeZone: 'America/New_York',
+    groups: ['215/267/445', '223/717', '272/570', '412/724/878', '484/610/835', '814/582']
+  },
+  { region: 'RI', timeZone: 'America/New_York', groups: ['401'] },
+  { region: 'SC', timeZone: 'America/New_York', groups: ['803/839', '843/854', '864'] },
+  { region: 'SD', timeZone: 'America/Chicago', groups: ['605'] },
+  {
+    region: 'TN',
+    timeZone: 'America/Chicago',
+    groups: ['423', '615/629', '731', '865', '901', '931'],
+    zoneOverrides: { '423': 'America/New_York', '865': 'America/New_York' }
+  },
+  {
+    region: 'TX',
+    timeZone: 'America/Chicago',
+    groups: [
+      '210/726', '214/469/945/972', '254', '281/346/713/832', '325', '361', '409', '430/903', '432',
+      '512/737', '682/817', '806', '830', '915', '936', '940', '956', '979'
+    ],
+    zoneOverrides: { '915': 'America/Denver' }
+  },
+  { region: 'UT', timeZone: 'America/Denver', groups: ['385/801', '435'] },
+  { region: 'VT', timeZone: 'America/New_York', groups: ['802'] },
+  { region: 'VA', timeZone: 'America/New_York', groups: ['276', '434', '540/826', '571/703', '757/948', '804/686'] },
+  { region: 'WA', timeZone: 'America/Los_Angeles', groups: ['206', '253', '360/564', '425', '509'] },
+  { region: 'WV', timeZone: 'America/New_York', groups: ['304/681'] },
+  { region: 'WI', timeZone: 'America/Chicago', groups: ['262', '414', '608/353', '715/534', '920/274'] },
+  { region: 'WY', timeZone: 'America/Denver', groups: ['307'] },
+  { region: 'PR', timeZone: 'America/Puerto_Rico', groups: ['787/939'] },
+  { region: 'VI', timeZone: 'America/St_Thomas', groups: ['340'] },
+
+  // Canada
+  { region: 'AB', timeZone: 'America/Edmonton', groups: ['403/780/587/825/368'] },
+  { region: 'BC', timeZone: 'America/Vancouver', groups: ['236/250/257/604/672/778'] },
+  { region: 'MB', timeZone: 'America/Winnipeg', groups: ['204/431/584'] },
+  { region: 'NB', timeZone: 'America/Moncton', groups: ['506/428'] },
+  { region: 'NL', timeZone: 'America/St_Johns', groups: ['709/879'] },
+  // Also serves Prince Edward Island
+  { region: 'NS', timeZone: 'America/Halifax', groups: ['782/902'] },
+  {
+    region: 'ON',
+    timeZone: 'America/Toronto',
+    groups: ['226/382/519/548', '249/683/705', '289/365/742/905', '343/613/753', '416/437/647/942', '807']
+  },
+  { region: 'QC', timeZone: 'America/Toronto', groups: ['263/438/514', '354/450/579', '367/418/581', '468/819/873'] },
+  { region: 'SK', timeZone: 'America/Regina', groups: ['306/474/639'] },
+  // Also serves the Northwest Territories and Nunavut
+  { region: 'YT', timeZone: 'America/Whitehorse', groups: ['867'] }
+]
+
+// Toll-free codes, which belong to no state
+export const TOLL_FREE_AREA_CODES = ['800', '833', '844', '855', '866', '877', '888']
+
+const BY_NPA = new Map<string, AreaCodeInfo>()
+for (const plan of PLAN) {
+  const region = findRegion(plan.region)!
+  for (const group of plan.groups) {
+    const overlay = group.split('/')
+    for (const npa of overlay) {
+      BY_NPA.set(npa, {
+        npa,
+        regionCode: region.code,
+        state: region.name,
+        country: region.country,
+        timeZone: plan.zoneOverrides?.[npa] || plan.timeZone,
+        overlay: [...overlay].sort()
+      })
+    }
+  }
+}
+
+// Three-digit area code from an area code or phone number as stored on calls, e.g.
+// "323", "+1 (323)", "+13235551234" or "1-323-555-1234"; empty when there isn't one
+export function normalizeAreaCode(value: string | number | undefined | null): string {
+  const digits = String(value ?? '').replace(/\D/g, '')
+  const npa = digits.length >= 4 && digits.startsWith('1') ? digits.slice(1, 4) : digits.slice(0, 3)
+  return /^[2-9]\d\d$/.test(npa) ? npa : ''
+}
+
+// E.164 form of a North American number ("+13235551234"); other numbers come back trimmed
+export function normalizePhoneNumber(value: string | undefined | null): string {
+  const raw = (value || '').trim()
+  const digits = raw.replace(/\D/g, '')
+  if (digits.length === 10 && /^[2-9]/.test(digits)) return `+1${digits}`
+  if (digits.length === 11 && digits.startsWith('1') && /^[2-9]/.test(digits[1])) return `+${digits}`
+  return raw
+}
+
+// Every area code the plan places in a state or province, by name or abbreviation
+export function areaCodesForRegion(nameOrCode: string | undefined | null): string[] {
+  const region = findRegion(nameOrCode)
+  if (!region) return []
+  return Array.from(BY_NPA.values()).filter(info => info.regionCode === region.code).map(info => info.npa).sort()
+}
+
+export function lookupAreaCode(value: string | number | undefined | null): AreaCodeInfo | undefined {
+  return BY_NPA.get(normalizeAreaCode(value))
+}
+
+export function isTollFree(value: string | number | undefined | null): boolean {
+  return TOLL_FREE_AREA_CODES.includes(normalizeAreaCode(value))
+}
+
+// State name for an area code, falling back to what the server reported for codes
+// this module doesn't know
+export function stateForAreaCode(value: string | number | undefined | null, reported?: string): string | undefined {
+  const info = lookupAreaCode(value)
+  if (info) return info.state
+  if (!reported || reported === 'Unknown') return undefined
+  return findRegion(reported)?.name || reported
+}
+
+// State abbreviation for an area code, with the same fallback
+export function stateCodeForAreaCode(value: string | number | undefined | null, reported?: string): string | undefined {
+  const info = lookupAreaCode(value)
+  if (info) return info.regionCode
+  if (!reported || reported === 'Unknown') return undefined
+  return findRegion(reported)?.code || reported
+}
+
+// Area code row with its state resolved here, so every page and export agrees
+export function withAreaCodeState<T extends { areaCode: string; state?: string }>(row: T): T {
+  return { ...row, state: stateForAreaCode(row.areaCode, row.state) || 'Unknown' }
+}
+
+// Call record with its state abbreviation resolved from the area code the same way
+export function withCallState<T extends { areaCode?: string; stateCode?: string }>(call: T): T {
+  const stateCode = stateCodeForAreaCode(call.areaCode, call.stateCode)
+  return stateCode ? { ...call, stateCode } : call
+}
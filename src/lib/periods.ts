@@ -0,0 +1,101 @@
+import { addDays, addHours, addMonths, addWeeks, differenceInHours } from 'date-fns'
+import type { TrendInterval } from '../services/dataService'
+import { fromZonedTime, zonedParts } from './datetime'
+
+export type CompareMode = 'none' | 'previous' | 'lastMonth' | 'lastYear' | 'custom'
+
+export interface DateRange {
+  dateFrom: string
+  dateTo: string
+}
+
+export const COMPARE_MODES: Array<{ value: CompareMode; label: string }> = [
+  { value: 'none', label: 'No comparison' },
+  { value: 'previous', label: 'Previous period' },
+  { value: 'lastMonth', label: 'Same period last month' },
+  { value: 'lastYear', label: 'Same period last year' },
+  { value: 'custom', label: 'Custom range' }
+]
+
+// Pick a bucket size that keeps a time-series chart readable for the given range
+export function defaultIntervalFor(dateFrom?: string, dateTo?: string): TrendInterval {
+  if (!dateFrom) return 'day'
+  const from = new Date(dateFrom)
+  const to = dateTo ? new Date(dateTo) : new Date()
+  const hours = differenceInHours(to, from)
+  if (hours <= 48) return 'hour'
+  if (hours <= 24 * 62) return 'day'
+  if (hours <= 24 * 366) return 'week'
+  return 'month'
+}
+
+// Exclusive end of the bucket that starts at `start`. With a timezone, day/week/month
+// buckets follow that zone's calendar, so a bucket spanning a DST change is 23 or 25 hours.
+export function bucketEnd(start: Date, interval: TrendInterval, timeZone?: string): Date {
+  if (timeZone && interval !== 'hour') {
+    const p = zonedParts(start, timeZone)
+    switch (interval) {
+      case 'week': return fromZonedTime(timeZone, p.year, p.month, p.day + 7, p.hour, p.minute)
+      case 'month': return fromZonedTime(timeZone, p.year, p.month + 1, p.day, p.hour, p.minute)
+      default: return fromZonedTime(timeZone, p.year, p.month, p.day + 1, p.hour, p.minute)
+    }
+  }
+  switch (interval) {
+    case 'hour': return addHours(start, 1)
+    case 'week': return addWeeks(start, 1)
+    case 'month': return addMonths(start, 1)
+    default: return addDays(start, 1)
+  }
+}
+
+// The same wall-clock time `months` earlier in `timeZone`, clamped to the last day of a shorter month
+function monthsEarlier(date: Date, months: number, timeZone: string): Date {
+  const p = zonedParts(date, timeZone)
+  const lastDay = new Date(Date.UTC(p.year, p.month - months + 1, 0)).getUTCDate()
+  return fromZonedTime(timeZone, p.year, p.month - months, Math.min(p.day, lastDay), p.hour, p.minute, p.second, date.getMilliseconds())
+}
+
+// Resolve the baseline range to compare the current range against; month and year shifts
+// follow the calendar of `timeZone`. Returns null when the current range is open-ended or
+// the custom range is incomplete.
+export function getBaselineRange(
+  mode: CompareMode,
+  current: Partial<DateRange>,
+  custom: Partial<DateRange> | undefined,
+  timeZone: string
+): DateRange | null {
+  if (mode === 'none') return null
+  if (mode === 'custom') {
+    return custom?.dateFrom && custom?.dateTo
+      ? { dateFrom: custom.dateFrom, dateTo: custom.dateTo }
+      : null
+  }
+  if (!current.dateFrom) return null
+
+  const from = new Date(current.dateFrom)
+  const to = current.dateTo ? new Date(current.dateTo) : new Date()
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) return null
+
+  switch (mode) {
+    case 'previous': {
+      const length = to.getTime() - from.getTime()
+      const baselineTo = new Date(from.getTime() - 1)
+      return {
+        dateFrom: new Date(baselineTo.getTime() - length).toISOString(),
+        dateTo: baselineTo.toISOString()
+      }
+    }
+    case 'lastMonth':
+      return { dateFrom: monthsEarlier(from, 1, timeZone).toISOString(), dateTo: monthsEarlier(to, 1, timeZone).toISOString() }
+    case 'lastYear':
+      return { dateFrom: monthsEarlier(from, 12, timeZone).toISOString(), dateTo: monthsEarlier(to, 12, timeZone).toISOString() }
+    default:
+      return null
+  }
+}
+
+// Percent change from baseline to current; null when the baseline is zero
+export function percentChange(current: number, baseline: number): number | null {
+  if (!baseline) return null
+  return ((current - baseline) / Math.abs(baseline)) * 100
+}
@@ -0,0 +1,154 @@
+import type { CallLog } from '../services/dataService'
+import type { RateDeck, RateEntry } from '../services/rateService'
+import { normalizePhoneNumber } from './nanp'
+import { findColumn, parseCsv } from './csv'
+import { escapeCsv } from './exporters'
+
+export interface BillingIncrement {
+  // Seconds billed for the first block, however short the call
+  initial: number
+  // Size of every later block
+  subsequent: number
+}
+
+export interface RatedCall {
+  // Rated cost, or null when no deck has a rate for the destination
+  cost: number | null
+  billableSeconds: number
+  deck?: RateDeck
+  entry?: RateEntry
+}
+
+export const DEFAULT_INCREMENT = '60/60'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// "60/60", "30/6" or a single "60" (same first and next block)
+export function parseIncrement(text: string | undefined): BillingIncrement | null {
+  const match = (text || '').trim().match(/^(\d+)(?:\s*\/\s*(\d+))?$/)
+  if (!match) return null
+  const initial = Number(match[1])
+  const subsequent = Number(match[2] ?? match[1])
+  return initial > 0 && subsequent > 0 ? { initial, subsequent } : null
+}
+
+export function billableSeconds(durationSeconds: number, increment: BillingIncrement): number {
+  if (!(durationSeconds > 0)) return 0
+  if (durationSeconds <= increment.initial) return increment.initial
+  return increment.initial + Math.ceil((durationSeconds - increment.initial) / increment.subsequent) * increment.subsequent
+}
+
+// Dialed number as international digits: NANP numbers gain their leading 1 and
+// 011/00 international access codes are dropped, so "011 44 20..." matches prefix "44"
+export function dialedDigits(number: string | undefined): string {
+  const digits = normalizePhoneNumber(number).replace(/\D/g, '')
+  if (digits.startsWith('011')) return digits.slice(3)
+  if (digits.startsWith('00')) return digits.slice(2)
+  return digits
+}
+
+// Effective dates are compared with the call's UTC start date
+const isEffective = (entry: RateEntry, date: string) =>
+  (!entry.effectiveFrom || entry.effectiveFrom <= date) && (!entry.effectiveTo || date < entry.effectiveTo)
+
+// Decks that price a call: those listing its trunk, else the catch-all decks without trunks
+function decksForCall(decks: RateDeck[], call: Pick<CallLog, 'trunkNumber' | 'source'>, source?: string): RateDeck[] {
+  const collection = call.source || source
+  const candidates = decks.filter(deck => !deck.dataSource || !collection || deck.dataSource === collection)
+  const trunk = (call.trunkNumber || '').trim()
+  const forTrunk = trunk ? candidates.filter(deck => deck.trunkNumbers.includes(trunk)) : []
+  return forTrunk.length > 0 ? forTrunk : candidates.filter(deck => deck.trunkNumbers.length === 0)
+}
+
+// Longest matching prefix effective on the call date across the given decks
+export function findRate(decks: RateDeck[], digits: string, date: string): { deck: RateDeck; entry: RateEntry } | null {
+  let best: { deck: RateDeck; entry: RateEntry } | null = null
+  decks.forEach(deck => {
+    deck.rates.forEach(entry => {
+      if (!digits.startsWith(entry.prefix) || !isEffective(entry, date)) return
+      if (!best || entry.prefix.length > best.entry.prefix.length) best = { deck, entry }
+    })
+  })
+  return best
+}
+
+// Cost of a call under the rate decks. Only connected outgoing calls are charged;
+// `source` is the selected collection, used when the call carries none of its own.
+export function rateCall(
+  call: Pick<CallLog, 'callType' | 'durationSeconds' | 'toNumber' | 'trunkNumber' | 'startTime' | 'source'>,
+  decks: RateDeck[],
+  source?: string
+): RatedCall {
+  if (call.callType !== 'outgoing' || !(call.durationSeconds > 0)) return { cost: 0, billableSeconds: 0 }
+
+  const match = findRate(decksForCall(decks, call, source), dialedDigits(call.toNumber), (call.startTime || '').slice(0, 10))
+  if (!match) return { cost: null, billableSeconds: 0 }
+
+  const increment = parseIncrement(match.entry.increment) || parseIncrement(DEFAULT_INCREMENT)!
+  const seconds = billableSeconds(call.durationSeconds, increment)
+  const cost = match.entry.connectionFee + match.entry.ratePerMinute * seconds / 60
+  return { cost: Math.round(cost * 10000) / 10000, billableSeconds: seconds, deck: match.deck, entry: match.entry }
+}
+
+// First problem with a rate row, or null when it is usable
+export function validateRate(entry: RateEntry): string | null {
+  if (!/^\d+$/.test(entry.prefix)) return 'Prefixes must be digits only'
+  if (!(entry.ratePerMinute >= 0)) return 'Rates must be zero or more'
+  if (!(entry.connectionFee >= 0)) return 'Connection fees must be zero or more'
+  if (!parseIncrement(entry.increment)) return 'Increments look like 60/60 or 6/6'
+  if (entry.effectiveFrom && !DATE_PATTERN.test(entry.effectiveFrom)) return 'Effective dates must be yyyy-MM-dd'
+  if (entry.effectiveTo && !DATE_PATTERN.test(entry.effectiveTo)) return 'Effective dates must be yyyy-MM-dd'
+  if (entry.effectiveFrom && entry.effectiveTo && entry.effectiveTo <= entry.effectiveFrom) return 'A rate must end after it starts'
+  return null
+}
+
+const RATE_COLUMNS = {
+  prefix: ['prefix', 'dial_code', 'code', 'destination_code'],
+  description: ['description', 'destination', 'name'],
+  ratePerMinute: ['rate', 'rate_per_minute', 'per_minute', 'rate_min', 'price'],
+  connectionFee: ['connection_fee', 'connection', 'setup_fee', 'setup'],
+  increment: ['increment', 'billing_increment', 'billing'],
+  effectiveFrom: ['effective_from', 'effective_date', 'effective', 'from'],
+  effectiveTo: ['effective_to', 'end_date', 'expires', 'to']
+}
+
+// Rates from an uploaded deck; a header row is required and only prefix and rate columns are mandatory
+export function parseRateDeckCsv(text: string): { rates: RateEntry[]; errors: string[] } {
+  const [headers = [], ...rows] = parseCsv(text)
+  const index = Object.fromEntries(
+    Object.entries(RATE_COLUMNS).map(([field, names]) => [field, findColumn(headers, names)])
+  ) as Record<keyof typeof RATE_COLUMNS, number>
+  if (index.prefix < 0 || index.ratePerMinute < 0) {
+    return { rates: [], errors: ['The file needs a header row with "prefix" and "rate" columns'] }
+  }
+
+  const rates: RateEntry[] = []
+  const errors: string[] = []
+  const cell = (row: string[], column: number) => (column >= 0 ? (row[column] || '').trim() : '')
+  const amount = (value: string) => value === '' ? 0 : Number(value.replace(/[$,\s]/g, ''))
+
+  rows.forEach((row, i) => {
+    const entry: RateEntry = {
+      prefix: cell(row, index.prefix).replace(/^\+/, ''),
+      description: cell(row, index.description) || undefined,
+      ratePerMinute: amount(cell(row, index.ratePerMinute)),
+      connectionFee: amount(cell(row, index.connectionFee)),
+      increment: cell(row, index.increment) || DEFAULT_INCREMENT,
+      effectiveFrom: cell(row, index.effectiveFrom) || undefined,
+      effectiveTo: cell(row, index.effectiveTo) || undefined
+    }
+    const problem = validateRate(entry)
+    // Line numbers as a spreadsheet shows them, counting the header
+    if (problem) errors.push(`Line ${i + 2}: ${problem}`)
+    else rates.push(entry)
+  })
+  return { rates, errors }
+}
+
+export function rateDeckToCsv(rates: RateEntry[]): string {
+  const header = 'prefix,description,rate_per_minute,connection_fee,increment,effective_from,effective_to'
+  const lines = rates.map(entry => [
+    entry.prefix, entry.description, entry.ratePerMinute, entry.connectionFee, entry.increment, entry.effectiveFrom, entry.effectiveTo
+  ].map(escapeCsv).join(','))
+  return [header, ...lines].join('\r\n')
+}
@@ -0,0 +1,204 @@
+import { fromZonedInput } from './dateRanges'
+
+// Raw Data query builder: conditions on any discovered field, nested in AND/OR groups.
+// Values are kept as typed so a saved query reads back exactly as it was entered;
+// they are converted to their field's type when the query is serialized for the API.
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'date'
+
+export type QueryOperator = 'equals' | 'notEquals' | 'contains' | 'regex' | 'in' | 'between' | 'exists'
+
+export type QueryCombinator = 'and' | 'or'
+
+export interface QueryCondition {
+  kind: 'condition'
+  id: string
+  field: string
+  operator: QueryOperator
+  // Single value, the lower bound for `between`, or comma-separated values for `in`
+  value: string
+  // Upper bound for `between`
+  valueTo?: string
+  // For `exists`: false matches records missing the field
+  exists?: boolean
+  // Type the field was inferred as when the condition was written
+  fieldType: FieldType
+}
+
+export interface QueryGroup {
+  kind: 'group'
+  id: string
+  combinator: QueryCombinator
+  rules: QueryRule[]
+}
+
+export type QueryRule = QueryCondition | QueryGroup
+
+// JSON sent as the `query` param of the raw data endpoint. Operators and typed values only,
+// never a database query, so the server decides how each one is matched.
+export type SerializedRule =
+  | { field: string; operator: QueryOperator; type: FieldType; value?: string | number | boolean | Array<string | number>; from?: string | number; to?: string | number }
+  | { combinator: QueryCombinator; rules: SerializedRule[] }
+
+export const OPERATOR_LABELS: Record<QueryOperator, string> = {
+  equals: 'equals',
+  notEquals: 'does not equal',
+  contains: 'contains',
+  regex: 'matches regex',
+  in: 'is one of',
+  between: 'is between',
+  exists: 'exists'
+}
+
+export const OPERATORS_BY_TYPE: Record<FieldType, QueryOperator[]> = {
+  string: ['equals', 'notEquals', 'contains', 'regex', 'in', 'exists'],
+  number: ['equals', 'notEquals', 'between', 'in', 'exists'],
+  boolean: ['equals', 'exists'],
+  date: ['between', 'exists']
+}
+
+// How deep groups may nest, so the editor stays readable
+export const MAX_GROUP_DEPTH = 3
+
+// Timestamps in raw CDR records use either a 'T' or a space between date and time
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/
+
+// Values of an `in` condition
+export const splitValues = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean)
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+export function emptyGroup(combinator: QueryCombinator = 'and'): QueryGroup {
+  return { kind: 'group', id: newId(), combinator, rules: [] }
+}
+
+export function newCondition(field: string, fieldType: FieldType): QueryCondition {
+  return { kind: 'condition', id: newId(), field, fieldType, operator: OPERATORS_BY_TYPE[fieldType][0], value: '' }
+}
+
+// Type of each field, from the first record that has a value for it
+export function inferFieldTypes(rows: Array<Record<string, any>>, fields: string[]): Record<string, FieldType> {
+  const types: Record<string, FieldType> = {}
+  for (const field of fields) {
+    const sample = rows.find(row => row[field] !== null && row[field] !== undefined && row[field] !== '')?.[field]
+    if (typeof sample === 'number') types[field] = 'number'
+    else if (typeof sample === 'boolean') types[field] = 'boolean'
+    else if (typeof sample === 'string' && DATE_VALUE.test(sample)) types[field] = 'date'
+    else types[field] = 'string'
+  }
+  return types
+}
+
+// Immutable edits by rule id, for the nested editor
+export function updateRule(group: QueryGroup, id: string, update: (rule: QueryRule) => QueryRule): QueryGroup {
+  if (group.id === id) return update(group) as QueryGroup
+  return {
+    ...group,
+    rules: group.rules.map(rule => rule.id === id ? update(rule) : rule.kind === 'group' ? updateRule(rule, id, update) : rule)
+  }
+}
+
+export function removeRule(group: QueryGroup, id: string): QueryGroup {
+  return {
+    ...group,
+    rules: group.rules.filter(rule => rule.id !== id).map(rule => rule.kind === 'group' ? removeRule(rule, id) : rule)
+  }
+}
+
+export function countConditions(group: QueryGroup): number {
+  return group.rules.reduce((total, rule) => total + (rule.kind === 'group' ? countConditions(rule) : 1), 0)
+}
+
+// Problem with a condition's value, or null when it can be sent
+export function validateCondition(condition: QueryCondition, timeZone: string): string | null {
+  const { field, operator, fieldType, value, valueTo } = condition
+  if (!field) return 'Pick a field'
+  if (operator === 'exists') return null
+  if (operator === 'in') {
+    const values = splitValues(value)
+    if (values.length === 0) return 'Add at least one value'
+    if (fieldType === 'number' && values.some(v => isNaN(Number(v)))) return 'Every value must be a number'
+    return null
+  }
+  if (operator === 'between') {
+    if (!value.trim() && !valueTo?.trim()) return 'Enter at least one bound'
+    for (const bound of [value, valueTo]) {
+      if (!bound?.trim()) continue
+      if (fieldType === 'number' && isNaN(Number(bound))) return `"${bound}" is not a number`
+      if (fieldType === 'date' && !fromZonedInput(bound, timeZone)) return 'Use YYYY-MM-DD or YYYY-MM-DD HH:mm'
+    }
+    return null
+  }
+  if (fieldType === 'boolean') return value === 'true' || value === 'false' ? null : 'Choose true or false'
+  if (!value.trim()) return 'Enter a value'
+  if (fieldType === 'number' && operator !== 'contains' && operator !== 'regex' && isNaN(Number(value))) return `"${value}" is not a number`
+  if (operator === 'regex') {
+    try {
+      new RegExp(value)
+    } catch {
+      return 'Not a valid regular expression'
+    }
+  }
+  return null
+}
+
+// First problem anywhere in the query, for the Apply button
+export function validateQuery(group: QueryGroup, timeZone: string): string | null {
+  for (const rule of group.rules) {
+    const error = rule.kind === 'group' ? validateQuery(rule, timeZone) : validateCondition(rule, timeZone)
+    if (error) return error
+  }
+  return null
+}
+
+function serializeCondition(condition: QueryCondition, timeZone: string): SerializedRule {
+  const { field, operator, fieldType: type } = condition
+  const typed = (raw: string) => type === 'number' ? Number(raw) : raw.trim()
+  switch (operator) {
+    case 'exists':
+      return { field, operator, type, value: condition.exists !== false }
+    case 'in':
+      return { field, operator, type, value: splitValues(condition.value).map(typed) }
+    case 'between': {
+      // Date bounds are read in the active timezone, like the date filter
+      const bound = (raw: string | undefined, edge: 'start' | 'end') => {
+        if (!raw?.trim()) return undefined
+        return type === 'date' ? fromZonedInput(raw, timeZone, edge) : typed(raw)
+      }
+      return { field, operator, type, from: bound(condition.value, 'start'), to: bound(condition.valueTo, 'end') }
+    }
+    default:
+      if (type === 'boolean') return { field, operator, type, value: condition.value === 'true' }
+      return { field, operator, type, value: operator === 'contains' || operator === 'regex' ? condition.value : typed(condition.value) }
+  }
+}
+
+function serializeGroup(group: QueryGroup, timeZone: string): SerializedRule | undefined {
+  const rules = group.rules
+    .map(rule => rule.kind === 'group' ? serializeGroup(rule, timeZone) : serializeCondition(rule, timeZone))
+    .filter((rule): rule is SerializedRule => Boolean(rule))
+  return rules.length > 0 ? { combinator: group.combinator, rules } : undefined
+}
+
+// JSON for the API, or undefined when the query has no conditions
+export function serializeQuery(group: QueryGroup | undefined, timeZone: string): string | undefined {
+  const serialized = group ? serializeGroup(group, timeZone) : undefined
+  return serialized ? JSON.stringify(serialized) : undefined
+}
+
+// One-line summary, e.g. `status equals "answered" AND (dn contains "10" OR …)`
+export function describeQuery(group: QueryGroup, nested = false): string {
+  const parts = group.rules.map(rule => {
+    if (rule.kind === 'group') return describeQuery(rule, true)
+    const { field, operator, value, valueTo, exists } = rule
+    if (operator === 'exists') return exists === false ? `${field} is missing` : `${field} exists`
+    if (operator === 'in') return `${field} is one of ${splitValues(value).join(', ')}`
+    if (operator === 'between') {
+      if (value && valueTo) return `${field} between ${value} and ${valueTo}`
+      return value ? `${field} ≥ ${value}` : `${field} ≤ ${valueTo}`
+    }
+    return `${field} ${OPERATOR_LABELS[operator]} "${value}"`
+  }).filter(Boolean)
+  const joined = parts.join(` ${group.combinator.toUpperCase()} `)
+  return nested && parts.length > 1 ? `(${joined})` : joined
+}
@@ -0,0 +1,284 @@
+import type { CallLog } from '../services/dataService'
+import type { ExportColumn } from './exporters'
+import { findColumn, normalizeHeader } from './csv'
+import { fromZonedTime } from './datetime'
+import { dialedDigits } from './rating'
+
+export type InvoiceField = 'callDate' | 'callTime' | 'dialedNumber' | 'duration' | 'charge'
+
+// How to read slashed dates like 03/04/2024; year-first dates are recognized either way
+export type DateOrder = 'mdy' | 'dmy'
+
+export interface InvoiceMapping {
+  // Header of the column each field is read from; '' when the invoice has no such column
+  columns: Record<InvoiceField, string>
+  dateOrder: DateOrder
+  durationUnit: 'seconds' | 'minutes'
+  // Zone the carrier writes call times in
+  timeZone: string
+}
+
+export interface InvoiceLine {
+  // Line number in the file, counting the header
+  line: number
+  startTime: Date
+  dialedNumber: string
+  durationSeconds: number
+  charge: number
+}
+
+export interface ReconciledLine {
+  line: InvoiceLine
+  call: CallLog
+  // Invoice time minus CDR start time
+  offsetSeconds: number
+  // What the call should have cost, or null when it can't be priced
+  expected: number | null
+  // Invoice charge minus expected
+  difference: number | null
+  disputed: boolean
+}
+
+export interface Reconciliation {
+  matched: ReconciledLine[]
+  // Billed calls with no CDR
+  unmatchedLines: InvoiceLine[]
+  // Connected outgoing CDRs in the invoice period that were not billed
+  unmatchedCalls: CallLog[]
+  totals: {
+    invoiced: number
+    matchedInvoiced: number
+    matchedExpected: number
+    // Sum of disputed differences where the carrier charged more than expected
+    overcharged: number
+    unmatchedInvoiced: number
+  }
+}
+
+export const INVOICE_FIELDS: Array<{ field: InvoiceField; label: string; required: boolean; aliases: string[] }> = [
+  { field: 'callDate', label: 'Call date', required: true, aliases: ['call_date', 'date', 'start_date', 'start_time', 'call_start', 'datetime', 'date_time', 'connect_time'] },
+  { field: 'callTime', label: 'Call time (if separate)', required: false, aliases: ['call_time', 'time', 'start'] },
+  { field: 'dialedNumber', label: 'Dialed number', required: true, aliases: ['dialed_number', 'dialed', 'called_number', 'number_called', 'destination_number', 'to', 'to_number', 'number', 'ani_dnis', 'dnis'] },
+  { field: 'duration', label: 'Duration', required: true, aliases: ['duration', 'billed_duration', 'billable_duration', 'seconds', 'duration_sec', 'minutes', 'billed_minutes'] },
+  { field: 'charge', label: 'Charge', required: true, aliases: ['charge', 'amount', 'cost', 'total', 'price', 'charges', 'total_charge'] }
+]
+
+// Time each invoice line may differ from its CDR's start, for carrier and PBX clock skew
+export const DEFAULT_MATCH_WINDOW_SECONDS = 120
+
+// Charge differences up to this much are treated as rounding
+export const DEFAULT_CHARGE_TOLERANCE = 0.01
+
+// Best guess at the mapping for a new invoice layout
+export function guessMapping(headers: string[], timeZone: string): InvoiceMapping {
+  const taken = new Set<number>()
+  const columns = {} as Record<InvoiceField, string>
+  INVOICE_FIELDS.forEach(({ field, aliases }) => {
+    const index = findColumn(headers.map((header, i) => taken.has(i) ? '' : header), aliases)
+    if (index >= 0) taken.add(index)
+    columns[field] = index >= 0 ? headers[index] : ''
+  })
+  const durationHeader = normalizeHeader(columns.duration)
+  return {
+    columns,
+    dateOrder: 'mdy',
+    durationUnit: durationHeader.includes('min') ? 'minutes' : 'seconds',
+    timeZone
+  }
+}
+
+// Identifies an invoice layout, so its mapping is remembered for next month's file
+export const mappingSignature = (headers: string[]) => headers.map(normalizeHeader).join('|')
+
+// First problem with a mapping against the invoice's headers, or null
+export function validateMapping(mapping: InvoiceMapping, headers: string[]): string | null {
+  for (const { field, label, required } of INVOICE_FIELDS) {
+    const header = mapping.columns[field]
+    if (required && !header) return `Choose the column holding the ${label.toLowerCase()}`
+    if (header && !headers.includes(header)) return `The invoice has no "${header}" column`
+  }
+  return null
+}
+
+const to24Hour = (hour: number, meridiem?: string) => {
+  if (!meridiem) return hour
+  const pm = meridiem.toLowerCase() === 'pm'
+  return hour % 12 + (pm ? 12 : 0)
+}
+
+// Date (and optional time) read in the mapping's zone; ISO values with an offset keep theirs
+function parseInvoiceTime(dateText: string, timeText: string, mapping: InvoiceMapping): Date | null {
+  const text = `${dateText} ${timeText}`.trim()
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/i.test(dateText.trim())) {
+    const date = new Date(dateText.trim())
+    return isNaN(date.getTime()) ? null : date
+  }
+
+  const match = text.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([AaPp][Mm])?)?$/)
+  if (!match) return null
+  const [, a, b, c, hour = '0', minute = '0', second = '0', meridiem] = match
+  let year: number, month: number, day: number
+  if (a.length === 4) [year, month, day] = [Number(a), Number(b), Number(c)]
+  else if (mapping.dateOrder === 'dmy') [day, month, year] = [Number(a), Number(b), Number(c)]
+  else [month, day, year] = [Number(a), Number(b), Number(c)]
+  if (year < 100) year += 2000
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  return fromZonedTime(mapping.timeZone, year, month - 1, day, to24Hour(Number(hour), meridiem), Number(minute), Number(second))
+}
+
+// "95", "1:35" or "0:01:35"; plain numbers are in the mapping's unit
+function parseDuration(text: string, unit: InvoiceMapping['durationUnit']): number | null {
+  const value = text.trim()
+  if (/^\d+(:\d{1,2}){1,2}$/.test(value)) {
+    return value.split(':').map(Number).reduce((total, part) => total * 60 + part, 0)
+  }
+  const number = Number(value.replace(/,/g, ''))
+  if (value === '' || isNaN(number) || number < 0) return null
+  return Math.round(unit === 'minutes' ? number * 60 : number)
+}
+
+// "$1,234.50", "0.12", or "(0.50)" for a credit
+function parseCharge(text: string): number | null {
+  const value = text.trim()
+  const negative = /^\(.*\)$/.test(value) || value.startsWith('-')
+  const number = Number(value.replace(/[^\d.]/g, ''))
+  if (!/\d/.test(value) || isNaN(number)) return null
+  return negative ? -number : number
+}
+
+// Invoice lines from the parsed CSV (header row first); lines that can't be read are reported, not dropped silently
+export function parseInvoice(rows: string[][], mapping: InvoiceMapping): { lines: InvoiceLine[]; errors: string[] } {
+  const [headers = [], ...body] = rows
+  const index = (field: InvoiceField) => mapping.columns[field] ? headers.indexOf(mapping.columns[field]) : -1
+  const cell = (row: string[], field: InvoiceField) => {
+    const column = index(field)
+    return column >= 0 ? (row[column] || '').trim() : ''
+  }
+
+  const lines: InvoiceLine[] = []
+  const errors: string[] = []
+  body.forEach((row, i) => {
+    const line = i + 2
+    const startTime = parseInvoiceTime(cell(row, 'callDate'), cell(row, 'callTime'), mapping)
+    const durationSeconds = parseDuration(cell(row, 'duration'), mapping.durationUnit)
+    const charge = parseCharge(cell(row, 'charge'))
+    const dialedNumber = cell(row, 'dialedNumber')
+
+    if (!startTime) errors.push(`Line ${line}: can't read the call date "${cell(row, 'callDate')}"`)
+    else if (!dialedDigits(dialedNumber)) errors.push(`Line ${line}: no dialed number`)
+    else if (durationSeconds === null) errors.push(`Line ${line}: can't read the duration "${cell(row, 'duration')}"`)
+    else if (charge === null) errors.push(`Line ${line}: can't read the charge "${cell(row, 'charge')}"`)
+    else lines.push({ line, startTime, dialedNumber, durationSeconds, charge })
+  })
+  return { lines, errors }
+}
+
+// Pair invoice lines with CDRs to the same number starting within the window, closest
+// first (then closest duration). `expectedCost` prices a matched call for the charge check.
+export function reconcile(
+  lines: InvoiceLine[],
+  calls: CallLog[],
+  {
+    windowSeconds = DEFAULT_MATCH_WINDOW_SECONDS,
+    tolerance = DEFAULT_CHARGE_TOLERANCE,
+    expectedCost
+  }: { windowSeconds?: number; tolerance?: number; expectedCost: (call: CallLog) => number | null }
+): Reconciliation {
+  const billable = calls.filter(call => call.callType === 'outgoing' && call.durationSeconds > 0)
+  const byNumber = new Map<string, CallLog[]>()
+  billable.forEach(call => {
+    const digits = dialedDigits(call.toNumber)
+    byNumber.set(digits, [...(byNumber.get(digits) || []), call])
+  })
+
+  const candidates: Array<{ line: InvoiceLine; call: CallLog; offset: number; score: number }> = []
+  lines.forEach(line => {
+    (byNumber.get(dialedDigits(line.dialedNumber)) || []).forEach(call => {
+      const offset = (line.startTime.getTime() - new Date(call.startTime).getTime()) / 1000
+      if (Math.abs(offset) > windowSeconds) return
+      // Start time decides; duration only breaks near-ties between calls to the same number
+      candidates.push({ line, call, offset, score: Math.abs(offset) + Math.abs(line.durationSeconds - call.durationSeconds) / 1000 })
+    })
+  })
+  candidates.sort((a, b) => a.score - b.score)
+
+  const usedLines = new Set<InvoiceLine>()
+  const usedCalls = new Set<CallLog>()
+  const matched: ReconciledLine[] = []
+  candidates.forEach(({ line, call, offset }) => {
+    if (usedLines.has(line) || usedCalls.has(call)) return
+    usedLines.add(line)
+    usedCalls.add(call)
+    const expected = expectedCost(call)
+    const difference = expected === null ? null : Math.round((line.charge - expected) * 10000) / 10000
+    matched.push({ line, call, offsetSeconds: offset, expected, difference, disputed: difference !== null && Math.abs(difference) > tolerance })
+  })
+  matched.sort((a, b) => a.line.line - b.line.line)
+
+  // Only CDRs inside the invoice's period can be missing from it
+  const times = lines.map(line => line.startTime.getTime())
+  const from = times.reduce((min, time) => Math.min(min, time), Infinity) - windowSeconds * 1000
+  const to = times.reduce((max, time) => Math.max(max, time), -Infinity) + windowSeconds * 1000
+  const unmatchedCalls = billable.filter(call => {
+    const time = new Date(call.startTime).getTime()
+    return !usedCalls.has(call) && time >= from && time <= to
+  })
+
+  const unmatchedLines = lines.filter(line => !usedLines.has(line))
+  const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100
+  return {
+    matched,
+    unmatchedLines,
+    unmatchedCalls,
+    totals: {
+      invoiced: sum(lines.map(line => line.charge)),
+      matchedInvoiced: sum(matched.map(entry => entry.line.charge)),
+      matchedExpected: sum(matched.map(entry => entry.expected || 0)),
+      overcharged: sum(matched.filter(entry => entry.disputed && entry.difference! > 0).map(entry => entry.difference!)),
+      unmatchedInvoiced: sum(unmatchedLines.map(line => line.charge))
+    }
+  }
+}
+
+export const DISPUTE_COLUMNS: ExportColumn[] = [
+  { key: 'issue', header: 'Issue', kind: 'string' },
+  { key: 'invoiceLine', header: 'Invoice Line', kind: 'integer' },
+  { key: 'invoiceTime', header: 'Invoice Call Time', kind: 'datetime' },
+  { key: 'dialedNumber', header: 'Dialed Number', kind: 'string' },
+  { key: 'invoiceDuration', header: 'Invoice Duration', kind: 'duration' },
+  { key: 'invoiceCharge', header: 'Invoice Charge', kind: 'currency' },
+  { key: 'cdrTime', header: 'CDR Start Time', kind: 'datetime' },
+  { key: 'cdrDuration', header: 'CDR Duration', kind: 'duration' },
+  { key: 'trunkNumber', header: 'Trunk', kind: 'string' },
+  { key: 'expectedCharge', header: 'Expected Charge', kind: 'currency' },
+  { key: 'difference', header: 'Difference', kind: 'currency' },
+  { key: 'historyId', header: 'CDR History id', kind: 'string' }
+]
+
+// Lines to raise with the carrier: charges that don't match the CDR and calls billed with no CDR
+export function disputeReportRows(result: Reconciliation): Array<Record<string, any>> {
+  const discrepancies = result.matched.filter(entry => entry.disputed).map(entry => ({
+    issue: entry.difference! > 0 ? 'Overcharged' : 'Undercharged',
+    invoiceLine: entry.line.line,
+    invoiceTime: entry.line.startTime,
+    dialedNumber: entry.line.dialedNumber,
+    invoiceDuration: entry.line.durationSeconds,
+    invoiceCharge: entry.line.charge,
+    cdrTime: entry.call.startTime,
+    cdrDuration: entry.call.durationSeconds,
+    trunkNumber: entry.call.trunkNumber,
+    expectedCharge: entry.expected,
+    difference: entry.difference,
+    historyId: entry.call.historyId
+  }))
+  const unmatched = result.unmatchedLines.map(line => ({
+    issue: 'No matching call record',
+    invoiceLine: line.line,
+    invoiceTime: line.startTime,
+    dialedNumber: line.dialedNumber,
+    invoiceDuration: line.durationSeconds,
+    invoiceCharge: line.charge,
+    difference: line.charge
+  }))
+  return [...discrepancies, ...unmatched].sort((a, b) => a.invoiceLine - b.invoiceLine)
+}
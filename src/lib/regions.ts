@@ -0,0 +1,101 @@
+// US states, DC, territories and Canadian provinces the coverage map and state filters know about.
+// Outlines for each live in lib/mapGeometry.
+
+export type Country = 'US' | 'CA'
+
+export interface Region {
+  // USPS or Canada Post abbreviation
+  code: string
+  name: string
+  country: Country
+}
+
+export const REGIONS: Region[] = [
+  // Canada
+  { code: 'YT', name: 'Yukon', country: 'CA' },
+  { code: 'NT', name: 'Northwest Territories', country: 'CA' },
+  { code: 'NU', name: 'Nunavut', country: 'CA' },
+  { code: 'PE', name: 'Prince Edward Island', country: 'CA' },
+  { code: 'NL', name: 'Newfoundland and Labrador', country: 'CA' },
+  { code: 'BC', name: 'British Columbia', country: 'CA' },
+  { code: 'AB', name: 'Alberta', country: 'CA' },
+  { code: 'SK', name: 'Saskatchewan', country: 'CA' },
+  { code: 'MB', name: 'Manitoba', country: 'CA' },
+  { code: 'ON', name: 'Ontario', country: 'CA' },
+  { code: 'QC', name: 'Quebec', country: 'CA' },
+  { code: 'NB', name: 'New Brunswick', country: 'CA' },
+  { code: 'NS', name: 'Nova Scotia', country: 'CA' },
+
+  // United States
+  { code: 'AK', name: 'Alaska', country: 'US' },
+  { code: 'ME', name: 'Maine', country: 'US' },
+  { code: 'WI', name: 'Wisconsin', country: 'US' },
+  { code: 'VT', name: 'Vermont', country: 'US' },
+  { code: 'NH', name: 'New Hampshire', country: 'US' },
+  { code: 'WA', name: 'Washington', country: 'US' },
+  { code: 'ID', name: 'Idaho', country: 'US' },
+  { code: 'MT', name: 'Montana', country: 'US' },
+  { code: 'ND', name: 'North Dakota', country: 'US' },
+  { code: 'MN', name: 'Minnesota', country: 'US' },
+  { code: 'IL', name: 'Illinois', country: 'US' },
+  { code: 'MI', name: 'Michigan', country: 'US' },
+  { code: 'NY', name: 'New York', country: 'US' },
+  { code: 'MA', name: 'Massachusetts', country: 'US' },
+  { code: 'OR', name: 'Oregon', country: 'US' },
+  { code: 'NV', name: 'Nevada', country: 'US' },
+  { code: 'WY', name: 'Wyoming', country: 'US' },
+  { code: 'SD', name: 'South Dakota', country: 'US' },
+  { code: 'IA', name: 'Iowa', country: 'US' },
+  { code: 'IN', name: 'Indiana', country: 'US' },
+  { code: 'OH', name: 'Ohio', country: 'US' },
+  { code: 'PA', name: 'Pennsylvania', country: 'US' },
+  { code: 'NJ', name: 'New Jersey', country: 'US' },
+  { code: 'CT', name: 'Connecticut', country: 'US' },
+  { code: 'RI', name: 'Rhode Island', country: 'US' },
+  { code: 'CA', name: 'California', country: 'US' },
+  { code: 'UT', name: 'Utah', country: 'US' },
+  { code: 'CO', name: 'Colorado', country: 'US' },
+  { code: 'NE', name: 'Nebraska', country: 'US' },
+  { code: 'MO', name: 'Missouri', country: 'US' },
+  { code: 'KY', name: 'Kentucky', country: 'US' },
+  { code: 'WV', name: 'West Virginia', country: 'US' },
+  { code: 'VA', name: 'Virginia', country: 'US' },
+  { code: 'MD', name: 'Maryland', country: 'US' },
+  { code: 'DE', name: 'Delaware', country: 'US' },
+  { code: 'AZ', name: 'Arizona', country: 'US' },
+  { code: 'NM', name: 'New Mexico', country: 'US' },
+  { code: 'KS', name: 'Kansas', country: 'US' },
+  { code: 'AR', name: 'Arkansas', country: 'US' },
+  { code: 'TN', name: 'Tennessee', country: 'US' },
+  { code: 'NC', name: 'North Carolina', country: 'US' },
+  { code: 'SC', name: 'South Carolina', country: 'US' },
+  { code: 'DC', name: 'District of Columbia', country: 'US' },
+  { code: 'OK', name: 'Oklahoma', country: 'US' },
+  { code: 'LA', name: 'Louisiana', country: 'US' },
+  { code: 'MS', name: 'Mississippi', country: 'US' },
+  { code: 'AL', name: 'Alabama', country: 'US' },
+  { code: 'GA', name: 'Georgia', country: 'US' },
+  { code: 'HI', name: 'Hawaii', country: 'US' },
+  { code: 'TX', name: 'Texas', country: 'US' },
+  { code: 'FL', name: 'Florida', country: 'US' },
+  { code: 'PR', name: 'Puerto Rico', country: 'US' },
+  { code: 'VI', name: 'US Virgin Islands', country: 'US' }
+]
+
+const BY_KEY = new Map<string, Region>()
+for (const region of REGIONS) {
+  BY_KEY.set(region.code.toLowerCase(), region)
+  BY_KEY.set(region.name.toLowerCase(), region)
+}
+// Spellings the server and older data use
+BY_KEY.set('québec', BY_KEY.get('qc')!)
+BY_KEY.set('newfoundland', BY_KEY.get('nl')!)
+BY_KEY.set('washington dc', BY_KEY.get('dc')!)
+BY_KEY.set('washington, d.c.', BY_KEY.get('dc')!)
+BY_KEY.set('virgin islands', BY_KEY.get('vi')!)
+BY_KEY.set('united states virgin islands', BY_KEY.get('vi')!)
+
+// Region for a state/province name or abbreviation, as reported on area codes and calls
+export function findRegion(nameOrCode: string | undefined | null): Region | undefined {
+  return nameOrCode ? BY_KEY.get(nameOrCode.trim().toLowerCase()) : undefined
+}
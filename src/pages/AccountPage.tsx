@@ -0,0 +1,400 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import DynamicHeader from '../components/DynamicHeader'
+import { useAuth } from '../contexts/AuthContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import type { Preferences } from '../contexts/PreferencesContext'
+import { authService } from '../services/authService'
+import type { AuthSession } from '../services/authService'
+import { getErrorMessage, isRejectedPassword } from '../services/apiClient'
+import { DATE_FORMAT_OPTIONS, TIME_FORMAT, formatInTimeZone, listTimeZones } from '../lib/datetime'
+
+interface LayoutContext {
+  onMenuClick: () => void
+  isSidebarCollapsed: boolean
+  onToggleSidebar: () => void
+}
+
+const PAGE_SIZE_OPTIONS = [25, 50, 100, 250, 500]
+
+const MIN_PASSWORD_LENGTH = 8
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white'
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'
+const cardClass = 'bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700'
+
+// Rough browser/OS label from a user agent string
+const describeUserAgent = (userAgent?: string) => {
+  if (!userAgent) return 'Unknown device'
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser'
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : ''
+  return os ? `${browser} on ${os}` : browser
+}
+
+export default function AccountPage() {
+  const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
+  const { user } = useAuth()
+  const { preferences, savePreferences, formatDateTime, timeZoneSource, setTimeZoneSource, hasPbxTimeZone } = usePreferences()
+
+  // Preferences form
+  const [prefsDraft, setPrefsDraft] = useState<Preferences>(preferences)
+  const [savingPrefs, setSavingPrefs] = useState(false)
+  const [prefsMessage, setPrefsMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const timeZones = listTimeZones()
+
+  // Password form
+  const [passwords, setPasswords] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' })
+  const [changingPassword, setChangingPassword] = useState(false)
+  const [passwordMessage, setPasswordMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  // Sessions
+  const [sessions, setSessions] = useState<AuthSession[]>([])
+  const [sessionsLoading, setSessionsLoading] = useState(true)
+  const [sessionsError, setSessionsError] = useState<string | null>(null)
+  const [revoking, setRevoking] = useState<string | null>(null)
+
+  // Pick up preferences that arrive after the first render (e.g. saved from another tab)
+  useEffect(() => {
+    setPrefsDraft(preferences)
+  }, [preferences])
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setSessionsLoading(true)
+      setSessionsError(null)
+      const response = await authService.getSessions()
+      setSessions(response.sessions)
+    } catch (err: any) {
+      setSessionsError(getErrorMessage(err, 'Failed to load sessions'))
+    } finally {
+      setSessionsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  const handleSavePreferences = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSavingPrefs(true)
+    setPrefsMessage(null)
+    try {
+      // A new theme is applied by PreferencesProvider once the user record updates
+      await savePreferences(prefsDraft)
+      setPrefsMessage({ type: 'success', text: 'Preferences saved' })
+    } catch (err: any) {
+      setPrefsMessage({ type: 'error', text: getErrorMessage(err, 'Failed to save preferences') })
+    } finally {
+      setSavingPrefs(false)
+    }
+  }
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setPasswordMessage(null)
+    if (passwords.newPassword.length < MIN_PASSWORD_LENGTH) {
+      setPasswordMessage({ type: 'error', text: `New password must be at least ${MIN_PASSWORD_LENGTH} characters` })
+      return
+    }
+    if (passwords.newPassword !== passwords.confirmPassword) {
+      setPasswordMessage({ type: 'error', text: 'New passwords do not match' })
+      return
+    }
+    setChangingPassword(true)
+    try {
+      const response = await authService.changePassword({
+        currentPassword: passwords.currentPassword,
+        newPassword: passwords.newPassword
+      })
+      setPasswords({ currentPassword: '', newPassword: '', confirmPassword: '' })
+      setPasswordMessage({ type: 'success', text: response.message || 'Password changed' })
+      // The server may sign out other sessions on a password change
+      fetchSessions()
+    } catch (err: any) {
+      // An expired session is refreshed (or ends) in the API client; only a rejected password lands here as 401
+      const text = isRejectedPassword(err) ? 'Current password is incorrect' : getErrorMessage(err, 'Failed to change password')
+      setPasswordMessage({ type: 'error', text })
+    } finally {
+      setChangingPassword(false)
+    }
+  }
+
+  const handleRevoke = async (session: AuthSession) => {
+    setRevoking(session.id)
+    try {
+      await authService.revokeSession(session.id)
+      setSessions(prev => prev.filter(s => s.id !== session.id))
+    } catch (err: any) {
+      setSessionsError(getErrorMessage(err, 'Failed to sign out session'))
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('Sign out of every other session?')) return
+    setRevoking('others')
+    try {
+      await authService.revokeOtherSessions()
+      setSessions(prev => prev.filter(s => s.current))
+    } catch (err: any) {
+      setSessionsError(getErrorMessage(err, 'Failed to sign out other sessions'))
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  const now = new Date()
+  const otherSessions = sessions.filter(s => !s.current)
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <DynamicHeader
+        title="Account"
+        onMenuClick={onMenuClick}
+        isSidebarCollapsed={isSidebarCollapsed}
+        onToggleSidebar={onToggleSidebar}
+        showSearch={false}
+      />
+      <div className="px-6 py-4 space-y-6 max-w-4xl">
+
+        {/* Profile */}
+        <div className={cardClass}>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-1">{user?.fullName}</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {user?.email} · <span className="capitalize">{user?.role}</span>
+            {user?.extension && ` · Ext. ${user.extension}`}
+          </p>
+        </div>
+
+        {/* Preferences */}
+        <form onSubmit={handleSavePreferences} className={cardClass}>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-1">Preferences</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+            Call times, dates and table sizes across the app follow these settings.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+            <div>
+              <label className={labelClass}>Timezone</label>
+              <select
+                value={prefsDraft.timezone}
+                onChange={(e) => setPrefsDraft(prev => ({ ...prev, timezone: e.target.value }))}
+                className={inputClass}
+              >
+                {!timeZones.includes(prefsDraft.timezone) && (
+                  <option value={prefsDraft.timezone}>{prefsDraft.timezone}</option>
+                )}
+                {timeZones.map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Now: {formatInTimeZone(now, `${prefsDraft.dateFormat} ${TIME_FORMAT}`, prefsDraft.timezone)}
+              </p>
+            </div>
+
+            <div>
+              <label className={labelClass}>Show call times in</label>
+              <select
+                value={timeZoneSource}
+                onChange={(e) => setTimeZoneSource(e.target.value as 'user' | 'pbx')}
+                className={inputClass}
+              >
+                <option value="user">My timezone</option>
+                <option value="pbx">PBX timezone of the selected data source</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {timeZoneSource === 'pbx' && !hasPbxTimeZone
+                  ? 'No PBX timezone is set for this data source in System Settings; your timezone is used.'
+                  : 'Applies to quick date ranges too. Saved on this browser only.'}
+              </p>
+            </div>
+
+            <div>
+              <label className={labelClass}>Date format</label>
+              <select
+                value={prefsDraft.dateFormat}
+                onChange={(e) => setPrefsDraft(prev => ({ ...prev, dateFormat: e.target.value }))}
+                className={inputClass}
+              >
+                {!DATE_FORMAT_OPTIONS.some(option => option.value === prefsDraft.dateFormat) && (
+                  <option value={prefsDraft.dateFormat}>{prefsDraft.dateFormat}</option>
+                )}
+                {DATE_FORMAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Theme</label>
+              <select
+                value={prefsDraft.theme}
+                onChange={(e) => setPrefsDraft(prev => ({ ...prev, theme: e.target.value as Preferences['theme'] }))}
+                className={inputClass}
+              >
+                <option value="system">System</option>
+                <option value="light">Light</option>
+                <option value="dark">Dark</option>
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Rows per page</label>
+              <select
+                value={prefsDraft.itemsPerPage || ''}
+                onChange={(e) => setPrefsDraft(prev => ({ ...prev, itemsPerPage: parseInt(e.target.value, 10) || 0 }))}
+                className={inputClass}
+              >
+                <option value="">Page default</option>
+                {PAGE_SIZE_OPTIONS.map(size => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="mt-6 flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={savingPrefs}
+              className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+            >
+              {savingPrefs ? 'Saving...' : 'Save Preferences'}
+            </button>
+            {prefsMessage && (
+              <span className={`text-sm ${prefsMessage.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                {prefsMessage.text}
+              </span>
+            )}
+          </div>
+        </form>
+
+        {/* Change password */}
+        <form onSubmit={handleChangePassword} className={cardClass}>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">Change Password</h2>
+
+          <div className="grid grid-cols-1 gap-5 max-w-md">
+            <div>
+              <label className={labelClass}>Current password</label>
+              <input
+                type="password"
+                required
+                autoComplete="current-password"
+                value={passwords.currentPassword}
+                onChange={(e) => setPasswords(prev => ({ ...prev, currentPassword: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>New password</label>
+              <input
+                type="password"
+                required
+                autoComplete="new-password"
+                value={passwords.newPassword}
+                onChange={(e) => setPasswords(prev => ({ ...prev, newPassword: e.target.value }))}
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">At least {MIN_PASSWORD_LENGTH} characters</p>
+            </div>
+            <div>
+              <label className={labelClass}>Confirm new password</label>
+              <input
+                type="password"
+                required
+                autoComplete="new-password"
+                value={passwords.confirmPassword}
+                onChange={(e) => setPasswords(prev => ({ ...prev, confirmPassword: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="mt-6 flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={changingPassword}
+              className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+            >
+              {changingPassword ? 'Changing...' : 'Change Password'}
+            </button>
+            {passwordMessage && (
+              <span className={`text-sm ${passwordMessage.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                {passwordMessage.text}
+              </span>
+            )}
+          </div>
+        </form>
+
+        {/* Active sessions */}
+        <div className={cardClass}>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Active Sessions</h2>
+            {otherSessions.length > 0 && (
+              <button
+                onClick={handleRevokeOthers}
+                disabled={revoking !== null}
+                className="inline-flex items-center px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors shadow-sm"
+              >
+                Sign out other sessions
+              </button>
+            )}
+          </div>
+
+          {sessionsError && (
+            <p className="mb-3 text-sm text-red-600 dark:text-red-400">{sessionsError}</p>
+          )}
+
+          {sessionsLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading sessions...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No active sessions found.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {sessions.map(session => (
+                <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">
+                          This device
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {session.ipAddress && `${session.ipAddress} · `}
+                      Signed in {formatDateTime(session.createdAt)}
+                      {session.lastActiveAt && ` · Last active ${formatDateTime(session.lastActiveAt)}`}
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <button
+                      onClick={() => handleRevoke(session)}
+                      disabled={revoking !== null}
+                      className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+                    >
+                      {revoking === session.id ? 'Signing out...' : 'Sign out'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
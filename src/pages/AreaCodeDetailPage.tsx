@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useNavigate, useOutletContext, useParams } from 'react-router-dom'
+import { ArrowLeftIcon, ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline'
+import { useData } from '../contexts/DataContext'
+import type { DataFilters } from '../contexts/DataContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { dataService } from '../services/dataService'
+import type { AreaCode, DashboardSummary, Extension } from '../services/dataService'
+import { getErrorMessage } from '../services/apiClient'
+import DynamicHeader from '../components/DynamicHeader'
+import CallTrendsPanel from '../components/CallTrendsPanel'
+import { callLogsLink, toFilterParams } from '../lib/callLogsView'
+import { findRegion } from '../lib/regions'
+import { lookupAreaCode, stateForAreaCode } from '../lib/nanp'
+
+interface LayoutContext {
+  onMenuClick: () => void;
+  isSidebarCollapsed: boolean;
+  onToggleSidebar: () => void;
+}
+
+interface AreaCodeDetailPageProps {
+  // `/reports/area-codes/:code` or `/reports/area-codes/state/:state`
+  scope: 'areaCode' | 'state'
+}
+
+interface GeoDetail {
+  summary: DashboardSummary
+  topExtensions: Extension[]
+  // Area codes in the state, or the one area code with its state
+  areaCodes: AreaCode[]
+}
+
+const TOP_EXTENSIONS = 10
+const STATE_AREA_CODES = 100
+
+// Duration formatter
+const formatDuration = (seconds: number | undefined) => {
+  const numSeconds = Math.round(typeof seconds === 'number' ? seconds : 0)
+  const hours = Math.floor(numSeconds / 3600)
+  const minutes = Math.floor((numSeconds % 3600) / 60)
+  const secs = numSeconds % 60
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`
+}
+
+const formatCurrency = (amount: number | undefined) => {
+  return `$${(amount || 0).toFixed(2)}`
+}
+
+// Calls to one area code or one state/province, for planning territory coverage
+export default function AreaCodeDetailPage({ scope }: AreaCodeDetailPageProps) {
+  const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
+  const { code = '', state = '' } = useParams<{ code: string; state: string }>()
+  const navigate = useNavigate()
+  const { selectedDataSource, filters, setFilters } = useData()
+  const { timeZone } = usePreferences()
+  const [detail, setDetail] = useState<GeoDetail | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const region = scope === 'state' ? findRegion(state) : undefined
+  const title = scope === 'state' ? region?.name || state : `Area Code ${code}`
+
+  // The global filters, narrowed to this area code or state in place of the matching filter
+  const scopeFilters = useMemo<DataFilters>(
+    () => scope === 'state'
+      ? { ...filters, stateCode: [state], stateCodeMode: undefined }
+      : { ...filters, areaCode: [code], areaCodeMode: undefined },
+    [filters, scope, code, state]
+  )
+
+  useEffect(() => {
+    if (!selectedDataSource || !(scope === 'state' ? state : code)) return
+    let cancelled = false
+
+    const fetchDetail = async () => {
+      const params = { collection: selectedDataSource, ...toFilterParams(scopeFilters) }
+      try {
+        setIsLoading(true)
+        setError(null)
+        const [analytics, extensions, areaCodes] = await Promise.all([
+          dataService.getDashboardAnalytics({ ...params, timezone: timeZone }),
+          dataService.getExtensions({ ...params, limit: TOP_EXTENSIONS, sortBy: 'totalCalls', sortOrder: 'desc' }),
+          scope === 'state'
+            ? dataService.getAreaCodes({ ...params, limit: STATE_AREA_CODES, sortBy: 'totalCalls', sortOrder: 'desc' })
+            : dataService.getAreaCodes({ ...params, search: code, limit: 1 })
+        ])
+        if (cancelled) return
+        if (!extensions.success) throw new Error(extensions.error)
+        if (!areaCodes.success) throw new Error(areaCodes.error)
+        setDetail({
+          summary: analytics.summary,
+          topExtensions: extensions.data?.extensions || [],
+          areaCodes: areaCodes.data || []
+        })
+      } catch (err: any) {
+        if (!cancelled) setError(getErrorMessage(err, `Failed to load ${title}`))
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    fetchDetail()
+    return () => { cancelled = true }
+  }, [selectedDataSource, scope, code, state, timeZone, JSON.stringify(scopeFilters)])
+
+  const summary = detail?.summary
+  const nanp = scope === 'areaCode' ? lookupAreaCode(code) : undefined
+  const areaCodeState = scope === 'areaCode'
+    ? stateForAreaCode(code, detail?.areaCodes.find(entry => entry.areaCode === code)?.state)
+    : undefined
+  const maxAreaCodeCalls = Math.max(1, ...(detail?.areaCodes || []).map(entry => entry.totalCalls))
+
+  const kpis = summary ? [
+    { label: 'Total Calls', value: summary.totalCalls.toLocaleString(), note: `${summary.incomingCalls.toLocaleString()} in / ${summary.outgoingCalls.toLocaleString()} out` },
+    { label: 'Answer Rate', value: `${(summary.answerRate || 0).toFixed(1)}%`, note: `${(summary.unansweredCalls || 0).toLocaleString()} unanswered` },
+    { label: 'Talk Time', value: formatDuration(summary.totalDuration), note: `${formatDuration(summary.avgDuration)} average` },
+    { label: 'Cost', value: formatCurrency(summary.totalCost), note: `${formatCurrency(summary.totalCalls ? summary.totalCost / summary.totalCalls : 0)} per call` }
+  ] : []
+
+  const headerCell = 'px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+  const card = 'bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700'
+  const overriddenFilter = scope === 'state' ? filters.stateCode : filters.areaCode
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <DynamicHeader
+        title={title}
+        onMenuClick={onMenuClick}
+        isSidebarCollapsed={isSidebarCollapsed}
+        onToggleSidebar={onToggleSidebar}
+        showFilterBar
+        actions={
+          <div className="flex items-center space-x-2">
+            <Link
+              to="/reports/area-codes?view=map"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <ArrowLeftIcon className="h-4 w-4 mr-2" />
+              Map
+            </Link>
+            <Link
+              to={callLogsLink(scopeFilters)}
+              className="inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              <ArrowTopRightOnSquareIcon className="h-4 w-4 mr-2" />
+              Call logs
+            </Link>
+          </div>
+        }
+      />
+
+      <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+        {(areaCodeState || region) && (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {areaCodeState ? (
+              <>
+                Area code in{' '}
+                <Link to={`/reports/area-codes/state/${encodeURIComponent(areaCodeState)}`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                  {areaCodeState}
+                </Link>
+                {nanp && <> · {nanp.timeZone}</>}
+                {nanp && nanp.overlay.length > 1 && (
+                  <> · Overlays{' '}
+                    {nanp.overlay.filter(npa => npa !== nanp.npa).map((npa, index) => (
+                      <span key={npa}>
+                        {index > 0 && ', '}
+                        <Link to={`/reports/area-codes/${npa}`} className="text-indigo-600 dark:text-indigo-400 hover:underline">{npa}</Link>
+                      </span>
+                    ))}
+                  </>
+                )}
+              </>
+            ) : region && (
+              <>{region.country === 'CA' ? 'Canadian province or territory' : 'United States'} · {region.code}</>
+            )}
+          </p>
+        )}
+        {overriddenFilter && overriddenFilter.length > 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The {scope === 'state' ? 'state' : 'area code'} filter doesn't apply on this page; everything else in the filter bar does.
+          </p>
+        )}
+
+        {error ? (
+          <div className="rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-4 text-sm text-red-700 dark:text-red-300">{error}</div>
+        ) : isLoading && !detail ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : detail && (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {kpis.map(kpi => (
+                <div key={kpi.label} className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                  <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">{kpi.label}</h3>
+                  <p className="text-xl lg:text-2xl font-bold text-gray-900 dark:text-white leading-tight">{kpi.value}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{kpi.note}</p>
+                </div>
+              ))}
+            </div>
+
+            <CallTrendsPanel
+              collection={selectedDataSource}
+              filters={scopeFilters}
+              onRangeSelect={(dateFrom, dateTo) => setFilters({ dateFrom, dateTo })}
+            />
+
+            <div className={`grid grid-cols-1 ${scope === 'state' ? 'xl:grid-cols-2' : ''} gap-6`}>
+              <div className={card}>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Top Extensions</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Extensions with the most calls {scope === 'state' ? 'to or from this state' : 'to or from this area code'}</p>
+                {detail.topExtensions.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No extension calls in the selected range</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                      <thead className="bg-gray-50 dark:bg-gray-900">
+                        <tr>
+                          <th className={headerCell}>Extension</th>
+                          <th className={`${headerCell} text-right`}>Calls</th>
+                          <th className={`${headerCell} text-right`}>Talk Time</th>
+                          <th className={`${headerCell} text-right`}>Cost</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {detail.topExtensions.map(ext => (
+                          <tr
+                            key={ext.extension}
+                            onClick={() => navigate(`/reports/extensions/${encodeURIComponent(ext.extension)}`)}
+                            className="hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer text-xs"
+                          >
+                            <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900 dark:text-white">{ext.extension}</td>
+                            <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700 dark:text-gray-300">{ext.totalCalls.toLocaleString()}</td>
+                            <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700 dark:text-gray-300">{formatDuration(ext.totalDuration)}</td>
+                            <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700 dark:text-gray-300">{formatCurrency(ext.totalCost)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              {scope === 'state' && (
+                <div className={card}>
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Area Codes</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Calls per area code in {title}</p>
+                  {detail.areaCodes.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No area codes in the selected range</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {detail.areaCodes.map(entry => (
+                        <li key={entry.areaCode}>
+                          <Link to={`/reports/area-codes/${encodeURIComponent(entry.areaCode)}`} className="block group">
+                            <div className="flex justify-between text-sm">
+                              <span className="font-medium text-gray-900 dark:text-white group-hover:text-indigo-600 dark:group-hover:text-indigo-400">{entry.areaCode}</span>
+                              <span className="text-gray-600 dark:text-gray-300">
+                                {entry.totalCalls.toLocaleString()}
+                                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{formatCurrency(entry.totalCost)}</span>
+                              </span>
+                            </div>
+                            <div className="mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-700">
+                              <div className="h-1.5 rounded-full bg-indigo-500" style={{ width: `${(entry.totalCalls / maxAreaCodeCalls) * 100}%` }} />
+                            </div>
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
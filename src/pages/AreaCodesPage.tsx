@@ -16,19 +16,32 @@
 
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { useOutletContext, useSearchParams } from 'react-router-dom'
+import { useNavigate, useOutletContext, useSearchParams } from 'react-router-dom'
 import { useData } from '../contexts/DataContext'
+import { usePreferences } from '../contexts/PreferencesContext'
 import { dataService } from '../services/dataService'
 import type { AreaCode, ApiResponse } from '../services/dataService'
 import DynamicHeader from '../components/DynamicHeader'
+import ExportMenu from '../components/ExportMenu'
+import SavedViewsMenu from '../components/SavedViewsMenu'
+import CoverageMap from '../components/CoverageMap'
+import type { MapMetric, MapMode } from '../components/CoverageMap'
+import type { SavedViewState } from '../services/savedViewService'
+import { getErrorMessage } from '../services/apiClient'
+import { restrictToStates, toFilterParams, toFilterUpdate } from '../lib/callLogsView'
+import { resolveDateFilters } from '../lib/dateRanges'
+import { buildExport, downloadBlob, exportFileName } from '../lib/exporters'
+import type { ColumnKind, ExportFormat } from '../lib/exporters'
 import { 
-  FunnelIcon,
-  ArrowDownTrayIcon,
   ArrowUpIcon,
   ArrowDownIcon,
-  EyeIcon
+  EyeIcon,
+  MapIcon,
+  TableCellsIcon
 } from '@heroicons/react/24/outline'
-import { format } from 'date-fns'
+
+// The map needs every area code at once rather than a page of them
+const MAP_LIMIT = 1000
 
 interface LayoutContext {
   onMenuClick: () => void;
@@ -38,22 +51,30 @@ interface LayoutContext {
 
 export default function AreaCodesPage() {
   const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
-  const { selectedDataSource, filters, setError } = useData()
-  const [searchParams] = useSearchParams()
+  const { selectedDataSource, filters, setError, setFilters } = useData()
+  const { timeZone, pageSize: preferredPageSize } = usePreferences()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
   const stateFilter = searchParams.get('state')
+  const showMap = searchParams.get('view') === 'map'
+  // The global filter bar, narrowed to the state from a dashboard link
+  const filterParams = () => stateFilter ? restrictToStates(toFilterParams(filters), [stateFilter]) : toFilterParams(filters)
+  const [mapMode, setMapMode] = useState<MapMode>('state')
+  const [mapMetric, setMapMetric] = useState<MapMetric>('totalCalls')
+  const [mapAreaCodes, setMapAreaCodes] = useState<AreaCode[]>([])
+  const [isMapLoading, setIsMapLoading] = useState(false)
   const [areaCodes, setAreaCodes] = useState<AreaCode[]>([])
   const [pagination, setPagination] = useState({
     currentPage: 1,
     totalPages: 1,
     totalCount: 0,
-    limit: 25,
+    limit: preferredPageSize(25),
     hasNextPage: false,
     hasPrevPage: false
   })
   const [searchTerm, setSearchTerm] = useState('')
   const [sortBy, setSortBy] = useState('totalCalls')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
-  const [showFilters, setShowFilters] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [isInitialLoading, setIsInitialLoading] = useState(true)
   const [showColumnSelector, setShowColumnSelector] = useState(false)
@@ -62,12 +83,12 @@ export default function AreaCodesPage() {
   const searchTimeoutRef = useRef<NodeJS.Timeout>()
 
   // Column management similar to CallLogsPage
-  const availableColumns = [
-    { key: 'areaCode', label: 'Area Code', required: true },
-    { key: 'state', label: 'State', required: false },
-    { key: 'totalCalls', label: 'Total Calls', required: true },
-    { key: 'totalDuration', label: 'Total Duration', required: false },
-    { key: 'totalCost', label: 'Total Cost', required: false }
+  const availableColumns: Array<{ key: string; label: string; required: boolean; kind: ColumnKind }> = [
+    { key: 'areaCode', label: 'Area Code', required: true, kind: 'string' },
+    { key: 'state', label: 'State', required: false, kind: 'string' },
+    { key: 'totalCalls', label: 'Total Calls', required: true, kind: 'integer' },
+    { key: 'totalDuration', label: 'Total Duration', required: false, kind: 'duration' },
+    { key: 'totalCost', label: 'Total Cost', required: false, kind: 'currency' }
   ]
   const [visibleColumns, setVisibleColumns] = useState<string[]>([
     'areaCode', 'state', 'totalCalls', 'totalDuration', 'totalCost'
@@ -105,10 +126,8 @@ export default function AreaCodesPage() {
         search: searchTerm.trim(),
         sortBy,
         sortOrder,
-        // Apply filters if any
-        ...filters,
-        // Apply state filter from URL if present
-        ...(stateFilter && { state: stateFilter })
+        // Apply the global filter bar and the state from the URL
+        ...filterParams()
       }
 
       const response: ApiResponse<AreaCode[]> = await dataService.getAreaCodes(params)
@@ -138,7 +157,7 @@ export default function AreaCodesPage() {
       return cacheData
     } catch (err: any) {
       console.error('Error fetching area codes:', err)
-      if (!isBackground) setError(err.response?.data?.message || 'Failed to load area code data')
+      if (!isBackground) setError(getErrorMessage(err, 'Failed to load area code data'))
       return null
     } finally {
       if (!isBackground) setIsLoading(false)
@@ -193,28 +212,35 @@ export default function AreaCodesPage() {
     }
   }
 
-  // Export handler
-  const handleExport = async () => {
+  const currentView: SavedViewState = {
+    filters,
+    search: searchTerm,
+    sortBy,
+    sortOrder,
+    pageSize: pagination.limit,
+    columns: visibleColumns
+  }
+
+  const applySavedView = (view: SavedViewState) => {
+    setFilters(toFilterUpdate(resolveDateFilters(view.filters || {}, timeZone)))
+    setSearchTerm(view.search || '')
+    setSortBy(view.sortBy || 'totalCalls')
+    setSortOrder(view.sortOrder || 'desc')
+    // Required columns stay visible whatever the view says
+    const required = availableColumns.filter(col => col.required).map(col => col.key)
+    setVisibleColumns(view.columns
+      ? availableColumns.map(col => col.key).filter(key => required.includes(key) || view.columns!.includes(key))
+      : availableColumns.map(col => col.key))
+  }
+
+  // Export handler - writes the loaded rows with the visible columns
+  const handleExport = async (exportFormat: ExportFormat) => {
     try {
-      // Create CSV content
-      const headers = ['Area Code', 'State', 'Total Calls']
-      const csvContent = [
-        headers.join(','),
-        ...areaCodes.map(item => [
-          item.areaCode || 'Unknown',
-          item.state || 'Unknown',
-          item.totalCalls
-        ].join(','))
-      ].join('\n')
-
-      // Download CSV
-      const blob = new Blob([csvContent], { type: 'text/csv' })
-      const url = window.URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `area-codes-${format(new Date(), 'yyyy-MM-dd')}.csv`
-      a.click()
-      window.URL.revokeObjectURL(url)
+      const columns = availableColumns
+        .filter(column => visibleColumns.includes(column.key))
+        .map(column => ({ key: column.key, header: column.label, kind: column.kind }))
+      const blob = await buildExport(areaCodes, columns, exportFormat)
+      downloadBlob(blob, exportFileName('area-codes', exportFormat))
     } catch (error) {
       console.error('Export error:', error)
       setError('Failed to export area codes data')
@@ -293,6 +319,48 @@ export default function AreaCodesPage() {
     </div>
   )
 
+  // Map data: all area codes for the active filters, refetched while the map is shown
+  useEffect(() => {
+    if (!showMap || !selectedDataSource) return
+    let cancelled = false
+    setIsMapLoading(true)
+    dataService.getAreaCodes({
+      collection: selectedDataSource,
+      limit: MAP_LIMIT,
+      sortBy: 'totalCalls',
+      sortOrder: 'desc',
+      ...filterParams()
+    })
+      .then(response => {
+        if (cancelled) return
+        if (response.success === false) throw new Error(response.error)
+        setMapAreaCodes(response.data || [])
+      })
+      .catch(err => {
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to load area code map'))
+      })
+      .finally(() => {
+        if (!cancelled) setIsMapLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [showMap, selectedDataSource, JSON.stringify(filters), stateFilter])
+
+  const setShowMap = (map: boolean) => {
+    const next = new URLSearchParams(searchParams)
+    if (map) next.set('view', 'map')
+    else next.delete('view')
+    setSearchParams(next, { replace: true })
+  }
+
+  const openAreaCode = (code: string) => navigate(`/reports/area-codes/${encodeURIComponent(code)}`)
+  const openState = (state: string) => navigate(`/reports/area-codes/state/${encodeURIComponent(state)}`)
+
+  const toggleClass = (active: boolean) => `inline-flex items-center px-2.5 py-1.5 text-xs font-medium ${
+    active
+      ? 'bg-indigo-600 text-white'
+      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600'
+  }`
+
   // Effect to fetch data when dependencies change
   useEffect(() => {
     setPageCache(new Map())
@@ -325,8 +393,25 @@ export default function AreaCodesPage() {
         searchValue={searchTerm}
         onSearchChange={handleSearch}
         searchPlaceholder="Search area codes..."
+        showFilterBar
         actions={
           <>
+            <div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden shadow-sm" role="group" aria-label="View">
+              <button onClick={() => setShowMap(false)} aria-pressed={!showMap} className={toggleClass(!showMap)}>
+                <TableCellsIcon className="h-4 w-4 mr-1" />
+                Table
+              </button>
+              <button onClick={() => setShowMap(true)} aria-pressed={showMap} className={toggleClass(showMap)}>
+                <MapIcon className="h-4 w-4 mr-1" />
+                Map
+              </button>
+            </div>
+            <SavedViewsMenu
+              page="area-codes"
+              currentView={currentView}
+              availableColumns={availableColumns.map(column => column.key)}
+              onApply={applySavedView}
+            />
             <div className="relative">
               <button
                 onClick={() => setShowColumnSelector(!showColumnSelector)}
@@ -370,31 +455,48 @@ export default function AreaCodesPage() {
                 </div>
               )}
             </div>
-            <button
-              onClick={handleExport}
-              disabled={areaCodes.length === 0}
-              className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
-              Export
-            </button>
-            <button
-              onClick={() => setShowFilters(!showFilters)}
-              className={`inline-flex items-center px-3 py-2 border shadow-sm text-sm leading-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
-                showFilters
-                  ? 'border-indigo-500 text-indigo-700 bg-indigo-50 dark:bg-indigo-900 dark:text-indigo-200 dark:border-indigo-400'
-                  : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600'
-              }`}
-            >
-              <FunnelIcon className="h-4 w-4 mr-2" />
-              Filters
-            </button>
+            <ExportMenu onExport={handleExport} label="Export" disabled={areaCodes.length === 0} />
           </>
         }
       />
 
       <div className="flex-1 overflow-hidden">
-        {isInitialLoading ? (
+        {showMap ? (
+          <div className="p-4 sm:p-6 lg:p-8">
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 relative">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Coverage</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {mapMode === 'state' ? 'Click a state or province for its detail page' : 'Each square is one area code, placed on its state. Click one for its detail page'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Shade by">
+                    <button onClick={() => setMapMode('state')} aria-pressed={mapMode === 'state'} className={toggleClass(mapMode === 'state')}>By state</button>
+                    <button onClick={() => setMapMode('areaCode')} aria-pressed={mapMode === 'areaCode'} className={toggleClass(mapMode === 'areaCode')} title="Area code boundaries aren't bundled, so area codes are shown as squares on their state">Area codes by state</button>
+                  </div>
+                  <div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Metric">
+                    <button onClick={() => setMapMetric('totalCalls')} aria-pressed={mapMetric === 'totalCalls'} className={toggleClass(mapMetric === 'totalCalls')}>Calls</button>
+                    <button onClick={() => setMapMetric('totalCost')} aria-pressed={mapMetric === 'totalCost'} className={toggleClass(mapMetric === 'totalCost')}>Cost</button>
+                  </div>
+                </div>
+              </div>
+              <CoverageMap
+                areaCodes={mapAreaCodes}
+                mode={mapMode}
+                metric={mapMetric}
+                onRegionClick={(region) => openState(region.name)}
+                onAreaCodeClick={openAreaCode}
+              />
+              {isMapLoading && (
+                <div className="absolute inset-0 flex items-center justify-center bg-white/60 dark:bg-gray-800/60 rounded-lg">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              )}
+            </div>
+          </div>
+        ) : isInitialLoading ? (
           <div className="flex items-center justify-center h-full">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           </div>
@@ -498,7 +600,11 @@ export default function AreaCodesPage() {
                       </tr>
                     ) : (
                       areaCodes.map((areaCode, index) => (
-                        <tr key={`${areaCode.areaCode}-${index}`} className="hover:bg-gray-50 dark:hover:bg-gray-700 text-xs">
+                        <tr
+                          key={`${areaCode.areaCode}-${index}`}
+                          onClick={() => areaCode.areaCode && openAreaCode(areaCode.areaCode)}
+                          className="hover:bg-gray-50 dark:hover:bg-gray-700 text-xs cursor-pointer"
+                        >
                           {visibleColumns.includes('areaCode') && (
                             <td className="px-4 py-2 whitespace-nowrap text-gray-900 dark:text-gray-100">
                               {areaCode.areaCode || 'Unknown'}
@@ -506,11 +612,18 @@ export default function AreaCodesPage() {
                           )}
                           {visibleColumns.includes('state') && (
                             <td className="px-4 py-2 whitespace-nowrap text-gray-900 dark:text-gray-100">
-                              <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${
-                                areaCode.state && areaCode.state !== 'Unknown'
-                                  ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
-                                  : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
-                              }`}>
+                              <span
+                                onClick={(e) => {
+                                  if (!areaCode.state || areaCode.state === 'Unknown') return
+                                  e.stopPropagation()
+                                  openState(areaCode.state)
+                                }}
+                                className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${
+                                  areaCode.state && areaCode.state !== 'Unknown'
+                                    ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 hover:underline'
+                                    : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+                                }`}
+                              >
                                 {areaCode.state || 'Unknown'}
                               </span>
                             </td>
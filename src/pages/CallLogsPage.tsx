@@ -1,19 +1,56 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { useOutletContext, useSearchParams } from 'react-router-dom'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { Outlet, useLocation, useNavigate, useOutletContext, useSearchParams } from 'react-router-dom'
 import { useData } from '../contexts/DataContext'
+import { useDataSources } from '../contexts/DataSourcesContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { useExports } from '../contexts/ExportContext'
+import { useRates } from '../contexts/RatesContext'
 import { dataService } from '../services/dataService'
 import type { CallLog, ApiResponse } from '../services/dataService'
+import { getErrorMessage } from '../services/apiClient'
 import DynamicHeader from '../components/DynamicHeader'
+import SavedViewsMenu from '../components/SavedViewsMenu'
+import ExportMenu from '../components/ExportMenu'
+import { exportFileName } from '../lib/exporters'
+import type { ColumnKind, ExportColumn, ExportFormat } from '../lib/exporters'
+import { CALL_LOGS_VIEW_DEFAULTS, hasViewParams, parseCallLogsView, serializeCallLogsView, toFilterParams, toFilterUpdate, withCallSource } from '../lib/callLogsView'
+import type { CallLogsView } from '../lib/callLogsView'
+import { resolveDateFilters } from '../lib/dateRanges'
 import { 
   ChevronLeftIcon, 
   ChevronRightIcon,
-  FunnelIcon,
-  ArrowDownTrayIcon,
   PhoneArrowUpRightIcon,
   PhoneArrowDownLeftIcon,
   EyeIcon
 } from '@heroicons/react/24/outline'
-import { format } from 'date-fns'
+
+// Record field and type written for each table column when exporting
+const EXPORT_FIELDS: Record<string, { field: string; kind: ColumnKind }> = {
+  type: { field: 'callType', kind: 'string' },
+  time: { field: 'startTime', kind: 'datetime' },
+  from: { field: 'fromNumber', kind: 'string' },
+  to: { field: 'toNumber', kind: 'string' },
+  duration: { field: 'durationSeconds', kind: 'duration' },
+  state: { field: 'stateCode', kind: 'string' },
+  areaCode: { field: 'areaCode', kind: 'string' },
+  extension: { field: 'extension', kind: 'string' },
+  cost: { field: 'cost', kind: 'currency' },
+  trunkNumber: { field: 'trunkNumber', kind: 'string' },
+  terminationReason: { field: 'terminationReason', kind: 'string' },
+  historyId: { field: 'historyId', kind: 'string' },
+  callId: { field: 'callId', kind: 'string' },
+  startTimeCol: { field: 'startTime', kind: 'datetime' },
+  endTimeCol: { field: 'endTime', kind: 'datetime' },
+  chain: { field: 'chain', kind: 'string' },
+  fromType: { field: 'fromType', kind: 'string' },
+  finalType: { field: 'finalType', kind: 'string' },
+  fromDispname: { field: 'fromDispname', kind: 'string' },
+  toDispname: { field: 'toDispname', kind: 'string' },
+  finalDispname: { field: 'finalDispname', kind: 'string' },
+  missedQueueCalls: { field: 'missedQueueCalls', kind: 'integer' },
+  rawStream: { field: 'rawStream', kind: 'string' }
+  // Rated Cost is worked out in the browser, so exports leave it out; the Rated Cost report exports it
+}
 
 interface CallLogsPageProps {
   callType?: 'incoming' | 'outgoing'
@@ -27,8 +64,15 @@ interface LayoutContext {
 
 export default function CallLogsPage({ callType }: CallLogsPageProps) {
   const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>();
-  const { selectedDataSource, filters, setError, setFilters } = useData();
-  const [searchParams] = useSearchParams();
+  const { selectedDataSource, isAllSources, filters, setError, setFilters } = useData();
+  const { getLabel } = useDataSources();
+  const { startExport } = useExports();
+  const { hasRates, rate } = useRates();
+  const { formatDateTime, timeZone, pageSize: preferredPageSize } = usePreferences();
+  const defaultPageSize = preferredPageSize(CALL_LOGS_VIEW_DEFAULTS.pageSize);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const location = useLocation();
   const urlCallType = searchParams.get('type') as 'incoming' | 'outgoing' | undefined;
   const [callLogs, setCallLogs] = useState<CallLog[]>([])
   const [pagination, setPagination] = useState({
@@ -39,12 +83,13 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
     hasNextPage: false,
     hasPrevPage: false
   })
-  const [searchTerm, setSearchTerm] = useState('')
-  const [sortBy, setSortBy] = useState('startTime')
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
-  const [showFilters, setShowFilters] = useState(false)
+  // Seed the view from the URL so shared links open exactly as sent
+  const [initialView] = useState(() => parseCallLogsView(searchParams, defaultPageSize))
+  const [searchTerm, setSearchTerm] = useState(initialView.search)
+  const [sortBy, setSortBy] = useState(initialView.sortBy)
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(initialView.sortOrder)
   const [showColumnSelector, setShowColumnSelector] = useState(false)
-  const [pageSize, setPageSize] = useState<number>(500)
+  const [pageSize, setPageSize] = useState<number>(initialView.pageSize)
   
   // Column management based on call type
   const getDefaultColumns = () => {
@@ -93,6 +138,7 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
         { key: 'areaCode', label: 'Area Code', required: true },
         { key: 'extension', label: 'Extension', required: true },
         { key: 'cost', label: 'Cost', required: true },
+        ...(hasRates ? [{ key: 'ratedCost', label: 'Rated Cost', required: false }] : []),
         { key: 'trunkNumber', label: 'Trunk Number', required: false },
         { key: 'terminationReason', label: 'Termination Reason', required: false },
         // Extended optional columns
@@ -112,104 +158,67 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
     }
   }
 
-  const [visibleColumns, setVisibleColumns] = useState<string[]>(getDefaultColumns())
+  const [visibleColumns, setVisibleColumns] = useState<string[]>(initialView.columns || getDefaultColumns())
   const availableColumns = getAvailableColumns()
 
   // Reset visible columns when call type changes
+  const isFirstColumnsRun = useRef(true)
   useEffect(() => {
+    if (isFirstColumnsRun.current) {
+      isFirstColumnsRun.current = false
+      return
+    }
     setVisibleColumns(getDefaultColumns())
   }, [callType])
 
-  // Local filter draft state for the Filters panel
-  const [localFilters, setLocalFilters] = useState({
-    dateFrom: filters.dateFrom || '',
-    dateTo: filters.dateTo || '',
-    callType: (filters.callType as any) || '',
-    status: (filters.status as any) || '',
-    areaCode: filters.areaCode || '',
-    trunkNumber: filters.trunkNumber || '',
-    terminationReason: filters.terminationReason || '',
-    extension: (filters as any).extension || '',
-    stateCode: (filters as any).stateCode || '',
-    minDurationSec: (filters as any).minDurationSec || '',
-    maxDurationSec: (filters as any).maxDurationSec || '',
-    minCost: (filters as any).minCost || '',
-    maxCost: (filters as any).maxCost || ''
-  })
-
-  // Sync local draft when opening panel or when global filters change
-  useEffect(() => {
-    if (!showFilters) return
-    setLocalFilters({
-      dateFrom: filters.dateFrom || '',
-      dateTo: filters.dateTo || '',
-      callType: (filters.callType as any) || '',
-      status: (filters.status as any) || '',
-      areaCode: filters.areaCode || '',
-      trunkNumber: filters.trunkNumber || '',
-      terminationReason: filters.terminationReason || '',
-      extension: (filters as any).extension || '',
-      stateCode: (filters as any).stateCode || '',
-      minDurationSec: (filters as any).minDurationSec || '',
-      maxDurationSec: (filters as any).maxDurationSec || '',
-      minCost: (filters as any).minCost || '',
-      maxCost: (filters as any).maxCost || ''
-    })
-  }, [showFilters, filters])
-
-  // Quick date presets for fast filtering
-  const [quickRange, setQuickRange] = useState<string>('')
+  // Current view as it is written to the URL
+  const currentView = useMemo<CallLogsView>(() => {
+    const defaults = getDefaultColumns()
+    const isDefaultColumns = visibleColumns.length === defaults.length && visibleColumns.every((col, i) => col === defaults[i])
+    return {
+      filters,
+      search: searchTerm,
+      sortBy,
+      sortOrder,
+      pageSize,
+      columns: isDefaultColumns ? undefined : visibleColumns
+    }
+  }, [filters, searchTerm, sortBy, sortOrder, pageSize, visibleColumns, callType])
+  const currentViewQuery = serializeCallLogsView(currentView, defaultPageSize).toString()
 
-  const toLocalInput = (d: Date) => {
-    const pad = (n: number) => String(n).padStart(2, '0')
-    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
+  // Used for URL navigation and saved views alike
+  const applyView = (view: Partial<CallLogsView>) => {
+    setFilters(toFilterUpdate(resolveDateFilters(view.filters || {}, timeZone)))
+    setSearchTerm(view.search || '')
+    setSortBy(view.sortBy || CALL_LOGS_VIEW_DEFAULTS.sortBy)
+    setSortOrder(view.sortOrder || CALL_LOGS_VIEW_DEFAULTS.sortOrder)
+    setPageSize(view.pageSize || defaultPageSize)
+    setVisibleColumns(view.columns || getDefaultColumns())
   }
-  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 0, 0)
-  const endOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 23, 59)
+  const urlViewQuery = useMemo(() => serializeCallLogsView(parseCallLogsView(searchParams, defaultPageSize), defaultPageSize).toString(), [searchParams, defaultPageSize])
+  const hasHydratedUrl = useRef(false)
 
-  const applyQuick = (range: string) => {
-    const now = new Date()
-    let from = startOfDay(now)
-    let to = endOfDay(now)
+  // Push every view change as a history entry so back/forward step through filters.
+  // Declared before the URL reader so it sees the un-hydrated state on mount and waits.
+  useEffect(() => {
+    if (!hasHydratedUrl.current) return
+    if (urlViewQuery === currentViewQuery) return
+    setSearchParams(serializeCallLogsView(currentView, defaultPageSize))
+  }, [currentViewQuery])
 
-    switch (range) {
-      case 'today':
-        break
-      case 'yesterday': {
-        const y = new Date(now)
-        y.setDate(y.getDate() - 1)
-        from = startOfDay(y)
-        to = endOfDay(y)
-        break
-      }
-      case 'thisMonth':
-        from = new Date(now.getFullYear(), now.getMonth(), 1, 0, 0)
-        to = endOfDay(now)
-        break
-      case 'lastMonth':
-        from = new Date(now.getFullYear(), now.getMonth() - 1, 1, 0, 0)
-        to = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59)
-        break
-      case 'last3months':
-        from = new Date(now.getFullYear(), now.getMonth() - 2, 1, 0, 0)
-        to = endOfDay(now)
-        break
-      case 'thisYear':
-        // Use a broader range that includes 2024 data
-        from = new Date(2024, 0, 1, 0, 0)  // Start from 2024
-        to = endOfDay(now)
-        break
-      default:
+  // Apply the URL to the view on load and on back/forward navigation
+  useEffect(() => {
+    if (!hasHydratedUrl.current) {
+      hasHydratedUrl.current = true
+      // A bare /reports/call-logs keeps the filters already active elsewhere in the app
+      if (!hasViewParams(searchParams)) {
+        if (currentViewQuery) setSearchParams(serializeCallLogsView(currentView, defaultPageSize), { replace: true })
         return
+      }
     }
-
-    setQuickRange(range)
-    setLocalFilters(prev => ({
-      ...prev,
-      dateFrom: toLocalInput(from),
-      dateTo: toLocalInput(to)
-    }))
-  }
+    if (urlViewQuery === currentViewQuery) return
+    applyView(parseCallLogsView(searchParams, defaultPageSize))
+  }, [searchParams])
 
   // Close Columns popover with Escape key anywhere on the page
   useEffect(() => {
@@ -224,18 +233,6 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
     return () => document.removeEventListener('keydown', onKey)
   }, [showColumnSelector])
 
-  // Close Filters popover with Escape key anywhere on the page
-  useEffect(() => {
-    if (!showFilters) return
-    const onKey = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
-        e.preventDefault()
-        setShowFilters(false)
-      }
-    }
-    document.addEventListener('keydown', onKey)
-    return () => document.removeEventListener('keydown', onKey)
-  }, [showFilters])
   
   // 🪄 MAGIC: Instant pagination system
   const [pageCache, setPageCache] = useState<Map<string, { data: CallLog[], pagination: any, timestamp: number }>>(new Map())
@@ -277,10 +274,6 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
         setIsInitialLoading(true)
       }
 
-      // Get URL parameters for filtering
-      const urlAreaCode = searchParams.get('areaCode');
-      const urlExtension = searchParams.get('extension');
-
       const params = {
         page,
         limit: pageSize,
@@ -288,19 +281,8 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
         sortOrder,
         search: searchTerm,
         collection: selectedDataSource,
-        callType: urlCallType || callType || filters.callType,
-        status: filters.status,
-        dateFrom: filters.dateFrom,
-        dateTo: filters.dateTo,
-        areaCode: urlAreaCode || filters.areaCode,
-        extension: urlExtension || (filters as any).extension,
-        trunkNumber: filters.trunkNumber,
-        terminationReason: filters.terminationReason,
-        stateCode: (filters as any).stateCode,
-        minDurationSec: (filters as any).minDurationSec,
-        maxDurationSec: (filters as any).maxDurationSec,
-        minCost: (filters as any).minCost,
-        maxCost: (filters as any).maxCost
+        ...toFilterParams(filters),
+        callType: urlCallType || callType || filters.callType
       }
 
       const response: ApiResponse<CallLog[]> = await dataService.getCallLogs(params)
@@ -335,7 +317,7 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
     } catch (error: any) {
       console.error('Error fetching call logs:', error)
       if (!isBackground) {
-        setError(error.response?.data?.message || 'Failed to fetch call logs')
+        setError(getErrorMessage(error, 'Failed to fetch call logs'))
         setIsInitialLoading(false)
       }
       return null
@@ -355,12 +337,13 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
     })
   }, [getCacheKey, pageCache, fetchCallLogs]);
 
-  // Load data on mount and filter changes
+  // Load data on mount and filter changes, once the view and the URL agree
   useEffect(() => {
+    if (urlViewQuery !== currentViewQuery) return;
     setPageCache(new Map());
     setIsInitialLoading(true);
     fetchCallLogs(1);
-  }, [selectedDataSource, callType, filters, sortBy, sortOrder, searchTerm, urlCallType, pageSize]);
+  }, [selectedDataSource, callType, filters, sortBy, sortOrder, searchTerm, urlCallType, pageSize, urlViewQuery]);
 
   // Prefetch adjacent pages when data loads
   useEffect(() => {
@@ -409,37 +392,45 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
     }
   }, [sortBy, sortOrder])
 
-  // Export functionality
-  const handleExport = useCallback(async () => {
-    try {
-      const params = {
-        sortBy,
-        sortOrder,
-        search: searchTerm,
-        collection: selectedDataSource,
-        callType: urlCallType || callType || filters.callType,
-        status: filters.status,
-        dateFrom: filters.dateFrom,
-        dateTo: filters.dateTo,
-        areaCode: filters.areaCode,
-        trunkNumber: filters.trunkNumber,
-        terminationReason: filters.terminationReason
-      };
+  // Export functionality - runs in the background export manager
+  const handleExport = useCallback((exportFormat: ExportFormat) => {
+    const params = {
+      sortBy,
+      sortOrder,
+      search: searchTerm,
+      collection: selectedDataSource,
+      ...toFilterParams(filters),
+      callType: urlCallType || callType || filters.callType
+    };
 
-      const blob = await dataService.exportCallLogs(params);
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      const dateStr = new Date().toISOString().slice(0,10);
-      a.download = `call-logs-${dateStr}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      window.URL.revokeObjectURL(url);
-    } catch (error: any) {
-      setError(error.response?.data?.message || 'Failed to export call logs');
+    // Visible columns in table order; "Start Time" appears twice in the picker, so keep the first
+    const columns: ExportColumn[] = isAllSources ? [{ key: 'source', header: 'Source', kind: 'string' }] : []
+    availableColumns.forEach(column => {
+      const mapping = EXPORT_FIELDS[column.key]
+      if (!visibleColumns.includes(column.key) || !mapping) return
+      if (columns.some(col => col.key === mapping.field)) return
+      columns.push({ key: mapping.field, header: column.label, kind: mapping.kind })
+    })
+
+    startExport({
+      kind: 'call-logs',
+      params,
+      format: exportFormat,
+      columns,
+      timeZone,
+      fileName: exportFileName('call-logs', exportFormat)
+    });
+  }, [sortBy, sortOrder, searchTerm, selectedDataSource, callType, filters, urlCallType, startExport, availableColumns, visibleColumns, timeZone]);
+
+  // Cost from the rate decks, with the matched rate on hover
+  const renderRatedCost = (call: CallLog) => {
+    const rated = rate(call)
+    if (rated.cost === null) {
+      return <span className="text-amber-600 dark:text-amber-400" title="No rate deck covers this destination">No rate</span>
     }
-  }, [sortBy, sortOrder, searchTerm, selectedDataSource, callType, filters, setError, urlCallType]);
+    const match = rated.entry && `${rated.entry.prefix}${rated.entry.description ? ` ${rated.entry.description}` : ''} · ${rated.deck?.name}`
+    return <span title={match || undefined}>${rated.cost.toFixed(2)}</span>
+  }
 
   // Format duration
   const formatDuration = (seconds: number | string) => {
@@ -558,8 +549,15 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
         isSidebarCollapsed={isSidebarCollapsed}
         onToggleSidebar={onToggleSidebar}
         showSearch={true}
+        showFilterBar
         actions={
           <>
+            <SavedViewsMenu
+              page="call-logs"
+              currentView={currentView}
+              availableColumns={availableColumns.map(column => column.key)}
+              onApply={applyView}
+            />
             <div className="relative">
               <button
                 onClick={() => setShowColumnSelector(!showColumnSelector)}
@@ -617,265 +615,7 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
               )}
             </div>
             
-            <div className="relative">
-              <div className="relative">
-                <button
-                  onClick={() => setShowFilters(!showFilters)}
-                  className={`inline-flex items-center px-3 py-2 border shadow-sm text-sm leading-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
-                    showFilters
-                      ? 'border-indigo-500 text-indigo-700 bg-indigo-50 dark:bg-indigo-900 dark:text-indigo-200 dark:border-indigo-400'
-                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600'
-                  }`}
-                >
-                  <FunnelIcon className="h-4 w-4 mr-2" />
-                  Filters
-                  {(() => {
-                    const activeFilters = Object.values(filters).filter(value =>
-                      value !== undefined && value !== null && value !== ''
-                    ).length;
-                    return activeFilters > 0 ? (
-                      <span className="ml-2 inline-flex items-center justify-center px-2 py-1 text-xs font-bold leading-none text-white bg-red-500 rounded-full">
-                        {activeFilters}
-                      </span>
-                    ) : null;
-                  })()}
-                </button>
-                {showFilters && (
-                  <div
-                    className="absolute right-0 mt-2 w-[32rem] bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50 max-h-[80vh] overflow-auto p-4"
-                    role="dialog"
-                    aria-modal="true"
-                    tabIndex={-1}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Escape') {
-                        e.stopPropagation()
-                        setShowFilters(false)
-                      }
-                    }}
-                  >
-                    <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">Power Filters</h3>
-                    <div className="mb-3 flex flex-wrap gap-2">
-                      {[
-                        {k:'today',l:'Today'},
-                        {k:'yesterday',l:'Yesterday'},
-                        {k:'thisMonth',l:'This Month'},
-                        {k:'lastMonth',l:'Last Month'},
-                        {k:'last3months',l:'Last 3 months'},
-                        {k:'thisYear',l:'This year'}
-                      ].map(({k,l}) => (
-                        <button
-                          key={k}
-                          onClick={() => applyQuick(k)}
-                          className={`px-2.5 py-1 text-xs rounded border ${quickRange===k ? 'bg-indigo-600 text-white border-indigo-600' : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
-                        >
-                          {l}
-                        </button>
-                      ))}
-                    </div>
-                    <div className="grid grid-cols-2 gap-3">
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Date From</label>
-                        <input
-                          type="datetime-local"
-                          value={localFilters.dateFrom}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, dateFrom: e.target.value }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Date To</label>
-                        <input
-                          type="datetime-local"
-                          value={localFilters.dateTo}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, dateTo: e.target.value }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Call Type</label>
-                        <select
-                          value={localFilters.callType}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, callType: e.target.value as any }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        >
-                          <option value="">All</option>
-                          <option value="incoming">Incoming</option>
-                          <option value="outgoing">Outgoing</option>
-                          <option value="internal">Internal</option>
-                        </select>
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Status</label>
-                        <select
-                          value={localFilters.status}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, status: e.target.value as any }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        >
-                          <option value="">All</option>
-                          <option value="answered">Answered</option>
-                          <option value="unanswered">Unanswered</option>
-                          <option value="redirected">Redirected</option>
-                          <option value="waiting">Waiting</option>
-                        </select>
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Area Code</label>
-                        <input
-                          type="text"
-                          value={localFilters.areaCode}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, areaCode: e.target.value }))}
-                          placeholder="e.g. 323"
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Trunk Number</label>
-                        <input
-                          type="text"
-                          value={localFilters.trunkNumber}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, trunkNumber: e.target.value }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Extension</label>
-                        <input
-                          type="text"
-                          value={localFilters.extension as any}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, extension: e.target.value }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">State Code</label>
-                        <input
-                          type="text"
-                          value={localFilters.stateCode as any}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, stateCode: e.target.value }))}
-                          placeholder="e.g. 32"
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Min Duration (sec)</label>
-                        <input
-                          type="number"
-                          min={0}
-                          value={localFilters.minDurationSec as any}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, minDurationSec: e.target.value }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Max Duration (sec)</label>
-                        <input
-                          type="number"
-                          min={0}
-                          value={localFilters.maxDurationSec as any}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, maxDurationSec: e.target.value }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Min Cost</label>
-                        <input
-                          type="number"
-                          min={0}
-                          step="0.01"
-                          value={localFilters.minCost as any}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, minCost: e.target.value }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Max Cost</label>
-                        <input
-                          type="number"
-                          min={0}
-                          step="0.01"
-                          value={localFilters.maxCost as any}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, maxCost: e.target.value }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                      <div className="col-span-2">
-                        <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Termination Reason</label>
-                        <input
-                          type="text"
-                          value={localFilters.terminationReason}
-                          onChange={(e) => setLocalFilters(prev => ({ ...prev, terminationReason: e.target.value }))}
-                          className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                        />
-                      </div>
-                    </div>
-                    <div className="mt-4 flex justify-between">
-                      <button
-                        onClick={() => {
-                          setLocalFilters({ dateFrom: '', dateTo: '', callType: '', status: '', areaCode: '', trunkNumber: '', terminationReason: '', extension: '', stateCode: '', minDurationSec: '', maxDurationSec: '', minCost: '', maxCost: '' })
-                          setFilters({ dateFrom: undefined, dateTo: undefined, callType: undefined, status: undefined, areaCode: undefined, trunkNumber: undefined, terminationReason: undefined, extension: undefined, stateCode: undefined, minDurationSec: undefined, maxDurationSec: undefined, minCost: undefined, maxCost: undefined })
-                          setShowFilters(false)
-                        }}
-                        className="px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
-                      >
-                        Clear All
-                      </button>
-                      <div className="space-x-2">
-                        <button
-                          onClick={() => setShowFilters(false)}
-                          className="px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
-                        >
-                          Cancel
-                        </button>
-                        <button
-                          onClick={() => {
-                            // Convert datetime-local values to ISO strings for backend
-                            const convertToISO = (dateTimeLocal: string) => {
-                              if (!dateTimeLocal) return undefined;
-                              try {
-                                // datetime-local format: YYYY-MM-DDTHH:mm
-                                // Convert to ISO string for backend
-                                return new Date(dateTimeLocal).toISOString();
-                              } catch (error) {
-                                console.warn('Invalid date format:', dateTimeLocal);
-                                return undefined;
-                              }
-                            };
-
-                            setFilters({
-                              dateFrom: convertToISO(localFilters.dateFrom),
-                              dateTo: convertToISO(localFilters.dateTo),
-                              callType: (localFilters.callType as any) || undefined,
-                              status: (localFilters.status as any) || undefined,
-                              areaCode: localFilters.areaCode || undefined,
-                              trunkNumber: localFilters.trunkNumber || undefined,
-                              terminationReason: localFilters.terminationReason || undefined,
-                              extension: (localFilters.extension as any) || undefined,
-                              stateCode: (localFilters.stateCode as any) || undefined,
-                              minDurationSec: localFilters.minDurationSec ? Number(localFilters.minDurationSec) : undefined,
-                              maxDurationSec: localFilters.maxDurationSec ? Number(localFilters.maxDurationSec) : undefined,
-                              minCost: localFilters.minCost ? Number(localFilters.minCost) : undefined,
-                              maxCost: localFilters.maxCost ? Number(localFilters.maxCost) : undefined
-                            })
-                            setShowFilters(false)
-                          }}
-                          className="px-3 py-1.5 text-xs rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
-                        >
-                          Apply
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                )}
-              </div>
-            </div>
-            
-            <button
-              onClick={handleExport}
-              className="inline-flex items-center p-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-              title="Export to CSV"
-            >
-              <ArrowDownTrayIcon className="h-4 w-4" />
-            </button>
+            <ExportMenu onExport={handleExport} />
           </>
         }
         searchValue={searchTerm}
@@ -895,6 +635,13 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
                 <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
                   <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0 z-10">
                     <tr>
+                      {/* SOURCE (combined view only) */}
+                      {isAllSources && (
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Source
+                        </th>
+                      )}
+
                       {/* TYPE */}
                       {visibleColumns.includes('type') && (
                         <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
@@ -996,6 +743,12 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
                           Cost
                         </th>
                       )}
+
+                      {hasRates && visibleColumns.includes('ratedCost') && (
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Rated Cost
+                        </th>
+                      )}
                       
                       {visibleColumns.includes('trunkNumber') && (
                         <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
@@ -1072,7 +825,18 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
                 </thead>
                 <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                   {callLogs.map((call, index) => (
-                    <tr key={`${call.historyId}-${index}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <tr
+                      key={`${call.historyId}-${index}`}
+                      className="hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+                      onClick={() => navigate(`/reports/call-logs/${call._id}${withCallSource(location.search, call.source)}`)}
+                    >
+                        {/* SOURCE (combined view only) */}
+                        {isAllSources && (
+                          <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-gray-100">
+                            {call.source ? getLabel(call.source) : '-'}
+                          </td>
+                        )}
+
                         {/* TYPE */}
                         {visibleColumns.includes('type') && (
                           <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-gray-100">
@@ -1086,7 +850,7 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
                         {/* START TIME */}
                         {visibleColumns.includes('time') && (
                           <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-gray-100">
-                            {format(new Date(call.startTime), 'yyyy-MM-dd HH:mm:ss')}
+                            {formatDateTime(call.startTime)}
                           </td>
                         )}
                         
@@ -1137,6 +901,12 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
                             ${call.cost?.toFixed(2) || '0.00'}
                           </td>
                         )}
+
+                        {hasRates && visibleColumns.includes('ratedCost') && (
+                          <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-gray-100">
+                            {renderRatedCost(call)}
+                          </td>
+                        )}
                         
                         {visibleColumns.includes('trunkNumber') && (
                           <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-gray-100">
@@ -1166,13 +936,13 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
                         
                         {visibleColumns.includes('startTimeCol') && (
                           <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-gray-100">
-                            {call.startTime ? format(new Date(call.startTime), 'yyyy-MM-dd HH:mm:ss') : '-'}
+                            {call.startTime ? formatDateTime(call.startTime) : '-'}
                           </td>
                         )}
                         
                         {visibleColumns.includes('endTimeCol') && (
                           <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-gray-100">
-                            {call.endTime ? format(new Date(call.endTime), 'yyyy-MM-dd HH:mm:ss') : '-'}
+                            {call.endTime ? formatDateTime(call.endTime) : '-'}
                           </td>
                         )}
                         
@@ -1250,6 +1020,9 @@ export default function CallLogsPage({ callType }: CallLogsPageProps) {
           </div>
         </div>
       </div>
+
+      {/* Call detail drawer (/reports/call-logs/:id) */}
+      <Outlet />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,263 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useOutletContext, useSearchParams } from 'react-router-dom'
+import { AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { useData } from '../contexts/DataContext'
+import { useDataSources } from '../contexts/DataSourcesContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { dataService } from '../services/dataService'
+import type { AreaCode, CallTrend, DashboardSummary, Extension, TrendInterval } from '../services/dataService'
+import { getErrorMessage } from '../services/apiClient'
+import DynamicHeader from '../components/DynamicHeader'
+import { toFilterParams } from '../lib/callLogsView'
+import { defaultIntervalFor } from '../lib/periods'
+import { formatInTimeZone } from '../lib/datetime'
+
+interface LayoutContext {
+  onMenuClick: () => void;
+  isSidebarCollapsed: boolean;
+  onToggleSidebar: () => void;
+}
+
+interface SourceDashboard {
+  summary: DashboardSummary
+  trends: CallTrend[]
+  areaCodes: AreaCode[]
+  extensions: Extension[]
+}
+
+const TOP_ITEMS = 8
+
+const SERIES = [
+  { key: 'incomingCalls', label: 'Incoming', color: '#10B981' },
+  { key: 'outgoingCalls', label: 'Outgoing', color: '#F97316' },
+  { key: 'internalCalls', label: 'Internal', color: '#6366F1' }
+]
+
+const PERIOD_FORMATS: Record<TrendInterval, string> = {
+  hour: 'MMM d HH:mm',
+  day: 'MMM d',
+  week: 'MMM d',
+  month: 'MMM yyyy'
+}
+
+// Duration formatter
+const formatDuration = (seconds: number | undefined) => {
+  const numSeconds = Math.round(typeof seconds === 'number' ? seconds : 0)
+  const hours = Math.floor(numSeconds / 3600)
+  const minutes = Math.floor((numSeconds % 3600) / 60)
+  const secs = numSeconds % 60
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`
+}
+
+const formatCurrency = (amount: number | undefined) => {
+  return `$${(amount || 0).toFixed(2)}`
+}
+
+const fetchSourceDashboard = async (collection: string, filters: ReturnType<typeof toFilterParams>, interval: TrendInterval, timezone: string): Promise<SourceDashboard> => {
+  const params = { collection, ...filters }
+  const [analytics, trends, areaCodes, extensions] = await Promise.all([
+    dataService.getDashboardAnalytics({ ...params, timezone }),
+    dataService.getCallTrends({ ...params, interval, timezone }),
+    dataService.getAreaCodes({ ...params, limit: TOP_ITEMS, sortBy: 'totalCalls', sortOrder: 'desc' }),
+    dataService.getExtensions({ ...params, limit: TOP_ITEMS, sortBy: 'totalCalls', sortOrder: 'desc' })
+  ])
+  if (!areaCodes.success) throw new Error(areaCodes.error)
+  if (!extensions.success) throw new Error(extensions.error)
+  return {
+    summary: analytics.summary,
+    trends: trends.trends || [],
+    areaCodes: areaCodes.data || [],
+    extensions: extensions.data?.extensions || []
+  }
+}
+
+// Two sources' dashboards side by side for the active filters. Every chart shares its
+// axes with its counterpart so bar lengths and line heights compare directly.
+export default function CompareSourcesPage() {
+  const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { permittedDataSources, filters } = useData()
+  const { getLabel } = useDataSources()
+  const { timeZone } = usePreferences()
+  const [dashboards, setDashboards] = useState<[SourceDashboard, SourceDashboard] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Sources from the URL, defaulting to the first two the user may read
+  const pick = (key: string, fallback: number) => {
+    const value = searchParams.get(key)
+    return value && permittedDataSources.includes(value) ? value : permittedDataSources[fallback] || ''
+  }
+  const sources: [string, string] = [pick('a', 0), pick('b', 1)]
+  const interval = defaultIntervalFor(filters.dateFrom, filters.dateTo)
+
+  const setSource = (key: 'a' | 'b', value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      next.set(key, value)
+      return next
+    }, { replace: true })
+  }
+
+  useEffect(() => {
+    if (!sources[0] || !sources[1]) return
+    let cancelled = false
+
+    const fetchDashboards = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+        const params = toFilterParams(filters)
+        const results = await Promise.all(sources.map(source => fetchSourceDashboard(source, params, interval, timeZone)))
+        if (!cancelled) setDashboards([results[0], results[1]])
+      } catch (err: any) {
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to load the comparison'))
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    fetchDashboards()
+    return () => { cancelled = true }
+  }, [sources[0], sources[1], interval, timeZone, JSON.stringify(filters)])
+
+  // Shared axes: one set of periods and one maximum per chart across both sources
+  const shared = useMemo(() => {
+    if (!dashboards) return null
+    const periods = Array.from(new Set(dashboards.flatMap(d => d.trends.map(t => t.period))))
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())
+    const trendData = dashboards.map(d => {
+      const byPeriod = new Map(d.trends.map(t => [t.period, t]))
+      return periods.map(period => ({
+        incomingCalls: 0,
+        outgoingCalls: 0,
+        internalCalls: 0,
+        ...byPeriod.get(period),
+        label: formatInTimeZone(new Date(period), PERIOD_FORMATS[interval], timeZone)
+      }))
+    })
+    const trendMax = Math.max(1, ...dashboards.flatMap(d => d.trends.map(t => t.incomingCalls + t.outgoingCalls + t.internalCalls)))
+    const areaCodeMax = Math.max(1, ...dashboards.flatMap(d => d.areaCodes.map(code => code.totalCalls)))
+    const extensionMax = Math.max(1, ...dashboards.flatMap(d => d.extensions.map(ext => ext.totalCalls)))
+    return { trendData, trendMax, areaCodeMax, extensionMax }
+  }, [dashboards, interval, timeZone])
+
+  const card = 'bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700'
+  const selectClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm dark:bg-gray-700 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500'
+
+  const renderColumn = (dashboard: SourceDashboard, index: number) => {
+    const { summary } = dashboard
+    const kpis = [
+      { label: 'Total Calls', value: summary.totalCalls.toLocaleString() },
+      { label: 'Answer Rate', value: `${(summary.answerRate || 0).toFixed(1)}%` },
+      { label: 'Talk Time', value: formatDuration(summary.totalDuration) },
+      { label: 'Cost', value: formatCurrency(summary.totalCost) }
+    ]
+    return (
+      <div key={sources[index]} className="space-y-4 min-w-0">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate">{getLabel(sources[index])}</h2>
+
+        <div className="grid grid-cols-2 gap-3">
+          {kpis.map(kpi => (
+            <div key={kpi.label} className={card}>
+              <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">{kpi.label}</h3>
+              <p className="text-xl font-bold text-gray-900 dark:text-white leading-tight">{kpi.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className={card}>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Call Trends</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={shared!.trendData[index]} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey="label" fontSize={11} tick={{ fill: 'currentColor' }} minTickGap={16} />
+                <YAxis fontSize={11} tick={{ fill: 'currentColor' }} allowDecimals={false} domain={[0, shared!.trendMax]} />
+                <Tooltip wrapperStyle={{ zIndex: 9999 }} />
+                <Legend />
+                {SERIES.map(s => (
+                  <Area key={s.key} type="monotone" dataKey={s.key} name={s.label} stackId="calls" stroke={s.color} fill={s.color} fillOpacity={0.35} />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {[
+          { title: 'Top Area Codes', data: dashboard.areaCodes.map(code => ({ name: code.areaCode, totalCalls: code.totalCalls })), max: shared!.areaCodeMax, color: '#3B82F6' },
+          { title: 'Top Extensions', data: dashboard.extensions.map(ext => ({ name: ext.extension, totalCalls: ext.totalCalls })), max: shared!.extensionMax, color: '#8B5CF6' }
+        ].map(chart => (
+          <div key={chart.title} className={card}>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">{chart.title}</h3>
+            {chart.data.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No calls in the selected range</p>
+            ) : (
+              <div style={{ height: TOP_ITEMS * 28 + 30 }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chart.data} layout="vertical" margin={{ top: 0, right: 10, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="opacity-30" horizontal={false} />
+                    <XAxis type="number" fontSize={11} tick={{ fill: 'currentColor' }} allowDecimals={false} domain={[0, chart.max]} />
+                    <YAxis type="category" dataKey="name" width={60} fontSize={11} tick={{ fill: 'currentColor' }} />
+                    <Tooltip wrapperStyle={{ zIndex: 9999 }} />
+                    <Bar dataKey="totalCalls" name="Calls" fill={chart.color} radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <DynamicHeader
+        title="Compare Sources"
+        onMenuClick={onMenuClick}
+        isSidebarCollapsed={isSidebarCollapsed}
+        onToggleSidebar={onToggleSidebar}
+        showFilterBar
+        actions={
+          permittedDataSources.length > 1 ? (
+            <div className="flex items-center gap-2">
+              {(['a', 'b'] as const).map((key, index) => (
+                <select
+                  key={key}
+                  value={sources[index]}
+                  onChange={(e) => setSource(key, e.target.value)}
+                  aria-label={index === 0 ? 'Left source' : 'Right source'}
+                  className={selectClass}
+                >
+                  {permittedDataSources.map(source => (
+                    <option key={source} value={source}>{getLabel(source)}</option>
+                  ))}
+                </select>
+              ))}
+            </div>
+          ) : undefined
+        }
+      />
+
+      <div className="p-4 sm:p-6 lg:p-8">
+        {permittedDataSources.length < 2 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Comparing needs access to at least two data sources.</p>
+        ) : error ? (
+          <div className="rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-4 text-sm text-red-700 dark:text-red-300">{error}</div>
+        ) : isLoading && !dashboards ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : dashboards && shared && (
+          <div className={`grid grid-cols-1 lg:grid-cols-2 gap-6 ${isLoading ? 'opacity-60' : ''}`}>
+            {dashboards.map(renderColumn)}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,11 @@
-import { useState, useEffect, useMemo } from 'react'
-import { useNavigate, useOutletContext } from 'react-router-dom'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { Link, useNavigate, useOutletContext } from 'react-router-dom'
 import { useData } from '../contexts/DataContext'
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LabelList } from 'recharts'
+import { SOURCE_COLORS, useDataSources } from '../contexts/DataSourcesContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { useRealtime } from '../contexts/RealtimeContext'
+import { useRates } from '../contexts/RatesContext'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LabelList, Legend } from 'recharts'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { 
   faMapMarkerAlt, 
@@ -17,10 +21,19 @@ import {
   faArrowUp,
   faStopwatch
 } from '@fortawesome/free-solid-svg-icons'
-import axios from 'axios'
-
-// Use the same API base URL pattern as services to work in Vercel
-const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
+import CallTrendsPanel from '../components/CallTrendsPanel'
+import FilterBar from '../components/FilterBar'
+import DateRangePicker from '../components/DateRangePicker'
+import { KpiDelta, KpiSparkline } from '../components/KpiComparison'
+import { dataService } from '../services/dataService'
+import { getErrorMessage } from '../services/apiClient'
+import type { CallTrend } from '../services/dataService'
+import { COMPARE_MODES, defaultIntervalFor, getBaselineRange } from '../lib/periods'
+import type { CompareMode, DateRange } from '../lib/periods'
+import { callLogsLink, toFilterParams } from '../lib/callLogsView'
+import { resolveDateFilters } from '../lib/dateRanges'
+import { isTollFree, normalizeAreaCode, stateForAreaCode } from '../lib/nanp'
+import { findRegion } from '../lib/regions'
 
 interface DashboardData {
   summary: {
@@ -41,6 +54,8 @@ interface DashboardData {
     percentage: number
     totalCost: number
     totalDuration: number
+    // Calls per source, in the combined view
+    bySource?: Record<string, number>
   }>
   extensionDistribution: Array<{
     extension: string
@@ -49,193 +64,231 @@ interface DashboardData {
     incomingCalls: number
     outgoingCalls: number
     totalDuration: number
+    bySource?: Record<string, number>
   }>
 }
 
-const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4', '#84CC16', '#F97316', '#EC4899', '#6366F1']
-
-// Area code to state mapping
-const areaCodeToState: { [key: string]: string } = {
-  '201': 'New Jersey', '202': 'District of Columbia', '203': 'Connecticut', '205': 'Alabama', '206': 'Washington',
-  '207': 'Maine', '208': 'Idaho', '209': 'California', '210': 'Texas', '212': 'New York',
-  '213': 'California', '214': 'Texas', '215': 'Pennsylvania', '216': 'Ohio', '217': 'Illinois',
-  '218': 'Minnesota', '219': 'Indiana', '220': 'Ohio', '224': 'Illinois', '225': 'Louisiana',
-  '228': 'Mississippi', '229': 'Georgia', '231': 'Michigan', '234': 'Ohio', '239': 'Florida',
-  '240': 'Maryland', '248': 'Michigan', '251': 'Alabama', '252': 'North Carolina', '253': 'Washington',
-  '254': 'Texas', '256': 'Alabama', '260': 'Indiana', '262': 'Wisconsin', '267': 'Pennsylvania',
-  '269': 'Michigan', '270': 'Kentucky', '276': 'Virginia', '281': 'Texas', '283': 'Ohio',
-  '301': 'Maryland', '302': 'Delaware', '303': 'Colorado', '304': 'West Virginia', '305': 'Florida',
-  '307': 'Wyoming', '308': 'Nebraska', '309': 'Illinois', '310': 'California', '312': 'Illinois',
-  '313': 'Michigan', '314': 'Missouri', '315': 'New York', '316': 'Kansas', '317': 'Indiana',
-  '318': 'Louisiana', '319': 'Iowa', '320': 'Minnesota', '321': 'Florida', '323': 'California',
-  '325': 'Texas', '330': 'Ohio', '331': 'Illinois', '334': 'Alabama', '336': 'North Carolina',
-  '337': 'Louisiana', '339': 'Massachusetts', '340': 'US Virgin Islands', '341': 'California',
-  '346': 'Texas', '347': 'New York', '351': 'Massachusetts', '352': 'Florida', '360': 'Washington',
-  '361': 'Texas', '364': 'Kentucky', '380': 'Ohio', '385': 'Utah', '386': 'Florida',
-  '401': 'Rhode Island', '402': 'Nebraska', '403': 'Alberta', '404': 'Georgia', '405': 'Oklahoma',
-  '406': 'Montana', '407': 'Florida', '408': 'California', '409': 'Texas', '410': 'Maryland',
-  '412': 'Pennsylvania', '413': 'Massachusetts', '414': 'Wisconsin', '415': 'California', '416': 'Ontario',
-  '417': 'Missouri', '418': 'Quebec', '419': 'Ohio', '423': 'Tennessee', '424': 'California',
-  '425': 'Washington', '430': 'Texas', '432': 'Texas', '434': 'Virginia', '435': 'Utah',
-  '440': 'Ohio', '442': 'California', '443': 'Maryland', '458': 'Oregon', '469': 'Texas',
-  '470': 'Georgia', '475': 'Connecticut', '478': 'Georgia', '479': 'Arkansas', '480': 'Arizona',
-  '484': 'Pennsylvania', '501': 'Arkansas', '502': 'Kentucky', '503': 'Oregon', '504': 'Louisiana',
-  '505': 'New Mexico', '507': 'Minnesota', '508': 'Massachusetts', '509': 'Washington', '510': 'California',
-  '512': 'Texas', '513': 'Ohio', '515': 'Iowa', '516': 'New York', '517': 'Michigan',
-  '518': 'New York', '520': 'Arizona', '530': 'California', '540': 'Virginia', '541': 'Oregon',
-  '551': 'New Jersey', '559': 'California', '561': 'Florida', '562': 'California', '563': 'Iowa',
-  '567': 'Ohio', '570': 'Pennsylvania', '571': 'Virginia', '573': 'Missouri', '574': 'Indiana',
-  '575': 'New Mexico', '580': 'Oklahoma', '585': 'New York', '586': 'Michigan', '601': 'Mississippi',
-  '602': 'Arizona', '603': 'New Hampshire', '605': 'South Dakota', '606': 'Kentucky', '607': 'New York',
-  '608': 'Wisconsin', '609': 'New Jersey', '610': 'Pennsylvania', '612': 'Minnesota', '614': 'Ohio',
-  '615': 'Tennessee', '616': 'Michigan', '617': 'Massachusetts', '618': 'Illinois', '619': 'California',
-  '620': 'Kansas', '623': 'Arizona', '626': 'California', '628': 'California', '629': 'Tennessee',
-  '630': 'Illinois', '631': 'New York', '636': 'Missouri', '641': 'Iowa', '646': 'New York',
-  '650': 'California', '651': 'Minnesota', '657': 'California', '660': 'Missouri', '661': 'California',
-  '662': 'Mississippi', '667': 'Maryland', '669': 'California', '678': 'Georgia', '681': 'West Virginia',
-  '682': 'Texas', '701': 'North Dakota', '702': 'Nevada', '703': 'Virginia', '704': 'North Carolina',
-  '706': 'Georgia', '707': 'California', '708': 'Illinois', '712': 'Iowa', '713': 'Texas',
-  '714': 'California', '715': 'Wisconsin', '716': 'New York', '717': 'Pennsylvania', '718': 'New York',
-  '719': 'Colorado', '720': 'Colorado', '724': 'Pennsylvania', '725': 'Nevada', '727': 'Florida',
-  '731': 'Tennessee', '732': 'New Jersey', '734': 'Michigan', '737': 'Texas', '740': 'Ohio',
-  '747': 'California', '754': 'Florida', '757': 'Virginia', '760': 'California', '762': 'Georgia',
-  '763': 'Minnesota', '765': 'Indiana', '769': 'Mississippi', '770': 'Georgia', '772': 'Florida',
-  '773': 'Illinois', '774': 'Massachusetts', '775': 'Nevada', '781': 'Massachusetts', '785': 'Kansas',
-  '786': 'Florida', '787': 'Puerto Rico', '801': 'Utah', '802': 'Vermont', '803': 'South Carolina',
-  '804': 'Virginia', '805': 'California', '806': 'Texas', '808': 'Hawaii', '810': 'Michigan',
-  '812': 'Indiana', '813': 'Florida', '814': 'Pennsylvania', '815': 'Illinois', '816': 'Missouri',
-  '817': 'Texas', '818': 'California', '828': 'North Carolina', '830': 'Texas', '831': 'California',
-  '832': 'Texas', '843': 'South Carolina', '845': 'New York', '847': 'Illinois', '848': 'New Jersey',
-  '850': 'Florida', '856': 'New Jersey', '857': 'Massachusetts', '858': 'California', '859': 'Kentucky',
-  '860': 'Connecticut', '862': 'New Jersey', '863': 'Florida', '864': 'South Carolina', '865': 'Tennessee',
-  '870': 'Arkansas', '872': 'Illinois', '878': 'Pennsylvania', '901': 'Tennessee', '903': 'Texas',
-  '904': 'Florida', '906': 'Michigan', '907': 'Alaska', '908': 'New Jersey', '909': 'California',
-  '910': 'North Carolina', '912': 'Georgia', '913': 'Kansas', '914': 'New York', '915': 'Texas',
-  '916': 'California', '917': 'New York', '918': 'Oklahoma', '919': 'North Carolina', '920': 'Wisconsin',
-  '925': 'California', '928': 'Arizona', '929': 'New York', '930': 'Indiana', '931': 'Tennessee',
-  '934': 'New York', '936': 'Texas', '937': 'Ohio', '938': 'Alabama', '940': 'Texas',
-  '941': 'Florida', '947': 'Michigan', '949': 'California', '951': 'California', '952': 'Minnesota',
-  '954': 'Florida', '956': 'Texas', '959': 'Connecticut', '970': 'Colorado', '971': 'Oregon',
-  '972': 'Texas', '973': 'New Jersey', '978': 'Massachusetts', '979': 'Texas', '980': 'North Carolina',
-  '984': 'North Carolina', '985': 'Louisiana', '989': 'Michigan'
+// How often to re-fetch stats when the live stream is unavailable (or filters are active)
+const POLL_INTERVAL_MS = 60 * 1000
+
+// Sum one top list across the per-source results, keeping each source's calls for the stacked bars.
+// A source only reports its own top list, so an entry outside it counts as zero for that source.
+function mergeSourceTop<T extends { count: number; percentage: number; bySource?: Record<string, number> }>(
+  sources: string[],
+  lists: T[][],
+  keyOf: (item: T) => string,
+  totalCalls: number,
+  limit: number
+): T[] {
+  const rows = new Map<string, T>()
+  lists.forEach((list, index) => {
+    list.forEach(item => {
+      const key = keyOf(item)
+      const row: any = rows.get(key) || { ...item, bySource: {} }
+      if (rows.has(key)) {
+        for (const [field, value] of Object.entries(item)) {
+          if (typeof value === 'number') row[field] += value
+        }
+      }
+      row.bySource[sources[index]] = item.count
+      rows.set(key, row)
+    })
+  })
+  return Array.from(rows.values())
+    .map(row => ({ ...row, percentage: totalCalls ? (row.count / totalCalls) * 100 : 0 }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
 }
 
+const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4', '#84CC16', '#F97316', '#EC4899', '#6366F1']
+
 export default function DashboardPage() {
   const navigate = useNavigate();
   const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<any>();
-  const { selectedDataSource } = useData()
+  const { selectedDataSource, isAllSources, permittedDataSources, filters, setFilters } = useData()
+  const { getLabel } = useDataSources()
+  const { formatTime, formatDateTime, timeZone } = usePreferences()
+  const { connect, disconnect, connectionStatus, dashboardData: liveData, lastUpdate } = useRealtime()
+  const { hasRates } = useRates()
   const [data, setData] = useState<DashboardData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  // Filters UI state
-  const [showFilters, setShowFilters] = useState(false)
-  const [dashFilters, setDashFilters] = useState<{
-    dateFrom?: string
-    dateTo?: string
-    callType?: string
-    extension?: string
-    areaCode?: string
-    minDurationSec?: number
-    maxDurationSec?: number
-    minCost?: number
-    maxCost?: number
-  }>({})
-  const [localFilters, setLocalFilters] = useState<{
-    dateFrom?: string
-    dateTo?: string
-    callType?: string
-    extension?: string
-    areaCode?: string
-    minDurationSec?: string | number
-    maxDurationSec?: string | number
-    minCost?: string | number
-    maxCost?: string | number
-  }>({})
-
-  // Sync local filter editor when opening the panel
+  // Period-over-period comparison for the KPI cards
+  const [compareMode, setCompareMode] = useState<CompareMode>('none')
+  // Instants picked in the preference timezone, like the global date filter
+  const [customBaseline, setCustomBaseline] = useState<Partial<DateRange>>({})
+  const [isBaselinePickerOpen, setIsBaselinePickerOpen] = useState(false)
+  const [baseline, setBaseline] = useState<DashboardData['summary'] | null>(null)
+  const [isBaselineLoading, setIsBaselineLoading] = useState(false)
+  const [sparkData, setSparkData] = useState<CallTrend[]>([])
+
+  // The stream only carries unfiltered totals, so live updates apply when no filters are set
+  const hasFilters = Object.keys(toFilterParams(filters)).length > 0
+
+  // Push the current data already reflects: a fetch supersedes every push received before it
+  const latestUpdateRef = useRef(lastUpdate)
+  latestUpdateRef.current = lastUpdate
+  const liveDataRef = useRef(liveData)
+  liveDataRef.current = liveData
+  const appliedUpdateRef = useRef<string | null>(null)
+
+  // Initial data fetch
   useEffect(() => {
-    if (!showFilters) return
-    setLocalFilters({
-      dateFrom: dashFilters.dateFrom || '',
-      dateTo: dashFilters.dateTo || '',
-      callType: dashFilters.callType || '',
-      extension: dashFilters.extension || '',
-      areaCode: dashFilters.areaCode || '',
-      minDurationSec: typeof dashFilters.minDurationSec === 'number' ? dashFilters.minDurationSec : '',
-      maxDurationSec: typeof dashFilters.maxDurationSec === 'number' ? dashFilters.maxDurationSec : '',
-      minCost: typeof dashFilters.minCost === 'number' ? dashFilters.minCost : '',
-      maxCost: typeof dashFilters.maxCost === 'number' ? dashFilters.maxCost : ''
-    })
-  }, [showFilters, dashFilters])
+    if (!selectedDataSource) return
+    fetchDashboardData()
+  }, [selectedDataSource, filters, timeZone])
+
+  // Subscribe to the realtime stream for the selected data source while the dashboard is open.
+  // The stream is per PBX, so the combined view polls instead.
+  useEffect(() => {
+    if (!selectedDataSource || isAllSources) return
+    connect(selectedDataSource)
+    return () => disconnect()
+  }, [selectedDataSource, isAllSources])
+
+  // Merge each new push into the current view once; toggling filters or sources must not replay an old one
+  useEffect(() => {
+    if (!liveData || hasFilters || isAllSources || lastUpdate === appliedUpdateRef.current) return
+    appliedUpdateRef.current = lastUpdate
+    setData(prev => prev ? { ...prev, ...liveData } : liveData)
+  }, [liveData, lastUpdate])
+
+  // Fall back to polling when the stream is down or cannot serve the active filters
+  useEffect(() => {
+    if (!selectedDataSource) return
+    if (connectionStatus === 'connected' && !hasFilters && !isAllSources) return
+    const timer = setInterval(() => fetchDashboardData(true), POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [selectedDataSource, isAllSources, connectionStatus, hasFilters, filters, timeZone])
+
+  const baselineRange = useMemo(
+    () => getBaselineRange(compareMode, { dateFrom: filters.dateFrom, dateTo: filters.dateTo }, customBaseline, timeZone),
+    [compareMode, filters.dateFrom, filters.dateTo, customBaseline, timeZone]
+  )
 
-  // Close dashboard filters popover with Escape
+  // Fetch the baseline period with the same filters as the current view
   useEffect(() => {
-    if (!showFilters) return
-    const onKey = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
-        e.preventDefault()
-        setShowFilters(false)
+    if (!selectedDataSource || !baselineRange) {
+      setBaseline(null)
+      return
+    }
+    let cancelled = false
+
+    const fetchBaseline = async () => {
+      try {
+        setIsBaselineLoading(true)
+        const stats = await requestStats(buildStatsParams(baselineRange))
+        if (!cancelled) setBaseline(stats.summary)
+      } catch (error: any) {
+        console.error('Error fetching baseline data:', error)
+        if (!cancelled) setBaseline(null)
+      } finally {
+        if (!cancelled) setIsBaselineLoading(false)
       }
     }
-    document.addEventListener('keydown', onKey)
-    return () => document.removeEventListener('keydown', onKey)
-  }, [showFilters])
 
-  // Initial data fetch
+    fetchBaseline()
+    return () => { cancelled = true }
+  }, [selectedDataSource, baselineRange, filters, timeZone])
+
+  // Sparklines for the KPI cards, only needed while comparing
   useEffect(() => {
-    if (!selectedDataSource) return
-    fetchDashboardData()
-  }, [selectedDataSource, dashFilters])
+    if (!selectedDataSource || compareMode === 'none') {
+      setSparkData([])
+      return
+    }
+    let cancelled = false
+
+    const fetchSparklines = async () => {
+      try {
+        const response = await dataService.getCallTrends({
+          ...toFilterParams(filters),
+          collection: selectedDataSource,
+          timezone: timeZone,
+          interval: defaultIntervalFor(filters.dateFrom, filters.dateTo)
+        })
+        if (!cancelled) setSparkData(response.trends || [])
+      } catch (error: any) {
+        console.error('Error fetching KPI sparklines:', error)
+        if (!cancelled) setSparkData([])
+      }
+    }
+
+    fetchSparklines()
+    return () => { cancelled = true }
+  }, [selectedDataSource, compareMode, filters, timeZone])
+
+  const sparkSeries = useMemo(() => sparkData.map(t => ({
+    ...t,
+    totalCost: t.totalCost || 0,
+    totalDuration: t.totalDuration || 0,
+    avgDuration: t.totalCalls ? (t.totalDuration || 0) / t.totalCalls : 0
+  })), [sparkData])
 
 
   const displayData = data;
 
-  const fetchDashboardData = async () => {
+  // Build query params from active filters, optionally for a different date range
+  const buildStatsParams = (range?: DateRange) => {
+    // The server buckets days in this zone, so totals match the quick ranges. A rolling range is
+    // resolved again on every request, so a poll after midnight moves "Today" to the new day.
+    const params: any = { collection: selectedDataSource, timezone: timeZone, ...toFilterParams(resolveDateFilters(filters, timeZone)) }
+    if (range) {
+      params.dateFrom = range.dateFrom
+      params.dateTo = range.dateTo
+    }
+    return params
+  }
+
+  const requestStats = (params: any) => dataService.getDashboardStats<DashboardData>(params)
+
+  // The combined view also fetches each source, so the area code and extension charts can split by source
+  const requestDashboard = async () => {
+    const params = buildStatsParams()
+    if (!isAllSources) return requestStats(params)
+    const [combined, ...perSource] = await Promise.all([
+      requestStats(params),
+      ...permittedDataSources.map(source => requestStats({ ...params, collection: source }))
+    ])
+    const totalCalls = combined.summary.totalCalls
+    return {
+      ...combined,
+      areaCodeDistribution: mergeSourceTop(
+        permittedDataSources, perSource.map(stats => stats.areaCodeDistribution), item => item.areaCode,
+        totalCalls, combined.areaCodeDistribution.length
+      ),
+      extensionDistribution: mergeSourceTop(
+        permittedDataSources, perSource.map(stats => stats.extensionDistribution), item => item.extension,
+        totalCalls, combined.extensionDistribution.length
+      )
+    }
+  }
+
+  const fetchDashboardData = async (isBackground = false) => {
     if (!selectedDataSource) return
     try {
-      setIsLoading(true)
-      setError(null)
-      console.log('🚀 Fetching dashboard data using MAGIC aggregation for collection:', selectedDataSource)
-
-      const token = localStorage.getItem('token')
-      if (!token) {
-        throw new Error('No authentication token found')
+      if (!isBackground) {
+        setIsLoading(true)
+        setError(null)
       }
+      console.log('🚀 Fetching dashboard data using MAGIC aggregation for collection:', selectedDataSource)
 
-      // Build query params from active filters
-      const params: any = { collection: selectedDataSource }
-      if (dashFilters.dateFrom) params.dateFrom = dashFilters.dateFrom
-      if (dashFilters.dateTo) params.dateTo = dashFilters.dateTo
-      if (dashFilters.callType) params.callType = dashFilters.callType
-      if (dashFilters.extension) params.extension = dashFilters.extension
-      if (dashFilters.areaCode) params.areaCode = dashFilters.areaCode
-      if (typeof dashFilters.minDurationSec === 'number') params.minDurationSec = dashFilters.minDurationSec
-      if (typeof dashFilters.maxDurationSec === 'number') params.maxDurationSec = dashFilters.maxDurationSec
-      if (typeof dashFilters.minCost === 'number') params.minCost = dashFilters.minCost
-      if (typeof dashFilters.maxCost === 'number') params.maxCost = dashFilters.maxCost
-
-      // Use the new powerful aggregation endpoint
-      const response = await axios.get(`${API_BASE_URL}/dashboard/stats`, {
-        params,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      })
-
-      if (response.data.success) {
-        setData(response.data.data)
-        console.log(`✨ Dashboard data loaded in ${response.data.processingTime}ms`)
-      } else {
-        throw new Error(response.data.error || 'Failed to fetch dashboard data')
-      }
+      // Only pushes received before the request are covered by its response; a later one is merged on top
+      const seenUpdate = latestUpdateRef.current
+      const next = await requestDashboard()
+      const pushedSince = latestUpdateRef.current !== seenUpdate && !hasFilters && !isAllSources ? liveDataRef.current : null
+      setData(pushedSince ? { ...next, ...pushedSince } : next)
+      appliedUpdateRef.current = pushedSince ? latestUpdateRef.current : seenUpdate
 
     } catch (error: any) {
       console.error('Error fetching dashboard data:', error)
-      setError(`Failed to load dashboard data: ${error.response?.data?.error || error.message}`)
+      // Keep showing the last good data when a background poll fails
+      if (!isBackground) {
+        setError(`Failed to load dashboard data: ${getErrorMessage(error, 'request failed')}`)
+      }
     } finally {
-      setIsLoading(false)
+      if (!isBackground) setIsLoading(false)
     }
   }
 
@@ -271,96 +324,34 @@ export default function DashboardPage() {
     fetchDashboardData()
   }
 
+  const liveStatus = (() => {
+    if (connectionStatus === 'connected' && !hasFilters) {
+      return { label: 'Live', dot: 'bg-green-500', text: 'text-green-700 dark:text-green-300' }
+    }
+    if (connectionStatus === 'connecting') {
+      return { label: 'Connecting', dot: 'bg-yellow-400 animate-pulse', text: 'text-yellow-700 dark:text-yellow-300' }
+    }
+    return { label: 'Polling', dot: 'bg-gray-400', text: 'text-gray-600 dark:text-gray-300' }
+  })()
+
 
-  // Handle area code click to navigate to filtered call logs
+  // Handle area code click to open that area code's detail page
   const handleAreaCodeClick = (areaCode: string) => {
-    navigate(`/reports/call-logs?areaCode=${encodeURIComponent(areaCode)}`)
+    navigate(`/reports/area-codes/${encodeURIComponent(areaCode)}`)
   }
 
-  // Handle extension click to navigate to filtered call logs
+  // Handle extension click to open that extension's detail page
   const handleExtensionClick = (extension: string) => {
-    navigate(`/reports/call-logs?extension=${encodeURIComponent(extension)}`)
+    navigate(`/reports/extensions/${encodeURIComponent(extension)}`)
   }
 
-  // Handle state click to navigate to area codes filtered by state
+  // Handle state click to open that state's detail page
   const handleStateClick = (state: string) => {
-    navigate(`/reports/area-codes?state=${encodeURIComponent(state)}`)
-  }
-
-  // Normalize area code to 3-digit NPA (e.g., "+1 (323)" -> "323")
-  const normalizeAreaCode = (ac: string) => {
-    const digits = (ac || '').replace(/\D/g, '')
-    if (digits.length >= 4 && digits.startsWith('1')) return digits.slice(1, 4)
-    return digits.slice(0, 3)
+    // "Unknown" and "Toll-free" slices have no page
+    if (!findRegion(state)) return
+    navigate(`/reports/area-codes/state/${encodeURIComponent(state)}`)
   }
 
-  // Helpers for quick date presets (match Call Logs behavior)
-  const toLocalInput = (d: Date) => {
-    const pad = (n: number) => String(n).padStart(2, '0')
-    const yyyy = d.getFullYear()
-    const mm = pad(d.getMonth() + 1)
-    const dd = pad(d.getDate())
-    const hh = pad(d.getHours())
-    const mi = pad(d.getMinutes())
-    return `${yyyy}-${mm}-${dd}T${hh}:${mi}`
-  }
-
-  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 0, 0)
-  const endOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 23, 59)
-
-  const applyQuick = (range: 'today' | 'yesterday' | 'thisMonth' | 'lastMonth' | 'last3months' | 'thisYear') => {
-    const now = new Date()
-    let from: Date
-    let to: Date
-
-    switch (range) {
-      case 'today': {
-        from = startOfDay(now)
-        to = endOfDay(now)
-        break
-      }
-      case 'yesterday': {
-        const y = new Date(now)
-        y.setDate(y.getDate() - 1)
-        from = startOfDay(y)
-        to = endOfDay(y)
-        break
-      }
-      case 'thisMonth': {
-        from = new Date(now.getFullYear(), now.getMonth(), 1, 0, 0)
-        to = endOfDay(now)
-        break
-      }
-      case 'lastMonth': {
-        from = new Date(now.getFullYear(), now.getMonth() - 1, 1, 0, 0)
-        // Day 0 of current month = last day of previous month
-        to = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59)
-        break
-      }
-      case 'last3months': {
-        // From start of the month two months ago (covers current + last two months)
-        from = new Date(now.getFullYear(), now.getMonth() - 2, 1, 0, 0)
-        to = endOfDay(now)
-        break
-      }
-      case 'thisYear': {
-        // Use a broader range that includes 2024 data
-        from = new Date(2024, 0, 1, 0, 0)  // Start from 2024
-        to = endOfDay(now)
-        break
-      }
-      default: {
-        from = startOfDay(now)
-        to = endOfDay(now)
-      }
-    }
-
-    setLocalFilters(prev => ({
-      ...prev,
-      dateFrom: toLocalInput(from),
-      dateTo: toLocalInput(to)
-    }))
-  }
   // Compute states distribution and total unique codes from area codes
   const computeStatesData = () => {
     if (!displayData?.areaCodeDistribution) return { statesArray: [] as any[], totalUniqueCodes: 0 }
@@ -373,7 +364,7 @@ export default function DashboardPage() {
       if (!raw || raw === 'null' || raw === '0' || String(raw).trim() === '') return
       const npa = normalizeAreaCode(String(raw))
       if (!npa) return
-      const state = areaCodeToState[npa] || 'Unknown'
+      const state = isTollFree(npa) ? 'Toll-free' : stateForAreaCode(npa) || 'Unknown'
 
       if (!stateMap[state]) stateMap[state] = { count: 0, areaCodes: new Set() }
       stateMap[state].count += item.count
@@ -429,8 +420,14 @@ export default function DashboardPage() {
           <div className="space-y-1">
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-600 dark:text-gray-400">Calls:</span>
-              <span className="font-medium text-blue-600 dark:text-blue-400">{formatNumber(payload[0].value)}</span>
+              <span className="font-medium text-blue-600 dark:text-blue-400">{formatNumber(data.count ?? payload[0].value)}</span>
             </div>
+            {payload.length > 1 && payload.map((entry: any) => (
+              <div key={entry.dataKey} className="flex justify-between items-center">
+                <span className="text-sm text-gray-600 dark:text-gray-400">{entry.name}:</span>
+                <span className="font-medium" style={{ color: entry.color }}>{formatNumber(entry.value)}</span>
+              </div>
+            ))}
             {data.percentage && (
               <div className="flex justify-between items-center">
                 <span className="text-sm text-gray-600 dark:text-gray-400">Percentage:</span>
@@ -566,16 +563,28 @@ export default function DashboardPage() {
     item.extension && item.extension !== 'null' && item.extension !== '0' && item.extension.trim() !== ''
   )
   
+  // One stacked series per source in the combined view
+  const sourceSeries = isAllSources
+    ? permittedDataSources.map((source, index) => ({ source, key: `source${index}`, label: getLabel(source), color: SOURCE_COLORS[index % SOURCE_COLORS.length] }))
+    : []
+  const withSourceKeys = <T extends { bySource?: Record<string, number> }>(item: T) =>
+    sourceSeries.length > 0 ? { ...item, ...Object.fromEntries(sourceSeries.map(({ source, key }) => [key, item.bySource?.[source] || 0])) } : item
+  const areaCodeChartData = areaCodeDistribution.map(withSourceKeys)
+  const extensionChartData = extensionDistribution.map(withSourceKeys)
+
   // Keep original summary count (don't modify it)
   const updatedSummary = {
     ...summary,
     uniqueAreaCodes: summary.uniqueAreaCodes - 1 // Just subtract 1 for the empty area code
   }
+  const baselineSummary = baseline ? { ...baseline, uniqueAreaCodes: baseline.uniqueAreaCodes - 1 } : undefined
+  const showSparklines = compareMode !== 'none'
 
   return (
     <div className="min-h-screen p-6 space-y-8 pb-16">
       {/* Header */}
-      <div className="flex justify-between items-center sticky top-0 bg-gray-50 dark:bg-gray-900 py-4 z-10 border-b border-gray-200 dark:border-gray-700">
+      <div className="sticky top-0 bg-gray-50 dark:bg-gray-900 z-10 border-b border-gray-200 dark:border-gray-700">
+      <div className="flex justify-between items-center py-4">
         <div className="flex items-center gap-4">
           {/* Mobile menu button */}
           <button
@@ -624,238 +633,87 @@ export default function DashboardPage() {
           </h1>
         </div>
         <div className="flex items-center gap-3">
+          <span
+            className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 ${liveStatus.text}`}
+            title={
+              hasFilters && connectionStatus === 'connected'
+                ? 'Live updates paused while filters are applied'
+                : lastUpdate ? `Last live update: ${formatTime(lastUpdate)}` : `Stream ${connectionStatus}`
+            }
+          >
+            <span className={`h-2 w-2 rounded-full ${liveStatus.dot}`} />
+            {liveStatus.label}
+          </span>
+          <button
+            onClick={handleRefresh}
+            disabled={isLoading}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+          >
+            <FontAwesomeIcon icon={faSync} className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+      <FilterBar className="pb-3" />
+      </div>
+
+      {/* Comparison baseline */}
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-sm text-gray-600 dark:text-gray-400">Compare to</label>
+        <select
+          value={compareMode}
+          onChange={(e) => setCompareMode(e.target.value as CompareMode)}
+          className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
+        >
+          {COMPARE_MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>{mode.label}</option>
+          ))}
+        </select>
+        {compareMode === 'custom' && (
           <div className="relative">
             <button
-              onClick={() => setShowFilters(!showFilters)}
-              className={`inline-flex items-center px-4 py-2 border shadow-sm text-sm leading-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
-                showFilters
-                  ? 'border-indigo-500 text-indigo-700 bg-indigo-50 dark:bg-indigo-900 dark:text-indigo-200 dark:border-indigo-400'
-                  : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600'
-              }`}
+              type="button"
+              onClick={() => setIsBaselinePickerOpen(!isBaselinePickerOpen)}
+              aria-expanded={isBaselinePickerOpen}
+              className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
             >
-              Filters
+              {customBaseline.dateFrom && customBaseline.dateTo ? 'Change baseline dates' : 'Pick baseline dates'}
             </button>
-            {showFilters && (
+            {isBaselinePickerOpen && (
               <div
-                className="absolute right-0 mt-2 w-[28rem] bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50 max-h-[80vh] overflow-auto p-4"
+                className="absolute left-0 mt-2 w-[36rem] max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50 p-4"
                 role="dialog"
-                aria-modal="true"
-                tabIndex={-1}
-                onKeyDown={(e) => {
-                  if (e.key === 'Escape') {
-                    e.stopPropagation()
-                    setShowFilters(false)
-                  }
-                }}
+                aria-label="Baseline dates"
               >
-                <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">Dashboard Filters</h3>
-
-                {/* Quick date presets */}
-                <div className="mb-3">
-                  <div className="text-xs text-gray-600 dark:text-gray-400 mb-1">Quick date presets</div>
-                  <div className="flex flex-wrap gap-2">
-                    <button
-                      type="button"
-                      onClick={() => applyQuick('today')}
-                      className="px-2.5 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
-                    >
-                      Today
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => applyQuick('yesterday')}
-                      className="px-2.5 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
-                    >
-                      Yesterday
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => applyQuick('thisMonth')}
-                      className="px-2.5 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
-                    >
-                      This Month
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => applyQuick('lastMonth')}
-                      className="px-2.5 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
-                    >
-                      Last Month
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => applyQuick('last3months')}
-                      className="px-2.5 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
-                    >
-                      Last 3 months
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => applyQuick('thisYear')}
-                      className="px-2.5 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
-                    >
-                      This year
-                    </button>
-                  </div>
-                </div>
-
-                <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Date From</label>
-                    <input
-                      type="datetime-local"
-                      value={localFilters.dateFrom as any || ''}
-                      onChange={(e) => setLocalFilters(prev => ({ ...prev, dateFrom: e.target.value }))}
-                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Date To</label>
-                    <input
-                      type="datetime-local"
-                      value={localFilters.dateTo as any || ''}
-                      onChange={(e) => setLocalFilters(prev => ({ ...prev, dateTo: e.target.value }))}
-                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Call Type</label>
-                    <select
-                      value={localFilters.callType || ''}
-                      onChange={(e) => setLocalFilters(prev => ({ ...prev, callType: e.target.value || undefined }))}
-                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                    >
-                      <option value="">All</option>
-                      <option value="incoming">Incoming</option>
-                      <option value="outgoing">Outgoing</option>
-                      <option value="internal">Internal</option>
-                    </select>
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Extension</label>
-                    <input
-                      type="text"
-                      value={localFilters.extension as any || ''}
-                      onChange={(e) => setLocalFilters(prev => ({ ...prev, extension: e.target.value }))}
-                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Area Code</label>
-                    <input
-                      type="text"
-                      value={localFilters.areaCode as any || ''}
-                      onChange={(e) => setLocalFilters(prev => ({ ...prev, areaCode: e.target.value }))}
-                      placeholder="e.g. 323"
-                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Min Duration (sec)</label>
-                    <input
-                      type="number"
-                      min={0}
-                      value={localFilters.minDurationSec as any || ''}
-                      onChange={(e) => setLocalFilters(prev => ({ ...prev, minDurationSec: e.target.value }))}
-                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Max Duration (sec)</label>
-                    <input
-                      type="number"
-                      min={0}
-                      value={localFilters.maxDurationSec as any || ''}
-                      onChange={(e) => setLocalFilters(prev => ({ ...prev, maxDurationSec: e.target.value }))}
-                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Min Cost</label>
-                    <input
-                      type="number"
-                      min={0}
-                      step="0.01"
-                      value={localFilters.minCost as any || ''}
-                      onChange={(e) => setLocalFilters(prev => ({ ...prev, minCost: e.target.value }))}
-                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Max Cost</label>
-                    <input
-                      type="number"
-                      min={0}
-                      step="0.01"
-                      value={localFilters.maxCost as any || ''}
-                      onChange={(e) => setLocalFilters(prev => ({ ...prev, maxCost: e.target.value }))}
-                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                    />
-                  </div>
-                </div>
-                <div className="mt-4 flex justify-between">
+                <DateRangePicker
+                  presets={false}
+                  value={customBaseline}
+                  onChange={({ dateFrom, dateTo }) => setCustomBaseline({ dateFrom, dateTo })}
+                />
+                <div className="mt-3 flex justify-end">
                   <button
-                    onClick={() => {
-                      setDashFilters({})
-                      setShowFilters(false)
-                    }}
-                    className="px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    type="button"
+                    onClick={() => setIsBaselinePickerOpen(false)}
+                    className="px-3 py-1 text-xs font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
                   >
-                    Clear All
+                    Done
                   </button>
-                  <div className="space-x-2">
-                    <button
-                      onClick={() => setShowFilters(false)}
-                      className="px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
-                    >
-                      Cancel
-                    </button>
-                    <button
-                      onClick={() => {
-                        // Convert datetime-local values to ISO strings for backend
-                        const convertToISO = (dateTimeLocal: string) => {
-                          if (!dateTimeLocal) return undefined;
-                          try {
-                            // datetime-local format: YYYY-MM-DDTHH:mm
-                            // Convert to ISO string for backend
-                            return new Date(dateTimeLocal).toISOString();
-                          } catch (error) {
-                            console.warn('Invalid date format:', dateTimeLocal);
-                            return undefined;
-                          }
-                        };
-
-                        setDashFilters({
-                          dateFrom: convertToISO(localFilters.dateFrom as string),
-                          dateTo: convertToISO(localFilters.dateTo as string),
-                          callType: localFilters.callType || undefined,
-                          extension: localFilters.extension || undefined,
-                          areaCode: localFilters.areaCode || undefined,
-                          minDurationSec: localFilters.minDurationSec ? Number(localFilters.minDurationSec) : undefined,
-                          maxDurationSec: localFilters.maxDurationSec ? Number(localFilters.maxDurationSec) : undefined,
-                          minCost: localFilters.minCost ? Number(localFilters.minCost) : undefined,
-                          maxCost: localFilters.maxCost ? Number(localFilters.maxCost) : undefined
-                        })
-                        setShowFilters(false)
-                      }}
-                      className="px-3 py-1.5 text-xs rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
-                    >
-                      Apply
-                    </button>
-                  </div>
                 </div>
               </div>
             )}
           </div>
-          <button
-            onClick={handleRefresh}
-            disabled={isLoading}
-            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
-          >
-            <FontAwesomeIcon icon={faSync} className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-            Refresh
-          </button>
-        </div>
+        )}
+        {compareMode !== 'none' && !baselineRange && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {compareMode === 'custom' ? 'Pick both baseline dates' : 'Set a start date in Filters to compare periods'}
+          </span>
+        )}
+        {baselineRange && (
+          <span className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-2">
+            Baseline: {formatDateTime(baselineRange.dateFrom)} – {formatDateTime(baselineRange.dateTo)}
+            {isBaselineLoading && <FontAwesomeIcon icon={faSync} className="h-3 w-3 animate-spin" />}
+          </span>
+        )}
       </div>
 
       {/* Key Performance Indicators */}
@@ -869,29 +727,33 @@ export default function DashboardPage() {
             <div className="flex-1 min-w-0">
               <h3 className="text-xs sm:text-sm font-medium text-blue-600 dark:text-blue-400 truncate">Total Calls</h3>
               <p className="text-lg sm:text-2xl lg:text-3xl font-bold text-blue-700 dark:text-blue-300 leading-tight">{formatNumber(summary.totalCalls)}</p>
+              <KpiDelta current={summary.totalCalls} baseline={baselineSummary?.totalCalls} format={formatNumber} />
             </div>
             <div className="p-2 sm:p-3 bg-blue-600 rounded-full flex-shrink-0 ml-2">
               <FontAwesomeIcon icon={faPhone} className="h-3 w-3 sm:h-4 sm:w-4 lg:h-6 lg:w-6 text-white" />
             </div>
           </div>
           <p className="text-xs text-blue-500 dark:text-blue-400 truncate">All records</p>
+          {showSparklines && <KpiSparkline data={sparkSeries} dataKey="totalCalls" color="#2563EB" />}
         </div>
         
         {/* Outgoing Calls */}
         <div 
           className="bg-gradient-to-br from-orange-50 to-orange-100 dark:from-orange-900/20 dark:to-orange-800/20 p-3 sm:p-4 lg:p-6 rounded-lg shadow-sm border border-orange-200 dark:border-orange-700 hover:shadow-md transition-all duration-200 cursor-pointer min-h-[120px] flex flex-col justify-between"
-          onClick={() => navigate('/reports/call-logs?type=outgoing')}
+          onClick={() => navigate(callLogsLink({ ...filters, callType: 'outgoing' }))}
         >
           <div className="flex items-start justify-between mb-2">
             <div className="flex-1 min-w-0">
               <h3 className="text-xs sm:text-sm font-medium text-orange-600 dark:text-orange-400 truncate">Outgoing Calls</h3>
               <p className="text-lg sm:text-2xl lg:text-3xl font-bold text-orange-700 dark:text-orange-300 leading-tight">{formatNumber(summary.outgoingCalls)}</p>
+              <KpiDelta current={summary.outgoingCalls} baseline={baselineSummary?.outgoingCalls} format={formatNumber} />
             </div>
             <div className="p-2 sm:p-3 bg-orange-600 rounded-full flex-shrink-0 ml-2">
               <FontAwesomeIcon icon={faArrowUp} className="h-3 w-3 sm:h-4 sm:w-4 lg:h-6 lg:w-6 text-white" />
             </div>
           </div>
           <p className="text-xs text-orange-500 dark:text-orange-400 truncate">{summary.outgoingPercentage.toFixed(1)}% of total</p>
+          {showSparklines && <KpiSparkline data={sparkSeries} dataKey="outgoingCalls" color="#EA580C" />}
         </div>
 
         {/* Unique Area Codes */}
@@ -903,6 +765,7 @@ export default function DashboardPage() {
             <div className="flex-1 min-w-0">
               <h3 className="text-xs sm:text-sm font-medium text-indigo-600 dark:text-indigo-400 truncate">Area Codes</h3>
               <p className="text-lg sm:text-2xl lg:text-3xl font-bold text-indigo-700 dark:text-indigo-300 leading-tight">{formatNumber(updatedSummary.uniqueAreaCodes)}</p>
+              <KpiDelta current={updatedSummary.uniqueAreaCodes} baseline={baselineSummary?.uniqueAreaCodes} format={formatNumber} />
             </div>
             <div className="p-2 sm:p-3 bg-indigo-600 rounded-full flex-shrink-0 ml-2">
               <FontAwesomeIcon icon={faMapMarkerAlt} className="h-3 w-3 sm:h-4 sm:w-4 lg:h-6 lg:w-6 text-white" />
@@ -917,12 +780,18 @@ export default function DashboardPage() {
             <div className="flex-1 min-w-0">
               <h3 className="text-xs sm:text-sm font-medium text-red-600 dark:text-red-400 truncate">Total Cost</h3>
               <p className="text-lg sm:text-2xl lg:text-3xl font-bold text-red-700 dark:text-red-300 leading-tight">{formatCurrency(summary.totalCost)}</p>
+              <KpiDelta current={summary.totalCost} baseline={baselineSummary?.totalCost} format={formatCurrency} invert />
             </div>
             <div className="p-2 sm:p-3 bg-red-600 rounded-full flex-shrink-0 ml-2">
               <FontAwesomeIcon icon={faDollarSign} className="h-3 w-3 sm:h-4 sm:w-4 lg:h-6 lg:w-6 text-white" />
             </div>
           </div>
-          <p className="text-xs text-red-500 dark:text-red-400 truncate">Call expenses</p>
+          {hasRates ? (
+            <Link to="/reports/rated-cost" className="text-xs text-red-500 dark:text-red-400 truncate hover:underline">As reported by the PBX · compare rated cost</Link>
+          ) : (
+            <p className="text-xs text-red-500 dark:text-red-400 truncate">Call expenses</p>
+          )}
+          {showSparklines && <KpiSparkline data={sparkSeries} dataKey="totalCost" color="#DC2626" />}
         </div>
 
         {/* Total Call Time */}
@@ -931,29 +800,33 @@ export default function DashboardPage() {
             <div className="flex-1 min-w-0">
               <h3 className="text-xs sm:text-sm font-medium text-purple-600 dark:text-purple-400 truncate">Call Time</h3>
               <p className="text-lg sm:text-2xl lg:text-3xl font-bold text-purple-700 dark:text-purple-300 leading-tight">{formatDuration(summary.totalDuration)}</p>
+              <KpiDelta current={summary.totalDuration} baseline={baselineSummary?.totalDuration} format={formatDuration} />
             </div>
             <div className="p-2 sm:p-3 bg-purple-600 rounded-full flex-shrink-0 ml-2">
               <FontAwesomeIcon icon={faStopwatch} className="h-3 w-3 sm:h-4 sm:w-4 lg:h-6 lg:w-6 text-white" />
             </div>
           </div>
           <p className="text-xs text-purple-500 dark:text-purple-400 truncate">Sum of all calls</p>
+          {showSparklines && <KpiSparkline data={sparkSeries} dataKey="totalDuration" color="#9333EA" />}
         </div>
 
         {/* Incoming Calls */}
         <div 
           className="bg-gradient-to-br from-green-50 to-green-100 dark:from-green-900/20 dark:to-green-800/20 p-3 sm:p-4 lg:p-6 rounded-lg shadow-sm border border-green-200 dark:border-green-700 hover:shadow-md transition-all duration-200 cursor-pointer min-h-[120px] flex flex-col justify-between"
-          onClick={() => navigate('/reports/call-logs?type=incoming')}
+          onClick={() => navigate(callLogsLink({ ...filters, callType: 'incoming' }))}
         >
           <div className="flex items-start justify-between mb-2">
             <div className="flex-1 min-w-0">
               <h3 className="text-xs sm:text-sm font-medium text-green-600 dark:text-green-400 truncate">Incoming Calls</h3>
               <p className="text-lg sm:text-2xl lg:text-3xl font-bold text-green-700 dark:text-green-300 leading-tight">{formatNumber(summary.incomingCalls)}</p>
+              <KpiDelta current={summary.incomingCalls} baseline={baselineSummary?.incomingCalls} format={formatNumber} />
             </div>
             <div className="p-2 sm:p-3 bg-green-600 rounded-full flex-shrink-0 ml-2">
               <FontAwesomeIcon icon={faArrowDown} className="h-3 w-3 sm:h-4 sm:w-4 lg:h-6 lg:w-6 text-white" />
             </div>
           </div>
           <p className="text-xs text-green-500 dark:text-green-400 truncate">{summary.incomingPercentage.toFixed(1)}% of total</p>
+          {showSparklines && <KpiSparkline data={sparkSeries} dataKey="incomingCalls" color="#16A34A" />}
         </div>
 
         {/* Unique Extensions */}
@@ -962,6 +835,7 @@ export default function DashboardPage() {
             <div className="flex-1 min-w-0">
               <h3 className="text-xs sm:text-sm font-medium text-cyan-600 dark:text-cyan-400 truncate">Extensions</h3>
               <p className="text-lg sm:text-2xl lg:text-3xl font-bold text-cyan-700 dark:text-cyan-300 leading-tight">{formatNumber(summary.uniqueExtensions)}</p>
+              <KpiDelta current={summary.uniqueExtensions} baseline={baselineSummary?.uniqueExtensions} format={formatNumber} />
             </div>
             <div className="p-2 sm:p-3 bg-cyan-600 rounded-full flex-shrink-0 ml-2">
               <FontAwesomeIcon icon={faUsers} className="h-3 w-3 sm:h-4 sm:w-4 lg:h-6 lg:w-6 text-white" />
@@ -978,17 +852,26 @@ export default function DashboardPage() {
             <div className="flex-1 min-w-0">
               <h3 className="text-xs sm:text-sm font-medium text-yellow-600 dark:text-yellow-400 truncate">Avg Duration</h3>
               <p className="text-lg sm:text-2xl lg:text-3xl font-bold text-yellow-700 dark:text-yellow-300 leading-tight">{formatDuration(summary.avgDuration)}</p>
+              <KpiDelta current={summary.avgDuration} baseline={baselineSummary?.avgDuration} format={formatDuration} />
             </div>
             <div className="p-2 sm:p-3 bg-yellow-600 rounded-full flex-shrink-0 ml-2">
               <FontAwesomeIcon icon={faClock} className="h-3 w-3 sm:h-4 sm:w-4 lg:h-6 lg:w-6 text-white" />
             </div>
           </div>
           <p className="text-xs text-yellow-500 dark:text-yellow-400 truncate">Per call average</p>
+          {showSparklines && <KpiSparkline data={sparkSeries} dataKey="avgDuration" color="#CA8A04" />}
         </div>
       </div>
 
       {/* Data Visualization Section */}
       <div className="space-y-8">
+        {/* Call Trends - Full Width */}
+        <CallTrendsPanel
+          collection={selectedDataSource}
+          filters={filters}
+          onRangeSelect={(dateFrom, dateTo) => setFilters({ dateFrom, dateTo })}
+        />
+
         {/* Area Code Distribution - Full Width */}
         <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
           <div className="flex items-center justify-between mb-6">
@@ -1007,7 +890,7 @@ export default function DashboardPage() {
           
           <div className="h-96">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={areaCodeDistribution} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
+              <BarChart data={areaCodeChartData} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
                 <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
                 <XAxis 
                   dataKey="areaCode" 
@@ -1019,21 +902,37 @@ export default function DashboardPage() {
                 />
                 <YAxis fontSize={12} tick={{ fill: 'currentColor' }} />
                 <Tooltip content={<CustomTooltip />} wrapperStyle={{ zIndex: 9999 }} />
-                <Bar 
-                  dataKey="count" 
-                  fill="#3B82F6" 
-                  radius={[4, 4, 0, 0]}
-                  className="hover:opacity-80 transition-opacity cursor-pointer"
-                  onClick={(data) => handleAreaCodeClick(data.areaCode)}
-                >
-                  <LabelList 
-                    dataKey="count" 
-                    position="top" 
-                    fontSize={12}
-                    className="fill-gray-700 dark:fill-gray-200"
-                    formatter={(value: any) => formatNumber(value)}
-                  />
-                </Bar>
+                {sourceSeries.length > 0 ? (
+                  sourceSeries.map(({ key, label, color }, index) => (
+                    <Bar
+                      key={key}
+                      dataKey={key}
+                      name={label}
+                      stackId="source"
+                      fill={color}
+                      radius={index === sourceSeries.length - 1 ? [4, 4, 0, 0] : undefined}
+                      className="hover:opacity-80 transition-opacity cursor-pointer"
+                      onClick={(data) => handleAreaCodeClick(data.areaCode)}
+                    />
+                  ))
+                ) : (
+                  <Bar
+                    dataKey="count"
+                    fill="#3B82F6"
+                    radius={[4, 4, 0, 0]}
+                    className="hover:opacity-80 transition-opacity cursor-pointer"
+                    onClick={(data) => handleAreaCodeClick(data.areaCode)}
+                  >
+                    <LabelList
+                      dataKey="count"
+                      position="top"
+                      fontSize={12}
+                      className="fill-gray-700 dark:fill-gray-200"
+                      formatter={(value: any) => formatNumber(value)}
+                    />
+                  </Bar>
+                )}
+                {sourceSeries.length > 0 && <Legend />}
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -1057,7 +956,7 @@ export default function DashboardPage() {
           
           <div className="h-96">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={extensionDistribution} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
+              <BarChart data={extensionChartData} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
                 <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
                 <XAxis 
                   dataKey="extension" 
@@ -1069,21 +968,37 @@ export default function DashboardPage() {
                 />
                 <YAxis fontSize={12} tick={{ fill: 'currentColor' }} />
                 <Tooltip content={<CustomTooltip />} />
-                <Bar 
-                  dataKey="count" 
-                  fill="#10B981" 
-                  radius={[4, 4, 0, 0]}
-                  className="hover:opacity-80 transition-opacity cursor-pointer"
-                  onClick={(data) => handleExtensionClick(data.extension)}
-                >
-                  <LabelList 
-                    dataKey="count" 
-                    position="top" 
-                    fontSize={12}
-                    className="fill-gray-700 dark:fill-gray-200"
-                    formatter={(value: any) => formatNumber(value)}
-                  />
-                </Bar>
+                {sourceSeries.length > 0 ? (
+                  sourceSeries.map(({ key, label, color }, index) => (
+                    <Bar
+                      key={key}
+                      dataKey={key}
+                      name={label}
+                      stackId="source"
+                      fill={color}
+                      radius={index === sourceSeries.length - 1 ? [4, 4, 0, 0] : undefined}
+                      className="hover:opacity-80 transition-opacity cursor-pointer"
+                      onClick={(data) => handleExtensionClick(data.extension)}
+                    />
+                  ))
+                ) : (
+                  <Bar
+                    dataKey="count"
+                    fill="#10B981"
+                    radius={[4, 4, 0, 0]}
+                    className="hover:opacity-80 transition-opacity cursor-pointer"
+                    onClick={(data) => handleExtensionClick(data.extension)}
+                  >
+                    <LabelList
+                      dataKey="count"
+                      position="top"
+                      fontSize={12}
+                      className="fill-gray-700 dark:fill-gray-200"
+                      formatter={(value: any) => formatNumber(value)}
+                    />
+                  </Bar>
+                )}
+                {sourceSeries.length > 0 && <Legend />}
               </BarChart>
             </ResponsiveContainer>
           </div>
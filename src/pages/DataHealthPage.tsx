@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { ArrowPathIcon } from '@heroicons/react/24/outline'
+import DynamicHeader from '../components/DynamicHeader'
+import { useData } from '../contexts/DataContext'
+import { useDataSources } from '../contexts/DataSourcesContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { dataSourceService } from '../services/dataSourceService'
+import type { DataSource, DataSourceHealth } from '../services/dataSourceService'
+import { getErrorMessage } from '../services/apiClient'
+import { DEFAULT_GAP_THRESHOLD_MINUTES, findGaps, formatGap, isQuiet, minutesSince } from '../lib/ingestion'
+import { formatInTimeZone } from '../lib/datetime'
+
+interface LayoutContext {
+  onMenuClick: () => void;
+  isSidebarCollapsed: boolean;
+  onToggleSidebar: () => void;
+}
+
+const RANGES = [
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' }
+]
+
+const HOUR_MS = 60 * 60 * 1000
+
+interface SourceHealthCardProps {
+  id: string
+  source?: DataSource
+  label: string
+  hours: number
+  refreshKey: number
+}
+
+function SourceHealthCard({ id, source, label, hours, refreshKey }: SourceHealthCardProps) {
+  const { timeZone, formatDateTime } = usePreferences()
+  const [health, setHealth] = useState<DataSourceHealth | null>(null)
+  const [checkedAt, setCheckedAt] = useState(() => new Date())
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const threshold = source?.gapThresholdMinutes || DEFAULT_GAP_THRESHOLD_MINUTES
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchHealth = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+        const result = await dataSourceService.getSourceHealth(id, { hours })
+        if (!cancelled) {
+          setHealth(result)
+          setCheckedAt(new Date())
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to load ingestion stats'))
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    fetchHealth()
+    return () => { cancelled = true }
+  }, [id, hours, refreshKey])
+
+  const { chartData, gaps, totalRecords } = useMemo(() => {
+    if (!health) return { chartData: [], gaps: [], totalRecords: 0 }
+    const to = checkedAt
+    const from = new Date(to.getTime() - hours * HOUR_MS)
+    const counts = new Map(health.hourly.map(bucket => [Math.floor(new Date(bucket.hour).getTime() / HOUR_MS) * HOUR_MS, bucket.records]))
+    // Every hour of the range, so empty hours show as gaps in the chart
+    const data = []
+    for (let hour = Math.floor(from.getTime() / HOUR_MS) * HOUR_MS; hour < to.getTime(); hour += HOUR_MS) {
+      data.push({
+        label: formatInTimeZone(new Date(hour), hours > 24 ? 'MMM d HH:mm' : 'HH:mm', timeZone),
+        records: counts.get(hour) || 0
+      })
+    }
+    return {
+      chartData: data,
+      gaps: findGaps(health.hourly, { from, to, thresholdMinutes: threshold, newestRecordAt: health.newestRecordAt }),
+      totalRecords: health.hourly.reduce((sum, bucket) => sum + bucket.records, 0)
+    }
+  }, [health, checkedAt, hours, threshold, timeZone])
+
+  const quiet = health ? isQuiet(health.newestRecordAt, threshold, checkedAt.getTime()) : false
+  const sinceNewest = health ? minutesSince(health.newestRecordAt, checkedAt.getTime()) : null
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{label}</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Reported quiet after {formatGap(threshold)} without a new call record
+            {source && !source.enabled && ' · disabled'}
+          </p>
+        </div>
+        {health && (
+          <span className={`inline-flex px-2.5 py-1 rounded-full text-xs font-medium ${
+            quiet
+              ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300'
+              : 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+          }`}>
+            {quiet ? 'Quiet' : 'Receiving records'}
+          </span>
+        )}
+      </div>
+
+      {error ? (
+        <div className="rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3 text-sm text-red-700 dark:text-red-300">{error}</div>
+      ) : isLoading && !health ? (
+        <div className="flex items-center justify-center h-48">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : health && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+            <div>
+              <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">Newest call record</h3>
+              <p className="text-sm font-semibold text-gray-900 dark:text-white">{health.newestRecordAt ? formatDateTime(health.newestRecordAt) : 'None'}</p>
+              {sinceNewest !== null && <p className="text-xs text-gray-500 dark:text-gray-400">{formatGap(sinceNewest)} ago</p>}
+            </div>
+            <div>
+              <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">Records in range</h3>
+              <p className="text-sm font-semibold text-gray-900 dark:text-white">{totalRecords.toLocaleString()}</p>
+            </div>
+            <div>
+              <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">Gaps over {formatGap(threshold)}</h3>
+              <p className="text-sm font-semibold text-gray-900 dark:text-white">{gaps.length}</p>
+            </div>
+          </div>
+
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" vertical={false} />
+                <XAxis dataKey="label" fontSize={11} tick={{ fill: 'currentColor' }} minTickGap={24} />
+                <YAxis fontSize={11} tick={{ fill: 'currentColor' }} allowDecimals={false} />
+                <Tooltip wrapperStyle={{ zIndex: 9999 }} />
+                <Bar dataKey="records" name="Records" fill="#6366F1" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {gaps.length > 0 && (
+            <div className="mt-4">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Gaps</h3>
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                {gaps.map(gap => (
+                  <li key={gap.start.toISOString()} className="py-1.5 flex justify-between gap-4">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {formatDateTime(gap.start.toISOString())} – {gap.ongoing ? 'now' : formatDateTime(gap.end.toISOString())}
+                    </span>
+                    <span className={gap.ongoing ? 'font-medium text-amber-700 dark:text-amber-300' : 'text-gray-500 dark:text-gray-400'}>
+                      {formatGap(gap.minutes)}{gap.ongoing && ' and counting'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Past gaps are measured to the hour.</p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+// Whether each PBX is still pushing call records, so a stalled feed is noticed within the hour
+export default function DataHealthPage() {
+  const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
+  const { permittedDataSources } = useData()
+  const { getDataSource, getLabel } = useDataSources()
+  const [hours, setHours] = useState(72)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <DynamicHeader
+        title="Data Health"
+        onMenuClick={onMenuClick}
+        isSidebarCollapsed={isSidebarCollapsed}
+        onToggleSidebar={onToggleSidebar}
+        actions={
+          <div className="flex items-center gap-2">
+            <div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+              {RANGES.map(range => (
+                <button
+                  key={range.hours}
+                  onClick={() => setHours(range.hours)}
+                  className={`px-2.5 py-1.5 text-xs ${
+                    hours === range.hours
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {range.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setRefreshKey(key => key + 1)}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <ArrowPathIcon className="h-4 w-4 mr-1.5" />
+              Refresh
+            </button>
+          </div>
+        }
+      />
+
+      <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+        {permittedDataSources.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">You don't have access to any data sources.</p>
+        ) : permittedDataSources.map(id => (
+          <SourceHealthCard key={id} id={id} source={getDataSource(id)} label={getLabel(id)} hours={hours} refreshKey={refreshKey} />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useNavigate, useOutletContext, useParams } from 'react-router-dom'
+import { ArrowLeftIcon, ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline'
+import { useData } from '../contexts/DataContext'
+import type { DataFilters } from '../contexts/DataContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { dataService } from '../services/dataService'
+import type { AreaCode, CallLog, DashboardSummary, HeatmapCell } from '../services/dataService'
+import { getErrorMessage } from '../services/apiClient'
+import DynamicHeader from '../components/DynamicHeader'
+import CallTrendsPanel from '../components/CallTrendsPanel'
+import CallHeatmap from '../components/CallHeatmap'
+import { callLogsLink, toFilterParams } from '../lib/callLogsView'
+
+interface LayoutContext {
+  onMenuClick: () => void;
+  isSidebarCollapsed: boolean;
+  onToggleSidebar: () => void;
+}
+
+interface ExtensionDetail {
+  summary: DashboardSummary
+  heatmap: HeatmapCell[]
+  topAreaCodes: AreaCode[]
+  longestCalls: CallLog[]
+  recentCalls: CallLog[]
+}
+
+const TOP_AREA_CODES = 10
+const LONGEST_CALLS = 10
+const RECENT_CALLS = 25
+
+// Duration formatter
+const formatDuration = (seconds: number | undefined) => {
+  const numSeconds = Math.round(typeof seconds === 'number' ? seconds : 0)
+  const hours = Math.floor(numSeconds / 3600)
+  const minutes = Math.floor((numSeconds % 3600) / 60)
+  const secs = numSeconds % 60
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`
+}
+
+const formatCurrency = (amount: number | undefined) => {
+  return `$${(amount || 0).toFixed(2)}`
+}
+
+const CALL_TYPE_BADGES: Record<CallLog['callType'], string> = {
+  incoming: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  outgoing: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300',
+  internal: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-300'
+}
+
+// One extension's activity for the active filters, for supervisors preparing a one-on-one
+export default function ExtensionDetailPage() {
+  const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
+  const { extension = '' } = useParams<{ extension: string }>()
+  const navigate = useNavigate()
+  const { selectedDataSource, filters, setFilters } = useData()
+  const { timeZone, formatDateTime } = usePreferences()
+  const [detail, setDetail] = useState<ExtensionDetail | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // The global filters, narrowed to this extension in place of any extension filter
+  const scopeFilters = useMemo<DataFilters>(
+    () => ({ ...filters, extension: [extension], extensionMode: undefined }),
+    [filters, extension]
+  )
+
+  useEffect(() => {
+    if (!selectedDataSource || !extension) return
+    let cancelled = false
+
+    const fetchDetail = async () => {
+      const params = { collection: selectedDataSource, ...toFilterParams(scopeFilters) }
+      try {
+        setIsLoading(true)
+        setError(null)
+        const [analytics, heatmap, areaCodes, longest, recent] = await Promise.all([
+          dataService.getDashboardAnalytics({ ...params, timezone: timeZone }),
+          dataService.getCallHeatmap({ ...params, timezone: timeZone }),
+          dataService.getAreaCodes({ ...params, limit: TOP_AREA_CODES, sortBy: 'totalCalls', sortOrder: 'desc' }),
+          dataService.getCallLogs({ ...params, limit: LONGEST_CALLS, sortBy: 'durationSeconds', sortOrder: 'desc' }),
+          dataService.getCallLogs({ ...params, limit: RECENT_CALLS, sortBy: 'startTime', sortOrder: 'desc' })
+        ])
+        if (cancelled) return
+        setDetail({
+          summary: analytics.summary,
+          heatmap: heatmap.cells || [],
+          topAreaCodes: areaCodes.data || [],
+          longestCalls: longest.data || [],
+          recentCalls: recent.data || []
+        })
+      } catch (err: any) {
+        if (!cancelled) setError(getErrorMessage(err, `Failed to load extension ${extension}`))
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    fetchDetail()
+    return () => { cancelled = true }
+  }, [selectedDataSource, extension, timeZone, JSON.stringify(scopeFilters)])
+
+  const summary = detail?.summary
+  const internalCalls = summary ? Math.max(0, summary.totalCalls - summary.incomingCalls - summary.outgoingCalls) : 0
+  const maxAreaCodeCalls = Math.max(1, ...(detail?.topAreaCodes || []).map(code => code.totalCalls))
+
+  const kpis = summary ? [
+    { label: 'Total Calls', value: summary.totalCalls.toLocaleString(), note: `${internalCalls.toLocaleString()} internal` },
+    { label: 'Inbound / Outbound', value: `${summary.incomingCalls.toLocaleString()} / ${summary.outgoingCalls.toLocaleString()}`, note: `${(summary.incomingPercentage || 0).toFixed(0)}% inbound` },
+    { label: 'Answer Rate', value: `${(summary.answerRate || 0).toFixed(1)}%`, note: `${(summary.unansweredCalls || 0).toLocaleString()} unanswered` },
+    { label: 'Talk Time', value: formatDuration(summary.totalDuration), note: `${formatDuration(summary.avgDuration)} average` },
+    { label: 'Cost', value: formatCurrency(summary.totalCost), note: `${(summary.uniqueAreaCodes || 0).toLocaleString()} area codes called` }
+  ] : []
+
+  const renderCallRows = (calls: CallLog[], showDirection: boolean) => calls.map(call => (
+    <tr
+      key={call._id}
+      onClick={() => navigate(callLogsLink(scopeFilters, call._id, call.source))}
+      className="hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+    >
+      <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-gray-100">{formatDateTime(call.startTime)}</td>
+      {showDirection && (
+        <td className="px-4 py-2 whitespace-nowrap text-xs">
+          <span className={`px-2 py-0.5 rounded-full capitalize ${CALL_TYPE_BADGES[call.callType] || ''}`}>{call.callType}</span>
+        </td>
+      )}
+      <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-700 dark:text-gray-300">{call.fromNumber}</td>
+      <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-700 dark:text-gray-300">{call.toNumber}</td>
+      {showDirection && <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-700 dark:text-gray-300 capitalize">{call.status}</td>}
+      <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-700 dark:text-gray-300 text-right">{formatDuration(call.durationSeconds)}</td>
+      <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-700 dark:text-gray-300 text-right">{formatCurrency(call.cost)}</td>
+    </tr>
+  ))
+
+  const headerCell = 'px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+  const card = 'bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700'
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <DynamicHeader
+        title={`Extension ${extension}`}
+        onMenuClick={onMenuClick}
+        isSidebarCollapsed={isSidebarCollapsed}
+        onToggleSidebar={onToggleSidebar}
+        showFilterBar
+        actions={
+          <div className="flex items-center space-x-2">
+            <Link
+              to="/reports/extensions"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <ArrowLeftIcon className="h-4 w-4 mr-2" />
+              All extensions
+            </Link>
+            <Link
+              to={callLogsLink(scopeFilters)}
+              className="inline-flex items-center px-3 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              <ArrowTopRightOnSquareIcon className="h-4 w-4 mr-2" />
+              Call logs
+            </Link>
+          </div>
+        }
+      />
+
+      <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+        {filters.extension && filters.extension.length > 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The extension filter doesn't apply on this page; everything else in the filter bar does.
+          </p>
+        )}
+
+        {error ? (
+          <div className="rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-4 text-sm text-red-700 dark:text-red-300">{error}</div>
+        ) : isLoading && !detail ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : detail && (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+              {kpis.map(kpi => (
+                <div key={kpi.label} className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                  <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">{kpi.label}</h3>
+                  <p className="text-xl lg:text-2xl font-bold text-gray-900 dark:text-white leading-tight">{kpi.value}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{kpi.note}</p>
+                </div>
+              ))}
+            </div>
+
+            <CallTrendsPanel
+              collection={selectedDataSource}
+              filters={scopeFilters}
+              onRangeSelect={(dateFrom, dateTo) => setFilters({ dateFrom, dateTo })}
+            />
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <div className={card}>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Busiest Hours</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Calls by hour of day and weekday</p>
+                {detail.heatmap.length === 0
+                  ? <p className="text-sm text-gray-500 dark:text-gray-400">No calls in the selected range</p>
+                  : <CallHeatmap cells={detail.heatmap} />}
+              </div>
+
+              <div className={card}>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Top Area Codes</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Most-called area codes from this extension</p>
+                {detail.topAreaCodes.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No area codes in the selected range</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {detail.topAreaCodes.map(code => (
+                      <li key={code.areaCode}>
+                        <Link
+                          to={callLogsLink({ ...scopeFilters, areaCode: [code.areaCode], areaCodeMode: undefined })}
+                          className="block group"
+                        >
+                          <div className="flex justify-between text-sm">
+                            <span className="font-medium text-gray-900 dark:text-white group-hover:text-indigo-600 dark:group-hover:text-indigo-400">
+                              {code.areaCode}
+                              {code.state && <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{code.state}</span>}
+                            </span>
+                            <span className="text-gray-600 dark:text-gray-300">{code.totalCalls.toLocaleString()}</span>
+                          </div>
+                          <div className="mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-700">
+                            <div className="h-1.5 rounded-full bg-indigo-500" style={{ width: `${(code.totalCalls / maxAreaCodeCalls) * 100}%` }} />
+                          </div>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            <div className={card}>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Longest Calls</h2>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className={headerCell}>Start</th>
+                      <th className={headerCell}>From</th>
+                      <th className={headerCell}>To</th>
+                      <th className={`${headerCell} text-right`}>Duration</th>
+                      <th className={`${headerCell} text-right`}>Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">{renderCallRows(detail.longestCalls, false)}</tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className={card}>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Recent Calls</h2>
+                <Link to={callLogsLink(scopeFilters)} className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline">
+                  View all
+                </Link>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className={headerCell}>Start</th>
+                      <th className={headerCell}>Direction</th>
+                      <th className={headerCell}>From</th>
+                      <th className={headerCell}>To</th>
+                      <th className={headerCell}>Status</th>
+                      <th className={`${headerCell} text-right`}>Duration</th>
+                      <th className={`${headerCell} text-right`}>Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">{renderCallRows(detail.recentCalls, true)}</tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,16 +1,30 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { useOutletContext } from 'react-router-dom'
+import { useNavigate, useOutletContext } from 'react-router-dom'
 import { useData } from '../contexts/DataContext'
+import { usePreferences } from '../contexts/PreferencesContext'
 import { dataService } from '../services/dataService'
 import DynamicHeader from '../components/DynamicHeader'
+import ExportMenu from '../components/ExportMenu'
+import SavedViewsMenu from '../components/SavedViewsMenu'
+import type { SavedViewState } from '../services/savedViewService'
+import { toFilterParams, toFilterUpdate } from '../lib/callLogsView'
+import { resolveDateFilters } from '../lib/dateRanges'
+import { buildExport, downloadBlob, exportFileName } from '../lib/exporters'
+import type { ExportColumn, ExportFormat } from '../lib/exporters'
 import { 
-  ArrowDownTrayIcon,
   ArrowUpIcon,
   ArrowDownIcon,
   EyeIcon
 } from '@heroicons/react/24/outline'
-import { format } from 'date-fns'
+
+// Export header and type for each table column
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'extension', header: 'Extension', kind: 'string' },
+  { key: 'totalCalls', header: 'Total Calls', kind: 'integer' },
+  { key: 'totalDuration', header: 'Total Duration', kind: 'duration' },
+  { key: 'totalCost', header: 'Total Cost', kind: 'currency' }
+]
 
 // Duration formatter
 const formatDuration = (seconds: number | undefined) => {
@@ -43,13 +57,15 @@ interface LayoutContext {
 
 export default function ExtensionsPage() {
   const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
-  const { selectedDataSource, filters, setError } = useData()
+  const navigate = useNavigate()
+  const { selectedDataSource, filters, setError, setFilters } = useData()
+  const { timeZone, pageSize: preferredPageSize } = usePreferences()
   const [extensions, setExtensions] = useState<Extension[]>([])
   const [pagination, setPagination] = useState({
     currentPage: 1,
     totalPages: 1,
     totalCount: 0,
-    limit: 25,
+    limit: preferredPageSize(25),
     hasNextPage: false,
     hasPrevPage: false
   })
@@ -83,7 +99,7 @@ export default function ExtensionsPage() {
         search,
         sortBy: sortField,
         sortOrder: sortDirection,
-        ...filters
+        ...toFilterParams(filters)
       })
 
       if (response.success && response.data) {
@@ -141,28 +157,40 @@ export default function ExtensionsPage() {
     fetchExtensions(page, searchTerm, sortBy, sortOrder)
   }
 
-  const handleExport = () => {
-    if (extensions.length === 0) return
+  const currentView: SavedViewState = {
+    filters,
+    search: searchTerm,
+    sortBy,
+    sortOrder,
+    pageSize: pagination.limit,
+    columns: Object.entries(visibleColumns).filter(([, visible]) => visible).map(([key]) => key)
+  }
+
+  const applySavedView = (view: SavedViewState) => {
+    setFilters(toFilterUpdate(resolveDateFilters(view.filters || {}, timeZone)))
+    setSearchTerm(view.search || '')
+    setSortBy(EXPORT_COLUMNS.some(col => col.key === view.sortBy) ? view.sortBy as typeof sortBy : 'totalCalls')
+    setSortOrder(view.sortOrder || 'desc')
+    setVisibleColumns(prev => {
+      const next = { ...prev }
+      Object.keys(next).forEach(key => {
+        next[key as keyof typeof next] = !view.columns || view.columns.includes(key)
+      })
+      return next
+    })
+  }
 
-    const csvContent = [
-      ['Extension', 'Total Calls', 'Total Duration', 'Total Cost'].join(','),
-      ...extensions.map(ext => [
-        ext.extension,
-        ext.totalCalls,
-        ext.totalDuration,
-        ext.totalCost.toFixed(2)
-      ].join(','))
-    ].join('\n')
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (extensions.length === 0) return
 
-    const blob = new Blob([csvContent], { type: 'text/csv' })
-    const url = window.URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `extensions-${format(new Date(), 'yyyy-MM-dd')}.csv`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    window.URL.revokeObjectURL(url)
+    try {
+      const columns = EXPORT_COLUMNS.filter(col => visibleColumns[col.key as keyof typeof visibleColumns])
+      const blob = await buildExport(extensions, columns, exportFormat)
+      downloadBlob(blob, exportFileName('extensions', exportFormat))
+    } catch (error) {
+      console.error('Export error:', error)
+      setError('Failed to export extensions data')
+    }
   }
 
   const getSortIcon = (field: string) => {
@@ -223,16 +251,16 @@ export default function ExtensionsPage() {
         onMenuClick={onMenuClick}
         isSidebarCollapsed={isSidebarCollapsed}
         onToggleSidebar={onToggleSidebar}
+        showFilterBar
         actions={
           <div className="flex items-center space-x-2">
-            <button
-              onClick={handleExport}
-              disabled={extensions.length === 0}
-              className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
-              Export
-            </button>
+            <SavedViewsMenu
+              page="extensions"
+              currentView={currentView}
+              availableColumns={Object.keys(visibleColumns)}
+              onApply={applySavedView}
+            />
+            <ExportMenu onExport={handleExport} label="Export" disabled={extensions.length === 0} />
             
             <div className="relative">
               <button
@@ -333,7 +361,11 @@ export default function ExtensionsPage() {
                   </thead>
                   <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                     {extensions.map((extension, index) => (
-                      <tr key={`${extension.extension}-${index}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <tr
+                        key={`${extension.extension}-${index}`}
+                        onClick={() => navigate(`/reports/extensions/${encodeURIComponent(extension.extension)}`)}
+                        className="hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+                      >
                         {visibleColumns.extension && (
                           <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
                             {extension.extension}
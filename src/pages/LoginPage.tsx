@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react'
-import { Navigate } from 'react-router-dom'
+import { Navigate, useLocation } from 'react-router-dom'
+import type { Location } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import { Eye, EyeOff, ArrowRight } from 'lucide-react'
 import GoogleLoginButton from '../components/GoogleLoginButton'
@@ -12,6 +13,10 @@ declare global {
 
 export default function LoginPage() {
   const { login, googleLogin, isAuthenticated, isLoading, error, clearError } = useAuth()
+  const location = useLocation()
+  // Page the user was on before being sent here (e.g. after the session expired)
+  const from = (location.state as { from?: Location } | null)?.from
+  const returnTo = from && from.pathname !== '/login' ? `${from.pathname}${from.search}${from.hash}` : '/dashboard'
   const [formData, setFormData] = useState({
     login: '',
     password: ''
@@ -29,7 +34,7 @@ export default function LoginPage() {
 
   // Redirect if already authenticated
   if (isAuthenticated) {
-    return <Navigate to="/dashboard" replace />
+    return <Navigate to={returnTo} replace />
   }
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -0,0 +1,278 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useOutletContext } from 'react-router-dom'
+import { useData } from '../contexts/DataContext'
+import { useDataSources } from '../contexts/DataSourcesContext'
+import { useRates } from '../contexts/RatesContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { dataService } from '../services/dataService'
+import type { CallLog } from '../services/dataService'
+import { getErrorMessage, isCancelled } from '../services/apiClient'
+import DynamicHeader from '../components/DynamicHeader'
+import ExportMenu from '../components/ExportMenu'
+import { toFilterParams } from '../lib/callLogsView'
+import { dialedDigits } from '../lib/rating'
+import type { RatedCall } from '../lib/rating'
+import { buildExport, downloadBlob, exportFileName } from '../lib/exporters'
+import type { ExportColumn, ExportFormat } from '../lib/exporters'
+
+interface LayoutContext {
+  onMenuClick: () => void;
+  isSidebarCollapsed: boolean;
+  onToggleSidebar: () => void;
+}
+
+interface CostGroup {
+  key: string
+  label: string
+  calls: number
+  billableSeconds: number
+  pbxCost: number
+  ratedCost: number
+  // Calls in the group no deck has a rate for
+  unrated: number
+}
+
+const TOP_GROUPS = 15
+
+// Unrated calls are grouped by this many leading digits so missing prefixes stand out
+const UNRATED_PREFIX_DIGITS = 4
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'startTime', header: 'Start Time', kind: 'datetime' },
+  { key: 'fromNumber', header: 'From', kind: 'string' },
+  { key: 'toNumber', header: 'To', kind: 'string' },
+  { key: 'trunkNumber', header: 'Trunk', kind: 'string' },
+  { key: 'durationSeconds', header: 'Duration', kind: 'duration' },
+  { key: 'billableSeconds', header: 'Billable Seconds', kind: 'integer' },
+  { key: 'ratePrefix', header: 'Rate Prefix', kind: 'string' },
+  { key: 'rateDescription', header: 'Destination', kind: 'string' },
+  { key: 'rateDeck', header: 'Rate Deck', kind: 'string' },
+  { key: 'cost', header: 'PBX Cost', kind: 'currency' },
+  { key: 'ratedCost', header: 'Rated Cost', kind: 'currency' }
+]
+
+function groupCalls(rows: Array<{ call: CallLog; rated: RatedCall }>, keyOf: (row: { call: CallLog; rated: RatedCall }) => { key: string; label: string }): CostGroup[] {
+  const groups = new Map<string, CostGroup>()
+  rows.forEach(row => {
+    const { key, label } = keyOf(row)
+    const group = groups.get(key) || { key, label, calls: 0, billableSeconds: 0, pbxCost: 0, ratedCost: 0, unrated: 0 }
+    group.calls++
+    group.billableSeconds += row.rated.billableSeconds
+    group.pbxCost += row.call.cost || 0
+    group.ratedCost += row.rated.cost || 0
+    if (row.rated.cost === null) group.unrated++
+    groups.set(key, group)
+  })
+  return Array.from(groups.values()).sort((a, b) => Math.max(b.ratedCost, b.pbxCost) - Math.max(a.ratedCost, a.pbxCost))
+}
+
+// PBX-reported cost next to cost re-rated from the rate decks, for outgoing calls in the current filters
+export default function RatedCostPage() {
+  const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
+  const { selectedDataSource, filters } = useData()
+  const { getDataSource } = useDataSources()
+  const { hasRates, isLoading: isLoadingRates, rate } = useRates()
+  const { timeZone } = usePreferences()
+  const [calls, setCalls] = useState<CallLog[]>([])
+  const [progress, setProgress] = useState<{ loaded: number; total?: number } | null>(null)
+  const [truncated, setTruncated] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!selectedDataSource) return
+    const controller = new AbortController()
+
+    const fetchCalls = async () => {
+      try {
+        setError(null)
+        setProgress({ loaded: 0 })
+        const params = { collection: selectedDataSource, ...toFilterParams(filters), callType: 'outgoing' }
+        const result = await dataService.getAllCallLogs(params, {
+          signal: controller.signal,
+          onProgress: (loaded, total) => setProgress({ loaded, total })
+        })
+        setCalls(result.data)
+        setTruncated(result.truncated)
+      } catch (err: any) {
+        if (isCancelled(err)) return
+        setError(getErrorMessage(err, 'Failed to load calls to rate'))
+      } finally {
+        if (!controller.signal.aborted) setProgress(null)
+      }
+    }
+
+    fetchCalls()
+    return () => controller.abort()
+  }, [selectedDataSource, JSON.stringify(filters)])
+
+  const rows = useMemo(() => calls.map(call => ({ call, rated: rate(call) })), [calls, rate])
+
+  const totals = useMemo(() => {
+    const result = { calls: rows.length, pbxCost: 0, ratedCost: 0, unrated: 0, unratedPbxCost: 0 }
+    rows.forEach(({ call, rated }) => {
+      result.pbxCost += call.cost || 0
+      if (rated.cost === null) {
+        result.unrated++
+        result.unratedPbxCost += call.cost || 0
+      } else {
+        result.ratedCost += rated.cost
+      }
+    })
+    return result
+  }, [rows])
+
+  const byTrunk = useMemo(() => groupCalls(rows, ({ call }) => {
+    const trunk = call.trunkNumber || ''
+    return { key: trunk, label: trunk || 'No trunk' }
+  }), [rows])
+
+  const byDestination = useMemo(() => groupCalls(rows, ({ call, rated }) => {
+    if (rated.entry) return { key: `rate:${rated.entry.prefix}`, label: `${rated.entry.prefix}${rated.entry.description ? ` · ${rated.entry.description}` : ''}` }
+    if (rated.cost !== null) return { key: 'free', label: 'Not charged (not connected)' }
+    const prefix = dialedDigits(call.toNumber).slice(0, UNRATED_PREFIX_DIGITS)
+    return { key: `none:${prefix}`, label: `${prefix || '?'}… · no rate` }
+  }), [rows])
+
+  const currency = getDataSource(selectedDataSource)?.currency || 'USD'
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2
+    }).format(value)
+  }
+
+  const formatMinutes = (seconds: number) => Math.round(seconds / 60).toLocaleString()
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    try {
+      const records = rows.map(({ call, rated }) => ({
+        ...call,
+        billableSeconds: rated.billableSeconds,
+        ratePrefix: rated.entry?.prefix,
+        rateDescription: rated.entry?.description,
+        rateDeck: rated.deck?.name,
+        ratedCost: rated.cost
+      }))
+      const blob = await buildExport(records, EXPORT_COLUMNS, exportFormat, timeZone)
+      downloadBlob(blob, exportFileName('rated-calls', exportFormat))
+    } catch (err) {
+      console.error('Export error:', err)
+      setError('Failed to export rated calls')
+    }
+  }
+
+  const difference = totals.ratedCost - totals.pbxCost
+  const isLoading = progress !== null
+
+  const renderGroups = (title: string, groups: CostGroup[]) => (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <h2 className="px-4 py-3 text-sm font-semibold text-gray-900 dark:text-white border-b border-gray-200 dark:border-gray-700">{title}</h2>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              {['', 'Calls', 'Billed min', 'PBX cost', 'Rated cost', 'Difference'].map(header => (
+                <th key={header} className="px-4 py-2 text-right first:text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {groups.slice(0, TOP_GROUPS).map(group => (
+              <tr key={group.key}>
+                <td className="px-4 py-2 whitespace-nowrap text-gray-900 dark:text-white">{group.label}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700 dark:text-gray-300">
+                  {group.calls.toLocaleString()}
+                  {group.unrated > 0 && group.unrated < group.calls && (
+                    <span className="ml-1 text-xs text-amber-600 dark:text-amber-400">({group.unrated.toLocaleString()} unrated)</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700 dark:text-gray-300">{formatMinutes(group.billableSeconds)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700 dark:text-gray-300">{formatCurrency(group.pbxCost)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700 dark:text-gray-300">{group.unrated === group.calls ? '-' : formatCurrency(group.ratedCost)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-gray-700 dark:text-gray-300">{group.unrated === group.calls ? '-' : formatCurrency(group.ratedCost - group.pbxCost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {groups.length > TOP_GROUPS && (
+        <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">Top {TOP_GROUPS} of {groups.length.toLocaleString()} by cost. Export for every call.</p>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <DynamicHeader
+        title="Rated Cost"
+        onMenuClick={onMenuClick}
+        isSidebarCollapsed={isSidebarCollapsed}
+        onToggleSidebar={onToggleSidebar}
+        showFilterBar={true}
+        actions={<ExportMenu onExport={handleExport} label="Export" disabled={isLoading || rows.length === 0} />}
+      />
+
+      <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+        {!hasRates && !isLoadingRates && (
+          <div className="rounded-md bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-3 text-sm text-amber-800 dark:text-amber-300">
+            No rate decks are set up yet, so every call shows as unrated. Add your carriers' rates under <Link to="/system/rates" className="underline">Rate Decks</Link>.
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3 text-sm text-red-700 dark:text-red-300">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center h-64 gap-3">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Loading calls{progress.total ? ` · ${progress.loaded.toLocaleString()} of ${progress.total.toLocaleString()}` : '...'}
+            </p>
+          </div>
+        ) : (
+          <>
+            {truncated && (
+              <p className="text-sm text-amber-700 dark:text-amber-300">
+                Only the first {rows.length.toLocaleString()} calls were rated. Narrow the date range for complete totals.
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">PBX cost</h3>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(totals.pbxCost)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{totals.calls.toLocaleString()} outgoing calls</p>
+              </div>
+              <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">Rated cost</h3>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(totals.ratedCost)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">From the rate decks</p>
+              </div>
+              <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">Difference</h3>
+                <p className={`text-2xl font-bold ${difference > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                  {difference > 0 ? '+' : ''}{formatCurrency(difference)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Rated minus PBX</p>
+              </div>
+              <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">Unrated calls</h3>
+                <p className={`text-2xl font-bold ${totals.unrated > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-gray-900 dark:text-white'}`}>{totals.unrated.toLocaleString()}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{formatCurrency(totals.unratedPbxCost)} PBX cost with no rate</p>
+              </div>
+            </div>
+
+            {rows.length > 0 && (
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                {renderGroups('By trunk', byTrunk)}
+                {renderGroups('By destination', byDestination)}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
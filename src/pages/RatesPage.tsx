@@ -0,0 +1,415 @@
+import { useMemo, useRef, useState } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import DynamicHeader from '../components/DynamicHeader'
+import { useAuth } from '../contexts/AuthContext'
+import { useDataSources } from '../contexts/DataSourcesContext'
+import { useRates } from '../contexts/RatesContext'
+import { rateService } from '../services/rateService'
+import type { RateDeck, RateDeckData, RateEntry } from '../services/rateService'
+import { getErrorMessage } from '../services/apiClient'
+import { DEFAULT_INCREMENT, parseRateDeckCsv, rateDeckToCsv, validateRate } from '../lib/rating'
+import { downloadBlob } from '../lib/exporters'
+
+interface LayoutContext {
+  onMenuClick: () => void;
+  isSidebarCollapsed: boolean;
+  onToggleSidebar: () => void;
+}
+
+// Rate row as typed, so partly entered amounts like "0." survive until saved
+interface RateRow {
+  prefix: string
+  description: string
+  ratePerMinute: string
+  connectionFee: string
+  increment: string
+  effectiveFrom: string
+  effectiveTo: string
+}
+
+interface DeckDraft {
+  // Unset for a new deck
+  id?: string
+  name: string
+  dataSource: string
+  trunkNumbers: string
+  currency: string
+  rows: RateRow[]
+}
+
+// Large decks are edited by CSV; the table shows a window of matching rows
+const ROWS_SHOWN = 100
+
+const EMPTY_ROW: RateRow = { prefix: '', description: '', ratePerMinute: '', connectionFee: '', increment: DEFAULT_INCREMENT, effectiveFrom: '', effectiveTo: '' }
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white text-sm'
+const cellInputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white text-xs'
+
+const toRow = (entry: RateEntry): RateRow => ({
+  prefix: entry.prefix,
+  description: entry.description || '',
+  ratePerMinute: String(entry.ratePerMinute),
+  connectionFee: entry.connectionFee ? String(entry.connectionFee) : '',
+  increment: entry.increment,
+  effectiveFrom: entry.effectiveFrom || '',
+  effectiveTo: entry.effectiveTo || ''
+})
+
+const toEntry = (row: RateRow): RateEntry => ({
+  prefix: row.prefix.trim(),
+  description: row.description.trim() || undefined,
+  ratePerMinute: row.ratePerMinute.trim() === '' ? NaN : Number(row.ratePerMinute),
+  connectionFee: row.connectionFee.trim() === '' ? 0 : Number(row.connectionFee),
+  increment: row.increment.trim() || DEFAULT_INCREMENT,
+  effectiveFrom: row.effectiveFrom || undefined,
+  effectiveTo: row.effectiveTo || undefined
+})
+
+const parseTrunks = (text: string) =>
+  Array.from(new Set(text.split(/[\s,;]+/).map(trunk => trunk.trim()).filter(Boolean)))
+
+// Deck payload from the draft, or the first problem with it
+function buildDeck(draft: DeckDraft): { data?: RateDeckData; error?: string } {
+  if (!draft.name.trim()) return { error: 'Enter a deck name' }
+  if (!/^[A-Za-z]{3}$/.test(draft.currency.trim())) return { error: 'Currency must be a three-letter code such as USD' }
+  const rates = draft.rows.map(toEntry)
+  for (let i = 0; i < rates.length; i++) {
+    const problem = validateRate(rates[i])
+    if (problem) return { error: `Rate ${i + 1}${rates[i].prefix ? ` (${rates[i].prefix})` : ''}: ${problem}` }
+  }
+  return {
+    data: {
+      name: draft.name.trim(),
+      dataSource: draft.dataSource || undefined,
+      trunkNumbers: parseTrunks(draft.trunkNumbers),
+      currency: draft.currency.trim().toUpperCase(),
+      rates
+    }
+  }
+}
+
+// Carrier rate decks used to re-rate call costs from duration and destination
+export default function RatesPage() {
+  const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
+  const { hasRole, hasPermission } = useAuth()
+  const { options: sourceOptions, getLabel } = useDataSources()
+  const { rateDecks, isLoading, error: loadError, refresh } = useRates()
+  const canEdit = hasRole('admin') || hasPermission('systemSettings')
+  const [draft, setDraft] = useState<DeckDraft | null>(null)
+  const [rowFilter, setRowFilter] = useState('')
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const startAdd = () => {
+    setError(null)
+    setImportErrors([])
+    setRowFilter('')
+    setDraft({ name: '', dataSource: '', trunkNumbers: '', currency: 'USD', rows: [{ ...EMPTY_ROW }] })
+  }
+
+  const startEdit = (deck: RateDeck) => {
+    setError(null)
+    setImportErrors([])
+    setRowFilter('')
+    setDraft({
+      id: deck._id,
+      name: deck.name,
+      dataSource: deck.dataSource || '',
+      trunkNumbers: deck.trunkNumbers.join(', '),
+      currency: deck.currency,
+      rows: deck.rates.map(toRow)
+    })
+  }
+
+  const updateDraft = (patch: Partial<DeckDraft>) => {
+    setDraft(prev => prev && { ...prev, ...patch })
+  }
+
+  const updateRow = (index: number, patch: Partial<RateRow>) => {
+    setDraft(prev => prev && { ...prev, rows: prev.rows.map((row, i) => i === index ? { ...row, ...patch } : row) })
+  }
+
+  const removeRow = (index: number) => {
+    setDraft(prev => prev && { ...prev, rows: prev.rows.filter((_, i) => i !== index) })
+  }
+
+  // Rows matching the filter, keeping their index in the full deck
+  const shownRows = useMemo(() => {
+    if (!draft) return []
+    const term = rowFilter.trim().toLowerCase()
+    return draft.rows
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => !term || row.prefix.startsWith(term) || row.description.toLowerCase().includes(term))
+  }, [draft, rowFilter])
+
+  const built = draft ? buildDeck(draft) : null
+
+  const handleImport = async (file: File) => {
+    const { rates, errors } = parseRateDeckCsv(await file.text())
+    setImportErrors(errors)
+    if (rates.length > 0) {
+      setRowFilter('')
+      updateDraft({ rows: rates.map(toRow) })
+    }
+  }
+
+  const handleDownload = (deck: RateDeck) => {
+    const fileName = `rates-${deck.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'deck'}.csv`
+    downloadBlob(new Blob([rateDeckToCsv(deck.rates)], { type: 'text/csv;charset=utf-8' }), fileName)
+  }
+
+  const handleSave = async () => {
+    if (!draft || !built?.data) return
+    setSaving(true)
+    setError(null)
+    try {
+      if (draft.id) await rateService.updateRateDeck(draft.id, built.data)
+      else await rateService.createRateDeck(built.data)
+      await refresh()
+      setDraft(null)
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to save rate deck'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (deck: RateDeck) => {
+    if (!confirm(`Delete rate deck "${deck.name}"? Calls on its trunks will show as unrated.`)) return
+    setError(null)
+    try {
+      await rateService.deleteRateDeck(deck._id)
+      await refresh()
+      if (draft?.id === deck._id) setDraft(null)
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to delete rate deck'))
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <DynamicHeader
+        title="Rate Decks"
+        onMenuClick={onMenuClick}
+        isSidebarCollapsed={isSidebarCollapsed}
+        onToggleSidebar={onToggleSidebar}
+        showSearch={false}
+      />
+
+      <div className="px-6 py-4">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700">
+          <div className="flex items-start justify-between gap-4 mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Carrier Rates</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                Per-minute rates by dialed prefix for each trunk. Rated Cost prices outgoing calls with the longest matching prefix from the decks covering the call's trunk, or from the decks without trunks when none do.
+              </p>
+            </div>
+            {canEdit && (
+              <button
+                type="button"
+                onClick={startAdd}
+                className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors shadow-sm text-sm whitespace-nowrap"
+              >
+                Add rate deck
+              </button>
+            )}
+          </div>
+
+          {(error || loadError) && (
+            <div className="mb-4 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3 text-sm text-red-700 dark:text-red-300">{error || loadError}</div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  {['Name', 'Data source', 'Trunks', 'Currency', 'Rates', ''].map(header => (
+                    <th key={header} className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {rateDecks.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">
+                      {isLoading ? 'Loading rate decks...' : 'No rate decks yet'}
+                    </td>
+                  </tr>
+                ) : rateDecks.map(deck => (
+                  <tr key={deck._id}>
+                    <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900 dark:text-white">{deck.name}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{deck.dataSource ? getLabel(deck.dataSource) : 'Any'}</td>
+                    <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{deck.trunkNumbers.length ? deck.trunkNumbers.join(', ') : 'Other trunks'}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{deck.currency}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{deck.rates.length.toLocaleString()}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-right">
+                      <button type="button" onClick={() => handleDownload(deck)} className="text-indigo-600 dark:text-indigo-400 hover:underline mr-3">CSV</button>
+                      {canEdit && (
+                        <>
+                          <button type="button" onClick={() => startEdit(deck)} className="text-indigo-600 dark:text-indigo-400 hover:underline mr-3">Edit</button>
+                          <button type="button" onClick={() => handleDelete(deck)} className="text-red-600 dark:text-red-400 hover:underline">Delete</button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {draft && (
+            <div className="mt-6 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              <h3 className="text-base font-semibold text-gray-900 dark:text-white mb-4">
+                {draft.id ? `Edit ${draft.name || 'rate deck'}` : 'New rate deck'}
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Name</label>
+                  <input type="text" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="Carrier A domestic" className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Data source</label>
+                  <select value={draft.dataSource} onChange={(e) => updateDraft({ dataSource: e.target.value })} className={inputClass}>
+                    <option value="">Any</option>
+                    {sourceOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Trunk numbers</label>
+                  <input type="text" value={draft.trunkNumbers} onChange={(e) => updateDraft({ trunkNumbers: e.target.value })} placeholder="10001, 10002" className={inputClass} />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Leave empty to price trunks no other deck lists</p>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Currency</label>
+                  <input type="text" value={draft.currency} maxLength={3} onChange={(e) => updateDraft({ currency: e.target.value })} placeholder="USD" className={`${inputClass} uppercase`} />
+                </div>
+              </div>
+
+              <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+                  Rates <span className="font-normal text-gray-500 dark:text-gray-400">({draft.rows.length.toLocaleString()})</span>
+                </h4>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={rowFilter}
+                    onChange={(e) => setRowFilter(e.target.value)}
+                    placeholder="Find prefix or destination"
+                    className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-xs dark:bg-gray-700 dark:text-white"
+                  />
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) handleImport(file)
+                      e.target.value = ''
+                    }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    title="Replace the rates with a CSV file (prefix, description, rate_per_minute, connection_fee, increment, effective_from, effective_to)"
+                  >
+                    <ArrowUpTrayIcon className="h-4 w-4 mr-1.5" />
+                    Upload CSV
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => downloadBlob(new Blob([rateDeckToCsv(draft.rows.map(toEntry))], { type: 'text/csv;charset=utf-8' }), 'rates.csv')}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4 mr-1.5" />
+                    Download CSV
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setRowFilter('')
+                      updateDraft({ rows: [...draft.rows, { ...EMPTY_ROW }] })
+                    }}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1.5" />
+                    Add rate
+                  </button>
+                </div>
+              </div>
+
+              {importErrors.length > 0 && (
+                <div className="mt-3 rounded-md bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-3 text-xs text-amber-800 dark:text-amber-300">
+                  <p className="font-medium mb-1">{importErrors.length.toLocaleString()} row{importErrors.length === 1 ? '' : 's'} skipped</p>
+                  <ul className="list-disc pl-4 space-y-0.5">
+                    {importErrors.slice(0, 10).map(message => <li key={message}>{message}</li>)}
+                  </ul>
+                  {importErrors.length > 10 && <p className="mt-1">…and {(importErrors.length - 10).toLocaleString()} more</p>}
+                </div>
+              )}
+
+              <div className="mt-3 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-xs">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      {['Prefix', 'Destination', 'Rate / min', 'Connection fee', 'Increment', 'Effective from', 'Until', ''].map(header => (
+                        <th key={header} className="px-2 py-2 text-left font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {shownRows.slice(0, ROWS_SHOWN).map(({ row, index }) => (
+                      <tr key={index}>
+                        <td className="px-2 py-1 w-28"><input type="text" inputMode="numeric" value={row.prefix} onChange={(e) => updateRow(index, { prefix: e.target.value })} placeholder="1212" className={`${cellInputClass} font-mono`} /></td>
+                        <td className="px-2 py-1"><input type="text" value={row.description} onChange={(e) => updateRow(index, { description: e.target.value })} placeholder="New York" className={cellInputClass} /></td>
+                        <td className="px-2 py-1 w-24"><input type="text" inputMode="decimal" value={row.ratePerMinute} onChange={(e) => updateRow(index, { ratePerMinute: e.target.value })} placeholder="0.012" className={cellInputClass} /></td>
+                        <td className="px-2 py-1 w-24"><input type="text" inputMode="decimal" value={row.connectionFee} onChange={(e) => updateRow(index, { connectionFee: e.target.value })} placeholder="0" className={cellInputClass} /></td>
+                        <td className="px-2 py-1 w-20"><input type="text" value={row.increment} onChange={(e) => updateRow(index, { increment: e.target.value })} placeholder={DEFAULT_INCREMENT} className={cellInputClass} /></td>
+                        <td className="px-2 py-1 w-36"><input type="date" value={row.effectiveFrom} onChange={(e) => updateRow(index, { effectiveFrom: e.target.value })} className={cellInputClass} /></td>
+                        <td className="px-2 py-1 w-36"><input type="date" value={row.effectiveTo} onChange={(e) => updateRow(index, { effectiveTo: e.target.value })} className={cellInputClass} /></td>
+                        <td className="px-2 py-1 w-8 text-right">
+                          <button type="button" onClick={() => removeRow(index)} className="text-gray-400 hover:text-red-600 dark:hover:text-red-400" title="Remove rate">
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {shownRows.length > ROWS_SHOWN && (
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    Showing {ROWS_SHOWN} of {shownRows.length.toLocaleString()} rates. Find a prefix to edit others, or edit the CSV and upload it.
+                  </p>
+                )}
+              </div>
+
+              <div className="mt-4 flex items-center gap-3">
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !built?.data}
+                  className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+                >
+                  {saving ? 'Saving...' : draft.id ? 'Save Changes' : 'Add rate deck'}
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 transition-colors shadow-sm"
+                >
+                  Cancel
+                </button>
+                {built?.error && <span className="text-sm text-gray-500 dark:text-gray-400">{built.error}</span>}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
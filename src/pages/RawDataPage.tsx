@@ -1,13 +1,26 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useOutletContext } from 'react-router-dom'
 import { useData } from '../contexts/DataContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { useExports } from '../contexts/ExportContext'
 import { dataService } from '../services/dataService'
 import DynamicHeader from '../components/DynamicHeader'
+import SavedViewsMenu from '../components/SavedViewsMenu'
+import ExportMenu from '../components/ExportMenu'
+import QueryBuilder from '../components/QueryBuilder'
+import { exportFileName, inferColumns } from '../lib/exporters'
+import type { ExportFormat } from '../lib/exporters'
+import type { SavedViewState } from '../services/savedViewService'
+import { getErrorMessage } from '../services/apiClient'
+import { toFilterParams, toFilterUpdate } from '../lib/callLogsView'
+import { resolveDateFilters } from '../lib/dateRanges'
+import { describeQuery, inferFieldTypes, serializeQuery } from '../lib/rawQuery'
+import type { QueryGroup } from '../lib/rawQuery'
 import { 
   ChevronLeftIcon, 
   ChevronRightIcon,
-  FunnelIcon,
-  ArrowDownTrayIcon
+  EyeIcon,
+  XMarkIcon
 } from '@heroicons/react/24/outline'
 
 interface RawDataPageProps {}
@@ -25,126 +38,49 @@ interface RawDataRecord {
 export default function RawDataPage({}: RawDataPageProps) {
   const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>();
   const { selectedDataSource, filters, setError, setFilters } = useData();
+  const { startExport } = useExports();
+  const { timeZone, pageSize: preferredPageSize } = usePreferences();
+  const defaultPageSize = preferredPageSize(100);
   const [rawData, setRawData] = useState<RawDataRecord[]>([])
   const [pagination, setPagination] = useState({
     currentPage: 1,
     totalPages: 1,
     totalCount: 0,
-    limit: 100,
+    limit: defaultPageSize,
     hasNextPage: false,
     hasPrevPage: false
   })
   const [searchTerm, setSearchTerm] = useState('')
   const [sortBy, setSortBy] = useState('time-start')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
-  const [showFilters, setShowFilters] = useState(false)
-  const [pageSize, setPageSize] = useState<number>(100)
+  const [pageSize, setPageSize] = useState<number>(defaultPageSize)
   const [isInitialLoading, setIsInitialLoading] = useState(true)
   const [allColumns, setAllColumns] = useState<string[]>([])
+  // Null shows every column present in the data
+  const [visibleColumns, setVisibleColumns] = useState<string[] | null>(null)
+  const [showColumnSelector, setShowColumnSelector] = useState(false)
+  // Query builder conditions, sent on top of the global filters
+  const [query, setQuery] = useState<QueryGroup | undefined>()
+  const displayColumns = visibleColumns ? allColumns.filter(col => visibleColumns.includes(col)) : allColumns
   
-  // Local filter draft state for the Filters panel
-  const [localFilters, setLocalFilters] = useState({
-    dateFrom: filters.dateFrom || '',
-    dateTo: filters.dateTo || '',
-    callType: (filters.callType as any) || '',
-    status: (filters.status as any) || '',
-    areaCode: filters.areaCode || '',
-    trunkNumber: filters.trunkNumber || '',
-    terminationReason: filters.terminationReason || '',
-    extension: (filters as any).extension || '',
-    stateCode: (filters as any).stateCode || '',
-    minDurationSec: (filters as any).minDurationSec || '',
-    minCost: (filters as any).minCost || '',
-    maxCost: (filters as any).maxCost || ''
-  })
-
-  // Sync local draft when opening panel or when global filters change
+  // Close Columns popover with Escape key anywhere on the page
   useEffect(() => {
-    if (!showFilters) return
-    setLocalFilters({
-      dateFrom: filters.dateFrom || '',
-      dateTo: filters.dateTo || '',
-      callType: (filters.callType as any) || '',
-      status: (filters.status as any) || '',
-      areaCode: filters.areaCode || '',
-      trunkNumber: filters.trunkNumber || '',
-      terminationReason: filters.terminationReason || '',
-      extension: (filters as any).extension || '',
-      stateCode: (filters as any).stateCode || '',
-      minDurationSec: (filters as any).minDurationSec || '',
-      minCost: (filters as any).minCost || '',
-      maxCost: (filters as any).maxCost || ''
-    })
-  }, [showFilters, filters])
-
-  // Quick date presets for fast filtering
-  const [quickRange, setQuickRange] = useState<string>('')
-
-  const toLocalInput = (d: Date) => {
-    const pad = (n: number) => String(n).padStart(2, '0')
-    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
-  }
-  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 0, 0)
-  const endOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 23, 59)
-
-  const applyQuick = (range: string) => {
-    const now = new Date()
-    let from = startOfDay(now)
-    let to = endOfDay(now)
-
-    switch (range) {
-      case 'today':
-        break
-      case 'yesterday': {
-        const y = new Date(now)
-        y.setDate(y.getDate() - 1)
-        from = startOfDay(y)
-        to = endOfDay(y)
-        break
-      }
-      case 'thisMonth':
-        from = new Date(now.getFullYear(), now.getMonth(), 1, 0, 0)
-        to = endOfDay(now)
-        break
-      case 'lastMonth':
-        from = new Date(now.getFullYear(), now.getMonth() - 1, 1, 0, 0)
-        to = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59)
-        break
-      case 'last3months':
-        from = new Date(now.getFullYear(), now.getMonth() - 2, 1, 0, 0)
-        to = endOfDay(now)
-        break
-      case 'thisYear':
-        from = new Date(2024, 0, 1, 0, 0)
-        to = endOfDay(now)
-        break
-      default:
-        return
-    }
-
-    setQuickRange(range)
-    setLocalFilters(prev => ({
-      ...prev,
-      dateFrom: toLocalInput(from),
-      dateTo: toLocalInput(to)
-    }))
-  }
-
-  // Close Filters popover with Escape key anywhere on the page
-  useEffect(() => {
-    if (!showFilters) return
+    if (!showColumnSelector) return
     const onKey = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         e.preventDefault()
-        setShowFilters(false)
+        setShowColumnSelector(false)
       }
     }
     document.addEventListener('keydown', onKey)
     return () => document.removeEventListener('keydown', onKey)
-  }, [showFilters])
+  }, [showColumnSelector])
 
   const searchTimeoutRef = useRef<NodeJS.Timeout>()
 
+  const fieldTypes = useMemo(() => inferFieldTypes(rawData, allColumns), [rawData, allColumns])
+  const serializedQuery = serializeQuery(query, timeZone)
+
   // Fetch raw data
   const fetchRawData = useCallback(async (page = 1) => {
     try {
@@ -157,18 +93,8 @@ export default function RawDataPage({}: RawDataPageProps) {
         sortOrder,
         search: searchTerm,
         collection: selectedDataSource,
-        callType: filters.callType,
-        status: filters.status,
-        dateFrom: filters.dateFrom,
-        dateTo: filters.dateTo,
-        areaCode: filters.areaCode,
-        extension: (filters as any).extension,
-        trunkNumber: filters.trunkNumber,
-        terminationReason: filters.terminationReason,
-        stateCode: (filters as any).stateCode,
-        minDurationSec: (filters as any).minDurationSec,
-        minCost: (filters as any).minCost,
-        maxCost: (filters as any).maxCost,
+        ...toFilterParams(filters),
+        query: serializedQuery,
         raw: true // Flag to get raw data
       }
 
@@ -191,10 +117,10 @@ export default function RawDataPage({}: RawDataPageProps) {
       setIsInitialLoading(false)
     } catch (error: any) {
       console.error('Error fetching raw data:', error)
-      setError(error.response?.data?.message || 'Failed to fetch raw data')
+      setError(getErrorMessage(error, 'Failed to fetch raw data'))
       setIsInitialLoading(false)
     }
-  }, [pageSize, sortBy, sortOrder, searchTerm, selectedDataSource, filters, setError])
+  }, [pageSize, sortBy, sortOrder, searchTerm, selectedDataSource, filters, serializedQuery, setError])
 
   // Load data on mount and filter changes
   useEffect(() => {
@@ -227,38 +153,54 @@ export default function RawDataPage({}: RawDataPageProps) {
     }
   }, [sortBy, sortOrder])
 
-  // Export functionality
-  const handleExport = useCallback(async () => {
-    try {
-      const params = {
-        sortBy,
-        sortOrder,
-        search: searchTerm,
-        collection: selectedDataSource,
-        callType: filters.callType,
-        status: filters.status,
-        dateFrom: filters.dateFrom,
-        dateTo: filters.dateTo,
-        areaCode: filters.areaCode,
-        trunkNumber: filters.trunkNumber,
-        terminationReason: filters.terminationReason,
-        raw: true
-      };
+  const currentView: SavedViewState = {
+    filters,
+    search: searchTerm,
+    sortBy,
+    sortOrder,
+    pageSize,
+    columns: visibleColumns || undefined,
+    query
+  }
 
-      const blob = await dataService.exportRawData(params);
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      const dateStr = new Date().toISOString().slice(0,10);
-      a.download = `raw-data-${dateStr}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      window.URL.revokeObjectURL(url);
-    } catch (error: any) {
-      setError(error.response?.data?.message || 'Failed to export raw data');
-    }
-  }, [sortBy, sortOrder, searchTerm, selectedDataSource, filters, setError]);
+  const applySavedView = (view: SavedViewState) => {
+    setFilters(toFilterUpdate(resolveDateFilters(view.filters || {}, timeZone)))
+    setSearchTerm(view.search || '')
+    setSortBy(view.sortBy || 'time-start')
+    setSortOrder(view.sortOrder || 'desc')
+    setPageSize(view.pageSize || defaultPageSize)
+    setVisibleColumns(view.columns || null)
+    setQuery(view.query)
+  }
+
+  const toggleColumn = (column: string, checked: boolean) => {
+    const current = visibleColumns || allColumns
+    const next = checked ? [...current, column] : current.filter(col => col !== column)
+    setVisibleColumns(next.length === allColumns.length ? null : next)
+  }
+
+  // Export functionality - runs in the background export manager
+  const handleExport = useCallback((exportFormat: ExportFormat) => {
+    const params = {
+      sortBy,
+      sortOrder,
+      search: searchTerm,
+      collection: selectedDataSource,
+      ...toFilterParams(filters),
+      query: serializedQuery,
+      raw: true
+    };
+
+    // Column types are inferred from the rows on screen
+    startExport({
+      kind: 'raw-data',
+      params,
+      format: exportFormat,
+      columns: displayColumns.length > 0 ? inferColumns(rawData, displayColumns) : undefined,
+      timeZone,
+      fileName: exportFileName('raw-data', exportFormat)
+    });
+  }, [sortBy, sortOrder, searchTerm, selectedDataSource, filters, serializedQuery, startExport, rawData, displayColumns, timeZone]);
 
   // Format cell value for display
   const formatCellValue = (value: any) => {
@@ -355,145 +297,60 @@ export default function RawDataPage({}: RawDataPageProps) {
         isSidebarCollapsed={isSidebarCollapsed}
         onToggleSidebar={onToggleSidebar}
         showSearch={true}
+        showFilterBar
         actions={
           <>
+            <SavedViewsMenu
+              page="raw-data"
+              currentView={currentView}
+              availableColumns={allColumns}
+              onApply={applySavedView}
+            />
+            <QueryBuilder fields={allColumns} fieldTypes={fieldTypes} value={query} onChange={setQuery} />
             <div className="relative">
               <button
-                onClick={() => setShowFilters(!showFilters)}
-                className={`inline-flex items-center px-3 py-2 border shadow-sm text-sm leading-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 ${
-                  showFilters
-                    ? 'border-indigo-500 text-indigo-700 bg-indigo-50 dark:bg-indigo-900 dark:text-indigo-200 dark:border-indigo-400'
-                    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600'
-                }`}
+                onClick={() => setShowColumnSelector(!showColumnSelector)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
               >
-                <FunnelIcon className="h-4 w-4 mr-2" />
-                Filters
-                {(() => {
-                  const activeFilters = Object.values(filters).filter(value =>
-                    value !== undefined && value !== null && value !== ''
-                  ).length;
-                  return activeFilters > 0 ? (
-                    <span className="ml-2 inline-flex items-center justify-center px-2 py-1 text-xs font-bold leading-none text-white bg-red-500 rounded-full">
-                      {activeFilters}
-                    </span>
-                  ) : null;
-                })()}
+                <EyeIcon className="h-4 w-4 mr-2" />
+                Columns
               </button>
-              {showFilters && (
+
+              {showColumnSelector && (
                 <div
-                  className="absolute right-0 mt-2 w-[32rem] bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50 max-h-[80vh] overflow-auto p-4"
+                  className="absolute right-0 mt-2 w-72 sm:w-80 bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700 z-50 max-h-[80vh] overflow-hidden"
                   role="dialog"
                   aria-modal="true"
                   tabIndex={-1}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Escape') {
-                      e.stopPropagation()
-                      setShowFilters(false)
-                    }
-                  }}
                 >
-                  <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">Power Filters</h3>
-                  <div className="mb-3 flex flex-wrap gap-2">
-                    {[
-                      {k:'today',l:'Today'},
-                      {k:'yesterday',l:'Yesterday'},
-                      {k:'thisMonth',l:'This Month'},
-                      {k:'lastMonth',l:'Last Month'},
-                      {k:'last3months',l:'Last 3 months'},
-                      {k:'thisYear',l:'This year'}
-                    ].map(({k,l}) => (
+                  <div className="p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="text-sm font-medium text-gray-900 dark:text-white">Select Columns to View</h3>
                       <button
-                        key={k}
-                        onClick={() => applyQuick(k)}
-                        className={`px-2.5 py-1 text-xs rounded border ${quickRange===k ? 'bg-indigo-600 text-white border-indigo-600' : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                        onClick={() => setVisibleColumns(null)}
+                        className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
                       >
-                        {l}
+                        Show all
                       </button>
-                    ))}
-                  </div>
-                  <div className="grid grid-cols-2 gap-3">
-                    <div>
-                      <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Date From</label>
-                      <input
-                        type="datetime-local"
-                        value={localFilters.dateFrom}
-                        onChange={(e) => setLocalFilters(prev => ({ ...prev, dateFrom: e.target.value }))}
-                        className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">Date To</label>
-                      <input
-                        type="datetime-local"
-                        value={localFilters.dateTo}
-                        onChange={(e) => setLocalFilters(prev => ({ ...prev, dateTo: e.target.value }))}
-                        className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm px-2 py-1"
-                      />
                     </div>
-                  </div>
-                  <div className="mt-4 flex justify-between">
-                    <button
-                      onClick={() => {
-                        setLocalFilters({ dateFrom: '', dateTo: '', callType: '', status: '', areaCode: '', trunkNumber: '', terminationReason: '', extension: '', stateCode: '', minDurationSec: '', minCost: '', maxCost: '' })
-                        setFilters({ dateFrom: undefined, dateTo: undefined, callType: undefined, status: undefined, areaCode: undefined, trunkNumber: undefined, terminationReason: undefined, extension: undefined, stateCode: undefined, minDurationSec: undefined, minCost: undefined, maxCost: undefined })
-                        setShowFilters(false)
-                      }}
-                      className="px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
-                    >
-                      Clear All
-                    </button>
-                    <div className="space-x-2">
-                      <button
-                        onClick={() => setShowFilters(false)}
-                        className="px-3 py-1.5 text-xs rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
-                      >
-                        Cancel
-                      </button>
-                      <button
-                        onClick={() => {
-                          const convertToISO = (dateTimeLocal: string) => {
-                            if (!dateTimeLocal) return undefined;
-                            try {
-                              return new Date(dateTimeLocal).toISOString();
-                            } catch (error) {
-                              console.warn('Invalid date format:', dateTimeLocal);
-                              return undefined;
-                            }
-                          };
-
-                          setFilters({
-                            dateFrom: convertToISO(localFilters.dateFrom),
-                            dateTo: convertToISO(localFilters.dateTo),
-                            callType: (localFilters.callType as any) || undefined,
-                            status: (localFilters.status as any) || undefined,
-                            areaCode: localFilters.areaCode || undefined,
-                            trunkNumber: localFilters.trunkNumber || undefined,
-                            terminationReason: localFilters.terminationReason || undefined,
-                            extension: (localFilters.extension as any) || undefined,
-                            stateCode: (localFilters.stateCode as any) || undefined,
-                            minDurationSec: localFilters.minDurationSec ? Number(localFilters.minDurationSec) : undefined,
-                            minCost: localFilters.minCost ? Number(localFilters.minCost) : undefined,
-                            maxCost: localFilters.maxCost ? Number(localFilters.maxCost) : undefined
-                          })
-                          setShowFilters(false)
-                        }}
-                        className="px-3 py-1.5 text-xs rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
-                      >
-                        Apply
-                      </button>
+                    <div className="space-y-2 max-h-[60vh] overflow-y-auto pr-1">
+                      {allColumns.map((column) => (
+                        <label key={column} className="flex items-center">
+                          <input
+                            type="checkbox"
+                            checked={displayColumns.includes(column)}
+                            onChange={(e) => toggleColumn(column, e.target.checked)}
+                            className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                          />
+                          <span className="ml-2 text-sm text-gray-700 dark:text-gray-300 font-mono">{column}</span>
+                        </label>
+                      ))}
                     </div>
                   </div>
                 </div>
               )}
             </div>
-            
-            <button
-              onClick={handleExport}
-              className="inline-flex items-center p-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-              title="Export to CSV"
-            >
-              <ArrowDownTrayIcon className="h-4 w-4" />
-            </button>
+            <ExportMenu onExport={handleExport} />
           </>
         }
         searchValue={searchTerm}
@@ -501,6 +358,20 @@ export default function RawDataPage({}: RawDataPageProps) {
         searchPlaceholder="Search raw data..."
       />
 
+      {query && (
+        <div className="flex items-center gap-2 px-4 sm:px-6 lg:px-8 py-1.5 bg-indigo-50 dark:bg-indigo-900/30 border-b border-indigo-100 dark:border-indigo-800 text-xs text-indigo-800 dark:text-indigo-200">
+          <span className="font-medium shrink-0">Query:</span>
+          <span className="font-mono truncate" title={describeQuery(query)}>{describeQuery(query)}</span>
+          <button
+            onClick={() => setQuery(undefined)}
+            className="ml-auto p-0.5 rounded hover:bg-indigo-100 dark:hover:bg-indigo-800"
+            aria-label="Clear query"
+          >
+            <XMarkIcon className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+
       <div className="flex-1 overflow-hidden flex flex-col min-h-0">
         {isInitialLoading ? (
           <div className="flex items-center justify-center h-full">
@@ -513,7 +384,7 @@ export default function RawDataPage({}: RawDataPageProps) {
                 <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
                   <thead className="bg-gray-50 dark:bg-gray-900 sticky top-0 z-10">
                     <tr>
-                      {allColumns.map((column) => (
+                      {displayColumns.map((column) => (
                         <th
                           key={column}
                           className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
@@ -534,7 +405,7 @@ export default function RawDataPage({}: RawDataPageProps) {
                   <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                     {rawData.map((record, index) => (
                       <tr key={`${record._id || index}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                        {allColumns.map((column) => (
+                        {displayColumns.map((column) => (
                           <td key={column} className="px-4 py-2 whitespace-nowrap text-xs text-gray-900 dark:text-gray-100">
                             <div className="max-w-xs truncate" title={formatCellValue(record[column])}>
                               {formatCellValue(record[column])}
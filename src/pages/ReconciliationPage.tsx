@@ -0,0 +1,480 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline'
+import DynamicHeader from '../components/DynamicHeader'
+import ExportMenu from '../components/ExportMenu'
+import { useData } from '../contexts/DataContext'
+import { useDataSources } from '../contexts/DataSourcesContext'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { useRates } from '../contexts/RatesContext'
+import { dataService } from '../services/dataService'
+import type { CallLog } from '../services/dataService'
+import { getErrorMessage } from '../services/apiClient'
+import { parseCsv } from '../lib/csv'
+import { listTimeZones } from '../lib/datetime'
+import { buildExport, downloadBlob, exportFileName } from '../lib/exporters'
+import type { ExportFormat } from '../lib/exporters'
+import {
+  DEFAULT_CHARGE_TOLERANCE,
+  DEFAULT_MATCH_WINDOW_SECONDS,
+  DISPUTE_COLUMNS,
+  INVOICE_FIELDS,
+  disputeReportRows,
+  guessMapping,
+  mappingSignature,
+  parseInvoice,
+  reconcile,
+  validateMapping
+} from '../lib/reconciliation'
+import type { DateOrder, InvoiceField, InvoiceMapping, Reconciliation } from '../lib/reconciliation'
+
+interface LayoutContext {
+  onMenuClick: () => void;
+  isSidebarCollapsed: boolean;
+  onToggleSidebar: () => void;
+}
+
+type ResultTab = 'disputes' | 'unmatchedLines' | 'unmatchedCalls' | 'matched'
+
+// Column mappings by invoice layout, so each carrier's file is mapped once
+const MAPPINGS_STORAGE_KEY = 'invoiceColumnMappings'
+
+// Rows rendered per table; the dispute report export has every line
+const ROWS_SHOWN = 200
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white text-sm'
+
+const loadMappings = (): Record<string, InvoiceMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPINGS_STORAGE_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+const saveMapping = (signature: string, mapping: InvoiceMapping) => {
+  localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify({ ...loadMappings(), [signature]: mapping }))
+}
+
+// Match a carrier invoice against the call records and list what to dispute
+export default function ReconciliationPage() {
+  const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
+  const { selectedDataSource } = useData()
+  const { getDataSource } = useDataSources()
+  const { formatDateTime, timeZone } = usePreferences()
+  const { hasRates, rate } = useRates()
+  const zoneOptions = listTimeZones()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<InvoiceMapping | null>(null)
+  const [isSavedMapping, setIsSavedMapping] = useState(false)
+  const [windowSeconds, setWindowSeconds] = useState(DEFAULT_MATCH_WINDOW_SECONDS)
+  const [tolerance, setTolerance] = useState(DEFAULT_CHARGE_TOLERANCE)
+  const [basis, setBasis] = useState<'pbx' | 'rated'>(hasRates ? 'rated' : 'pbx')
+  const basisChosenRef = useRef(false)
+  const [trunks, setTrunks] = useState('')
+  const [result, setResult] = useState<Reconciliation | null>(null)
+  const [lineErrors, setLineErrors] = useState<string[]>([])
+  const [truncated, setTruncated] = useState(false)
+  const [progress, setProgress] = useState<{ loaded: number; total?: number } | null>(null)
+  const [tab, setTab] = useState<ResultTab>('disputes')
+  const [error, setError] = useState<string | null>(null)
+
+  const headers = rows[0] || []
+  const mappingError = mapping ? validateMapping(mapping, headers) : null
+  const disputes = useMemo(() => result ? disputeReportRows(result) : [], [result])
+
+  // Rate decks load after the first render; switch to rated cost then unless the user picked a basis
+  useEffect(() => {
+    if (hasRates && !basisChosenRef.current) setBasis('rated')
+  }, [hasRates])
+
+  const currency = getDataSource(selectedDataSource)?.currency || 'USD'
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2
+    }).format(value)
+  }
+
+  const formatDuration = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60)
+    return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, '0')}`
+  }
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    setResult(null)
+    setLineErrors([])
+    const parsed = parseCsv(await file.text())
+    if (parsed.length < 2) {
+      setError('The file has no invoice lines')
+      return
+    }
+    const saved = loadMappings()[mappingSignature(parsed[0])]
+    const usable = saved && !validateMapping(saved, parsed[0])
+    setFileName(file.name)
+    setRows(parsed)
+    setMapping(usable ? saved : guessMapping(parsed[0], timeZone))
+    setIsSavedMapping(Boolean(usable))
+  }
+
+  const updateMapping = (patch: Partial<InvoiceMapping>) => {
+    setMapping(prev => prev && { ...prev, ...patch })
+  }
+
+  const updateColumn = (field: InvoiceField, header: string) => {
+    setMapping(prev => prev && { ...prev, columns: { ...prev.columns, [field]: header } })
+  }
+
+  const handleRun = async () => {
+    if (!mapping || mappingError) return
+    const { lines, errors } = parseInvoice(rows, mapping)
+    setLineErrors(errors)
+    setResult(null)
+    if (lines.length === 0) {
+      setError('None of the invoice lines could be read. Check the column mapping and date order.')
+      return
+    }
+    saveMapping(mappingSignature(headers), mapping)
+    setIsSavedMapping(true)
+
+    try {
+      setError(null)
+      setProgress({ loaded: 0 })
+      const times = lines.map(line => line.startTime.getTime())
+      const margin = windowSeconds * 1000
+      const { data, truncated } = await dataService.getAllCallLogs({
+        collection: selectedDataSource,
+        callType: 'outgoing',
+        dateFrom: new Date(times.reduce((min, time) => Math.min(min, time), Infinity) - margin).toISOString(),
+        dateTo: new Date(times.reduce((max, time) => Math.max(max, time), -Infinity) + margin).toISOString()
+      }, {
+        onProgress: (loaded, total) => setProgress({ loaded, total })
+      })
+      // An invoice usually covers one carrier's trunks; other trunks' calls would show as not billed
+      const trunkList = trunks.split(/[\s,;]+/).map(trunk => trunk.trim()).filter(Boolean)
+      const calls = trunkList.length ? data.filter(call => trunkList.includes(call.trunkNumber || '')) : data
+      const expectedCost = basis === 'rated'
+        ? (call: CallLog) => rate(call).cost
+        : (call: CallLog) => call.cost ?? 0
+      setResult(reconcile(lines, calls, { windowSeconds, tolerance, expectedCost }))
+      setTruncated(truncated)
+      setTab('disputes')
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load call records for the invoice period'))
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    try {
+      const blob = await buildExport(disputes, DISPUTE_COLUMNS, exportFormat, timeZone)
+      downloadBlob(blob, exportFileName('invoice-disputes', exportFormat))
+    } catch (err) {
+      console.error('Export error:', err)
+      setError('Failed to export the dispute report')
+    }
+  }
+
+  const tabs: Array<{ key: ResultTab; label: string; count: number }> = result ? [
+    { key: 'disputes', label: 'Charge discrepancies', count: result.matched.filter(entry => entry.disputed).length },
+    { key: 'unmatchedLines', label: 'Billed, no call record', count: result.unmatchedLines.length },
+    { key: 'unmatchedCalls', label: 'Call records not billed', count: result.unmatchedCalls.length },
+    { key: 'matched', label: 'All matched', count: result.matched.length }
+  ] : []
+
+  const thClass = 'px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider whitespace-nowrap'
+  const tdClass = 'px-3 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300'
+
+  const renderMatched = (entries: Reconciliation['matched']) => (
+    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+      <thead className="bg-gray-50 dark:bg-gray-900">
+        <tr>
+          {['Line', 'Invoice time', 'Number', 'Billed', 'CDR', 'Charge', 'Expected', 'Difference'].map(header => (
+            <th key={header} className={thClass}>{header}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+        {entries.slice(0, ROWS_SHOWN).map(entry => (
+          <tr key={entry.line.line}>
+            <td className={tdClass}>{entry.line.line}</td>
+            <td className={tdClass} title={`CDR started ${formatDateTime(entry.call.startTime)}`}>{formatDateTime(entry.line.startTime)}</td>
+            <td className={`${tdClass} font-mono text-xs`}>{entry.line.dialedNumber}</td>
+            <td className={tdClass}>{formatDuration(entry.line.durationSeconds)}</td>
+            <td className={tdClass}>{formatDuration(entry.call.durationSeconds)}</td>
+            <td className={tdClass}>{formatCurrency(entry.line.charge)}</td>
+            <td className={tdClass}>{entry.expected === null ? 'No rate' : formatCurrency(entry.expected)}</td>
+            <td className={`${tdClass} ${entry.disputed ? (entry.difference! > 0 ? 'font-medium text-red-600 dark:text-red-400' : 'font-medium text-amber-600 dark:text-amber-400') : ''}`}>
+              {entry.difference === null ? '-' : formatCurrency(entry.difference)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+
+  const renderTab = () => {
+    if (!result) return null
+    if (tab === 'disputes') return renderMatched(result.matched.filter(entry => entry.disputed))
+    if (tab === 'matched') return renderMatched(result.matched)
+    if (tab === 'unmatchedLines') {
+      return (
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              {['Line', 'Invoice time', 'Number', 'Billed', 'Charge'].map(header => (
+                <th key={header} className={thClass}>{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {result.unmatchedLines.slice(0, ROWS_SHOWN).map(line => (
+              <tr key={line.line}>
+                <td className={tdClass}>{line.line}</td>
+                <td className={tdClass}>{formatDateTime(line.startTime)}</td>
+                <td className={`${tdClass} font-mono text-xs`}>{line.dialedNumber}</td>
+                <td className={tdClass}>{formatDuration(line.durationSeconds)}</td>
+                <td className={tdClass}>{formatCurrency(line.charge)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )
+    }
+    return (
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-900">
+          <tr>
+            {['Start time', 'From', 'To', 'Trunk', 'Duration', 'PBX cost'].map(header => (
+              <th key={header} className={thClass}>{header}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {result.unmatchedCalls.slice(0, ROWS_SHOWN).map(call => (
+            <tr key={call._id}>
+              <td className={tdClass}>{formatDateTime(call.startTime)}</td>
+              <td className={tdClass}>{call.fromNumber}</td>
+              <td className={`${tdClass} font-mono text-xs`}>{call.toNumber}</td>
+              <td className={tdClass}>{call.trunkNumber || '-'}</td>
+              <td className={tdClass}>{formatDuration(call.durationSeconds)}</td>
+              <td className={tdClass}>{formatCurrency(call.cost || 0)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )
+  }
+
+  const activeCount = tabs.find(t => t.key === tab)?.count || 0
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <DynamicHeader
+        title="Invoice Reconciliation"
+        onMenuClick={onMenuClick}
+        isSidebarCollapsed={isSidebarCollapsed}
+        onToggleSidebar={onToggleSidebar}
+        actions={<ExportMenu onExport={handleExport} label="Dispute report" disabled={disputes.length === 0} />}
+      />
+
+      <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Carrier invoice</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                Upload the invoice's call detail as CSV. Each line is matched to the outgoing call record to the same number that started closest to it.
+              </p>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+                e.target.value = ''
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors shadow-sm text-sm whitespace-nowrap"
+            >
+              <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+              {fileName ? 'Choose another file' : 'Upload invoice CSV'}
+            </button>
+          </div>
+
+          {mapping && (
+            <div className="mt-6">
+              <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
+                <span className="font-medium">{fileName}</span> · {(rows.length - 1).toLocaleString()} lines
+                {isSavedMapping && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">Using the saved mapping for this invoice layout</span>}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                {INVOICE_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{label}</label>
+                    <select value={mapping.columns[field]} onChange={(e) => updateColumn(field, e.target.value)} className={inputClass}>
+                      <option value="">{required ? 'Choose a column' : 'Not in this file'}</option>
+                      {headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Date order</label>
+                  <select value={mapping.dateOrder} onChange={(e) => updateMapping({ dateOrder: e.target.value as DateOrder })} className={inputClass}>
+                    <option value="mdy">Month/day/year</option>
+                    <option value="dmy">Day/month/year</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Durations in</label>
+                  <select value={mapping.durationUnit} onChange={(e) => updateMapping({ durationUnit: e.target.value as InvoiceMapping['durationUnit'] })} className={inputClass}>
+                    <option value="seconds">Seconds</option>
+                    <option value="minutes">Minutes</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Invoice timezone</label>
+                  <select value={mapping.timeZone} onChange={(e) => updateMapping({ timeZone: e.target.value })} className={inputClass}>
+                    {zoneOptions.map(zone => (
+                      <option key={zone} value={zone}>{zone}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Match window (seconds)</label>
+                  <input type="number" min={0} value={windowSeconds} onChange={(e) => setWindowSeconds(Math.max(0, Number(e.target.value) || 0))} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Charge tolerance</label>
+                  <input type="number" min={0} step={0.01} value={tolerance} onChange={(e) => setTolerance(Math.max(0, Number(e.target.value) || 0))} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Compare charges with</label>
+                  <select value={basis} onChange={(e) => {
+                    basisChosenRef.current = true
+                    setBasis(e.target.value as 'pbx' | 'rated')
+                  }} className={inputClass}>
+                    <option value="pbx">PBX cost</option>
+                    <option value="rated" disabled={!hasRates}>Rated cost{hasRates ? '' : ' (no rate decks)'}</option>
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Only call records on trunks</label>
+                  <input type="text" value={trunks} onChange={(e) => setTrunks(e.target.value)} placeholder="All trunks" className={inputClass} />
+                </div>
+              </div>
+              <div className="mt-4 flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={handleRun}
+                  disabled={Boolean(mappingError) || progress !== null}
+                  className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+                >
+                  {progress !== null ? 'Matching...' : 'Reconcile'}
+                </button>
+                {mappingError && <span className="text-sm text-gray-500 dark:text-gray-400">{mappingError}</span>}
+                {progress !== null && (
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    Loading call records{progress.total ? ` · ${progress.loaded.toLocaleString()} of ${progress.total.toLocaleString()}` : '...'}
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3 text-sm text-red-700 dark:text-red-300">{error}</div>
+        )}
+
+        {lineErrors.length > 0 && (
+          <div className="rounded-md bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 p-3 text-xs text-amber-800 dark:text-amber-300">
+            <p className="font-medium mb-1">{lineErrors.length.toLocaleString()} invoice line{lineErrors.length === 1 ? '' : 's'} could not be read and were left out</p>
+            <ul className="list-disc pl-4 space-y-0.5">
+              {lineErrors.slice(0, 10).map(message => <li key={message}>{message}</li>)}
+            </ul>
+            {lineErrors.length > 10 && <p className="mt-1">…and {(lineErrors.length - 10).toLocaleString()} more</p>}
+          </div>
+        )}
+
+        {result && (
+          <>
+            {truncated && (
+              <p className="text-sm text-amber-700 dark:text-amber-300">
+                The invoice period has more call records than can be loaded at once, so some lines may show as unmatched. Split the invoice into smaller periods.
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">Invoiced</h3>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(result.totals.invoiced)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{(result.matched.length + result.unmatchedLines.length).toLocaleString()} lines</p>
+              </div>
+              <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">Matched to call records</h3>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(result.totals.matchedInvoiced)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Expected {formatCurrency(result.totals.matchedExpected)}</p>
+              </div>
+              <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">Overcharged</h3>
+                <p className={`text-2xl font-bold ${result.totals.overcharged > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>{formatCurrency(result.totals.overcharged)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">On matched calls, beyond the tolerance</p>
+              </div>
+              <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400">Billed with no call record</h3>
+                <p className={`text-2xl font-bold ${result.totals.unmatchedInvoiced > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>{formatCurrency(result.totals.unmatchedInvoiced)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{result.unmatchedLines.length.toLocaleString()} lines</p>
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+              <div className="flex flex-wrap gap-1 px-3 pt-3 border-b border-gray-200 dark:border-gray-700">
+                {tabs.map(t => (
+                  <button
+                    key={t.key}
+                    type="button"
+                    onClick={() => setTab(t.key)}
+                    className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+                      tab === t.key
+                        ? 'border-indigo-600 text-indigo-600 dark:text-indigo-400'
+                        : 'border-transparent text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+                    }`}
+                  >
+                    {t.label} <span className="text-xs text-gray-500 dark:text-gray-400">({t.count.toLocaleString()})</span>
+                  </button>
+                ))}
+              </div>
+              <div className="overflow-x-auto">
+                {activeCount === 0 ? (
+                  <p className="px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400">Nothing here</p>
+                ) : renderTab()}
+              </div>
+              {activeCount > ROWS_SHOWN && (
+                <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                  Showing {ROWS_SHOWN} of {activeCount.toLocaleString()}. The dispute report has every discrepancy and unmatched invoice line.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,559 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useOutletContext } from 'react-router-dom'
+import { usePreferences } from '../contexts/PreferencesContext'
+import { useData } from '../contexts/DataContext'
+import DynamicHeader from '../components/DynamicHeader'
+import { reportScheduleService } from '../services/reportScheduleService'
+import type { ReportSchedule, ScheduleCadence, ScheduleData, ScheduleReport } from '../services/reportScheduleService'
+import { savedViewService } from '../services/savedViewService'
+import type { SavedView } from '../services/savedViewService'
+import { useDataSources } from '../contexts/DataSourcesContext'
+import { getErrorMessage } from '../services/apiClient'
+import { EXPORT_FORMATS } from '../lib/exporters'
+import type { ExportFormat } from '../lib/exporters'
+import {
+  PlusIcon,
+  PaperAirplaneIcon,
+  PencilSquareIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline'
+import { formatInTimeZone } from '../lib/datetime'
+import { quickRangeLabel } from '../lib/dateRanges'
+
+interface LayoutContext {
+  onMenuClick: () => void;
+  isSidebarCollapsed: boolean;
+  onToggleSidebar: () => void;
+}
+
+const REPORTS: Array<{ value: ScheduleReport; label: string }> = [
+  { value: 'call-logs', label: 'Call Logs' },
+  { value: 'area-codes', label: 'Area Codes' },
+  { value: 'extensions', label: 'Extensions' }
+]
+
+const CADENCES: Array<{ value: ScheduleCadence; label: string }> = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' }
+]
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white text-sm'
+
+const parseRecipients = (text: string) =>
+  Array.from(new Set(text.split(/[\s,;]+/).map(email => email.trim()).filter(Boolean)))
+
+const describeCadence = (schedule: Pick<ReportSchedule, 'cadence' | 'dayOfWeek' | 'dayOfMonth' | 'time' | 'timezone'>) => {
+  const at = `at ${schedule.time} (${schedule.timezone})`
+  if (schedule.cadence === 'weekly') return `Every ${WEEKDAYS[schedule.dayOfWeek ?? 1]} ${at}`
+  if (schedule.cadence === 'monthly') return `Monthly on day ${schedule.dayOfMonth ?? 1} ${at}`
+  return `Daily ${at}`
+}
+
+
+interface ScheduleModalProps {
+  isOpen: boolean
+  schedule: ReportSchedule | null
+  timezone: string
+  onClose: () => void
+  onSubmit: (data: ScheduleData) => Promise<void>
+}
+
+function ScheduleModal({ isOpen, schedule, timezone, onClose, onSubmit }: ScheduleModalProps) {
+  const { selectedDataSource } = useData()
+  const [name, setName] = useState('')
+  const [report, setReport] = useState<ScheduleReport>('call-logs')
+  const [savedViewId, setSavedViewId] = useState('')
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv')
+  const [cadence, setCadence] = useState<ScheduleCadence>('weekly')
+  const [dayOfWeek, setDayOfWeek] = useState(1)
+  const [dayOfMonth, setDayOfMonth] = useState(1)
+  const [time, setTime] = useState('08:00')
+  const [recipientsText, setRecipientsText] = useState('')
+  const [enabled, setEnabled] = useState(true)
+  const [views, setViews] = useState<SavedView[]>([])
+  const [isLoadingViews, setIsLoadingViews] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reset the form whenever the modal opens
+  useEffect(() => {
+    if (!isOpen) return
+    setName(schedule?.name || '')
+    setReport(schedule?.report || 'call-logs')
+    setSavedViewId(schedule?.savedViewId || '')
+    setExportFormat(schedule?.format || 'csv')
+    setCadence(schedule?.cadence || 'weekly')
+    setDayOfWeek(schedule?.dayOfWeek ?? 1)
+    setDayOfMonth(schedule?.dayOfMonth ?? 1)
+    setTime(schedule?.time || '08:00')
+    setRecipientsText(schedule?.recipients.join(', ') || '')
+    setEnabled(schedule?.enabled ?? true)
+    setError(null)
+  }, [isOpen, schedule])
+
+  // Saved filter sets for the chosen report
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    setIsLoadingViews(true)
+    savedViewService.getViews(report)
+      .then(response => { if (!cancelled) setViews(response.views || []) })
+      .catch(() => { if (!cancelled) setViews([]) })
+      .finally(() => { if (!cancelled) setIsLoadingViews(false) })
+    return () => { cancelled = true }
+  }, [isOpen, report])
+
+  // Close with Escape
+  useEffect(() => {
+    if (!isOpen) return
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+    document.addEventListener('keydown', onKey)
+    return () => document.removeEventListener('keydown', onKey)
+  }, [isOpen, onClose])
+
+  const recipients = parseRecipients(recipientsText)
+  const invalidRecipients = recipients.filter(email => !EMAIL_PATTERN.test(email))
+  const selectedView = views.find(view => view._id === savedViewId)
+  // An edited schedule keeps its stored filters even if the saved view was since deleted
+  const hasFilterSet = Boolean(selectedView || (schedule && schedule.report === report && schedule.savedViewId === savedViewId))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || !hasFilterSet || recipients.length === 0 || invalidRecipients.length > 0) return
+    try {
+      setIsSaving(true)
+      setError(null)
+      await onSubmit({
+        name: name.trim(),
+        report,
+        savedViewId: savedViewId || null,
+        view: selectedView ? selectedView.view : schedule!.view,
+        dataSource: selectedView?.dataSource || schedule?.dataSource || selectedDataSource,
+        format: exportFormat,
+        cadence,
+        dayOfWeek: cadence === 'weekly' ? dayOfWeek : undefined,
+        dayOfMonth: cadence === 'monthly' ? dayOfMonth : undefined,
+        time,
+        timezone: schedule?.timezone || timezone,
+        recipients,
+        enabled
+      })
+      onClose()
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to save schedule'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div
+          className="fixed inset-0 bg-gradient-to-br from-gray-900/60 via-gray-800/40 to-gray-900/60 backdrop-blur-sm"
+          onClick={onClose}
+        ></div>
+        <div className="relative bg-white/90 dark:bg-gray-800/90 backdrop-blur rounded-2xl shadow-2xl ring-1 ring-black/5 dark:ring-white/10 max-w-xl w-full p-6">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white">{schedule ? 'Edit Schedule' : 'New Schedule'}</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">Email a saved report on a fixed cadence</p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Weekly outbound cost"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Report</label>
+                <select
+                  value={report}
+                  onChange={(e) => {
+                    setReport(e.target.value as ScheduleReport)
+                    setSavedViewId('')
+                  }}
+                  className={inputClass}
+                >
+                  {REPORTS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Format</label>
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  className={inputClass}
+                >
+                  {EXPORT_FORMATS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Filter set</label>
+              <select
+                value={savedViewId}
+                onChange={(e) => setSavedViewId(e.target.value)}
+                className={inputClass}
+                disabled={isLoadingViews}
+              >
+                <option value="">{isLoadingViews ? 'Loading saved views…' : 'Choose a saved view'}</option>
+                {schedule?.savedViewId && schedule.report === report && !views.some(view => view._id === schedule.savedViewId) && (
+                  <option value={schedule.savedViewId}>{schedule.savedViewName || 'Saved filters'} (no longer saved)</option>
+                )}
+                {views.map(view => (
+                  <option key={view._id} value={view._id}>{view.name}</option>
+                ))}
+              </select>
+              {!isLoadingViews && views.length === 0 && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Save a view on the {REPORTS.find(option => option.value === report)?.label} page first.
+                </p>
+              )}
+              {selectedView && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {selectedView.view.filters.dateRange
+                    ? `Each report covers ${quickRangeLabel(selectedView.view.filters.dateRange).toLowerCase()} as of when it is sent.`
+                    : selectedView.view.filters.dateFrom || selectedView.view.filters.dateTo
+                    ? 'This view has fixed dates, so every report covers the same period. Save it with a preset such as "Last 7 days" to keep it rolling.'
+                    : 'This view has no date filter, so every report covers all calls.'}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Cadence</label>
+                <select
+                  value={cadence}
+                  onChange={(e) => setCadence(e.target.value as ScheduleCadence)}
+                  className={inputClass}
+                >
+                  {CADENCES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                {cadence === 'weekly' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">On</label>
+                    <select
+                      value={dayOfWeek}
+                      onChange={(e) => setDayOfWeek(parseInt(e.target.value, 10))}
+                      className={inputClass}
+                    >
+                      {WEEKDAYS.map((day, index) => (
+                        <option key={day} value={index}>{day}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+                {cadence === 'monthly' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Day</label>
+                    <select
+                      value={dayOfMonth}
+                      onChange={(e) => setDayOfMonth(parseInt(e.target.value, 10))}
+                      className={inputClass}
+                    >
+                      {/* Capped at 28 so every month has the day */}
+                      {Array.from({ length: 28 }, (_, i) => i + 1).map(day => (
+                        <option key={day} value={day}>{day}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">At</label>
+                <input
+                  type="time"
+                  required
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <p className="-mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Times are in {schedule?.timezone || timezone}
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Recipients</label>
+              <textarea
+                rows={2}
+                value={recipientsText}
+                onChange={(e) => setRecipientsText(e.target.value)}
+                placeholder="ops@example.com, finance@example.com"
+                className={inputClass}
+              />
+              {invalidRecipients.length > 0 && (
+                <p className="mt-1 text-xs text-red-600 dark:text-red-400">Not a valid email: {invalidRecipients.join(', ')}</p>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              />
+              Enabled
+            </label>
+
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || !name.trim() || !hasFilterSet || recipients.length === 0 || invalidRecipients.length > 0}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                {isSaving ? 'Saving...' : schedule ? 'Save Changes' : 'Create Schedule'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function SchedulesPage() {
+  const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
+  const { timeZone: timezone, preferences } = usePreferences()
+  const { getLabel } = useDataSources()
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showModal, setShowModal] = useState(false)
+  const [editingSchedule, setEditingSchedule] = useState<ReportSchedule | null>(null)
+  const [runningId, setRunningId] = useState<string | null>(null)
+
+  const formatTimestamp = (value?: string) =>
+    value ? formatInTimeZone(value, `${preferences.dateFormat} HH:mm`, timezone) : '-'
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await reportScheduleService.getSchedules()
+      setSchedules(response.schedules || [])
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load schedules'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSchedules()
+  }, [fetchSchedules])
+
+  const replaceSchedule = (schedule: ReportSchedule) => {
+    setSchedules(prev => prev.map(s => s._id === schedule._id ? schedule : s))
+  }
+
+  const handleSubmit = async (data: ScheduleData) => {
+    if (editingSchedule) {
+      const response = await reportScheduleService.updateSchedule(editingSchedule._id, data)
+      replaceSchedule(response.schedule)
+    } else {
+      const response = await reportScheduleService.createSchedule(data)
+      setSchedules(prev => [...prev, response.schedule])
+    }
+  }
+
+  const handleToggle = async (schedule: ReportSchedule) => {
+    try {
+      const response = await reportScheduleService.updateSchedule(schedule._id, { enabled: !schedule.enabled })
+      replaceSchedule(response.schedule)
+    } catch (err: any) {
+      alert(getErrorMessage(err, 'Failed to update schedule'))
+    }
+  }
+
+  const handleRun = async (schedule: ReportSchedule) => {
+    try {
+      setRunningId(schedule._id)
+      const response = await reportScheduleService.runSchedule(schedule._id)
+      replaceSchedule(response.schedule)
+    } catch (err: any) {
+      alert(getErrorMessage(err, 'Failed to send report'))
+    } finally {
+      setRunningId(null)
+    }
+  }
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) return
+    try {
+      await reportScheduleService.deleteSchedule(schedule._id)
+      setSchedules(prev => prev.filter(s => s._id !== schedule._id))
+    } catch (err: any) {
+      alert(getErrorMessage(err, 'Failed to delete schedule'))
+    }
+  }
+
+  const openEditor = (schedule: ReportSchedule | null) => {
+    setEditingSchedule(schedule)
+    setShowModal(true)
+  }
+
+  const closeEditor = useCallback(() => setShowModal(false), [])
+
+  const dataSourceLabel = (value?: string) => value ? getLabel(value) : '-'
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <DynamicHeader
+        title="Report Schedules"
+        onMenuClick={onMenuClick}
+        isSidebarCollapsed={isSidebarCollapsed}
+        onToggleSidebar={onToggleSidebar}
+        showSearch={false}
+        actions={
+          <button
+            onClick={() => openEditor(null)}
+            className="inline-flex items-center px-3 py-2 border border-indigo-600 text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-md text-sm font-medium"
+          >
+            <PlusIcon className="h-4 w-4 mr-2" /> New Schedule
+          </button>
+        }
+      />
+
+      <div className="px-6 py-4">
+        {error && (
+          <div className="mb-4 rounded-md border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 px-4 py-3 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                {['Name', 'Report', 'Format', 'Schedule', 'Recipients', 'Last Sent', 'Next Send', 'Enabled', ''].map(header => (
+                  <th key={header} className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={9} className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">Loading schedules…</td>
+                </tr>
+              ) : schedules.length === 0 ? (
+                <tr>
+                  <td colSpan={9} className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                    No schedules yet. Create one to have a saved report emailed automatically.
+                  </td>
+                </tr>
+              ) : schedules.map(schedule => (
+                <tr key={schedule._id} className="hover:bg-gray-50 dark:hover:bg-gray-700 text-xs text-gray-900 dark:text-gray-100">
+                  <td className="px-4 py-2">
+                    <p className="font-medium">{schedule.name}</p>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {schedule.savedViewName || 'Saved filters'} · {dataSourceLabel(schedule.dataSource)}
+                      {schedule.view.filters?.dateRange && ` · ${quickRangeLabel(schedule.view.filters.dateRange)}`}
+                    </p>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">{REPORTS.find(r => r.value === schedule.report)?.label || schedule.report}</td>
+                  <td className="px-4 py-2 whitespace-nowrap uppercase">{schedule.format}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{describeCadence(schedule)}</td>
+                  <td className="px-4 py-2">
+                    <span className="block max-w-48 truncate" title={schedule.recipients.join(', ')}>
+                      {schedule.recipients.join(', ')}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {formatTimestamp(schedule.lastRunAt)}
+                    {schedule.lastStatus === 'failed' && (
+                      <span className="ml-1 text-red-600 dark:text-red-400" title={schedule.lastError}>failed</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">{schedule.enabled ? formatTimestamp(schedule.nextRunAt) : 'Paused'}</td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="checkbox"
+                      checked={schedule.enabled}
+                      onChange={() => handleToggle(schedule)}
+                      className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                      title={schedule.enabled ? 'Pause' : 'Resume'}
+                    />
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => handleRun(schedule)}
+                      disabled={runningId === schedule._id}
+                      className="p-1 text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400 disabled:opacity-50"
+                      title="Send now"
+                    >
+                      <PaperAirplaneIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => openEditor(schedule)}
+                      className="p-1 text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400"
+                      title="Edit"
+                    >
+                      <PencilSquareIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(schedule)}
+                      className="p-1 text-gray-500 hover:text-red-600 dark:text-gray-400"
+                      title="Delete"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <ScheduleModal
+        isOpen={showModal}
+        schedule={editingSchedule}
+        timezone={timezone}
+        onClose={closeEditor}
+        onSubmit={handleSubmit}
+      />
+    </div>
+  )
+}
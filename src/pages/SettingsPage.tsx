@@ -3,12 +3,12 @@
 import { useState } from 'react'
 import { useOutletContext } from 'react-router-dom'
 import DynamicHeader from '../components/DynamicHeader'
-import {
- getDataSourceNames,
- setDataSourceNames,
- resetDataSourceNamesToDefault,
- getDataSourceOptions
-} from '../services/settingsService'
+import { ALL_DATA_SOURCES, useDataSources } from '../contexts/DataSourcesContext'
+import { dataSourceService } from '../services/dataSourceService'
+import type { DataSource, DataSourceData } from '../services/dataSourceService'
+import { getErrorMessage } from '../services/apiClient'
+import { listTimeZones } from '../lib/datetime'
+import { DEFAULT_GAP_THRESHOLD_MINUTES } from '../lib/ingestion'
 
 type TabKey = 'database' // extend later with more keys
 
@@ -18,6 +18,44 @@ interface LayoutContext {
  onToggleSidebar: () => void
 }
 
+const EMPTY_SOURCE: DataSourceData = { id: '', name: '', host: '', timezone: '', currency: 'USD', enabled: true }
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white text-sm'
+
+// First problem with a data source draft, or null when it can be saved
+function validateSource(data: DataSourceData, existing: DataSource[]): string | null {
+  const id = data.id.trim()
+  if (!id) return 'Enter the collection the PBX writes call records to'
+  if (!/^[\w.-]+$/.test(id)) return 'Collection names may only contain letters, digits, ".", "-" and "_"'
+  if (id === ALL_DATA_SOURCES) return `"${id}" is reserved for the combined view of all sources`
+  if (existing.some(source => source.id === id)) return `"${id}" is already registered`
+  if (!data.name.trim()) return 'Enter a display name'
+  if (!/^[A-Za-z]{3}$/.test(data.currency.trim())) return 'Currency must be a three-letter code such as USD'
+  if (data.gapThresholdMinutes !== undefined && !(Number.isInteger(data.gapThresholdMinutes) && data.gapThresholdMinutes >= 5)) {
+    return 'Quiet threshold must be a whole number of minutes, at least 5'
+  }
+  return null
+}
+
+// PBX timezone picker; quick date ranges and call times use it when "PBX timezone" is chosen on the Account page
+function TimeZoneSelect({ value, options, onChange }: { value: string; options: string[]; onChange: (zone: string) => void }) {
+ return (
+   <div className="mt-3">
+     <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">PBX timezone</label>
+     <select
+       value={value}
+       onChange={(e) => onChange(e.target.value)}
+       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white text-sm"
+     >
+       <option value="">Not set (use each user's timezone)</option>
+       {options.map(zone => (
+         <option key={zone} value={zone}>{zone}</option>
+       ))}
+     </select>
+   </div>
+ )
+}
+
 export default function SettingsPage() {
  // Layout controls from parent (for sidebar toggle)
  const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<LayoutContext>()
@@ -25,33 +63,70 @@ export default function SettingsPage() {
  // Tabs
  const [activeTab, setActiveTab] = useState<TabKey>('database')
 
- // Database naming state
- const [names, setNames] = useState(getDataSourceNames())
+ // Data source registry
+ const { dataSources, isLoading, error: loadError, refresh } = useDataSources()
+ const zoneOptions = listTimeZones()
+ const [editing, setEditing] = useState<{ isNew: boolean; data: DataSourceData } | null>(null)
  const [saving, setSaving] = useState(false)
- const [saved, setSaved] = useState(false)
+ const [error, setError] = useState<string | null>(null)
 
- const options = getDataSourceOptions()
+ const startAdd = () => {
+   setError(null)
+   setEditing({ isNew: true, data: { ...EMPTY_SOURCE } })
+ }
+
+ const startEdit = (source: DataSource) => {
+   setError(null)
+   setEditing({
+     isNew: false,
+     data: { id: source.id, name: source.name, host: source.host, timezone: source.timezone || '', currency: source.currency, enabled: source.enabled, gapThresholdMinutes: source.gapThresholdMinutes }
+   })
+ }
 
- const handleChange = (key: keyof typeof names, value: string) => {
-   setNames(prev => ({ ...prev, [key]: value }))
+ const updateDraft = (patch: Partial<DataSourceData>) => {
+   setEditing(prev => prev && { ...prev, data: { ...prev.data, ...patch } })
  }
 
+ const draftError = editing ? validateSource(editing.data, editing.isNew ? dataSources : []) : null
+
  const handleSave = async () => {
+   if (!editing || draftError) return
    setSaving(true)
+   setError(null)
    try {
-     setDataSourceNames(names)
-     setSaved(true)
-     setTimeout(() => setSaved(false), 2000)
+     const { id, ...rest } = editing.data
+     const data = { ...rest, name: rest.name.trim(), host: rest.host.trim(), currency: rest.currency.trim().toUpperCase(), timezone: rest.timezone || undefined }
+     if (editing.isNew) await dataSourceService.createDataSource({ id: id.trim(), ...data })
+     else await dataSourceService.updateDataSource(id, data)
+     await refresh()
+     setEditing(null)
+   } catch (err: any) {
+     setError(getErrorMessage(err, 'Failed to save data source'))
    } finally {
      setSaving(false)
    }
  }
 
- const handleReset = () => {
-   resetDataSourceNamesToDefault()
-   setNames(getDataSourceNames())
-   setSaved(true)
-   setTimeout(() => setSaved(false), 2000)
+ const handleToggle = async (source: DataSource) => {
+   setError(null)
+   try {
+     await dataSourceService.updateDataSource(source.id, { enabled: !source.enabled })
+     await refresh()
+   } catch (err: any) {
+     setError(getErrorMessage(err, 'Failed to update data source'))
+   }
+ }
+
+ const handleDelete = async (source: DataSource) => {
+   if (!confirm(`Remove data source "${source.name}"? Its call records are kept, but users lose access to it.`)) return
+   setError(null)
+   try {
+     await dataSourceService.deleteDataSource(source.id)
+     await refresh()
+     if (editing?.data.id === source.id) setEditing(null)
+   } catch (err: any) {
+     setError(getErrorMessage(err, 'Failed to delete data source'))
+   }
  }
 
  const tabs: Array<{ key: TabKey; label: string; icon: JSX.Element }> = [
@@ -116,63 +191,142 @@ export default function SettingsPage() {
          aria-labelledby="tab-database"
          className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow border border-gray-200 dark:border-gray-700"
        >
-         <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Data Source Names</h2>
-         <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
-           These names are shown in the sidebar and user permissions. Refresh the page to see updates across the app.
-         </p>
-
-         <div className="grid grid-cols-1 gap-5">
+         <div className="flex items-start justify-between gap-4 mb-4">
            <div>
-             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-               Data Source 1
-             </label>
-             <input
-               type="text"
-               value={names['cdrs_143.198.0.104']}
-               onChange={(e) => handleChange('cdrs_143.198.0.104', e.target.value)}
-               placeholder="Option 1"
-               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
-             />
-             <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-               Preview: {options.find(o => o.value === 'cdrs_143.198.0.104')?.label}
+             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Data Sources</h2>
+             <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+               Each PBX the app reads call records from. Enabled sources appear in the sidebar selector for users permitted to see them.
              </p>
            </div>
-
-           <div>
-             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-               Data Source 2
-             </label>
-             <input
-               type="text"
-               value={names['cdrs_167.71.120.52']}
-               onChange={(e) => handleChange('cdrs_167.71.120.52', e.target.value)}
-               placeholder="Option 2"
-               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
-             />
-             <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-               Preview: {options.find(o => o.value === 'cdrs_167.71.120.52')?.label}
-             </p>
-           </div>
-         </div>
-
-         <div className="mt-6 flex items-center gap-3">
-           <button
-             onClick={handleSave}
-             disabled={saving}
-             className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
-           >
-             {saving ? 'Saving...' : 'Save Changes'}
-           </button>
            <button
-             onClick={handleReset}
-             className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 transition-colors shadow-sm"
+             type="button"
+             onClick={startAdd}
+             className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors shadow-sm text-sm whitespace-nowrap"
            >
-             Reset to Default
+             Add data source
            </button>
-           {saved && (
-             <span className="text-sm text-green-600 dark:text-green-400">Saved</span>
-           )}
          </div>
+
+         {(error || loadError) && (
+           <div className="mb-4 rounded-md bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3 text-sm text-red-700 dark:text-red-300">{error || loadError}</div>
+         )}
+
+         <div className="overflow-x-auto">
+           <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+             <thead className="bg-gray-50 dark:bg-gray-900">
+               <tr>
+                 {['Name', 'Collection', 'PBX host', 'Timezone', 'Currency', 'Enabled', ''].map(header => (
+                   <th key={header} className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{header}</th>
+                 ))}
+               </tr>
+             </thead>
+             <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+               {dataSources.length === 0 ? (
+                 <tr>
+                   <td colSpan={7} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">
+                     {isLoading ? 'Loading data sources...' : 'No data sources registered yet'}
+                   </td>
+                 </tr>
+               ) : dataSources.map(source => (
+                 <tr key={source.id} className={source.enabled ? '' : 'opacity-60'}>
+                   <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900 dark:text-white">{source.name}</td>
+                   <td className="px-4 py-2 whitespace-nowrap font-mono text-xs text-gray-700 dark:text-gray-300">{source.id}</td>
+                   <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{source.host || '-'}</td>
+                   <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{source.timezone || 'User timezone'}</td>
+                   <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{source.currency}</td>
+                   <td className="px-4 py-2 whitespace-nowrap">
+                     <button
+                       type="button"
+                       role="switch"
+                       aria-checked={source.enabled}
+                       onClick={() => handleToggle(source)}
+                       className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${source.enabled ? 'bg-indigo-600' : 'bg-gray-300 dark:bg-gray-600'}`}
+                       title={source.enabled ? 'Disable' : 'Enable'}
+                     >
+                       <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${source.enabled ? 'translate-x-4' : 'translate-x-0.5'}`} />
+                     </button>
+                   </td>
+                   <td className="px-4 py-2 whitespace-nowrap text-right">
+                     <button type="button" onClick={() => startEdit(source)} className="text-indigo-600 dark:text-indigo-400 hover:underline mr-3">Edit</button>
+                     <button type="button" onClick={() => handleDelete(source)} className="text-red-600 dark:text-red-400 hover:underline">Remove</button>
+                   </td>
+                 </tr>
+               ))}
+             </tbody>
+           </table>
+         </div>
+
+         {editing && (
+           <div className="mt-6 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+             <h3 className="text-base font-semibold text-gray-900 dark:text-white mb-4">
+               {editing.isNew ? 'New data source' : `Edit ${editing.data.name || editing.data.id}`}
+             </h3>
+             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+               <div>
+                 <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Display name</label>
+                 <input type="text" value={editing.data.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="Head office" className={inputClass} />
+               </div>
+               <div>
+                 <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Collection</label>
+                 <input
+                   type="text"
+                   value={editing.data.id}
+                   onChange={(e) => updateDraft({ id: e.target.value })}
+                   disabled={!editing.isNew}
+                   placeholder="cdrs_10.0.0.5"
+                   className={`${inputClass} font-mono disabled:opacity-60`}
+                 />
+                 {!editing.isNew && (
+                   <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">User permissions refer to this, so it can't be changed</p>
+                 )}
+               </div>
+               <div>
+                 <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">PBX host</label>
+                 <input type="text" value={editing.data.host} onChange={(e) => updateDraft({ host: e.target.value })} placeholder="10.0.0.5" className={inputClass} />
+               </div>
+               <div>
+                 <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Currency</label>
+                 <input type="text" value={editing.data.currency} maxLength={3} onChange={(e) => updateDraft({ currency: e.target.value })} placeholder="USD" className={`${inputClass} uppercase`} />
+               </div>
+               <div>
+                 <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Quiet after (minutes)</label>
+                 <input
+                   type="number"
+                   min={5}
+                   value={editing.data.gapThresholdMinutes ?? ''}
+                   onChange={(e) => updateDraft({ gapThresholdMinutes: e.target.value === '' ? undefined : Number(e.target.value) })}
+                   placeholder={String(DEFAULT_GAP_THRESHOLD_MINUTES)}
+                   className={inputClass}
+                 />
+                 <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Flagged on Data Health after this long without a call record</p>
+               </div>
+               <div className="md:col-span-2 -mt-3">
+                 <TimeZoneSelect value={editing.data.timezone || ''} options={zoneOptions} onChange={(zone) => updateDraft({ timezone: zone })} />
+               </div>
+               <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                 <input type="checkbox" checked={editing.data.enabled} onChange={(e) => updateDraft({ enabled: e.target.checked })} className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                 Enabled
+               </label>
+             </div>
+
+             <div className="mt-4 flex items-center gap-3">
+               <button
+                 onClick={handleSave}
+                 disabled={saving || Boolean(draftError)}
+                 className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+               >
+                 {saving ? 'Saving...' : editing.isNew ? 'Add data source' : 'Save Changes'}
+               </button>
+               <button
+                 onClick={() => setEditing(null)}
+                 className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 transition-colors shadow-sm"
+               >
+                 Cancel
+               </button>
+               {draftError && <span className="text-sm text-gray-500 dark:text-gray-400">{draftError}</span>}
+             </div>
+           </div>
+         )}
        </div>
      )}
      </div>
@@ -19,9 +19,11 @@ import {
 } from '@fortawesome/free-solid-svg-icons'
 import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
 import DynamicHeader from '../components/DynamicHeader'
+import { usePreferences } from '../contexts/PreferencesContext'
 import { userService } from '../services/userService'
 import type { User, UserStats, CreateUserData, UpdateUserData } from '../services/userService'
-import { getDataSourceOptions, getDataSourceNames } from '../services/settingsService'
+import { useDataSources } from '../contexts/DataSourcesContext'
+import { getErrorMessage, isCancelled } from '../services/apiClient'
 
 interface OutletContext {
   onMenuClick: () => void
@@ -43,6 +45,15 @@ const roles = [
   { value: 'viewer', label: 'Viewer', color: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200' }
 ]
 
+// Every registered data source, disabled ones included so access can be granted ahead of time
+function usePermissionOptions() {
+  const { dataSources, getLabel } = useDataSources()
+  return dataSources.map(source => ({
+    value: source.id,
+    label: source.enabled ? getLabel(source.id) : `${getLabel(source.id)} (disabled)`
+  }))
+}
+
 function CreateUserModal({ isOpen, onClose, onSubmit, loading = false }: CreateUserModalProps) {
   const [formData, setFormData] = useState({
     firstName: '',
@@ -55,7 +66,7 @@ function CreateUserModal({ isOpen, onClose, onSubmit, loading = false }: CreateU
   })
   const [showDatabaseDropdown, setShowDatabaseDropdown] = useState(false)
 
-  const databaseOptions = getDataSourceOptions()
+  const databaseOptions = usePermissionOptions()
   const createInitials =
     ((formData.firstName?.[0] || formData.username?.[0] || formData.email?.[0] || 'U') +
       (formData.lastName?.[0] || '')).toUpperCase()
@@ -344,7 +355,7 @@ interface EditUserModalProps {
 function EditUserModal({ isOpen, user, onClose, onSubmit, loading = false }: EditUserModalProps) {
   const [formData, setFormData] = useState<UpdateUserData>({})
   const [showDatabaseDropdown, setShowDatabaseDropdown] = useState(false)
-  const databaseOptions = getDataSourceOptions()
+  const databaseOptions = usePermissionOptions()
   const initials =
     ((user?.firstName?.[0] || user?.username?.[0] || 'U') + (user?.lastName?.[0] || '')).toUpperCase()
 
@@ -613,6 +624,7 @@ function EditUserModal({ isOpen, user, onClose, onSubmit, loading = false }: Edi
 
 export default function UsersPage() {
   const { onMenuClick, isSidebarCollapsed, onToggleSidebar } = useOutletContext<OutletContext>()
+  const { formatDate, formatDateTime, pageSize: preferredPageSize } = usePreferences()
 
   const [users, setUsers] = useState<User[]>([])
   const [userStats, setUserStats] = useState<UserStats | null>(null)
@@ -638,7 +650,7 @@ export default function UsersPage() {
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
   const [totalCount, setTotalCount] = useState(0)
-  const [itemsPerPage, setItemsPerPage] = useState(10)
+  const [itemsPerPage, setItemsPerPage] = useState(() => preferredPageSize(10))
 
   const [showCreateModal, setShowCreateModal] = useState(false)
   
@@ -647,8 +659,7 @@ export default function UsersPage() {
   const [updateLoading, setUpdateLoading] = useState(false)
   const [createLoading, setCreateLoading] = useState(false)
 
-  const namesMap = getDataSourceNames()
-  const databaseOptions = getDataSourceOptions()
+  const { getLabel } = useDataSources()
 
   // Fetch users
   const fetchUsers = useCallback(async (signal?: AbortSignal) => {
@@ -671,11 +682,11 @@ export default function UsersPage() {
       setTotalCount(response.pagination.totalCount)
     } catch (error: any) {
       // Ignore canceled requests
-      if (error?.name === 'CanceledError' || error?.code === 'ERR_CANCELED') {
+      if (isCancelled(error)) {
         return
       }
       console.error('Failed to fetch users:', error)
-      setError(error.response?.data?.error || 'Failed to fetch users')
+      setError(getErrorMessage(error, 'Failed to fetch users'))
     } finally {
       setLoading(false)
     }
@@ -739,7 +750,7 @@ export default function UsersPage() {
       setShowCreateModal(false)
     } catch (error: any) {
       console.error('Failed to create user:', error)
-      alert(error.response?.data?.error || 'Failed to create user')
+      alert(getErrorMessage(error, 'Failed to create user'))
     } finally {
       setCreateLoading(false)
     }
@@ -753,7 +764,7 @@ export default function UsersPage() {
       await fetchUserStats()
     } catch (error: any) {
       console.error('Failed to delete user:', error)
-      alert(error.response?.data?.error || 'Failed to delete user')
+      alert(getErrorMessage(error, 'Failed to delete user'))
     }
   }
 
@@ -764,7 +775,7 @@ export default function UsersPage() {
       await fetchUserStats()
     } catch (error: any) {
       console.error('Failed to activate user:', error)
-      alert(error.response?.data?.error || 'Failed to activate user')
+      alert(getErrorMessage(error, 'Failed to activate user'))
     }
   }
 
@@ -784,7 +795,7 @@ export default function UsersPage() {
       setEditingUser(null)
     } catch (error: any) {
       console.error('Failed to update user:', error)
-      alert(error?.response?.data?.error || 'Failed to update user')
+      alert(getErrorMessage(error, 'Failed to update user'))
     } finally {
       setUpdateLoading(false)
     }
@@ -809,6 +820,7 @@ export default function UsersPage() {
               setCurrentPage(1)
             }}
           >
+            {[10, 25, 50].includes(itemsPerPage) ? null : <option value={itemsPerPage}>{itemsPerPage}</option>}
             <option value={10}>10</option>
             <option value={25}>25</option>
             <option value={50}>50</option>
@@ -1044,7 +1056,7 @@ export default function UsersPage() {
                             </div>
                             {user.lastLogin && (
                               <div className="text-xs text-gray-500 dark:text-gray-400">
-                                Last login: {new Date(user.lastLogin).toLocaleDateString()}
+                                Last login: {formatDateTime(user.lastLogin)}
                               </div>
                             )}
                           </div>
@@ -1062,13 +1074,12 @@ export default function UsersPage() {
                       <td className="px-4 py-2">
                         <div className="flex flex-wrap gap-1">
                           {user.databasePermissions?.map((db: string) => {
-                            const option = databaseOptions.find(opt => opt.value === db)
-                            const display = (namesMap as any)[db] || option?.label || db
+                            const display = getLabel(db)
                             return (
                               <span
                                 key={db}
                                 className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
-                                title={option?.label || display}
+                                title={display}
                               >
                                 <FontAwesomeIcon icon={faDatabase} className="mr-1" />
                                 {display}
@@ -1092,7 +1103,7 @@ export default function UsersPage() {
                       </td>
 
                       <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                        {new Date(user.createdAt).toLocaleDateString()}
+                        {formatDate(user.createdAt)}
                       </td>
 
                       <td className="px-4 py-2 whitespace-nowrap text-sm font-medium">
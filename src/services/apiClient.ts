@@ -0,0 +1,357 @@
+import axios from 'axios'
+import type { AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios'
+
+// Shared HTTP client for every service: auth header, GET retries, error normalization,
+// token refresh with replay, and a single auth-failure signal that AuthContext turns into a logout
+
+declare module 'axios' {
+  interface InternalAxiosRequestConfig {
+    // Attempts already made for this request (GET retries only)
+    retryCount?: number
+    // Set once the request has been replayed after a token refresh
+    refreshed?: boolean
+  }
+}
+
+// Types
+type ApiErrorCode =
+  | 'cancelled'
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'validation'
+  | 'rate_limited'
+  | 'server'
+  | 'unknown'
+
+type QueryParams = Record<string, any>
+
+interface RequestOptions {
+  params?: QueryParams
+  signal?: AbortSignal
+  timeout?: number
+  responseType?: AxiosRequestConfig['responseType']
+  headers?: Record<string, string>
+}
+
+class ApiError extends Error {
+  readonly code: ApiErrorCode
+  // HTTP status, when the server answered
+  readonly status?: number
+  // Response body, for callers that need field-level details
+  readonly details?: any
+
+  constructor(message: string, code: ApiErrorCode, status?: number, details?: any) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = code
+    this.status = status
+    this.details = details
+  }
+
+  get isCancelled() {
+    return this.code === 'cancelled'
+  }
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
+
+// Typed endpoint paths, grouped by API area
+const endpoints = {
+  auth: {
+    login: '/auth/login',
+    google: '/auth/google',
+    me: '/auth/me',
+    logout: '/auth/logout',
+    refresh: '/auth/refresh',
+    changePassword: '/auth/change-password',
+    sessions: '/auth/sessions',
+    session: (id: string) => `/auth/sessions/${encodeURIComponent(id)}`
+  },
+  cdr: {
+    callLogs: '/cdr/call-logs',
+    callLog: (id: string) => `/cdr/call-logs/${encodeURIComponent(id)}`,
+    rawData: '/cdr/raw-data',
+    areaCodes: '/cdr/area-codes',
+    extensions: '/cdr/extensions'
+  },
+  analytics: {
+    dashboard: '/analytics/dashboard',
+    areaCodeDistribution: '/analytics/area-code-distribution',
+    extensionDistribution: '/analytics/extension-distribution',
+    callTrends: '/analytics/call-trends',
+    callHeatmap: '/analytics/call-heatmap'
+  },
+  dashboard: {
+    stats: '/dashboard/stats'
+  },
+  users: {
+    list: '/users',
+    user: (id: string) => `/users/${encodeURIComponent(id)}`,
+    activate: (id: string) => `/users/${encodeURIComponent(id)}/activate`,
+    stats: '/users/stats/summary'
+  },
+  savedViews: {
+    list: '/saved-views',
+    view: (id: string) => `/saved-views/${encodeURIComponent(id)}`
+  },
+  dataSources: {
+    list: '/data-sources',
+    source: (id: string) => `/data-sources/${encodeURIComponent(id)}`,
+    health: '/data-sources/health',
+    sourceHealth: (id: string) => `/data-sources/${encodeURIComponent(id)}/health`
+  },
+  rateDecks: {
+    list: '/rate-decks',
+    deck: (id: string) => `/rate-decks/${encodeURIComponent(id)}`
+  },
+  reportSchedules: {
+    list: '/report-schedules',
+    schedule: (id: string) => `/report-schedules/${encodeURIComponent(id)}`,
+    run: (id: string) => `/report-schedules/${encodeURIComponent(id)}/run`
+  }
+} as const
+
+// Credential checks answer 401 for a wrong password or a dead refresh token; neither is retried
+const CREDENTIAL_ENDPOINTS: string[] = [endpoints.auth.login, endpoints.auth.google, endpoints.auth.refresh]
+// A 401 from sign-out only means the session was already gone
+const NO_SESSION_RECOVERY: string[] = [...CREDENTIAL_ENDPOINTS, endpoints.auth.logout]
+
+const DEFAULT_TIMEOUT = 30000
+const MAX_RETRIES = 2
+const RETRY_BASE_DELAY = 500
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504]
+
+const DEFAULT_MESSAGES: Record<ApiErrorCode, string> = {
+  cancelled: 'Request cancelled',
+  network: 'Unable to reach the server. Check your connection and try again.',
+  timeout: 'The server took too long to respond. Try again or narrow the date range.',
+  unauthorized: 'Your session has expired. Please sign in again.',
+  forbidden: "You don't have permission to do that.",
+  not_found: 'The requested record was not found.',
+  validation: 'The request was not valid.',
+  rate_limited: 'Too many requests. Wait a moment and try again.',
+  server: 'The server hit an error. Try again in a moment.',
+  unknown: 'Something went wrong.'
+}
+
+const authFailureListeners = new Set<() => void>()
+const sessionRefreshedListeners = new Set<(token: string) => void>()
+
+// Exchanges the refresh token for a new access token; registered by authService
+let sessionRefresher: (() => Promise<string>) | null = null
+// The refresh in flight, shared by every request that hit a 401 meanwhile
+let refreshInFlight: Promise<string> | null = null
+
+const getToken = () => localStorage.getItem('token')
+
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 401) return 'unauthorized'
+  if (status === 403) return 'forbidden'
+  if (status === 404) return 'not_found'
+  if (status === 408) return 'timeout'
+  if (status === 429) return 'rate_limited'
+  if (status === 400 || status === 409 || status === 422) return 'validation'
+  if (status >= 500) return 'server'
+  return 'unknown'
+}
+
+// Convert anything thrown by axios/fetch into an ApiError
+function toApiError(error: any): ApiError {
+  if (error instanceof ApiError) return error
+  if (axios.isCancel(error) || error?.name === 'AbortError' || error?.code === 'ERR_CANCELED') {
+    return new ApiError(DEFAULT_MESSAGES.cancelled, 'cancelled')
+  }
+  const response = (error as AxiosError)?.response
+  if (!response) {
+    const code: ApiErrorCode = error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT' ? 'timeout' : 'network'
+    return new ApiError(DEFAULT_MESSAGES[code], code)
+  }
+  const data: any = response.data
+  const code = codeForStatus(response.status)
+  // Servers answer with { error } or { message }; some routes send a bare string
+  const serverMessage = typeof data === 'string' ? data : data?.error || data?.message
+  return new ApiError(
+    typeof serverMessage === 'string' && serverMessage.trim() ? serverMessage : DEFAULT_MESSAGES[code],
+    code,
+    response.status,
+    data
+  )
+}
+
+const isCancelled = (error: any) =>
+  (error instanceof ApiError && error.isCancelled) ||
+  error?.name === 'AbortError' ||
+  axios.isCancel(error)
+
+// Changing the password answers 401 both for a wrong current password and for an expired session;
+// only the first names the password in the server's error code or message
+const isRejectedPassword = (error: any) =>
+  error instanceof ApiError &&
+  error.code === 'unauthorized' &&
+  /password/i.test(`${error.details?.code || ''} ${error.message}`)
+
+// Message to show for a failed request, falling back when the error carries none
+const getErrorMessage = (error: any, fallback: string) =>
+  error instanceof ApiError ? error.message : error?.message || fallback
+
+// Subscribe to "session is no longer valid"; returns the unsubscribe function
+function onAuthFailure(listener: () => void) {
+  authFailureListeners.add(listener)
+  return () => {
+    authFailureListeners.delete(listener)
+  }
+}
+
+function emitAuthFailure() {
+  authFailureListeners.forEach(listener => listener())
+}
+
+// Subscribe to new access tokens issued by a refresh
+function onSessionRefreshed(listener: (token: string) => void) {
+  sessionRefreshedListeners.add(listener)
+  return () => {
+    sessionRefreshedListeners.delete(listener)
+  }
+}
+
+function setSessionRefresher(refresher: () => Promise<string>) {
+  sessionRefresher = refresher
+}
+
+// Single-flight token refresh: concurrent callers wait on the same request
+function refreshSession(): Promise<string> {
+  if (!sessionRefresher) return Promise.reject(new ApiError(DEFAULT_MESSAGES.unauthorized, 'unauthorized', 401))
+  if (!refreshInFlight) {
+    refreshInFlight = sessionRefresher()
+      .then(token => {
+        sessionRefreshedListeners.forEach(listener => listener(token))
+        return token
+      })
+      .finally(() => {
+        refreshInFlight = null
+      })
+  }
+  return refreshInFlight
+}
+
+// Wait before a retry, giving up early if the request is cancelled
+const backoff = (attempt: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const delay = RETRY_BASE_DELAY * 2 ** attempt + Math.random() * 100
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delay)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new ApiError(DEFAULT_MESSAGES.cancelled, 'cancelled'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+const shouldRetry = (error: AxiosError, config?: InternalAxiosRequestConfig) => {
+  if (!config || (config.method || 'get').toLowerCase() !== 'get') return false
+  if ((config.retryCount || 0) >= MAX_RETRIES || error.code === 'ERR_CANCELED') return false
+  // A query that timed out will most likely time out again
+  if (error.code === 'ECONNABORTED') return false
+  const status = error.response?.status
+  return status === undefined || RETRYABLE_STATUSES.includes(status)
+}
+
+// Create axios instance
+const client = axios.create({
+  baseURL: API_BASE_URL,
+  timeout: DEFAULT_TIMEOUT,
+  headers: {
+    'Content-Type': 'application/json'
+  }
+})
+
+// Request interceptor to add auth token
+client.interceptors.request.use((config) => {
+  const token = getToken()
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`
+  }
+  return config
+})
+
+// Response interceptor: retry idempotent reads, then normalize the error
+client.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const config = error.config
+    if (shouldRetry(error, config)) {
+      config!.retryCount = (config!.retryCount || 0) + 1
+      await backoff(config!.retryCount - 1, config!.signal as AbortSignal | undefined)
+      return client(config!)
+    }
+
+    const apiError = toApiError(error)
+    const isSessionFailure = apiError.code === 'unauthorized' &&
+      !(config?.url === endpoints.auth.changePassword && isRejectedPassword(apiError))
+    if (isSessionFailure && config && !NO_SESSION_RECOVERY.includes(config.url || '')) {
+      // Refresh once and replay; the request interceptor picks up the new token
+      if (!config.refreshed) {
+        try {
+          // Sent with a token that has since been replaced: just replay it
+          const sentToken = String(config.headers?.Authorization || '').replace(/^Bearer /, '')
+          const currentToken = getToken()
+          if (!currentToken || sentToken === currentToken) await refreshSession()
+          config.refreshed = true
+          return client(config)
+        } catch {
+          // Fall through to ending the session
+        }
+      }
+      localStorage.removeItem('token')
+      emitAuthFailure()
+    }
+    return Promise.reject(apiError)
+  }
+)
+
+// API client
+export const api = {
+  async get<T>(url: string, options: RequestOptions = {}): Promise<T> {
+    const response = await client.get<T>(url, options)
+    return response.data
+  },
+
+  async post<T>(url: string, body?: any, options: RequestOptions = {}): Promise<T> {
+    const response = await client.post<T>(url, body, options)
+    return response.data
+  },
+
+  async put<T>(url: string, body?: any, options: RequestOptions = {}): Promise<T> {
+    const response = await client.put<T>(url, body, options)
+    return response.data
+  },
+
+  async delete<T>(url: string, options: RequestOptions = {}): Promise<T> {
+    const response = await client.delete<T>(url, options)
+    return response.data
+  }
+}
+
+export {
+  API_BASE_URL,
+  ApiError,
+  endpoints,
+  getToken,
+  toApiError,
+  isCancelled,
+  isRejectedPassword,
+  getErrorMessage,
+  onAuthFailure,
+  emitAuthFailure,
+  onSessionRefreshed,
+  setSessionRefresher,
+  refreshSession
+}
+
+// Export types
+export type { ApiErrorCode, QueryParams, RequestOptions }
@@ -1,4 +1,4 @@
-import axios from 'axios'
+import { api, endpoints, setSessionRefresher } from './apiClient'
 
 // Types
 interface LoginCredentials {
@@ -8,6 +8,8 @@ interface LoginCredentials {
 
 interface LoginResponse {
   token: string
+  // Long-lived token used to get a new access token without signing in again
+  refreshToken?: string
   user: {
     id: string
     username: string
@@ -34,57 +36,33 @@ interface LoginResponse {
   }
 }
 
+interface RefreshResponse {
+  token: string
+  // Sent when the server rotates refresh tokens
+  refreshToken?: string
+}
+
 interface ChangePasswordData {
   currentPassword: string
   newPassword: string
 }
 
-// Configure axios defaults
-const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
-
-// Create axios instance
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  timeout: 10000,
-  headers: {
-    'Content-Type': 'application/json'
-  }
-})
-
-// Request interceptor to add auth token
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token')
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`
-    }
-    return config
-  },
-  (error) => {
-    return Promise.reject(error)
-  }
-)
-
-// Response interceptor to handle auth errors
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem('token')
-      window.location.href = '/login'
-    }
-    return Promise.reject(error)
-  }
-)
+interface AuthSession {
+  id: string
+  userAgent?: string
+  ipAddress?: string
+  createdAt: string
+  lastActiveAt?: string
+  // The session making this request
+  current: boolean
+}
 
 // Auth service
 export const authService = {
   // Login user
   async login(credentials: LoginCredentials): Promise<LoginResponse> {
     try {
-      const response = await apiClient.post<LoginResponse>('/auth/login', credentials)
-      return response.data
+      return await api.post<LoginResponse>(endpoints.auth.login, credentials)
     } catch (error: any) {
       console.error('Login error:', error)
       throw error
@@ -94,8 +72,8 @@ export const authService = {
   // Get current user
   async getCurrentUser(): Promise<LoginResponse['user']> {
     try {
-      const response = await apiClient.get<{ user: LoginResponse['user'] }>('/auth/me')
-      return response.data.user
+      const data = await api.get<{ user: LoginResponse['user'] }>(endpoints.auth.me)
+      return data.user
     } catch (error: any) {
       console.error('Get current user error:', error)
       throw error
@@ -105,29 +83,72 @@ export const authService = {
   // Google OAuth login
   async googleLogin(token: string): Promise<LoginResponse> {
     try {
-      const response = await apiClient.post<LoginResponse>('/auth/google', { credential: token })
-      return response.data
+      return await api.post<LoginResponse>(endpoints.auth.google, { credential: token })
     } catch (error: any) {
       console.error('Google login error:', error)
       throw error
     }
   },
 
+  // Exchange the refresh token for a new access token
+  async refreshToken(refreshToken: string): Promise<RefreshResponse> {
+    try {
+      return await api.post<RefreshResponse>(endpoints.auth.refresh, { refreshToken })
+    } catch (error: any) {
+      console.error('Refresh token error:', error)
+      throw error
+    }
+  },
+
   // Change password
   async changePassword(data: ChangePasswordData): Promise<{ message: string }> {
     try {
-      const response = await apiClient.put<{ message: string }>('/auth/change-password', data)
-      return response.data
+      return await api.put<{ message: string }>(endpoints.auth.changePassword, data)
     } catch (error: any) {
       console.error('Change password error:', error)
       throw error
     }
   },
 
-  // Logout user
+  // Sessions signed in as the current user
+  async getSessions(): Promise<{ sessions: AuthSession[] }> {
+    try {
+      return await api.get<{ sessions: AuthSession[] }>(endpoints.auth.sessions)
+    } catch (error: any) {
+      console.error('Get sessions error:', error)
+      throw error
+    }
+  },
+
+  // Sign out one session
+  async revokeSession(id: string): Promise<{ message: string }> {
+    try {
+      return await api.delete<{ message: string }>(endpoints.auth.session(id))
+    } catch (error: any) {
+      console.error('Revoke session error:', error)
+      throw error
+    }
+  },
+
+  // Sign out every session except this one
+  async revokeOtherSessions(): Promise<{ message: string }> {
+    try {
+      return await api.delete<{ message: string }>(endpoints.auth.sessions)
+    } catch (error: any) {
+      console.error('Revoke other sessions error:', error)
+      throw error
+    }
+  },
+
+  // Logout user, revoking the refresh token. The tokens are read before the first await, so
+  // callers can clear local state straight after calling this.
   async logout(): Promise<void> {
+    const token = this.getToken()
+    const refreshToken = this.getRefreshToken()
     try {
-      await apiClient.post('/auth/logout')
+      await api.post(endpoints.auth.logout, { refreshToken }, {
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined
+      })
     } catch (error: any) {
       console.error('Logout error:', error)
       // Don't throw error for logout as we want to clear local state regardless
@@ -145,11 +166,49 @@ export const authService = {
     return localStorage.getItem('token')
   },
 
-  // Clear stored token
+  getRefreshToken(): string | null {
+    return localStorage.getItem('refreshToken')
+  },
+
+  // Persist the tokens from a login or refresh response
+  storeSession(session: { token: string; refreshToken?: string }): void {
+    localStorage.setItem('token', session.token)
+    if (session.refreshToken) {
+      localStorage.setItem('refreshToken', session.refreshToken)
+    }
+  },
+
+  // Clear stored tokens
   clearToken(): void {
     localStorage.removeItem('token')
+    localStorage.removeItem('refreshToken')
+  },
+
+  // Expiry of a JWT access token in epoch ms, or null when it can't be read
+  getTokenExpiry(token: string | null): number | null {
+    if (!token) return null
+    try {
+      const payload = token.split('.')[1]
+      const json = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')))
+      return typeof json.exp === 'number' ? json.exp * 1000 : null
+    } catch {
+      return null
+    }
+  },
+
+  // Refresh and store a new access token; used by the API client on 401s
+  async refreshSession(): Promise<string> {
+    const refreshToken = this.getRefreshToken()
+    if (!refreshToken) {
+      throw new Error('No refresh token')
+    }
+    const session = await this.refreshToken(refreshToken)
+    this.storeSession(session)
+    return session.token
   }
 }
 
+setSessionRefresher(() => authService.refreshSession())
+
 // Export types
-export type { LoginCredentials, LoginResponse, ChangePasswordData }
\ No newline at end of file
+export type { LoginCredentials, LoginResponse, RefreshResponse, ChangePasswordData, AuthSession }
\ No newline at end of file
@@ -1,4 +1,6 @@
-import axios from 'axios'
+import { api, endpoints, getErrorMessage, isCancelled } from './apiClient'
+import type { FilterMode } from '../lib/filterValues'
+import { withAreaCodeState, withCallState } from '../lib/nanp'
 
 // Types
 interface CallLog {
@@ -28,6 +30,8 @@ interface CallLog {
   finalDispname?: string
   missedQueueCalls?: number | string
   rawStream?: string
+  // Collection the record came from, set in the combined "all sources" view
+  source?: string
 }
 
 interface AreaCode {
@@ -52,6 +56,9 @@ interface Extension {
   avgDuration: number
 }
 
+// Percent change per summary metric versus the preceding period of equal length
+type DashboardGrowth = Partial<Record<keyof DashboardSummary, number>>
+
 interface DashboardSummary {
   totalCalls: number
   incomingCalls: number
@@ -68,6 +75,47 @@ interface DashboardSummary {
   avgDuration: number
 }
 
+interface CallTrend {
+  period: string
+  totalCalls: number
+  incomingCalls: number
+  outgoingCalls: number
+  internalCalls: number
+  totalDuration?: number
+  totalCost?: number
+}
+
+type TrendInterval = 'hour' | 'day' | 'week' | 'month'
+
+// Calls started in one hour of one weekday, in the requested timezone
+interface HeatmapCell {
+  // 0 = Sunday, as Date.getDay()
+  weekday: number
+  hour: number
+  totalCalls: number
+}
+
+// The global filter bar's filters, as every report and chart endpoint accepts them
+interface CallFilterParams {
+  dateFrom?: string
+  dateTo?: string
+  callType?: string
+  status?: string
+  terminationReason?: string
+  // Multi-value filters; the matching mode is only sent when the values are excluded
+  areaCode?: string[]
+  areaCodeMode?: FilterMode
+  // Extensions and ranges like "101-115"; the server matches ranges itself so a wide range stays one param
+  extension?: string[]
+  extensionMode?: FilterMode
+  trunkNumber?: string[]
+  trunkNumberMode?: FilterMode
+  minDurationSec?: number
+  maxDurationSec?: number
+  minCost?: number
+  maxCost?: number
+}
+
 interface ApiResponse<T> {
   success?: boolean
   data?: T
@@ -82,108 +130,76 @@ interface ApiResponse<T> {
   }
 }
 
-// Configure axios defaults
-const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
-
-// Create axios instance
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  timeout: 30000,
-  headers: {
-    'Content-Type': 'application/json'
-  }
-})
-
-// Request interceptor to add auth token
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token')
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`
-    }
-    return config
-  },
-  (error) => {
-    return Promise.reject(error)
-  }
-)
-
-// Response interceptor to handle auth errors
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token')
-      window.location.href = '/login'
-    }
-    return Promise.reject(error)
-  }
-)
-
 // Data service
 export const dataService = {
   // Get call logs with filtering and pagination
-  async getCallLogs(params: {
+  async getCallLogs(params: CallFilterParams & {
     page?: number
     limit?: number
     sortBy?: string
     sortOrder?: 'asc' | 'desc'
     search?: string
-    dateFrom?: string
-    dateTo?: string
-    callType?: string
-    status?: string
-    terminationReason?: string
-    areaCode?: string
-    extension?: string
-    trunkNumber?: string
-    stateCode?: string
-    minDurationSec?: number
-    maxDurationSec?: number
-    minCost?: number
-    maxCost?: number
     collection?: string
-  }): Promise<ApiResponse<CallLog[]>> {
+  }, signal?: AbortSignal): Promise<ApiResponse<CallLog[]>> {
     try {
-      const response = await apiClient.get('/cdr/call-logs', { params })
+      const data = await api.get<any>(endpoints.cdr.callLogs, { params, signal })
       return {
-        data: response.data.callLogs,
-        pagination: response.data.pagination
+        // States come from the shared area code lookup rather than the server's table
+        data: (data.callLogs || []).map(withCallState),
+        pagination: data.pagination
       }
     } catch (error: any) {
+      // Let callers tell cancelled requests apart without logging them
+      if (isCancelled(error)) {
+        throw error
+      }
       console.error('Get call logs error:', error)
       throw error
     }
   },
 
+  // Every call log matching the filters, a page at a time, for reports computed client-side.
+  // Stops after `maxRecords` (reporting `truncated`) so a wide date range can't exhaust the browser.
+  async getAllCallLogs(params: CallFilterParams & { collection?: string; search?: string }, {
+    signal,
+    onProgress,
+    maxRecords = 200000
+  }: {
+    signal?: AbortSignal
+    onProgress?: (loaded: number, total?: number) => void
+    maxRecords?: number
+  } = {}): Promise<{ data: CallLog[]; totalCount: number; truncated: boolean }> {
+    const records: CallLog[] = []
+    let page = 1
+    let totalPages = 1
+    let totalCount = 0
+
+    do {
+      const response = await this.getCallLogs({ ...params, page, limit: 1000, sortBy: 'startTime', sortOrder: 'asc' }, signal)
+      records.push(...(response.data || []))
+      totalPages = response.pagination?.totalPages || page
+      totalCount = response.pagination?.totalCount ?? records.length
+      onProgress?.(records.length, totalCount)
+      page++
+    } while (page <= totalPages && records.length < maxRecords)
+
+    return { data: records.slice(0, maxRecords), totalCount, truncated: totalCount > maxRecords }
+  },
+
   // Export call logs as CSV
-  async exportCallLogs(params: {
+  async exportCallLogs(params: CallFilterParams & {
     page?: number
     limit?: number
     sortBy?: string
     sortOrder?: 'asc' | 'desc'
     search?: string
-    dateFrom?: string
-    dateTo?: string
-    callType?: string
-    status?: string
-    terminationReason?: string
-    areaCode?: string
-    extension?: string
-    trunkNumber?: string
-    stateCode?: string
-    minDurationSec?: number
-    maxDurationSec?: number
-    minCost?: number
-    maxCost?: number
     collection?: string
   }): Promise<Blob> {
     try {
-      const response = await apiClient.get('/cdr/call-logs', {
+      return await api.get<Blob>(endpoints.cdr.callLogs, {
         params: { ...params, export: true },
         responseType: 'blob'
       })
-      return response.data
     } catch (error: any) {
       console.error('Export call logs error:', error)
       throw error
@@ -191,35 +207,33 @@ export const dataService = {
   },
 
   // Get area codes with statistics
-  async getAreaCodes(params: {
+  async getAreaCodes(params: CallFilterParams & {
     page?: number
     limit?: number
     sortBy?: string
     sortOrder?: 'asc' | 'desc'
     search?: string
-    dateFrom?: string
-    dateTo?: string
     collection?: string
   }): Promise<ApiResponse<AreaCode[]>> {
     try {
-      const response = await apiClient.get('/cdr/area-codes', { params })
+      const data = await api.get<any>(endpoints.cdr.areaCodes, { params })
       return {
-        success: response.data.success,
-        data: response.data.areaCodes,
-        pagination: response.data.pagination,
-        error: response.data.error
+        success: data.success,
+        data: (data.areaCodes || []).map(withAreaCodeState),
+        pagination: data.pagination,
+        error: data.error
       }
     } catch (error: any) {
       console.error('Get area codes error:', error)
       return {
         success: false,
-        error: error.response?.data?.error || 'Failed to fetch area codes'
+        error: getErrorMessage(error, 'Failed to fetch area codes')
       }
     }
   },
 
   // Get extensions with statistics
-  async getExtensions(params: {
+  async getExtensions(params: CallFilterParams & {
     page?: number
     limit?: number
     collection?: string
@@ -237,46 +251,54 @@ export const dataService = {
     }
   }>> {
     try {
-      const response = await apiClient.get('/cdr/extensions', { params })
+      const data = await api.get<any>(endpoints.cdr.extensions, { params })
       return {
         success: true,
         data: {
-          extensions: response.data.extensions,
-          pagination: response.data.pagination
+          extensions: data.extensions,
+          pagination: data.pagination
         }
       }
     } catch (error: any) {
       console.error('Get extensions error:', error)
       return {
         success: false,
-        error: error.response?.data?.error || error.message || 'Failed to fetch extensions'
+        error: getErrorMessage(error, 'Failed to fetch extensions')
       }
     }
   },
 
   // Get dashboard analytics
-  async getDashboardAnalytics(params: {
-    dateFrom?: string
-    dateTo?: string
-    callType?: string
-    status?: string
-    trunkNumber?: string
-    areaCode?: string
+  async getDashboardAnalytics(params: CallFilterParams & {
+    timezone?: string
     collection?: string
   }): Promise<{
     summary: DashboardSummary
-    growth: any
+    growth: DashboardGrowth
     filters: any
   }> {
     try {
-      const response = await apiClient.get('/analytics/dashboard', { params })
-      return response.data
+      return await api.get(endpoints.analytics.dashboard, { params })
     } catch (error: any) {
       console.error('Get dashboard analytics error:', error)
       throw error
     }
   },
 
+  // Get the combined dashboard aggregation (summary, breakdowns and top lists in one call)
+  async getDashboardStats<T>(params: Record<string, any>): Promise<T> {
+    try {
+      const data = await api.get<{ success: boolean; data: T; error?: string; processingTime?: number }>(endpoints.dashboard.stats, { params })
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to fetch dashboard data')
+      }
+      return data.data
+    } catch (error: any) {
+      console.error('Get dashboard stats error:', error)
+      throw error
+    }
+  },
+
   // Get area code distribution for charts
   async getAreaCodeDistribution(params: {
     dateFrom?: string
@@ -290,8 +312,7 @@ export const dataService = {
     totalAreaCodes: number
   }> {
     try {
-      const response = await apiClient.get('/analytics/area-code-distribution', { params })
-      return response.data
+      return await api.get(endpoints.analytics.areaCodeDistribution, { params })
     } catch (error: any) {
       console.error('Get area code distribution error:', error)
       throw error
@@ -311,8 +332,7 @@ export const dataService = {
     totalExtensions: number
   }> {
     try {
-      const response = await apiClient.get('/analytics/extension-distribution', { params })
-      return response.data
+      return await api.get(endpoints.analytics.extensionDistribution, { params })
     } catch (error: any) {
       console.error('Get extension distribution error:', error)
       throw error
@@ -320,33 +340,44 @@ export const dataService = {
   },
 
   // Get call trends over time
-  async getCallTrends(params: {
-    dateFrom?: string
-    dateTo?: string
-    callType?: string
-    status?: string
-    interval?: 'hour' | 'day' | 'week' | 'month'
+  async getCallTrends(params: CallFilterParams & {
+    interval?: TrendInterval
+    // IANA zone the server buckets periods in
+    timezone?: string
     collection?: string
   }): Promise<{
-    trends: any[]
-    interval: string
+    trends: CallTrend[]
+    interval: TrendInterval
     totalPeriods: number
   }> {
     try {
-      const response = await apiClient.get('/analytics/call-trends', { params })
-      return response.data
+      return await api.get(endpoints.analytics.callTrends, { params })
     } catch (error: any) {
       console.error('Get call trends error:', error)
       throw error
     }
   },
 
+  // Get call counts by weekday and hour of day
+  async getCallHeatmap(params: CallFilterParams & {
+    // IANA zone the server buckets hours in
+    timezone?: string
+    collection?: string
+  }): Promise<{ cells: HeatmapCell[] }> {
+    try {
+      return await api.get(endpoints.analytics.callHeatmap, { params })
+    } catch (error: any) {
+      console.error('Get call heatmap error:', error)
+      throw error
+    }
+  },
+
   // Get specific call log by ID
   async getCallLog(id: string, collection?: string): Promise<CallLog> {
     try {
       const params = collection ? { collection } : {}
-      const response = await apiClient.get(`/cdr/call-logs/${id}`, { params })
-      return response.data.callLog
+      const data = await api.get<{ callLog: CallLog }>(endpoints.cdr.callLog(id), { params })
+      return withCallState(data.callLog)
     } catch (error: any) {
       console.error('Get call log error:', error)
       throw error
@@ -354,69 +385,50 @@ export const dataService = {
   },
 
   // Get raw data with all MongoDB fields
-  async getRawData(params: {
+  async getRawData(params: CallFilterParams & {
     page?: number
     limit?: number
     sortBy?: string
     sortOrder?: 'asc' | 'desc'
     search?: string
-    dateFrom?: string
-    dateTo?: string
-    callType?: string
-    status?: string
-    terminationReason?: string
-    areaCode?: string
-    extension?: string
-    trunkNumber?: string
-    stateCode?: string
-    minDurationSec?: number
-    maxDurationSec?: number
-    minCost?: number
-    maxCost?: number
     collection?: string
     raw?: boolean
-  }): Promise<ApiResponse<any[]>> {
+    // JSON from the query builder (see lib/rawQuery)
+    query?: string
+  }, signal?: AbortSignal): Promise<ApiResponse<any[]>> {
     try {
-      const response = await apiClient.get('/cdr/raw-data', { params })
+      const data = await api.get<any>(endpoints.cdr.rawData, { params, signal })
       return {
-        data: response.data.rawData,
-        pagination: response.data.pagination
+        data: data.rawData,
+        pagination: data.pagination
       }
     } catch (error: any) {
+      // Let callers tell cancelled requests apart without logging them
+      if (isCancelled(error)) {
+        throw error
+      }
       console.error('Get raw data error:', error)
       throw error
     }
   },
 
   // Export raw data as CSV
-  async exportRawData(params: {
+  async exportRawData(params: CallFilterParams & {
     page?: number
     limit?: number
     sortBy?: string
     sortOrder?: 'asc' | 'desc'
     search?: string
-    dateFrom?: string
-    dateTo?: string
-    callType?: string
-    status?: string
-    terminationReason?: string
-    areaCode?: string
-    extension?: string
-    trunkNumber?: string
-    stateCode?: string
-    minDurationSec?: number
-    maxDurationSec?: number
-    minCost?: number
-    maxCost?: number
     collection?: string
     raw?: boolean
+    // JSON from the query builder (see lib/rawQuery)
+    query?: string
   }): Promise<Blob> {
     try {
-      const response = await apiClient.get('/cdr/raw-data', {
+      return await api.get<Blob>(endpoints.cdr.rawData, {
         params: { ...params, export: true },
         responseType: 'blob'
       })
-      return response.data
     } catch (error: any) {
       console.error('Export raw data error:', error)
       throw error
@@ -425,4 +437,4 @@ export const dataService = {
 }
 
 // Export types
-export type { CallLog, AreaCode, Extension, DashboardSummary, ApiResponse }
\ No newline at end of file
+export type { CallLog, AreaCode, Extension, DashboardSummary, DashboardGrowth, CallTrend, TrendInterval, HeatmapCell, CallFilterParams, ApiResponse }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { api, endpoints } from './apiClient'
+
+// Types
+interface DataSource {
+  // Collection the PBX's call records are stored in, e.g. "cdrs_143.198.0.104";
+  // user database permissions refer to sources by this id
+  id: string
+  name: string
+  // PBX address, shown next to the name
+  host: string
+  // IANA zone the PBX writes call times in; unset sources use each user's timezone
+  timezone?: string
+  // ISO 4217 code call costs are billed in
+  currency: string
+  // Disabled sources stay assignable in permissions but are hidden from the selector
+  enabled: boolean
+  // Minutes without a new call record before the source is reported as quiet
+  gapThresholdMinutes?: number
+  createdAt: string
+  updatedAt: string
+}
+
+// Newest call record per permitted source, for the quiet-source badge
+interface DataSourceHealthSummary {
+  id: string
+  newestRecordAt: string | null
+}
+
+// Records ingested in one UTC hour; hours with no records may be omitted
+interface HourlyIngestion {
+  hour: string
+  records: number
+}
+
+interface DataSourceHealth {
+  id: string
+  newestRecordAt: string | null
+  hourly: HourlyIngestion[]
+}
+
+type DataSourceData = Omit<DataSource, 'createdAt' | 'updatedAt'>
+
+// Data source registry service
+export const dataSourceService = {
+  // Get every registered data source
+  async getDataSources(): Promise<{ dataSources: DataSource[] }> {
+    try {
+      return await api.get<{ dataSources: DataSource[] }>(endpoints.dataSources.list)
+    } catch (error: any) {
+      console.error('Get data sources error:', error)
+      throw error
+    }
+  },
+
+  // Register a data source (admin only)
+  async createDataSource(data: DataSourceData): Promise<{ message: string; dataSource: DataSource }> {
+    try {
+      return await api.post<{ message: string; dataSource: DataSource }>(endpoints.dataSources.list, data)
+    } catch (error: any) {
+      console.error('Create data source error:', error)
+      throw error
+    }
+  },
+
+  // Update a data source (also used to enable/disable it); the id can't change
+  async updateDataSource(id: string, data: Partial<Omit<DataSourceData, 'id'>>): Promise<{ message: string; dataSource: DataSource }> {
+    try {
+      return await api.put<{ message: string; dataSource: DataSource }>(endpoints.dataSources.source(id), data)
+    } catch (error: any) {
+      console.error('Update data source error:', error)
+      throw error
+    }
+  },
+
+  // Newest record time of every source the user may read
+  async getHealthSummary(): Promise<{ sources: DataSourceHealthSummary[] }> {
+    try {
+      return await api.get<{ sources: DataSourceHealthSummary[] }>(endpoints.dataSources.health)
+    } catch (error: any) {
+      console.error('Get data source health error:', error)
+      throw error
+    }
+  },
+
+  // Newest record time and records per hour over the last `hours` hours
+  async getSourceHealth(id: string, params: { hours: number }): Promise<DataSourceHealth> {
+    try {
+      return await api.get<DataSourceHealth>(endpoints.dataSources.sourceHealth(id), { params })
+    } catch (error: any) {
+      console.error('Get data source health error:', error)
+      throw error
+    }
+  },
+
+  // Remove a data source from the registry; its call records are left in place
+  async deleteDataSource(id: string): Promise<{ message: string }> {
+    try {
+      return await api.delete<{ message: string }>(endpoints.dataSources.source(id))
+    } catch (error: any) {
+      console.error('Delete data source error:', error)
+      throw error
+    }
+  }
+}
+
+// Export types
+export type {
+  DataSource,
+  DataSourceData,
+  DataSourceHealth,
+  DataSourceHealthSummary,
+  HourlyIngestion
+}
@@ -0,0 +1,211 @@
+import { dataService } from './dataService'
+import { API_BASE_URL, ApiError, emitAuthFailure, getToken, isCancelled, refreshSession } from './apiClient'
+import { buildExport, escapeCsv, inferColumns } from '../lib/exporters'
+import { parseCsv } from '../lib/csv'
+import { stateCodeForAreaCode } from '../lib/nanp'
+import type { ExportColumn, ExportFormat } from '../lib/exporters'
+
+// Types
+type ExportKind = 'call-logs' | 'raw-data'
+
+type ExportParams = Record<string, string | string[] | number | boolean | undefined>
+
+interface ExportProgress {
+  rows: number
+  // Unknown while streaming unless the server sends X-Total-Count
+  totalRows?: number
+  bytes: number
+  mode: 'stream' | 'paged'
+}
+
+interface ExportOptions {
+  format: ExportFormat
+  // Columns to write, in order; every field of the records when omitted
+  columns?: ExportColumn[]
+  // Zone XLSX times are written in
+  timeZone?: string
+  signal: AbortSignal
+  onProgress: (progress: ExportProgress) => void
+}
+
+const ENDPOINTS: Record<ExportKind, string> = {
+  'call-logs': '/cdr/call-logs',
+  'raw-data': '/cdr/raw-data'
+}
+
+// Rows per request when paging through the list endpoints
+const PAGE_SIZE = 1000
+
+const toQueryString = (params: ExportParams) => {
+  const search = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => {
+    // Same `key[]=a&key[]=b` form axios uses for list params on the API calls
+    if (Array.isArray(value)) value.forEach(item => search.append(`${key}[]`, item))
+    else if (value !== undefined && value !== null && value !== '') search.set(key, String(value))
+  })
+  return search.toString()
+}
+
+type RowRewriter = (cells: string[], index: number) => string[]
+
+// The server's call-log CSV carries the state from its own table. Rewrite that column from the
+// area code with the shared lookup so the file matches the states shown in the app; `extraAreaCode`
+// means the area code column was only requested for this and is dropped again.
+function clientStateRewriter(columns: ExportColumn[] | undefined, extraAreaCode: boolean): RowRewriter {
+  let stateIndex = -1
+  let areaIndex = -1
+  return (cells, index) => {
+    if (index === 0) {
+      // Requested fields come back in the order asked for; a full export is labelled with field names
+      const keys = columns ? columns.map(col => col.key) : cells
+      stateIndex = keys.indexOf('stateCode')
+      areaIndex = keys.indexOf('areaCode')
+    } else if (stateIndex >= 0 && areaIndex >= 0) {
+      cells[stateIndex] = stateCodeForAreaCode(cells[areaIndex], cells[stateIndex]) || cells[stateIndex] || ''
+    }
+    return extraAreaCode && areaIndex >= 0 ? cells.filter((_, i) => i !== areaIndex) : cells
+  }
+}
+
+// Re-writes a streamed CSV one record at a time. Only complete records are handed to `rewrite`;
+// the tail of a chunk (which may sit inside a quoted line break) waits for the next chunk.
+function csvRecordStream(rewrite: RowRewriter) {
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let scanned = 0
+  let quoted = false
+  let index = 0
+
+  const emit = (record: string) => {
+    const [cells] = parseCsv(record)
+    return cells ? rewrite(cells, index++).map(escapeCsv).join(',') + '\n' : ''
+  }
+
+  // Text for the records completed by `chunk`; call without a chunk at the end to flush the rest
+  return (chunk?: Uint8Array): string => {
+    buffer += chunk ? decoder.decode(chunk, { stream: true }) : decoder.decode()
+    let text = ''
+    let start = 0
+    for (let i = scanned; i < buffer.length; i++) {
+      if (buffer[i] === '"') quoted = !quoted
+      else if (buffer[i] === '\n' && !quoted) {
+        text += emit(buffer.slice(start, i))
+        start = i + 1
+      }
+    }
+    buffer = buffer.slice(start)
+    scanned = buffer.length
+    if (!chunk && buffer) {
+      text += emit(buffer)
+      buffer = ''
+    }
+    return text
+  }
+}
+
+// Export service
+export const exportService = {
+  // Stream the server-generated CSV, counting rows as chunks arrive. With `rewriteRow` each
+  // record is passed through it as it arrives instead of being copied byte for byte.
+  async streamExport(kind: ExportKind, params: ExportParams, { columns, signal, onProgress }: ExportOptions, rewriteRow?: RowRewriter): Promise<Blob> {
+    const fields = columns?.map(col => col.key).join(',')
+    const url = `${API_BASE_URL}${ENDPOINTS[kind]}?${toQueryString({ ...params, fields, export: true })}`
+    const request = () => {
+      const token = getToken()
+      return fetch(url, { headers: token ? { Authorization: `Bearer ${token}` } : {}, signal })
+    }
+
+    let response = await request()
+    // Streams bypass the axios client, so refresh and report a lost session the same way it does
+    if (response.status === 401) {
+      try {
+        await refreshSession()
+        response = await request()
+      } catch (error) {
+        if (isCancelled(error)) throw error
+      }
+    }
+    if (response.status === 401) {
+      localStorage.removeItem('token')
+      emitAuthFailure()
+      throw new ApiError('Your session has expired. Please sign in again.', 'unauthorized', 401)
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Export request failed with status ${response.status}`)
+    }
+
+    const totalHeader = response.headers.get('X-Total-Count')
+    const totalRows = totalHeader ? parseInt(totalHeader, 10) || undefined : undefined
+    const reader = response.body.getReader()
+    const rewrite = rewriteRow && csvRecordStream(rewriteRow)
+    const chunks: BlobPart[] = []
+    let bytes = 0
+    let lines = 0
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(rewrite ? rewrite(value) : value)
+      bytes += value.length
+      for (let i = 0; i < value.length; i++) {
+        if (value[i] === 10) lines++
+      }
+      // First line is the CSV header
+      onProgress({ rows: Math.max(lines - 1, 0), totalRows, bytes, mode: 'stream' })
+    }
+    if (rewrite) chunks.push(rewrite())
+
+    return new Blob(chunks, { type: 'text/csv;charset=utf-8' })
+  },
+
+  // Walk the paginated list endpoint and write the file client-side in the requested format
+  async pagedExport(kind: ExportKind, params: ExportParams, { format, columns, timeZone, signal, onProgress }: ExportOptions): Promise<Blob> {
+    const fetchPage = (page: number) => {
+      const pageParams = { ...params, page, limit: PAGE_SIZE } as any
+      return kind === 'call-logs'
+        ? dataService.getCallLogs(pageParams, signal)
+        : dataService.getRawData({ ...pageParams, raw: true }, signal)
+    }
+
+    const records: Array<Record<string, any>> = []
+    let bytes = 0
+    let page = 1
+    let totalPages = 1
+
+    do {
+      const response = await fetchPage(page)
+      const data = response.data || []
+      totalPages = response.pagination?.totalPages || page
+      records.push(...data)
+      // Approximate size of what has been downloaded so far
+      bytes += JSON.stringify(data).length
+      onProgress({ rows: records.length, totalRows: response.pagination?.totalCount, bytes, mode: 'paged' })
+      page++
+    } while (page <= totalPages && !signal.aborted)
+
+    if (signal.aborted) throw new DOMException('Export cancelled', 'AbortError')
+    return buildExport(records, columns || inferColumns(records), format, timeZone)
+  },
+
+  // CSV prefers the server stream and pages through the API when streaming is unavailable;
+  // the other formats are always built client-side
+  async runExport(kind: ExportKind, params: ExportParams, options: ExportOptions): Promise<Blob> {
+    if (options.format !== 'csv') return this.pagedExport(kind, params, options)
+    const { columns } = options
+    const wantsState = kind === 'call-logs' && (!columns || columns.some(col => col.key === 'stateCode'))
+    // The state is worked out from the area code, so fetch that column too when it wasn't asked for
+    const extraAreaCode = wantsState && !!columns && !columns.some(col => col.key === 'areaCode')
+    const streamColumns = extraAreaCode ? [...columns!, { key: 'areaCode', header: 'Area Code' }] : columns
+    try {
+      const rewriteRow = wantsState ? clientStateRewriter(streamColumns, extraAreaCode) : undefined
+      return await this.streamExport(kind, params, { ...options, columns: streamColumns }, rewriteRow)
+    } catch (error: any) {
+      if (isCancelled(error) || (error instanceof ApiError && error.code === 'unauthorized')) throw error
+      console.warn('Streaming export failed, falling back to paged export:', error)
+      return this.pagedExport(kind, params, options)
+    }
+  }
+}
+
+// Export types
+export type { ExportKind, ExportParams, ExportProgress, ExportOptions }
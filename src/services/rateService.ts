@@ -0,0 +1,81 @@
+import { api, endpoints } from './apiClient'
+
+// Types
+interface RateEntry {
+  // Leading digits of the dialed number in international form without "+", e.g. "1212" or "44"
+  prefix: string
+  description?: string
+  ratePerMinute: number
+  // Charged once per connected call
+  connectionFee: number
+  // Billing increment as "first/next" seconds: "60/60" bills whole minutes, "6/6" six-second blocks
+  increment: string
+  // ISO dates (yyyy-MM-dd); the rate applies to calls that start on or after `effectiveFrom` and before `effectiveTo`
+  effectiveFrom?: string
+  effectiveTo?: string
+}
+
+interface RateDeck {
+  _id: string
+  name: string
+  // Collection the deck's trunks belong to; unset decks apply to every source
+  dataSource?: string
+  // Trunks the deck prices; a deck with no trunks prices calls no other deck covers
+  trunkNumbers: string[]
+  currency: string
+  rates: RateEntry[]
+  createdAt: string
+  updatedAt: string
+}
+
+type RateDeckData = Omit<RateDeck, '_id' | 'createdAt' | 'updatedAt'>
+
+// Rate deck service
+export const rateService = {
+  // Get every rate deck
+  async getRateDecks(): Promise<{ rateDecks: RateDeck[] }> {
+    try {
+      return await api.get<{ rateDecks: RateDeck[] }>(endpoints.rateDecks.list)
+    } catch (error: any) {
+      console.error('Get rate decks error:', error)
+      throw error
+    }
+  },
+
+  // Create a rate deck (admin only)
+  async createRateDeck(data: RateDeckData): Promise<{ message: string; rateDeck: RateDeck }> {
+    try {
+      return await api.post<{ message: string; rateDeck: RateDeck }>(endpoints.rateDecks.list, data)
+    } catch (error: any) {
+      console.error('Create rate deck error:', error)
+      throw error
+    }
+  },
+
+  // Replace a rate deck's settings and rates
+  async updateRateDeck(id: string, data: RateDeckData): Promise<{ message: string; rateDeck: RateDeck }> {
+    try {
+      return await api.put<{ message: string; rateDeck: RateDeck }>(endpoints.rateDecks.deck(id), data)
+    } catch (error: any) {
+      console.error('Update rate deck error:', error)
+      throw error
+    }
+  },
+
+  // Delete a rate deck
+  async deleteRateDeck(id: string): Promise<{ message: string }> {
+    try {
+      return await api.delete<{ message: string }>(endpoints.rateDecks.deck(id))
+    } catch (error: any) {
+      console.error('Delete rate deck error:', error)
+      throw error
+    }
+  }
+}
+
+// Export types
+export type {
+  RateDeck,
+  RateDeckData,
+  RateEntry
+}
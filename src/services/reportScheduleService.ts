@@ -0,0 +1,118 @@
+import { api, endpoints } from './apiClient'
+import type { ExportFormat } from '../lib/exporters'
+import type { SavedViewState } from './savedViewService'
+
+// Types
+type ScheduleReport = 'call-logs' | 'area-codes' | 'extensions'
+
+type ScheduleCadence = 'daily' | 'weekly' | 'monthly'
+
+interface ReportSchedule {
+  _id: string
+  name: string
+  report: ScheduleReport
+  // Saved view the filter set was taken from; the filters are copied so later edits to the view don't change the report
+  savedViewId?: string | null
+  savedViewName?: string
+  view: SavedViewState
+  dataSource?: string
+  format: ExportFormat
+  cadence: ScheduleCadence
+  // 0 = Sunday, used by weekly schedules
+  dayOfWeek?: number
+  // 1-28, used by monthly schedules
+  dayOfMonth?: number
+  // Local send time, HH:mm
+  time: string
+  // IANA zone the send time is interpreted in
+  timezone: string
+  recipients: string[]
+  enabled: boolean
+  owner: {
+    _id: string
+    fullName?: string
+  }
+  lastRunAt?: string
+  lastStatus?: 'sent' | 'failed'
+  lastError?: string
+  nextRunAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+interface ScheduleData {
+  name: string
+  report: ScheduleReport
+  savedViewId?: string | null
+  view: SavedViewState
+  dataSource?: string
+  format: ExportFormat
+  cadence: ScheduleCadence
+  dayOfWeek?: number
+  dayOfMonth?: number
+  time: string
+  timezone: string
+  recipients: string[]
+  enabled: boolean
+}
+
+// Report schedule service
+export const reportScheduleService = {
+  // Get the current user's schedules (all schedules for admins)
+  async getSchedules(): Promise<{ schedules: ReportSchedule[] }> {
+    try {
+      return await api.get<{ schedules: ReportSchedule[] }>(endpoints.reportSchedules.list)
+    } catch (error: any) {
+      console.error('Get report schedules error:', error)
+      throw error
+    }
+  },
+
+  // Create a schedule
+  async createSchedule(data: ScheduleData): Promise<{ message: string; schedule: ReportSchedule }> {
+    try {
+      return await api.post<{ message: string; schedule: ReportSchedule }>(endpoints.reportSchedules.list, data)
+    } catch (error: any) {
+      console.error('Create report schedule error:', error)
+      throw error
+    }
+  },
+
+  // Update a schedule (also used to pause/resume)
+  async updateSchedule(id: string, data: Partial<ScheduleData>): Promise<{ message: string; schedule: ReportSchedule }> {
+    try {
+      return await api.put<{ message: string; schedule: ReportSchedule }>(endpoints.reportSchedules.schedule(id), data)
+    } catch (error: any) {
+      console.error('Update report schedule error:', error)
+      throw error
+    }
+  },
+
+  // Delete a schedule
+  async deleteSchedule(id: string): Promise<{ message: string }> {
+    try {
+      return await api.delete<{ message: string }>(endpoints.reportSchedules.schedule(id))
+    } catch (error: any) {
+      console.error('Delete report schedule error:', error)
+      throw error
+    }
+  },
+
+  // Send the report to its recipients now, outside the cadence
+  async runSchedule(id: string): Promise<{ message: string; schedule: ReportSchedule }> {
+    try {
+      return await api.post<{ message: string; schedule: ReportSchedule }>(endpoints.reportSchedules.run(id))
+    } catch (error: any) {
+      console.error('Run report schedule error:', error)
+      throw error
+    }
+  }
+}
+
+// Export types
+export type {
+  ReportSchedule,
+  ScheduleCadence,
+  ScheduleData,
+  ScheduleReport
+}
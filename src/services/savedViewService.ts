@@ -0,0 +1,96 @@
+import { api, endpoints } from './apiClient'
+import type { DataFilters } from '../contexts/DataContext'
+import type { QueryGroup } from '../lib/rawQuery'
+
+// Types
+type SavedViewPage = 'call-logs' | 'raw-data' | 'area-codes' | 'extensions'
+
+type UserRole = 'admin' | 'manager' | 'user' | 'viewer'
+
+interface SavedViewState {
+  filters: DataFilters
+  search?: string
+  sortBy: string
+  sortOrder: 'asc' | 'desc'
+  pageSize: number
+  // Undefined means the page's default column set
+  columns?: string[]
+  // Raw Data query builder conditions
+  query?: QueryGroup
+}
+
+interface SavedView {
+  _id: string
+  name: string
+  page: SavedViewPage
+  // Data source the view was saved against
+  dataSource?: string
+  sharedWithRole?: UserRole | null
+  owner: {
+    _id: string
+    fullName?: string
+  }
+  view: SavedViewState
+  createdAt: string
+  updatedAt: string
+}
+
+interface SaveViewData {
+  name: string
+  page: SavedViewPage
+  dataSource?: string
+  sharedWithRole?: UserRole | null
+  view: SavedViewState
+}
+
+// Saved view service
+export const savedViewService = {
+  // Get the current user's views plus views shared with their role
+  async getViews(page: SavedViewPage): Promise<{ views: SavedView[] }> {
+    try {
+      return await api.get<{ views: SavedView[] }>(endpoints.savedViews.list, { params: { page } })
+    } catch (error: any) {
+      console.error('Get saved views error:', error)
+      throw error
+    }
+  },
+
+  // Create a saved view
+  async createView(data: SaveViewData): Promise<{ message: string; view: SavedView }> {
+    try {
+      return await api.post<{ message: string; view: SavedView }>(endpoints.savedViews.list, data)
+    } catch (error: any) {
+      console.error('Create saved view error:', error)
+      throw error
+    }
+  },
+
+  // Update a saved view (owner only)
+  async updateView(id: string, data: Partial<SaveViewData>): Promise<{ message: string; view: SavedView }> {
+    try {
+      return await api.put<{ message: string; view: SavedView }>(endpoints.savedViews.view(id), data)
+    } catch (error: any) {
+      console.error('Update saved view error:', error)
+      throw error
+    }
+  },
+
+  // Delete a saved view (owner only)
+  async deleteView(id: string): Promise<{ message: string }> {
+    try {
+      return await api.delete<{ message: string }>(endpoints.savedViews.view(id))
+    } catch (error: any) {
+      console.error('Delete saved view error:', error)
+      throw error
+    }
+  }
+}
+
+// Export types
+export type {
+  SavedView,
+  SavedViewPage,
+  SavedViewState,
+  SaveViewData,
+  UserRole
+}
@@ -1,4 +1,4 @@
-import axios from 'axios'
+import { api, endpoints, isCancelled } from './apiClient'
 
 // Types
 interface User {
@@ -112,55 +112,15 @@ interface UserQueryParams {
   sortOrder?: 'asc' | 'desc'
 }
 
-// Configure axios defaults
-const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
-
-// Create axios instance
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  timeout: 10000,
-  headers: {
-    'Content-Type': 'application/json'
-  }
-})
-
-// Request interceptor to add auth token
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token')
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`
-    }
-    return config
-  },
-  (error) => {
-    return Promise.reject(error)
-  }
-)
-
-// Response interceptor to handle auth errors
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem('token')
-      window.location.href = '/login'
-    }
-    return Promise.reject(error)
-  }
-)
-
 // User service
 export const userService = {
   // Get all users with filtering and pagination
   async getUsers(params: UserQueryParams = {}, signal?: AbortSignal): Promise<UsersResponse> {
     try {
-      const response = await apiClient.get<UsersResponse>('/users', { params, signal })
-      return response.data
+      return await api.get<UsersResponse>(endpoints.users.list, { params, signal })
     } catch (error: any) {
       // Swallow cancellation errors so callers can ignore aborted requests
-      if (error?.name === 'CanceledError' || error?.code === 'ERR_CANCELED') {
+      if (isCancelled(error)) {
         throw error
       }
       console.error('Get users error:', error)
@@ -171,8 +131,7 @@ export const userService = {
   // Get user by ID
   async getUserById(id: string): Promise<{ user: User }> {
     try {
-      const response = await apiClient.get<{ user: User }>(`/users/${id}`)
-      return response.data
+      return await api.get<{ user: User }>(endpoints.users.user(id))
     } catch (error: any) {
       console.error('Get user by ID error:', error)
       throw error
@@ -182,8 +141,7 @@ export const userService = {
   // Create new user
   async createUser(userData: CreateUserData): Promise<{ message: string; user: User }> {
     try {
-      const response = await apiClient.post<{ message: string; user: User }>('/users', userData)
-      return response.data
+      return await api.post<{ message: string; user: User }>(endpoints.users.list, userData)
     } catch (error: any) {
       console.error('Create user error:', error)
       throw error
@@ -193,8 +151,7 @@ export const userService = {
   // Update user
   async updateUser(id: string, userData: UpdateUserData): Promise<{ message: string; user: User }> {
     try {
-      const response = await apiClient.put<{ message: string; user: User }>(`/users/${id}`, userData)
-      return response.data
+      return await api.put<{ message: string; user: User }>(endpoints.users.user(id), userData)
     } catch (error: any) {
       console.error('Update user error:', error)
       throw error
@@ -204,8 +161,7 @@ export const userService = {
   // Delete user (soft delete)
   async deleteUser(id: string): Promise<{ message: string }> {
     try {
-      const response = await apiClient.delete<{ message: string }>(`/users/${id}`)
-      return response.data
+      return await api.delete<{ message: string }>(endpoints.users.user(id))
     } catch (error: any) {
       console.error('Delete user error:', error)
       throw error
@@ -215,8 +171,7 @@ export const userService = {
   // Activate user
   async activateUser(id: string): Promise<{ message: string; user: User }> {
     try {
-      const response = await apiClient.put<{ message: string; user: User }>(`/users/${id}/activate`)
-      return response.data
+      return await api.put<{ message: string; user: User }>(endpoints.users.activate(id))
     } catch (error: any) {
       console.error('Activate user error:', error)
       throw error
@@ -226,8 +181,7 @@ export const userService = {
   // Get user statistics
   async getUserStats(): Promise<UserStats> {
     try {
-      const response = await apiClient.get<UserStats>('/users/stats/summary')
-      return response.data
+      return await api.get<UserStats>(endpoints.users.stats)
     } catch (error: any) {
       console.error('Get user stats error:', error)
       throw error